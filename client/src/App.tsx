@@ -6,9 +6,14 @@ import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/Dashboard";
 import Settings from "@/pages/Settings";
 import DataSource from "@/pages/DataSource";
+import Login from "@/pages/Login";
 import { Layout } from "@/components/layout/Layout";
 import { DeviceModeProvider } from "./contexts/DeviceModeContext";
 import { SystemProvider } from "./contexts/SystemContext";
+import { DeviceProvider } from "./contexts/DeviceContext";
+import { AuthProvider, useAuth } from "./contexts/AuthContext";
+import { RealtimeProvider } from "./contexts/RealtimeContext";
+import { Loader2 } from "lucide-react";
 
 function Router() {
   return (
@@ -22,17 +27,44 @@ function Router() {
   );
 }
 
+// Sem sessão ativa exibe a tela de login; os provedores de dados só são montados após o login
+function AuthenticatedApp() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-[#071427]">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Login />;
+  }
+
+  return (
+    <DeviceModeProvider>
+      <SystemProvider>
+        <DeviceProvider>
+          <RealtimeProvider>
+            <Layout>
+              <Router />
+            </Layout>
+          </RealtimeProvider>
+        </DeviceProvider>
+      </SystemProvider>
+    </DeviceModeProvider>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <DeviceModeProvider>
-        <SystemProvider>
-          <Layout>
-            <Router />
-          </Layout>
-          <Toaster />
-        </SystemProvider>
-      </DeviceModeProvider>
+      <AuthProvider>
+        <AuthenticatedApp />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -1,5 +1,5 @@
 import { formatTime, formatDateTime, formatNumber } from '@/lib/utils';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import {
   AreaChart,
   Area,
@@ -1,5 +1,5 @@
 import { formatTime, formatDateTime, formatNumber } from '@/lib/utils';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import {
   AreaChart,
   Area,
@@ -55,11 +55,9 @@ export function RechartsWaterLevelChart({
     
     return dataPoints.map(reading => {
       const date = new Date(reading.timestamp);
-      // Multiplicar por 100 se o valor estiver entre 0 e 1
-      const levelValue = reading.level <= 1 ? reading.level * 100 : reading.level;
       return {
         name: isHistorical ? formatDateTime(date) : formatTime(date),
-        nivel: levelValue,
+        nivel: reading.level, // Já em % (0-100)
         min: setpoints.min,
         max: setpoints.max,
         timestamp: reading.timestamp
@@ -11,7 +11,7 @@ import {
 } from 'recharts';
 
 interface SensorChartProps {
-  data: Array<{ value: number; timestamp: string }>;
+  data: Array<{ value: number; timestamp: string | number }>;
   minValue?: number;
   maxValue?: number;
   unit: string;
@@ -2,7 +2,7 @@ import { useEffect, useRef } from 'react';
 import Chart from 'chart.js/auto';
 import { formatTime, formatDateTime } from '@/lib/utils';
 import { temperatureChartConfig } from '@/lib/chartConfig';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 
 // Constante para o valor de erro do sensor
 const SENSOR_ERROR_VALUE = -127;
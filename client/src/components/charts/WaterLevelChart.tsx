@@ -2,7 +2,7 @@ import { useEffect, useRef } from 'react';
 import Chart from 'chart.js/auto';
 import { formatTime, formatDateTime } from '@/lib/utils';
 import { waterLevelChartConfig } from '@/lib/chartConfig';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 
 interface WaterLevelChartProps {
   readings: Reading[];
@@ -0,0 +1,107 @@
+import { useQuery } from '@tanstack/react-query';
+import { getDeviceUsage, ActuatorUsageSummary } from '@/lib/thingspeakApi';
+import { useDeviceContext } from '@/contexts/DeviceContext';
+import { cn } from '@/lib/utils';
+
+const USAGE_DAYS = 7;
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}min` : `${minutes} min`;
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatKwh(value: number): string {
+  return `${value.toFixed(value < 10 ? 2 : 1)} kWh`;
+}
+
+interface ActuatorUsageProps {
+  label: string;
+  icon: string;
+  barColor: string;
+  usage: ActuatorUsageSummary;
+}
+
+function ActuatorUsage({ label, icon, barColor, usage }: ActuatorUsageProps) {
+  const today = usage.daily[usage.daily.length - 1];
+
+  return (
+    <div className="p-3 bg-black/20 rounded-md">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <i className={`fas ${icon}`}></i>
+          <span className="text-white/90 text-sm font-medium">{label}</span>
+        </div>
+        <span className="text-[10px] text-white/40">{usage.watts} W</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+        <span className="text-white/50">Ligado hoje</span>
+        <span className="text-white/90 text-right">{formatDuration(today?.onSeconds || 0)}</span>
+        <span className="text-white/50">Ciclo de trabalho hoje</span>
+        <span className="text-white/90 text-right">{formatPercent(today?.dutyCycle || 0)}</span>
+        <span className="text-white/50">Partidas hoje</span>
+        <span className="text-white/90 text-right">{today?.starts || 0}</span>
+        <span className="text-white/50">Energia hoje</span>
+        <span className="text-white/90 text-right">{formatKwh(today?.energyKwh || 0)}</span>
+        <span className="text-white/50">Energia em {usage.daily.length} dias</span>
+        <span className="text-white/90 text-right">{formatKwh(usage.total.energyKwh)}</span>
+        <span className="text-white/50">Partidas em {usage.daily.length} dias</span>
+        <span className="text-white/90 text-right">{usage.total.starts}</span>
+      </div>
+
+      {/* Ciclo de trabalho de cada uma das últimas 24 horas */}
+      <div className="flex items-end gap-px h-10 mt-3">
+        {usage.hourly.map(hour => (
+          <div
+            key={hour.periodStart}
+            className="flex-1 h-full bg-black/30 rounded-sm flex items-end"
+            title={`${new Date(hour.periodStart).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}: ${formatPercent(hour.dutyCycle)} ligado, ${hour.starts} partida(s)`}
+          >
+            <div className={cn('w-full rounded-sm', barColor)} style={{ height: `${hour.dutyCycle * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] text-white/40 mt-1">
+        <span>-24h</span>
+        <span>agora</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Uso da bomba e do aquecedor do tanque selecionado: tempo ligado, partidas,
+ * ciclo de trabalho e energia estimada
+ */
+export function ActuatorUsageCard() {
+  const { selectedDeviceId } = useDeviceContext();
+
+  const { data: usage, isLoading } = useQuery({
+    queryKey: ['/api/devices', selectedDeviceId, 'usage', USAGE_DAYS],
+    queryFn: () => getDeviceUsage(selectedDeviceId, USAGE_DAYS),
+    refetchInterval: 60000
+  });
+
+  return (
+    <div className="control-card p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white/90 text-sm font-medium tracking-wide uppercase">Uso dos Equipamentos</h3>
+        <span className="text-xs text-white/50">Energia estimada pela potência cadastrada</span>
+      </div>
+
+      {isLoading || !usage ? (
+        <div className="text-white/50 text-sm">Carregando uso dos equipamentos...</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <ActuatorUsage label="Bomba" icon="fa-water text-blue-400" barColor="bg-blue-500/70" usage={usage.pump} />
+          <ActuatorUsage label="Aquecedor" icon="fa-fire text-orange-400" barColor="bg-orange-500/70" usage={usage.heater} />
+        </div>
+      )}
+    </div>
+  );
+}
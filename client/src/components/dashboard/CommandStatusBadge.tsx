@@ -0,0 +1,58 @@
+import { useQuery } from '@tanstack/react-query';
+import { Badge } from '@/components/ui/badge';
+import { getCommand, DeviceCommandResponse } from '@/lib/thingspeakApi';
+
+interface CommandStatusBadgeProps {
+  commandId?: number;
+}
+
+// Texto, ícone e cor de cada estado do comando
+function describeCommand(command?: DeviceCommandResponse) {
+  if (!command || command.state === 'queued' || command.state === 'sent') {
+    return { label: 'Enviando', icon: 'fa-paper-plane', className: 'text-white/60 border-white/10' };
+  }
+  if (command.state === 'failed') {
+    return { label: 'Falha no envio', icon: 'fa-times', className: 'text-red-400 border-red-400/30' };
+  }
+
+  switch (command.confirmation) {
+    case 'confirmed':
+      return { label: 'Confirmado', icon: 'fa-check', className: 'text-green-400 border-green-400/30' };
+    case 'timed_out':
+      return { label: 'Sem confirmação', icon: 'fa-hourglass-end', className: 'text-yellow-400 border-yellow-400/30' };
+    case 'contradicted':
+      return { label: 'Contrariado', icon: 'fa-exclamation-triangle', className: 'text-red-400 border-red-400/30' };
+    case 'superseded':
+      return { label: 'Substituído', icon: 'fa-forward', className: 'text-white/60 border-white/10' };
+    default:
+      return { label: 'Aguardando dispositivo', icon: 'fa-spinner fa-spin', className: 'text-blue-300 border-blue-300/30' };
+  }
+}
+
+/**
+ * Mostra o estado de confirmação do último comando enviado ao dispositivo
+ */
+export function CommandStatusBadge({ commandId }: CommandStatusBadgeProps) {
+  const commandQuery = useQuery({
+    queryKey: ['/api/commands', commandId],
+    queryFn: () => getCommand(commandId!),
+    enabled: commandId !== undefined,
+    // Consultar até o comando chegar a um estado final
+    refetchInterval: (query) => {
+      const command = query.state.data;
+      const finished = command && (command.state === 'failed' ||
+        (command.state === 'acknowledged' && command.confirmation !== 'pending'));
+      return finished ? false : 3000;
+    }
+  });
+
+  if (commandId === undefined) return null;
+
+  const { label, icon, className } = describeCommand(commandQuery.data);
+
+  return (
+    <Badge variant="outline" className={`text-[10px] h-4 ${className}`} title={`Comando #${commandId}`}>
+      <i className={`fas ${icon} mr-0.5 text-[8px]`}></i> {label}
+    </Badge>
+  );
+}
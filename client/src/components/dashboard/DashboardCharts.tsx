@@ -3,7 +3,7 @@ import { HorizontalTemperatureBar } from "@/components/charts/HorizontalTemperat
 import { ReadingsResponse, getHistoricalReadings } from "@/lib/thingspeakApi";
 import { formatDateForQuery, formatNumber, formatTime } from "@/lib/utils";
 import { useEffect, useState, useCallback, useMemo, useRef } from "react";
-import { Reading } from "@shared/schema";
+import { Reading } from "@shared/reading";
 import { Button } from "@/components/ui/button";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
@@ -11,14 +11,6 @@ import { DateRange } from "react-day-picker";
 import { addDays } from "date-fns";
 import { CompactDateRangePicker } from "@/components/ui/compact-date-range-picker";
 
-// Função auxiliar para converter nível de água para percentual (0-100)
-function convertLevelToPercent(value: number): number {
-  // Se o valor já for percentual (>1), retornar como está
-  if (value > 1) return value;
-  // Se for decimal (0-1), multiplicar por 100
-  return value * 100;
-}
-
 interface DashboardChartsProps {
   data?: ReadingsResponse;
   isLoading: boolean;
@@ -495,7 +487,7 @@ export function DashboardCharts({
               {/* Indicador de tempo real com valor de nível */}
               <div className="flex items-center ml-auto">
                 <span className="text-xs text-white italic">
-                  Tempo real: <span className={`font-bold ${levelBlink ? 'blink-value' : ''}`}>{latestReading ? `${convertLevelToPercent(latestReading.level).toFixed(1)}%` : '--%'}</span>
+                  Tempo real: <span className={`font-bold ${levelBlink ? 'blink-value' : ''}`}>{latestReading ? `${latestReading.level.toFixed(1)}%` : '--%'}</span>
                 </span>
               </div>
               
@@ -527,7 +519,7 @@ export function DashboardCharts({
                 <div className="space-y-4">
                   {/* Barra horizontal para nível de água - escala fixa 0-100% */}
                   <HorizontalLevelBar 
-                    value={latestReading ? convertLevelToPercent(latestReading.level) : levelStats.avg}
+                    value={latestReading ? latestReading.level : levelStats.avg}
                     min={0}
                     max={100}
                     avg={50}
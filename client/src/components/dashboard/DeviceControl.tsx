@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { Reading, Setpoint } from '@shared/schema';
+import { Setpoint } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import { Badge } from '@/components/ui/badge';
 import { formatTime } from '@/lib/utils';
 import { DeviceResponse, ReadingsResponse } from '@/lib/thingspeakApi';
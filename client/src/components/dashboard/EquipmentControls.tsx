@@ -2,7 +2,9 @@ import { PumpControl } from './PumpControl';
 import { HeaterControl } from './HeaterControl';
 import { PumpFlowControl } from './PumpFlowControl';
 import { SystemStatusCard } from './SystemStatusCard';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
 
 interface EquipmentControlsProps {
   latestReading?: Reading;
@@ -24,6 +26,9 @@ export function EquipmentControls({
   isLoading,
   setpoints
 }: EquipmentControlsProps) {
+  // Visualizadores acompanham os equipamentos, mas não podem comandá-los
+  const { hasRole } = useAuth();
+  const readOnly = !hasRole('operator');
 
   return (
     <div className="mb-4 sm:mb-6 md:mb-8 px-3 sm:px-4 md:px-6">
@@ -34,9 +39,21 @@ export function EquipmentControls({
           </div>
           <h2 id="equipment-heading" className="text-lg sm:text-xl md:text-2xl font-light text-white">Controle de Equipamentos</h2>
         </div>
+        {readOnly && (
+          <span className="ml-auto text-xs text-white/50">
+            <i className="fas fa-lock mr-1"></i>
+            Somente leitura
+          </span>
+        )}
       </div>
       
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6 lg:gap-6">
+      <fieldset
+        disabled={readOnly}
+        className={cn(
+          "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6 lg:gap-6",
+          readOnly && "pointer-events-none opacity-80"
+        )}
+      >
         <HeaterControl 
           latestReading={latestReading} 
           isLoading={isLoading}
@@ -58,7 +75,7 @@ export function EquipmentControls({
           latestReading={latestReading}
           isLoading={isLoading}
         />
-      </div>
+      </fieldset>
     </div>
   );
 }
@@ -5,11 +5,14 @@ import { Label } from '@/components/ui/label';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { updateHeaterStatus, getDeviceStatus, DeviceStatusResponse } from '@/lib/thingspeakApi';
 import { updateTargetTemperature } from '@/lib/thingspeakApiFunctions';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import { Badge } from '@/components/ui/badge';
+import { CommandStatusBadge } from './CommandStatusBadge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { formatNumber } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { ApiError, getApiErrorMessage } from '@/lib/queryClient';
 
 // Constante para o valor de erro do sensor
 const SENSOR_ERROR_VALUE = -127;
@@ -27,6 +30,7 @@ export function HeaterControl({
   minTemp = 24,
   maxTemp = 28
 }: HeaterControlProps) {
+  const { pollInterval } = useRealtime();
   const { toast } = useToast();
   const [isOn, setIsOn] = useState<boolean>(false);
   const [statusText, setStatusText] = useState<string>('Desconectado');
@@ -41,7 +45,7 @@ export function HeaterControl({
   const deviceStatusQuery = useQuery({
     queryKey: ['/api/device/status'],
     queryFn: getDeviceStatus,
-    refetchInterval: 2000,  // Atualiza a cada 2 segundos
+    refetchInterval: pollInterval(2000),  // A cada 2 segundos enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true
   });
 
@@ -61,6 +65,22 @@ export function HeaterControl({
       queryClient.invalidateQueries({ queryKey: ['/api/readings/latest'] });
       queryClient.invalidateQueries({ queryKey: ['/api/device/status'] });
     },
+    onError: (error) => {
+      // Intertravamento de segurança: mostra a regra que bloqueou o comando
+      if (error instanceof ApiError && error.code === 'INTERLOCKED') {
+        toast({
+          title: "Comando bloqueado",
+          description: error.serverMessage ?? "Bloqueado por intertravamento de segurança",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Erro no comando",
+        description: getApiErrorMessage(error, "Não foi possível alterar o aquecedor"),
+        variant: "destructive",
+      });
+    },
   });
   
   // Mutation para atualizar a temperatura alvo
@@ -127,8 +147,8 @@ export function HeaterControl({
   // Manter compatibilidade com o componente original
   useEffect(() => {
     if (latestReading && !deviceStatusQuery.data && !toggleHeaterMutation.isPending) {
-      setIsOn(latestReading.heater_status === 1);
-      setStatusText(latestReading.heater_status === 1 ? 'Ligado' : 'Desligado');
+      setIsOn(latestReading.heaterStatus);
+      setStatusText(latestReading.heaterStatus ? 'Ligado' : 'Desligado');
       
       // Atualizar timestamp da última leitura
       if (latestReading.timestamp) {
@@ -219,6 +239,7 @@ export function HeaterControl({
                 <i className="fas fa-clock mr-0.5 text-[8px]"></i> {lastUpdate}
               </Badge>
             )}
+            <CommandStatusBadge commandId={toggleHeaterMutation.data?.commandId} />
           </div>
           <div className="text-[10px] text-white/40">
             Status: {toggleHeaterMutation.isPending ? 'Atualizando...' : 'Pronto'}
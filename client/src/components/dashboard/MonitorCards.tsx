@@ -1,6 +1,6 @@
 import { TemperatureCard } from './TemperatureCard';
 import { WaterLevelSlider } from './WaterLevelSlider';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 
 interface MonitorCardsProps {
   latestReading?: Reading;
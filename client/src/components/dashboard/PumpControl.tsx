@@ -2,12 +2,15 @@ import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { useMutation, useQueryClient, useQuery } from '@tanstack/react-query';
 import { updatePumpStatus, getDeviceStatus, DeviceStatusResponse, updateOperationMode } from '@/lib/thingspeakApi';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import { Badge } from '@/components/ui/badge';
+import { CommandStatusBadge } from './CommandStatusBadge';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { ApiError, getApiErrorMessage } from '@/lib/queryClient';
 
 // Constante para o valor de erro do sensor
 const SENSOR_ERROR_VALUE = -127;
@@ -18,6 +21,7 @@ interface PumpControlProps {
 }
 
 export function PumpControl({ latestReading, isLoading }: PumpControlProps) {
+  const { pollInterval } = useRealtime();
   const [isOn, setIsOn] = useState<boolean>(false);
   const [statusText, setStatusText] = useState<string>('Desconectado');
   const [lastUpdate, setLastUpdate] = useState<string>('');
@@ -32,7 +36,7 @@ export function PumpControl({ latestReading, isLoading }: PumpControlProps) {
   const deviceStatusQuery = useQuery({
     queryKey: ['/api/device/status'],
     queryFn: getDeviceStatus,
-    refetchInterval: 2000,  // Atualiza a cada 2 segundos
+    refetchInterval: pollInterval(2000),  // A cada 2 segundos enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true
   });
 
@@ -51,6 +55,22 @@ export function PumpControl({ latestReading, isLoading }: PumpControlProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/readings/latest'] });
       queryClient.invalidateQueries({ queryKey: ['/api/device/status'] });
     },
+    onError: (error) => {
+      // Intertravamento de segurança: mostra a regra que bloqueou o comando
+      if (error instanceof ApiError && error.code === 'INTERLOCKED') {
+        toast({
+          title: "Comando bloqueado",
+          description: error.serverMessage ?? "Bloqueado por intertravamento de segurança",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Erro no comando",
+        description: getApiErrorMessage(error, "Não foi possível alterar a bomba"),
+        variant: "destructive",
+      });
+    },
   });
   
   const toggleOperationModeMutation = useMutation({
@@ -100,8 +120,8 @@ export function PumpControl({ latestReading, isLoading }: PumpControlProps) {
   // Manter compatibilidade com o componente original
   useEffect(() => {
     if (latestReading && !deviceStatusQuery.data && !togglePumpMutation.isPending) {
-      setIsOn(latestReading.pump_status === 1);
-      setStatusText(latestReading.pump_status === 1 ? 'Ligada' : 'Desligada');
+      setIsOn(latestReading.pumpStatus);
+      setStatusText(latestReading.pumpStatus ? 'Ligada' : 'Desligada');
       
       // Atualizar timestamp da última leitura
       if (latestReading.timestamp) {
@@ -182,6 +202,7 @@ export function PumpControl({ latestReading, isLoading }: PumpControlProps) {
                 <i className="fas fa-clock mr-0.5 text-[8px]"></i> {lastUpdate}
               </Badge>
             )}
+            <CommandStatusBadge commandId={togglePumpMutation.data?.commandId} />
           </div>
           <div className="text-[10px] text-white/40">
             Status: {togglePumpMutation.isPending ? 'Atualizando...' : 'Pronto'}
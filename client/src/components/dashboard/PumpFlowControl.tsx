@@ -12,11 +12,12 @@ import {
   getPumpCycleState,
   PumpCycleState
 } from '@/lib/thingspeakApiFunctions';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { Progress } from '@/components/ui/progress';
+import { useRealtime } from '@/contexts/RealtimeContext';
 
 interface PumpFlowControlProps {
   latestReading?: Reading;
@@ -24,6 +25,7 @@ interface PumpFlowControlProps {
 }
 
 export function PumpFlowControl({ latestReading, isLoading }: PumpFlowControlProps) {
+  const { pollInterval } = useRealtime();
   const { toast } = useToast();
   const [pumpOnTimer, setPumpOnTimer] = useState<number>(30);  // Valor padrão para evitar undefined
   const [pumpOffTimer, setPumpOffTimer] = useState<number>(30); // Valor padrão para evitar undefined
@@ -47,7 +49,7 @@ export function PumpFlowControl({ latestReading, isLoading }: PumpFlowControlPro
   const deviceStatusQuery = useQuery({
     queryKey: ['/api/device/status'],
     queryFn: getDeviceStatus,
-    refetchInterval: 2000,  // Atualiza a cada 2 segundos
+    refetchInterval: pollInterval(2000),  // A cada 2 segundos enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true
   });
   
@@ -55,7 +57,7 @@ export function PumpFlowControl({ latestReading, isLoading }: PumpFlowControlPro
   const pumpCycleQuery = useQuery({
     queryKey: ['/api/automation/pump-cycle'],
     queryFn: getPumpCycleState,
-    refetchInterval: 1000,  // Atualiza a cada 1 segundo para maior precisão
+    refetchInterval: pollInterval(1000),  // A cada 1 segundo enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true,
     enabled: isAutomaticMode, // Só consulta quando o modo automático está ativado
     retry: 0 // Não tentar novamente em caso de falha
@@ -367,6 +369,11 @@ export function PumpFlowControl({ latestReading, isLoading }: PumpFlowControlPro
               Auto
             </Badge>
           )}
+          {isAutomaticMode && pumpCycleQuery.data?.mode === 'level' && (
+            <Badge variant="outline" className="ml-1 text-[10px] text-cyan-400 border-cyan-400/30 bg-cyan-400/5 h-4" title="Bomba acionada pelo nível da água">
+              <i className="fas fa-water mr-0.5 text-[8px]"></i> Nível
+            </Badge>
+          )}
         </div>
         <div className="flex flex-wrap items-center gap-1 mb-0.5">
           {lastUpdate && (
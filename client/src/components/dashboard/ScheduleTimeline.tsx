@@ -0,0 +1,198 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSchedules, ScheduleInfo } from '@/lib/thingspeakApi';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+
+const DAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+const HOUR_MARKS = [0, 3, 6, 9, 12, 15, 18, 21, 24];
+const MINUTES_PER_DAY = 24 * 60;
+
+// Cor de cada combinação equipamento/ação
+const actionColors: Record<ScheduleInfo['target'], Record<ScheduleInfo['action'], string>> = {
+  pump: {
+    cycle: 'bg-blue-500/70',
+    on: 'bg-cyan-400/80',
+    off: 'bg-gray-500/60',
+    auto: 'bg-blue-500/70'
+  },
+  heater: {
+    cycle: 'bg-orange-500/70',
+    on: 'bg-orange-500/80',
+    off: 'bg-gray-500/60',
+    auto: 'bg-amber-400/70'
+  }
+};
+
+interface TimelineSegment {
+  schedule: ScheduleInfo;
+  day: number;
+  start: number; // minutos desde a meia-noite
+  end: number;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(value => parseInt(value));
+  return hours * 60 + minutes;
+}
+
+// Divide a janela de cada programação em trechos por dia (janelas que atravessam a meia-noite viram dois trechos)
+function buildSegments(schedules: ScheduleInfo[]): TimelineSegment[] {
+  const segments: TimelineSegment[] = [];
+
+  for (const schedule of schedules) {
+    if (!schedule.enabled) continue;
+    const start = toMinutes(schedule.startTime);
+    const end = toMinutes(schedule.endTime);
+
+    for (const day of schedule.daysOfWeek) {
+      if (start === end) {
+        segments.push({ schedule, day, start: 0, end: MINUTES_PER_DAY });
+      } else if (start < end) {
+        segments.push({ schedule, day, start, end });
+      } else {
+        segments.push({ schedule, day, start, end: MINUTES_PER_DAY });
+        if (end > 0) {
+          segments.push({ schedule, day: (day + 1) % 7, start: 0, end });
+        }
+      }
+    }
+  }
+
+  return segments;
+}
+
+// Dia da semana e minutos atuais no horário de Brasília, usado pelo marcador "agora"
+function getBrasiliaNow(): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: 'America/Sao_Paulo',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date());
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '0';
+
+  return {
+    day: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(part('weekday')),
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute'))
+  };
+}
+
+function describeAction(schedule: ScheduleInfo): string {
+  switch (schedule.action) {
+    case 'cycle':
+      return `${Math.round((schedule.pumpOnSeconds || 0) / 60)} min ligada / ${Math.round((schedule.pumpOffSeconds || 0) / 60)} min desligada`;
+    case 'on':
+      return schedule.target === 'pump' ? 'Sempre ligada' : 'Sempre ligado';
+    case 'off':
+      return schedule.target === 'pump' ? 'Desligada' : 'Desligado';
+    case 'auto':
+      return 'Termostato';
+  }
+}
+
+function describeDays(days: number[]): string {
+  if (days.length === 7) return 'Todos os dias';
+  return days.map(day => DAY_LABELS[day]).join(', ');
+}
+
+/**
+ * Linha do tempo semanal das programações por horário (bomba e aquecedor)
+ */
+export function ScheduleTimeline() {
+  const { data: schedules = [], isLoading } = useQuery({
+    queryKey: ['/api/schedules'],
+    queryFn: getSchedules,
+    refetchInterval: 60000
+  });
+
+  const segments = buildSegments(schedules);
+  const now = getBrasiliaNow();
+
+  return (
+    <div className="control-card p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white/90 text-sm font-medium tracking-wide uppercase">Programação Semanal</h3>
+        <span className="text-xs text-white/50">Horário de Brasília</span>
+      </div>
+
+      {isLoading ? (
+        <div className="text-white/50 text-sm">Carregando programações...</div>
+      ) : schedules.length === 0 ? (
+        <div className="text-white/50 text-sm">
+          Nenhuma programação cadastrada. A bomba segue os temporizadores e o aquecedor o controle manual/termostato.
+        </div>
+      ) : (
+        <>
+          {/* Escala de horas */}
+          <div className="flex ml-10 mb-1 relative h-4">
+            {HOUR_MARKS.map(hour => (
+              <span
+                key={hour}
+                className="absolute text-[10px] text-white/40 -translate-x-1/2"
+                style={{ left: `${(hour / 24) * 100}%` }}
+              >
+                {String(hour).padStart(2, '0')}h
+              </span>
+            ))}
+          </div>
+
+          {/* Uma linha por dia: bomba em cima, aquecedor embaixo */}
+          <div className="flex flex-col gap-1">
+            {DAY_LABELS.map((label, day) => (
+              <div key={label} className="flex items-center">
+                <span className={cn('w-10 text-xs', day === now.day ? 'text-white font-medium' : 'text-white/60')}>
+                  {label}
+                </span>
+                <div className="flex-1 relative h-6 bg-black/20 rounded-sm overflow-hidden">
+                  {segments
+                    .filter(segment => segment.day === day)
+                    .map((segment, index) => (
+                      <div
+                        key={`${segment.schedule.id}-${index}`}
+                        className={cn(
+                          'absolute h-1/2',
+                          segment.schedule.target === 'pump' ? 'top-0' : 'bottom-0',
+                          actionColors[segment.schedule.target][segment.schedule.action]
+                        )}
+                        style={{
+                          left: `${(segment.start / MINUTES_PER_DAY) * 100}%`,
+                          width: `${((segment.end - segment.start) / MINUTES_PER_DAY) * 100}%`
+                        }}
+                        title={`${segment.schedule.name}: ${segment.schedule.startTime}-${segment.schedule.endTime} (${describeAction(segment.schedule)})`}
+                      />
+                    ))}
+                  {day === now.day && (
+                    <div
+                      className="absolute top-0 bottom-0 w-px bg-white"
+                      style={{ left: `${(now.minutes / MINUTES_PER_DAY) * 100}%` }}
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Lista das programações */}
+          <div className="mt-4 flex flex-col gap-1.5">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="flex flex-wrap items-center gap-2 p-1.5 bg-black/20 rounded-md text-xs">
+                <span className={cn('inline-block w-3 h-3 rounded-sm', actionColors[schedule.target][schedule.action])}></span>
+                <i className={`fas ${schedule.target === 'pump' ? 'fa-water text-blue-400' : 'fa-fire text-orange-400'}`}></i>
+                <span className="text-white/90 font-medium">{schedule.name}</span>
+                <span className="text-white/60">{schedule.startTime}-{schedule.endTime}</span>
+                <span className="text-white/60">{describeAction(schedule)}</span>
+                <span className="text-white/40">{describeDays(schedule.daysOfWeek)}</span>
+                {!schedule.enabled && (
+                  <Badge variant="outline" className="text-[10px] px-1 py-0 border-white/20 text-white/50">
+                    Desativada
+                  </Badge>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSensorValues, getSensorHistory, SensorValue } from '@/lib/thingspeakApi';
+import { SensorChart } from '@/components/charts/SensorChart';
+import { useDeviceContext } from '@/contexts/DeviceContext';
+import { useRealtime } from '@/contexts/RealtimeContext';
+import { cn, formatDateForQuery } from '@/lib/utils';
+
+// Período do gráfico de cada sensor (agregado por hora no servidor)
+const HISTORY_DAYS = 2;
+
+// Ícone e cor por tipo de sensor do registro
+const SENSOR_STYLES: Record<string, { icon: string; color: string }> = {
+  ph: { icon: 'fa-flask', color: 'rgb(34, 197, 94)' },
+  dissolved_oxygen: { icon: 'fa-wind', color: 'rgb(45, 212, 191)' },
+  temperature: { icon: 'fa-temperature-high', color: 'rgb(234, 88, 12)' },
+  humidity: { icon: 'fa-droplet', color: 'rgb(125, 211, 252)' },
+  flow: { icon: 'fa-faucet', color: 'rgb(2, 132, 199)' },
+  pressure: { icon: 'fa-gauge-high', color: 'rgb(139, 92, 246)' },
+  level: { icon: 'fa-water', color: 'rgb(14, 165, 233)' },
+  other: { icon: 'fa-microchip', color: 'rgb(148, 163, 184)' }
+};
+
+function isOutOfAlertRange({ sensor, value }: SensorValue): boolean {
+  if (value === null) return false;
+  return (sensor.alertMin !== null && value < sensor.alertMin) || (sensor.alertMax !== null && value > sensor.alertMax);
+}
+
+function SensorCard({ item }: { item: SensorValue }) {
+  const { selectedDeviceId } = useDeviceContext();
+  const { sensor } = item;
+  const style = SENSOR_STYLES[sensor.type] || SENSOR_STYLES.other;
+
+  const endDate = new Date();
+  const startDate = new Date(endDate.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const start = formatDateForQuery(startDate);
+  const end = formatDateForQuery(endDate);
+
+  const { data: history } = useQuery({
+    queryKey: ['/api/sensors', sensor.key, 'history', selectedDeviceId, start, end],
+    queryFn: () => getSensorHistory(sensor.key, start, end),
+    refetchInterval: 5 * 60 * 1000
+  });
+
+  const alert = isOutOfAlertRange(item);
+
+  return (
+    <div className="p-3 bg-black/20 rounded-md">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <i className={`fas ${style.icon}`} style={{ color: style.color }}></i>
+          <span className="text-white/90 text-sm font-medium">{sensor.name}</span>
+        </div>
+        <span className="text-[10px] text-white/40">
+          {item.source === 'virtual' ? 'virtual' : item.stale ? 'sem leitura recente' : item.source === null ? 'sem dados' : 'hardware'}
+        </span>
+      </div>
+
+      <div className={cn('text-2xl font-semibold', alert ? 'text-red-400' : 'text-white')}>
+        {item.value !== null ? item.value.toFixed(sensor.decimals) : '--'}
+        <span className="text-sm font-light text-white/60 ml-1">{sensor.unit}</span>
+      </div>
+      <div className="text-[10px] text-white/40 mb-2">
+        Faixa de alerta: {sensor.alertMin ?? '-'} a {sensor.alertMax ?? '-'} {sensor.unit}
+      </div>
+
+      {history && history.readings.length > 0 ? (
+        <SensorChart
+          data={history.readings}
+          minValue={sensor.alertMin ?? undefined}
+          maxValue={sensor.alertMax ?? undefined}
+          unit={sensor.unit}
+          color={style.color}
+          decimals={sensor.decimals}
+        />
+      ) : (
+        <div className="h-[120px] flex items-center justify-center text-white/40 text-xs">
+          Sem histórico nas últimas {HISTORY_DAYS * 24} horas
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Sensores adicionais do registro (pH, oxigênio dissolvido, umidade, vazão...) do tanque
+ * selecionado: valor atual, fonte (hardware ou emulador) e histórico das últimas horas
+ */
+export function SensorsPanel() {
+  const { selectedDeviceId } = useDeviceContext();
+  const { pollInterval } = useRealtime();
+
+  const { data: values, isLoading } = useQuery({
+    queryKey: ['/api/sensors/values', selectedDeviceId],
+    queryFn: getSensorValues,
+    refetchInterval: pollInterval(30000)
+  });
+
+  if (!isLoading && (!values || values.length === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="control-card p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-white/90 text-sm font-medium tracking-wide uppercase">Sensores Adicionais</h3>
+        <span className="text-xs text-white/50">Cadastrados em /api/sensors</span>
+      </div>
+
+      {isLoading || !values ? (
+        <div className="text-white/50 text-sm">Carregando sensores...</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {values.map(item => <SensorCard key={item.sensor.key} item={item} />)}
+        </div>
+      )}
+    </div>
+  );
+}
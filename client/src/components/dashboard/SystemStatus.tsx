@@ -1,12 +1,13 @@
 import { useEffect, useState } from 'react';
 import { formatDateTime, calculateUptimeDays } from '@/lib/utils';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import { getSystemUptime, getDeviceStatus, DeviceStatusResponse, forceDeviceSync } from '@/lib/thingspeakApi';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/contexts/RealtimeContext";
 
 // Constante para o valor de erro do sensor
 const SENSOR_ERROR_VALUE = -127;
@@ -17,6 +18,7 @@ interface SystemStatusProps {
 }
 
 export function SystemStatus({ latestReading, isLoading }: SystemStatusProps) {
+  const { pollInterval } = useRealtime();
   const [uptime, setUptime] = useState<string>('0 dias');
   const [lastReadingTime, setLastReadingTime] = useState<string>('-');
   const [connectionStatus, setConnectionStatus] = useState<'stable' | 'unstable' | 'disconnected'>('stable');
@@ -28,7 +30,7 @@ export function SystemStatus({ latestReading, isLoading }: SystemStatusProps) {
   const deviceStatusQuery = useQuery({
     queryKey: ['/api/device/status'],
     queryFn: getDeviceStatus,
-    refetchInterval: 2000,  // Atualiza a cada 2 segundos
+    refetchInterval: pollInterval(2000),  // A cada 2 segundos enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true
   });
   
@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { formatDateTime, calculateUptimeDays } from '@/lib/utils';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import { getSystemUptime, getDeviceStatus, DeviceStatusResponse, forceDeviceSync } from '@/lib/thingspeakApi';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Badge } from '@/components/ui/badge';
@@ -8,6 +8,7 @@ import { Button } from '@/components/ui/button';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useToast } from "@/hooks/use-toast";
 import { cn } from '@/lib/utils';
+import { useRealtime } from '@/contexts/RealtimeContext';
 
 // Constante para o valor de erro do sensor
 const SENSOR_ERROR_VALUE = -127;
@@ -18,6 +19,7 @@ interface SystemStatusCardProps {
 }
 
 export function SystemStatusCard({ latestReading, isLoading }: SystemStatusCardProps) {
+  const { pollInterval } = useRealtime();
   const [uptime, setUptime] = useState<string>('0 dias');
   const [lastReadingTime, setLastReadingTime] = useState<string>('-');
   const [connectionStatus, setConnectionStatus] = useState<'stable' | 'unstable' | 'disconnected'>('stable');
@@ -29,7 +31,7 @@ export function SystemStatusCard({ latestReading, isLoading }: SystemStatusCardP
   const deviceStatusQuery = useQuery({
     queryKey: ['/api/device/status'],
     queryFn: getDeviceStatus,
-    refetchInterval: 2000,  // Atualiza a cada 2 segundos
+    refetchInterval: pollInterval(2000),  // A cada 2 segundos enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true
   });
   
@@ -91,11 +93,7 @@ export function SystemStatusCard({ latestReading, isLoading }: SystemStatusCardP
   // Update last reading time when latestReading changes
   useEffect(() => {
     if (latestReading && latestReading.timestamp) {
-      const timestampDate = latestReading.timestamp instanceof Date 
-        ? latestReading.timestamp 
-        : new Date(latestReading.timestamp);
-        
-      setLastReadingTime(formatDateTime(timestampDate));
+      setLastReadingTime(formatDateTime(new Date(latestReading.timestamp)));
       
       // Se a temperatura for o valor de erro do sensor, marcar a conexão como instável
       if (latestReading.temperature === SENSOR_ERROR_VALUE) {
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Reading } from '@shared/schema';
+import { Reading } from '@shared/reading';
 import { Skeleton } from "@/components/ui/skeleton";
 import { TemperatureGauge } from './TemperatureGauge';
 import { formatNumber } from '@/lib/utils';
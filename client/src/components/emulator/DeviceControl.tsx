@@ -54,7 +54,7 @@ export function DeviceControl({ deviceType, initialStatus, onStatusChange }: Dev
         
         if (!response.ok) {
           const errorData = await response.json();
-          throw new Error(errorData.message || `Falha ao atualizar status do ${deviceType}`);
+          throw new Error(errorData.error || `Falha ao atualizar status do ${deviceType}`);
         }
         
         return await response.json();
@@ -35,7 +35,7 @@ interface EmulatorConfig {
     pumpStatus: boolean;
     heaterStatus: boolean;
   };
-  mode: 'stable' | 'fluctuating' | 'random' | 'scenario';
+  mode: 'stable' | 'fluctuating' | 'random' | 'scenario' | 'thermal';
   scenarioName?: string;
 }
 
@@ -250,7 +250,7 @@ export function EmulatorPanel() {
   };
 
   const handleModeChange = (mode: string) => {
-    setConfigForm({ ...configForm, mode: mode as 'stable' | 'fluctuating' | 'random' | 'scenario' });
+    setConfigForm({ ...configForm, mode: mode as 'stable' | 'fluctuating' | 'random' | 'scenario' | 'thermal' });
   };
 
   const handleLoadScenario = () => {
@@ -339,6 +339,7 @@ export function EmulatorPanel() {
                       <SelectItem value="stable">Estável (valores fixos)</SelectItem>
                       <SelectItem value="fluctuating">Flutuante (variações pequenas)</SelectItem>
                       <SelectItem value="random">Aleatório (falhas ocasionais)</SelectItem>
+                      <SelectItem value="thermal">Térmico (água responde ao aquecedor)</SelectItem>
                     </SelectContent>
                   </Select>
                   <p className="text-xs text-gray-500">Como os valores dos sensores vão se comportar</p>
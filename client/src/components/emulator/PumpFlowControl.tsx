@@ -38,7 +38,7 @@ export function PumpFlowControl({ currentFlow = 70, onFlowChange }: PumpFlowCont
         
         if (!response.ok) {
           const errorData = await response.json();
-          throw new Error(errorData.message || 'Falha ao atualizar vazão da bomba');
+          throw new Error(errorData.error || 'Falha ao atualizar vazão da bomba');
         }
         
         return await response.json();
@@ -55,7 +55,8 @@ export function VirtualSensors({ refreshInterval = 2000 }: VirtualSensorsProps)
         
         if (!response.ok) {
           const errorData = await response.json();
-          if (errorData.message === 'O emulador não está ativo. Ative-o primeiro.') {
+          // Emulador desligado (CONFLICT): exibe os sensores zerados em vez de um erro
+          if (errorData.code === 'CONFLICT') {
             return {
               success: false,
               sensors: {
@@ -76,7 +77,7 @@ export function VirtualSensors({ refreshInterval = 2000 }: VirtualSensorsProps)
               timestamp: new Date().toISOString()
             };
           }
-          throw new Error(errorData.message || 'Falha ao buscar sensores virtuais');
+          throw new Error(errorData.error || 'Falha ao buscar sensores virtuais');
         }
         
         const data = await response.json();
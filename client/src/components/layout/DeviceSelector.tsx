@@ -0,0 +1,51 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useDeviceContext } from '@/contexts/DeviceContext';
+import { DeviceKind } from '@/lib/thingspeakApi';
+
+// Ícone de cada tipo de tanque
+const kindIcons: Record<DeviceKind, string> = {
+  grow_bed: 'fas fa-seedling',
+  fish_tank: 'fas fa-fish',
+  sump: 'fas fa-filter',
+  tank: 'fas fa-water'
+};
+
+/**
+ * Seletor do tanque exibido no painel (compartilhado entre Sidebar e MobileMenu)
+ */
+export function DeviceSelector() {
+  const { devices, selectedDeviceId, setSelectedDeviceId } = useDeviceContext();
+
+  // Com apenas o tanque principal não há o que selecionar
+  if (devices.length < 2) return null;
+
+  return (
+    <div className="mb-5">
+      <label className="text-xs uppercase tracking-wide text-white/50 mb-1.5 block" htmlFor="device-selector">
+        Tanque
+      </label>
+      <Select
+        value={String(selectedDeviceId)}
+        onValueChange={(value) => setSelectedDeviceId(parseInt(value))}
+      >
+        <SelectTrigger id="device-selector" className="bg-white/5 border-white/10 h-9">
+          <SelectValue placeholder="Selecione o tanque" />
+        </SelectTrigger>
+        <SelectContent>
+          {devices.map((device) => (
+            <SelectItem key={device.id} value={String(device.id)}>
+              <i className={`${kindIcons[device.kind] || kindIcons.tank} mr-2 text-blue-400`}></i>
+              {device.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
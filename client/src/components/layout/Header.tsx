@@ -1,5 +1,13 @@
 import { useState, useEffect } from 'react';
 import { formatFullDate, formatTime } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserRole } from '@/lib/thingspeakApi';
+
+const roleLabels: Record<UserRole, string> = {
+  viewer: 'Visualizador',
+  operator: 'Operador',
+  admin: 'Administrador'
+};
 
 interface HeaderProps {
   onMenuClick?: () => void;
@@ -8,6 +16,7 @@ interface HeaderProps {
 export function Header({ onMenuClick }: HeaderProps) {
   const [currentDate, setCurrentDate] = useState<string>(formatFullDate(new Date()));
   const [currentTime, setCurrentTime] = useState<string>(formatTime(new Date()));
+  const { user, logout } = useAuth();
 
   useEffect(() => {
     // Update time every second
@@ -43,6 +52,20 @@ export function Header({ onMenuClick }: HeaderProps) {
           <span className="mx-2">|</span>
           <i className="far fa-clock text-blue-500"></i>
           <span id="current-time">{currentTime}</span>
+          {user && (
+            <>
+              <span className="mx-2">|</span>
+              <i className="fas fa-user text-blue-500"></i>
+              <span>{user.username} ({roleLabels[user.role]})</span>
+              <button
+                className="ml-2 px-2 py-0.5 rounded-md bg-blue-600/20 hover:bg-blue-600/30 text-xs"
+                onClick={() => logout()}
+              >
+                <i className="fas fa-sign-out-alt mr-1"></i>
+                Sair
+              </button>
+            </>
+          )}
         </div>
       </div>
       
@@ -6,6 +6,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { formatNumber } from '@/lib/utils';
 import { useState, useEffect } from 'react';
 import { useSystemContext } from '@/contexts/SystemContext';
+import { DeviceSelector } from './DeviceSelector';
+import { useRealtime } from '@/contexts/RealtimeContext';
 
 // Compartilhado com o Sidebar.tsx
 const navItems = [
@@ -28,6 +30,7 @@ interface MobileMenuProps {
 }
 
 export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
+  const { pollInterval } = useRealtime();
   const [location] = useLocation();
   const [isUpdating, setIsUpdating] = useState(false);
   const [previousTemp, setPreviousTemp] = useState<number | null>(null);
@@ -52,7 +55,7 @@ export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
   const deviceStatusQuery = useQuery({
     queryKey: ['/api/device/status'],
     queryFn: getDeviceStatus,
-    refetchInterval: 2000,  // Atualiza a cada 2 segundos
+    refetchInterval: pollInterval(2000),  // A cada 2 segundos enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true,
     enabled: isOpen // Só executa a query quando o menu estiver aberto
   });
@@ -130,6 +133,9 @@ export function MobileMenu({ isOpen, onClose }: MobileMenuProps) {
           </button>
         </div>
 
+        {/* Tanque exibido no painel */}
+        <DeviceSelector />
+        
         {/* Navegação - Mantida igual à versão desktop */}
         <nav className="flex flex-col gap-1 mb-5">
           {navItems.map((item) => (
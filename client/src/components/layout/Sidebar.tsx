@@ -6,6 +6,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { formatNumber } from '@/lib/utils';
 import { useState, useEffect } from 'react';
 import { useSystemContext } from '@/contexts/SystemContext';
+import { DeviceSelector } from './DeviceSelector';
+import { useRealtime } from '@/contexts/RealtimeContext';
 
 const navItems = [
   {
@@ -22,6 +24,7 @@ const navItems = [
 ];
 
 export function Sidebar() {
+  const { pollInterval } = useRealtime();
   const [location] = useLocation();
   const [isUpdating, setIsUpdating] = useState(false);
   const [previousTemp, setPreviousTemp] = useState<number | null>(null);
@@ -45,7 +48,7 @@ export function Sidebar() {
   const deviceStatusQuery = useQuery({
     queryKey: ['/api/device/status'],
     queryFn: getDeviceStatus,
-    refetchInterval: 2000,  // Atualiza a cada 2 segundos
+    refetchInterval: pollInterval(2000),  // A cada 2 segundos enquanto não houver fluxo de eventos
     refetchIntervalInBackground: true
   });
 
@@ -113,6 +116,9 @@ export function Sidebar() {
             <h1 className="text-xl font-semibold">{systemName}</h1>
           </div>
           
+          {/* Tanque exibido no painel */}
+          <DeviceSelector />
+          
           {/* Itens de navegação reposicionados para o topo */}
           <nav className="flex flex-col gap-1 mb-5">
             {navItems.map((item) => (
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import {
+  getApiTokens,
+  createApiToken,
+  revokeApiToken,
+  ApiTokenInfo,
+  ApiTokenInput,
+  ApiTokenScope
+} from "@/lib/thingspeakApi";
+import { formatDateTime } from "@/lib/utils";
+
+const scopeLabels: Record<ApiTokenScope, string> = {
+  "readings:read": "Consultar leituras e estado",
+  "export:read": "Exportar históricos e registros",
+  "devices:control": "Comandar equipamentos e automação",
+  "settings:write": "Alterar configurações"
+};
+
+const emptyToken: ApiTokenInput = { name: "", scopes: ["readings:read"], expires_in_days: 90 };
+
+function getTokenStatus(token: ApiTokenInfo): string {
+  if (token.revoked) return "Revogado";
+  if (token.expiresAt <= Date.now()) return "Expirado";
+  return "Ativo";
+}
+
+/**
+ * Tokens de API para scripts e integrações (ex: Home Assistant), com escopos e validade
+ */
+export function ApiTokensTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<ApiTokenInput>(emptyToken);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery({
+    queryKey: ["/api/tokens"],
+    queryFn: getApiTokens
+  });
+
+  const createMutation = useMutation({
+    mutationFn: createApiToken,
+    onSuccess: ({ token, info }) => {
+      toast({
+        title: "Token criado",
+        description: `Copie o token de "${info.name}" agora, ele não será exibido novamente`
+      });
+      setCreatedToken(token);
+      setForm(emptyToken);
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível criar o token",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeApiToken,
+    onSuccess: () => {
+      toast({ title: "Token revogado" });
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível revogar o token",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setForm({
+      ...form,
+      scopes: checked ? [...form.scopes, scope] : form.scopes.filter((item) => item !== scope)
+    });
+  };
+
+  const canCreate = form.name.trim().length > 0 && form.scopes.length > 0 && form.expires_in_days >= 1;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Novo Token de API</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Scripts e integrações enviam o token no cabeçalho <code>Authorization: Bearer &lt;token&gt;</code>.
+            O token só acessa as rotas permitidas pelos escopos escolhidos e deixa de valer ao expirar ou ser revogado.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label htmlFor="token-name">Nome</Label>
+              <Input
+                id="token-name"
+                placeholder="Ex: Home Assistant"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="token-expiry">Validade (dias)</Label>
+              <Input
+                id="token-expiry"
+                type="number"
+                min={1}
+                max={3650}
+                value={form.expires_in_days}
+                onChange={(e) => setForm({ ...form, expires_in_days: parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-2">
+            {(Object.keys(scopeLabels) as ApiTokenScope[]).map((scope) => (
+              <div key={scope} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`token-scope-${scope}`}
+                  checked={form.scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                />
+                <Label htmlFor={`token-scope-${scope}`}>
+                  {scopeLabels[scope]} <span className="text-xs text-muted-foreground">({scope})</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Button onClick={() => createMutation.mutate(form)} disabled={!canCreate || createMutation.isPending}>
+            {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Criar token
+          </Button>
+
+          {createdToken && (
+            <div className="space-y-2 rounded-md border p-3">
+              <p className="text-sm font-medium">Copie o token agora, ele não será exibido novamente:</p>
+              <div className="flex gap-2">
+                <Input readOnly value={createdToken} className="font-mono" onFocus={(e) => e.target.select()} />
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard?.writeText(createdToken);
+                    toast({ title: "Token copiado" });
+                  }}
+                >
+                  Copiar
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tokens Emitidos</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nenhum token emitido.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nome</TableHead>
+                  <TableHead>Escopos</TableHead>
+                  <TableHead>Expira em</TableHead>
+                  <TableHead>Último uso</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map((token) => {
+                  const status = getTokenStatus(token);
+                  return (
+                    <TableRow key={token.id}>
+                      <TableCell className="font-medium">
+                        {token.name}
+                        <div className="text-xs text-muted-foreground font-mono">{token.tokenPrefix}…</div>
+                      </TableCell>
+                      <TableCell className="text-xs">{token.scopes.join(", ")}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(new Date(token.expiresAt))}</TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {token.lastUsedAt ? formatDateTime(new Date(token.lastUsedAt)) : "Nunca"}
+                      </TableCell>
+                      <TableCell>{status}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={status !== "Ativo" || revokeMutation.isPending}
+                          onClick={() => revokeMutation.mutate(token.id)}
+                        >
+                          Revogar
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
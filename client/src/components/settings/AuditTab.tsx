@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { getAuditEntries, AuditField, AuditSource } from "@/lib/thingspeakApi";
+import { useDeviceContext } from "@/contexts/DeviceContext";
+import { formatDateTime } from "@/lib/utils";
+
+const PAGE_SIZE = 25;
+
+const fieldLabels: Record<AuditField, string> = {
+  "pump": "Bomba",
+  "heater": "Aquecedor",
+  "mode": "Modo automático",
+  "target-temperature": "Temperatura alvo",
+  "pump-on-timer": "Tempo bomba ligada",
+  "pump-off-timer": "Tempo bomba desligada",
+  "pump-flow": "Vazão da bomba"
+};
+
+const sourceLabels: Record<AuditSource, string> = {
+  ui: "Interface",
+  api: "API",
+  automation: "Automação",
+  rule: "Regra"
+};
+
+function formatValue(field: AuditField, value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "boolean") {
+    if (field === "mode") return value ? "Automático" : "Manual";
+    return value ? "Ligado" : "Desligado";
+  }
+  if (field === "target-temperature") return `${value}°C`;
+  if (field === "pump-flow") return `${value}%`;
+  if (field === "pump-on-timer" || field === "pump-off-timer") return `${value}s`;
+  return String(value);
+}
+
+/**
+ * Histórico de comandos: quem alterou cada atuador do tanque selecionado, quando e de onde
+ */
+export function AuditTab() {
+  const { selectedDeviceId } = useDeviceContext();
+  const [field, setField] = useState<AuditField | "all">("all");
+  const [source, setSource] = useState<AuditSource | "all">("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const filters = {
+    deviceId: selectedDeviceId,
+    field: field === "all" ? undefined : field,
+    source: source === "all" ? undefined : source,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59`).toISOString() : undefined,
+    limit: PAGE_SIZE,
+    offset: page * PAGE_SIZE
+  };
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["/api/audit", filters],
+    queryFn: () => getAuditEntries(filters),
+    refetchInterval: 30000
+  });
+
+  const entries = data?.entries || [];
+  const total = data?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Qualquer mudança de filtro volta para a primeira página
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Histórico de Comandos</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Cada comando enviado à bomba, ao aquecedor e aos demais controles do tanque selecionado, pela interface,
+          pela API, pela automação ou pelas regras, com o valor anterior, o novo valor e o IP de origem.
+        </p>
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-1">
+            <Label>Controle</Label>
+            <Select value={field} onValueChange={updateFilter((value: string) => setField(value as AuditField | "all"))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                {(Object.keys(fieldLabels) as AuditField[]).map((name) => (
+                  <SelectItem key={name} value={name}>{fieldLabels[name]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Origem</Label>
+            <Select value={source} onValueChange={updateFilter((value: string) => setSource(value as AuditSource | "all"))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                {(Object.keys(sourceLabels) as AuditSource[]).map((name) => (
+                  <SelectItem key={name} value={name}>{sourceLabels[name]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">De</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => updateFilter(setFrom)(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">Até</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => updateFilter(setTo)(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center p-6">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum comando registrado com esses filtros.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Controle</TableHead>
+                <TableHead>Alteração</TableHead>
+                <TableHead>Origem</TableHead>
+                <TableHead>Responsável / IP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">{formatDateTime(new Date(entry.createdAt))}</TableCell>
+                  <TableCell>{fieldLabels[entry.field] || entry.field}</TableCell>
+                  <TableCell>
+                    {formatValue(entry.field, entry.oldValue)} → {formatValue(entry.field, entry.newValue)}
+                    {entry.statusCode !== null && entry.statusCode >= 400 && (
+                      <span className="ml-2 text-xs text-destructive">recusado ({entry.statusCode})</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{sourceLabels[entry.source] || entry.source}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {entry.actor || entry.ip || "—"}
+                    {entry.actor && entry.ip && <div className="text-xs">{entry.ip}</div>}
+                    {entry.route && <div className="text-xs">{entry.route}</div>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">
+            {total} registro(s) — página {page + 1} de {pageCount}
+          </span>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+              Anterior
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+              Próxima
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,478 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import {
+  getRules,
+  saveRule,
+  deleteRule,
+  AutomationRule,
+  AutomationRuleInput,
+  RuleAction,
+  RuleActuator,
+  RuleCondition,
+  RuleField,
+  RuleOperator
+} from "@/lib/thingspeakApi";
+import { formatDateTime } from "@/lib/utils";
+
+const fieldLabels: Record<RuleField, string> = {
+  temperature: "Temperatura (°C)",
+  level: "Nível (%)",
+  pump_status: "Bomba (1 = ligada)",
+  heater_status: "Aquecedor (1 = ligado)"
+};
+
+const operators: RuleOperator[] = ["<", "<=", ">", ">=", "==", "!="];
+
+const actuatorLabels: Record<RuleActuator, string> = {
+  "pump": "Bomba",
+  "heater": "Aquecedor",
+  "mode": "Modo automático",
+  "target-temperature": "Temperatura alvo",
+  "pump-on-timer": "Tempo bomba ligada (s)",
+  "pump-off-timer": "Tempo bomba desligada (s)",
+  "pump-flow": "Vazão da bomba (%)"
+};
+
+// Atuadores que recebem ligar/desligar em vez de um número
+const booleanActuators: RuleActuator[] = ["pump", "heater", "mode"];
+
+const emptyRule: AutomationRuleInput = {
+  name: "",
+  match: "all",
+  conditions: [{ field: "temperature", operator: "<", value: 22, duration_sec: 600 }],
+  actions: [{ type: "command", actuator: "heater", value: true }],
+  cooldown_sec: 300,
+  enabled: true
+};
+
+function toInput(rule: AutomationRule): AutomationRuleInput {
+  return {
+    name: rule.name,
+    description: rule.description || undefined,
+    match: rule.match,
+    conditions: rule.conditions,
+    actions: rule.actions,
+    cooldown_sec: rule.cooldownSec,
+    enabled: rule.enabled
+  };
+}
+
+function describeCondition(condition: RuleCondition): string {
+  const duration = condition.duration_sec > 0 ? ` por ${Math.round(condition.duration_sec / 60)} min` : "";
+  return `${fieldLabels[condition.field]} ${condition.operator} ${condition.value}${duration}`;
+}
+
+function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case "command":
+      return typeof action.value === "boolean"
+        ? `${action.value ? "ligar" : "desligar"} ${actuatorLabels[action.actuator].toLowerCase()}`
+        : `${actuatorLabels[action.actuator].toLowerCase()} = ${action.value}`;
+    case "alert":
+      return "enviar alerta por e-mail";
+    case "event":
+      return "registrar evento";
+  }
+}
+
+export function RulesTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<AutomationRuleInput>(emptyRule);
+
+  const { data: rules = [], isLoading } = useQuery({
+    queryKey: ["/api/rules"],
+    queryFn: getRules
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ rule, id }: { rule: AutomationRuleInput; id?: number }) => saveRule(rule, id),
+    onSuccess: (rule) => {
+      toast({
+        title: "Regra salva",
+        description: `A regra "${rule.name}" foi salva com sucesso`
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Não foi possível salvar a regra",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteRule,
+    onSuccess: () => {
+      toast({ title: "Regra removida" });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError: () => {
+      toast({
+        title: "Erro",
+        description: "Não foi possível remover a regra",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyRule);
+  };
+
+  const submitForm = () => {
+    saveMutation.mutate(
+      { rule: form, id: editingId ?? undefined },
+      { onSuccess: resetForm }
+    );
+  };
+
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    setForm((prev) => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition))
+    }));
+  };
+
+  const updateAction = (index: number, action: RuleAction) => {
+    setForm((prev) => ({
+      ...prev,
+      actions: prev.actions.map((current, i) => (i === index ? action : current))
+    }));
+  };
+
+  // Ação padrão ao trocar o tipo
+  const actionForType = (type: RuleAction["type"]): RuleAction => {
+    switch (type) {
+      case "command":
+        return { type, actuator: "heater", value: true };
+      case "alert":
+        return { type };
+      case "event":
+        return { type, level: "info" };
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-6">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Regras de Automação</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            As regras são avaliadas a cada nova leitura do tanque selecionado. Quando as condições se mantêm
+            pelo tempo informado, as ações são executadas e a regra aguarda o intervalo mínimo antes de agir novamente.
+          </p>
+
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground">Nenhuma regra cadastrada.</p>
+          )}
+
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-md border">
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="font-medium">{rule.name}</div>
+                <div className="text-sm text-muted-foreground">
+                  SE {rule.conditions.map(describeCondition).join(rule.match === "all" ? " E " : " OU ")}
+                  {" "}ENTÃO {rule.actions.map(describeAction).join(", ")}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {rule.lastTriggeredAt
+                    ? `Último acionamento: ${formatDateTime(new Date(rule.lastTriggeredAt))}`
+                    : "Nunca acionada"}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.enabled}
+                  onCheckedChange={(checked) =>
+                    saveMutation.mutate({ rule: { ...toInput(rule), enabled: checked }, id: rule.id })
+                  }
+                  aria-label="Ativar regra"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setEditingId(rule.id);
+                    setForm(toInput(rule));
+                  }}
+                >
+                  Editar
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(rule.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  Remover
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{editingId ? "Editar Regra" : "Nova Regra"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Nome</Label>
+              <Input
+                id="rule-name"
+                placeholder="Aquecer à noite"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-cooldown">Intervalo mínimo entre acionamentos (min)</Label>
+              <Input
+                id="rule-cooldown"
+                type="number"
+                min={0}
+                value={Math.round(form.cooldown_sec / 60)}
+                onChange={(e) => setForm((prev) => ({ ...prev, cooldown_sec: (parseInt(e.target.value) || 0) * 60 }))}
+              />
+            </div>
+          </div>
+
+          {/* Condições */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Condições</Label>
+              <Select
+                value={form.match}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, match: value as "all" | "any" }))}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas (E)</SelectItem>
+                  <SelectItem value="any">Qualquer uma (OU)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.conditions.map((condition, index) => (
+              <div key={index} className="grid grid-cols-2 sm:grid-cols-5 gap-2 items-center">
+                <Select
+                  value={condition.field}
+                  onValueChange={(value) => updateCondition(index, { field: value as RuleField })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(fieldLabels) as RuleField[]).map((field) => (
+                      <SelectItem key={field} value={field}>{fieldLabels[field]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(value) => updateCondition(index, { operator: value as RuleOperator })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map((operator) => (
+                      <SelectItem key={operator} value={operator}>{operator}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.1"
+                  value={condition.value}
+                  onChange={(e) => updateCondition(index, { value: parseFloat(e.target.value) || 0 })}
+                  aria-label="Valor"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  value={Math.round(condition.duration_sec / 60)}
+                  onChange={(e) => updateCondition(index, { duration_sec: (parseInt(e.target.value) || 0) * 60 })}
+                  aria-label="Duração (min)"
+                  title="Duração (min)"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm((prev) => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }))}
+                  disabled={form.conditions.length === 1}
+                >
+                  Remover
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setForm((prev) => ({
+                ...prev,
+                conditions: [...prev.conditions, { field: "heater_status", operator: "==", value: 0, duration_sec: 0 }]
+              }))}
+            >
+              Adicionar condição
+            </Button>
+          </div>
+
+          {/* Ações */}
+          <div className="space-y-2">
+            <Label>Ações</Label>
+            {form.actions.map((action, index) => (
+              <div key={index} className="grid grid-cols-2 sm:grid-cols-4 gap-2 items-center">
+                <Select
+                  value={action.type}
+                  onValueChange={(value) => updateAction(index, actionForType(value as RuleAction["type"]))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="command">Comando</SelectItem>
+                    <SelectItem value="alert">Alerta por e-mail</SelectItem>
+                    <SelectItem value="event">Registrar evento</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {action.type === "command" && (
+                  <>
+                    <Select
+                      value={action.actuator}
+                      onValueChange={(value) => {
+                        const actuator = value as RuleActuator;
+                        updateAction(index, {
+                          type: "command",
+                          actuator,
+                          value: booleanActuators.includes(actuator) ? true : 0
+                        });
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(actuatorLabels) as RuleActuator[]).map((actuator) => (
+                          <SelectItem key={actuator} value={actuator}>{actuatorLabels[actuator]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {booleanActuators.includes(action.actuator) ? (
+                      <Select
+                        value={action.value ? "on" : "off"}
+                        onValueChange={(value) => updateAction(index, { ...action, value: value === "on" })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="on">Ligar</SelectItem>
+                          <SelectItem value="off">Desligar</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        type="number"
+                        value={Number(action.value)}
+                        onChange={(e) => updateAction(index, { ...action, value: parseFloat(e.target.value) || 0 })}
+                        aria-label="Valor"
+                      />
+                    )}
+                  </>
+                )}
+
+                {action.type === "event" && (
+                  <Select
+                    value={action.level}
+                    onValueChange={(value) => updateAction(index, { ...action, level: value as "info" | "warning" | "error" })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="info">Informação</SelectItem>
+                      <SelectItem value="warning">Aviso</SelectItem>
+                      <SelectItem value="error">Erro</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+
+                {action.type !== "command" && (
+                  <Input
+                    className={action.type === "alert" ? "col-span-2" : undefined}
+                    placeholder="Mensagem (opcional)"
+                    value={action.message || ""}
+                    onChange={(e) => updateAction(index, { ...action, message: e.target.value || undefined })}
+                  />
+                )}
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm((prev) => ({ ...prev, actions: prev.actions.filter((_, i) => i !== index) }))}
+                  disabled={form.actions.length === 1}
+                >
+                  Remover
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setForm((prev) => ({ ...prev, actions: [...prev.actions, { type: "alert" }] }))}
+            >
+              Adicionar ação
+            </Button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2 pt-4">
+            <Button onClick={submitForm} disabled={saveMutation.isPending || !form.name}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {editingId ? "Salvar Alterações" : "Criar Regra"}
+            </Button>
+            {editingId && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancelar
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
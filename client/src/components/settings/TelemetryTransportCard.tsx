@@ -0,0 +1,99 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+interface TelemetrySettings {
+  success: boolean;
+  transport: string;
+  description: string;
+  available: string[];
+}
+
+// Rótulos amigáveis para os transportes conhecidos
+const transportLabels: Record<string, string> = {
+  thingspeak: 'ThingSpeak (HTTP)',
+  mqtt: 'MQTT (broker local)',
+  mock: 'Simulado em memória'
+};
+
+export function TelemetryTransportCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<TelemetrySettings>({
+    queryKey: ['/api/settings/telemetry'],
+    queryFn: async () => {
+      const response = await fetch('/api/settings/telemetry');
+      if (!response.ok) {
+        throw new Error('Falha ao obter transporte de telemetria');
+      }
+      return response.json();
+    }
+  });
+
+  const transportMutation = useMutation({
+    mutationFn: async (transport: string) => {
+      const response = await apiRequest('POST', '/api/settings/telemetry', { transport });
+      return response.json();
+    },
+    onSuccess: (result: any) => {
+      toast({
+        title: "Transporte alterado",
+        description: `Comunicação com o dispositivo via ${transportLabels[result.transport] || result.transport}`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/telemetry'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/device/status'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erro ao alterar transporte",
+        description: error.message || "Não foi possível alterar o transporte de telemetria",
+        variant: "destructive",
+      });
+    }
+  });
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center text-lg">
+          <i className="fas fa-satellite-dish mr-2"></i>
+          Transporte de Telemetria
+        </CardTitle>
+        <CardDescription>
+          Define por onde o servidor lê os sensores e envia comandos aos dispositivos
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Label htmlFor="telemetry-transport">Transporte ativo</Label>
+        {isLoading ? (
+          <Skeleton className="h-10 w-full" />
+        ) : (
+          <Select
+            value={data?.transport}
+            onValueChange={(value) => transportMutation.mutate(value)}
+            disabled={transportMutation.isPending}
+          >
+            <SelectTrigger id="telemetry-transport">
+              <SelectValue placeholder="Selecione o transporte" />
+            </SelectTrigger>
+            <SelectContent>
+              {(data?.available || []).map((name) => (
+                <SelectItem key={name} value={name}>
+                  {transportLabels[name] || name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <p className="text-xs text-muted-foreground">
+          A alteração é aplicada imediatamente e mantida após reiniciar o servidor.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { getUsers, saveUser, deleteUser, UserInput, UserRole } from "@/lib/thingspeakApi";
+import { useAuth } from "@/contexts/AuthContext";
+import { formatDateTime } from "@/lib/utils";
+import { getApiErrorMessage } from "@/lib/queryClient";
+
+const roleLabels: Record<UserRole, string> = {
+  viewer: "Visualizador",
+  operator: "Operador",
+  admin: "Administrador"
+};
+
+const emptyUser: UserInput = { username: "", password: "", role: "viewer" };
+
+/**
+ * Cadastro de usuários e papéis de acesso (somente administradores)
+ */
+export function UsersTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [form, setForm] = useState<UserInput>(emptyUser);
+  const [passwordFor, setPasswordFor] = useState<number | null>(null);
+  const [newPassword, setNewPassword] = useState("");
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ["/api/users"],
+    queryFn: getUsers
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: ({ user, id }: { user: UserInput; id?: number }) => saveUser(user, id),
+    onSuccess: (user, { id }) => {
+      toast({
+        title: id ? "Usuário alterado" : "Usuário cadastrado",
+        description: `As alterações de "${user.username}" foram salvas`
+      });
+      if (!id) setForm(emptyUser);
+      setPasswordFor(null);
+      setNewPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: getApiErrorMessage(error, "Não foi possível salvar o usuário"),
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteUser,
+    onSuccess: () => {
+      toast({ title: "Usuário removido" });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro",
+        description: getApiErrorMessage(error, "Não foi possível remover o usuário"),
+        variant: "destructive"
+      });
+    }
+  });
+
+  const canCreate = (form.username?.length || 0) >= 3 && (form.password?.length || 0) >= 8;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Novo Usuário</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Visualizadores apenas acompanham o sistema; operadores também comandam os equipamentos, a automação,
+            as programações e as regras; administradores também alteram configurações, backup, tanques e usuários.
+          </p>
+          <div className="grid gap-3 sm:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="user-username">Usuário</Label>
+              <Input
+                id="user-username"
+                value={form.username}
+                onChange={(e) => setForm({ ...form, username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="user-password">Senha (mínimo 8 caracteres)</Label>
+              <Input
+                id="user-password"
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Papel</Label>
+              <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value as UserRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(roleLabels) as UserRole[]).map((role) => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button onClick={() => saveMutation.mutate({ user: form })} disabled={!canCreate || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cadastrar
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Usuários</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center p-6">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Usuário</TableHead>
+                  <TableHead>Papel</TableHead>
+                  <TableHead>Ativo</TableHead>
+                  <TableHead>Último acesso</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => {
+                  const isSelf = user.id === currentUser?.id;
+                  return (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">
+                        {user.username}
+                        {isSelf && <span className="ml-2 text-xs text-muted-foreground">(você)</span>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => saveMutation.mutate({ user: { role: value as UserRole }, id: user.id })}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(roleLabels) as UserRole[]).map((role) => (
+                              <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={user.active}
+                          disabled={isSelf}
+                          onCheckedChange={(active) => saveMutation.mutate({ user: { active }, id: user.id })}
+                        />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap text-muted-foreground">
+                        {user.lastLoginAt ? formatDateTime(new Date(user.lastLoginAt)) : "Nunca"}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        {passwordFor === user.id ? (
+                          <div className="inline-flex gap-2">
+                            <Input
+                              type="password"
+                              autoComplete="new-password"
+                              placeholder="Nova senha"
+                              className="w-36"
+                              value={newPassword}
+                              onChange={(e) => setNewPassword(e.target.value)}
+                            />
+                            <Button
+                              size="sm"
+                              disabled={newPassword.length < 8 || saveMutation.isPending}
+                              onClick={() => saveMutation.mutate({ user: { password: newPassword }, id: user.id })}
+                            >
+                              Salvar
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setPasswordFor(null)}>
+                              Cancelar
+                            </Button>
+                          </div>
+                        ) : (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setPasswordFor(user.id);
+                                setNewPassword("");
+                              }}
+                            >
+                              Alterar senha
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              disabled={isSelf || deleteMutation.isPending}
+                              onClick={() => deleteMutation.mutate(user.id)}
+                            >
+                              Remover
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import {
+  createContext,
+  useContext,
+  ReactNode
+} from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { queryClient, getQueryFn, AUTH_QUERY_KEY } from '@/lib/queryClient';
+import { login as loginRequest, logout as logoutRequest, UserInfo, UserRole } from '@/lib/thingspeakApi';
+
+// Papéis do menor para o maior acesso (mesma ordem do servidor)
+const ROLE_ORDER: UserRole[] = ['viewer', 'operator', 'admin'];
+
+interface AuthContextProps {
+  user: UserInfo | null;
+  isLoading: boolean;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+  hasRole: (role: UserRole) => boolean;
+}
+
+const defaultState: AuthContextProps = {
+  user: null,
+  isLoading: true,
+  login: async () => {},
+  logout: async () => {},
+  hasRole: () => false
+};
+
+const AuthContext = createContext<AuthContextProps>(defaultState);
+
+export function useAuth() {
+  return useContext(AuthContext);
+}
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  // Sem sessão o servidor responde 401 e a consulta retorna null
+  const { data, isLoading } = useQuery<{ user: UserInfo } | null>({
+    queryKey: [AUTH_QUERY_KEY],
+    queryFn: getQueryFn({ on401: 'returnNull' })
+  });
+
+  const user = data?.user ?? null;
+
+  const login = async (username: string, password: string) => {
+    const loggedUser = await loginRequest(username, password);
+    queryClient.setQueryData([AUTH_QUERY_KEY], { user: loggedUser });
+  };
+
+  const logout = async () => {
+    try {
+      await logoutRequest();
+    } finally {
+      // Os dados em cache pertencem à sessão encerrada
+      queryClient.clear();
+      queryClient.setQueryData([AUTH_QUERY_KEY], null);
+    }
+  };
+
+  const hasRole = (role: UserRole) =>
+    !!user && ROLE_ORDER.indexOf(user.role) >= ROLE_ORDER.indexOf(role);
+
+  const value = {
+    user,
+    isLoading,
+    login,
+    logout,
+    hasRole
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
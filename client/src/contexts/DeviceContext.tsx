@@ -0,0 +1,80 @@
+import {
+  createContext,
+  useContext,
+  useState,
+  ReactNode,
+  useEffect
+} from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { queryClient, SELECTED_DEVICE_STORAGE_KEY } from '@/lib/queryClient';
+import { getDevices, DeviceInfo } from '@/lib/thingspeakApi';
+
+// Tanque principal, usado quando nenhum outro foi selecionado
+const DEFAULT_DEVICE_ID = 1;
+
+interface DeviceContextProps {
+  devices: DeviceInfo[];
+  selectedDeviceId: number;
+  selectedDevice: DeviceInfo | undefined;
+  setSelectedDeviceId: (id: number) => void;
+}
+
+const defaultState: DeviceContextProps = {
+  devices: [],
+  selectedDeviceId: DEFAULT_DEVICE_ID,
+  selectedDevice: undefined,
+  setSelectedDeviceId: () => {}
+};
+
+const DeviceContext = createContext<DeviceContextProps>(defaultState);
+
+export function useDeviceContext() {
+  return useContext(DeviceContext);
+}
+
+interface DeviceProviderProps {
+  children: ReactNode;
+}
+
+export function DeviceProvider({ children }: DeviceProviderProps) {
+  // Inicializa com o tanque armazenado no localStorage ou o tanque principal
+  const [selectedDeviceId, setSelectedDeviceIdState] = useState<number>(() => {
+    const savedId = parseInt(localStorage.getItem(SELECTED_DEVICE_STORAGE_KEY) || '');
+    return isNaN(savedId) ? DEFAULT_DEVICE_ID : savedId;
+  });
+
+  const { data: devices = [] } = useQuery({
+    queryKey: ['/api/devices'],
+    queryFn: getDevices,
+    staleTime: 60000
+  });
+
+  const setSelectedDeviceId = (id: number) => {
+    if (id === selectedDeviceId) return;
+    // Persistir antes de recarregar: o cabeçalho X-Device-Id é lido do localStorage pelo queryClient
+    localStorage.setItem(SELECTED_DEVICE_STORAGE_KEY, String(id));
+    setSelectedDeviceIdState(id);
+    // Os dados em cache pertencem ao tanque anterior
+    queryClient.resetQueries({ predicate: query => query.queryKey[0] !== '/api/devices' });
+  };
+
+  // Voltar ao tanque principal se o tanque selecionado foi desativado
+  useEffect(() => {
+    if (devices.length > 0 && !devices.some(device => device.id === selectedDeviceId)) {
+      setSelectedDeviceId(DEFAULT_DEVICE_ID);
+    }
+  }, [devices, selectedDeviceId]);
+
+  const value = {
+    devices,
+    selectedDeviceId,
+    selectedDevice: devices.find(device => device.id === selectedDeviceId),
+    setSelectedDeviceId
+  };
+
+  return (
+    <DeviceContext.Provider value={value}>
+      {children}
+    </DeviceContext.Provider>
+  );
+}
@@ -38,7 +38,7 @@ export interface EmulatorConfig {
     heaterStatus: boolean;
     pumpFlow: number;
   };
-  mode: 'stable' | 'fluctuating' | 'random' | 'scenario';
+  mode: 'stable' | 'fluctuating' | 'random' | 'scenario' | 'thermal';
   scenarioName?: string;
 }
 
@@ -0,0 +1,159 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useState,
+  ReactNode
+} from 'react';
+import { queryClient } from '@/lib/queryClient';
+import { isGitHubPagesEnv } from '@/lib/api-config';
+import { useToast } from '@/hooks/use-toast';
+import { useDeviceContext } from './DeviceContext';
+import { DeviceStatusResponse, RealtimeEvent } from '@/lib/thingspeakApi';
+
+// Com o fluxo de eventos conectado, as consultas periódicas viram apenas uma verificação de segurança
+const CONNECTED_POLL_INTERVAL = 60000;
+
+// Agrupa leituras que chegam em sequência (ex: importação) em uma única atualização
+const READING_INVALIDATE_DELAY = 500;
+
+interface RealtimeContextProps {
+  connected: boolean;
+  // Intervalo de atualização a usar nas consultas: o informado sem conexão, um intervalo longo com conexão
+  pollInterval: (fallbackMs: number) => number;
+}
+
+const defaultState: RealtimeContextProps = {
+  connected: false,
+  pollInterval: (fallbackMs) => fallbackMs
+};
+
+const RealtimeContext = createContext<RealtimeContextProps>(defaultState);
+
+export function useRealtime() {
+  return useContext(RealtimeContext);
+}
+
+interface RealtimeProviderProps {
+  children: ReactNode;
+}
+
+// Aplica o estado recebido sobre o cache de /api/device/status, mantendo os demais campos
+function patchDeviceStatus(status: Partial<NonNullable<DeviceStatusResponse['memoryState']>>) {
+  queryClient.setQueryData<DeviceStatusResponse>(['/api/device/status'], (current) => {
+    if (!current) return current;
+    return {
+      ...current,
+      pumpStatus: status.pumpStatus ?? current.pumpStatus,
+      heaterStatus: status.heaterStatus ?? current.heaterStatus,
+      operationMode: status.operationMode ?? current.operationMode,
+      source: 'memory',
+      memoryState: {
+        ...current.memoryState,
+        ...status,
+        timestamp: Date.now()
+      } as DeviceStatusResponse['memoryState']
+    };
+  });
+}
+
+/**
+ * Mantém uma conexão com /api/events e atualiza o cache das consultas conforme os eventos chegam
+ * Se a conexão cair, as consultas voltam aos intervalos normais até o navegador reconectar
+ */
+export function RealtimeProvider({ children }: RealtimeProviderProps) {
+  const { selectedDeviceId } = useDeviceContext();
+  const { toast } = useToast();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    // No GitHub Pages não há servidor para enviar eventos
+    if (isGitHubPagesEnv() || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(`/api/events?deviceId=${selectedDeviceId}`);
+    let readingTimer: ReturnType<typeof setTimeout> | null = null;
+    let sensorsTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const parse = (message: MessageEvent): RealtimeEvent | null => {
+      try {
+        return JSON.parse(message.data);
+      } catch {
+        return null;
+      }
+    };
+
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener('reading', () => {
+      if (readingTimer) return;
+      readingTimer = setTimeout(() => {
+        readingTimer = null;
+        queryClient.invalidateQueries({
+          predicate: query => String(query.queryKey[0]).startsWith('/api/readings/latest')
+        });
+      }, READING_INVALIDATE_DELAY);
+    });
+
+    source.addEventListener('sensors', () => {
+      if (sensorsTimer) return;
+      sensorsTimer = setTimeout(() => {
+        sensorsTimer = null;
+        queryClient.invalidateQueries({
+          predicate: query => String(query.queryKey[0]).startsWith('/api/sensors/values')
+        });
+      }, READING_INVALIDATE_DELAY);
+    });
+
+    source.addEventListener('device-status', (message) => {
+      const event = parse(message as MessageEvent);
+      if (event) patchDeviceStatus(event.data as Record<string, any>);
+    });
+
+    source.addEventListener('automation', (message) => {
+      const event = parse(message as MessageEvent);
+      if (event) queryClient.setQueryData(['/api/automation/pump-cycle'], event.data);
+    });
+
+    source.addEventListener('alert', (message) => {
+      const event = parse(message as MessageEvent);
+      if (!event) return;
+      const alert = event.data as { kind: string; title?: string; message?: string; parameter?: string; value?: number };
+      toast({
+        title: alert.title ?? 'Alerta',
+        description: alert.message ?? `${alert.parameter} fora da faixa: ${alert.value}`,
+        variant: 'destructive'
+      });
+    });
+
+    source.addEventListener('sync', (message) => {
+      const event = parse(message as MessageEvent);
+      const status = (event?.data as { status?: string } | undefined)?.status;
+      if (status === 'completed' || status === 'failed') {
+        queryClient.invalidateQueries({ queryKey: ['/api/backup/status'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/backup/stats'] });
+        queryClient.invalidateQueries({
+          predicate: query => String(query.queryKey[0]).startsWith('/api/historical-data')
+        });
+      }
+    });
+
+    return () => {
+      if (readingTimer) clearTimeout(readingTimer);
+      if (sensorsTimer) clearTimeout(sensorsTimer);
+      source.close();
+      setConnected(false);
+    };
+  }, [selectedDeviceId]);
+
+  const value = {
+    connected,
+    pollInterval: (fallbackMs: number) => connected ? Math.max(fallbackMs, CONNECTED_POLL_INTERVAL) : fallbackMs
+  };
+
+  return (
+    <RealtimeContext.Provider value={value}>
+      {children}
+    </RealtimeContext.Provider>
+  );
+}
@@ -1,9 +1,69 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { ApiErrorBody, ErrorCode } from "@shared/errors";
+
+// Chave do localStorage com o tanque selecionado na interface (ver DeviceContext)
+export const SELECTED_DEVICE_STORAGE_KEY = 'selectedDeviceId';
+
+// Cabeçalho que indica ao servidor qual tanque as rotas da API devem usar
+export function getSelectedDeviceHeader(): Record<string, string> {
+  const deviceId = localStorage.getItem(SELECTED_DEVICE_STORAGE_KEY);
+  return deviceId ? { 'X-Device-Id': deviceId } : {};
+}
+
+// Consulta da sessão atual (ver AuthContext)
+export const AUTH_QUERY_KEY = '/api/auth/me';
+
+// Identifica as requisições feitas pela interface no registro de auditoria dos comandos
+export const UI_REQUEST_HEADER: Record<string, string> = { 'X-Request-Source': 'ui' };
+
+/**
+ * Erro de uma resposta da API, com o code estável do corpo de erro (ver shared/errors)
+ * A mensagem mantém o formato "status: corpo" usado antes da introdução dos codes
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code: ErrorCode | null,
+    // Mensagem legível enviada pelo servidor
+    public readonly serverMessage: string | null,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// Lê o corpo de erro padrão da API; respostas fora do formato ficam sem code
+export async function toApiError(res: Response): Promise<ApiError> {
+  const text = (await res.text()) || res.statusText;
+  let body: Partial<ApiErrorBody> = {};
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Corpo em texto (ex: proxy ou servidor fora do ar)
+  }
+  return new ApiError(
+    `${res.status}: ${text}`,
+    res.status,
+    body.code ?? null,
+    typeof body.error === 'string' ? body.error : null,
+    body.details
+  );
+}
+
+// Mensagem para exibir ao usuário: a do servidor quando houver, senão a mensagem padrão informada
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof ApiError && error.serverMessage ? error.serverMessage : fallback;
+}
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
-    const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    // Sessão expirada ou encerrada: a interface volta para a tela de login
+    if (res.status === 401) {
+      queryClient.setQueryData([AUTH_QUERY_KEY], null);
+    }
+    throw await toApiError(res);
   }
 }
 
@@ -17,6 +77,8 @@ export async function apiRequest(
 ): Promise<Response> {
   // Merge headers
   const headers = {
+    ...UI_REQUEST_HEADER,
+    ...getSelectedDeviceHeader(),
     ...(data ? { "Content-Type": "application/json" } : {}),
     ...(options?.headers || {})
   };
@@ -52,6 +114,8 @@ export const getQueryFn: <T>(options: {
     const res = await fetch(urlWithCache, {
       credentials: "include",
       headers: {
+        ...UI_REQUEST_HEADER,
+        ...getSelectedDeviceHeader(),
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         'Pragma': 'no-cache',
         'Expires': '0'
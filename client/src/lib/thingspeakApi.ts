@@ -1,5 +1,6 @@
-import { apiRequest } from "./queryClient";
-import { Reading } from "@shared/schema";
+import { apiRequest, getSelectedDeviceHeader, toApiError, UI_REQUEST_HEADER } from "./queryClient";
+import { DEFAULT_DEVICE_ID } from "@shared/schema";
+import { Reading, ReadingFeedLike, readingFromFeed, SensorReading } from "@shared/reading";
 import { 
   getBaseUrl, 
   getThingspeakChannelId, 
@@ -87,6 +88,17 @@ async function fetchFromThingspeak(endpoint: string): Promise<any> {
   return response.json();
 }
 
+// Entrada lida diretamente do canal do ThingSpeak (tanque principal) → Reading
+function feedToReading(feed: ReadingFeedLike, id: number): Reading {
+  const reading = readingFromFeed(feed);
+  return {
+    ...reading,
+    id,
+    deviceId: DEFAULT_DEVICE_ID,
+    timestamp: reading.timestamp ?? Date.now()
+  };
+}
+
 // Get latest readings - with GitHub Pages support
 export async function getLatestReadings(limit = 60): Promise<ReadingsResponse> {
   // Adicionar timestamp para evitar cache e melhorar desempenho
@@ -107,14 +119,7 @@ export async function getLatestReadings(limit = 60): Promise<ReadingsResponse> {
       };
       
       // Transformar resposta do ThingSpeak no formato esperado
-      const readings: Reading[] = (data.feeds || []).map((feed: any, index: number) => ({
-        id: index,
-        temperature: parseFloat(feed.field1) || 0,
-        level: parseFloat(feed.field2) || 0,
-        pumpStatus: feed.field3 === '1' || feed.field3 === 1,
-        heaterStatus: feed.field4 === '1' || feed.field4 === 1,
-        timestamp: new Date(feed.created_at).getTime()
-      })).reverse();
+      const readings: Reading[] = (data.feeds || []).map(feedToReading).reverse();
       
       return {
         readings,
@@ -222,14 +227,7 @@ async function getThingspeakDataDirect(days: number = 7): Promise<HistoricalRead
     };
     
     // Transformar resposta do ThingSpeak no formato esperado
-    const readings: Reading[] = (data.feeds || []).map((feed: any, index: number) => ({
-      id: index,
-      temperature: parseFloat(feed.field1) || 0,
-      level: parseFloat(feed.field2) || 0,
-      pumpStatus: feed.field3 === '1' || feed.field3 === 1,
-      heaterStatus: feed.field4 === '1' || feed.field4 === 1,
-      timestamp: new Date(feed.created_at).getTime()
-    }));
+    const readings: Reading[] = (data.feeds || []).map(feedToReading);
     
     // Calcular estatísticas básicas
     const temps = readings.map(r => r.temperature).filter(t => t > 0);
@@ -328,6 +326,7 @@ function convertAggregatedDataToHistoricalResponse(
         // Adicionar o ponto expandido
         expandedReadings.push({
           id: idCounter++,
+          deviceId: DEFAULT_DEVICE_ID,
           temperature: (record.avg_temperature || 0) * tempRandomFactor,
           level: (record.avg_level || 0) * levelRandomFactor,
           // Alternar status com base na porcentagem (para visualização mais dinâmica)
@@ -472,7 +471,7 @@ export async function getThingspeakHistoricalReadings(
 }
 
 // Update pump status
-export async function updatePumpStatus(status: boolean): Promise<{ success: boolean; pumpStatus: boolean }> {
+export async function updatePumpStatus(status: boolean): Promise<{ success: boolean; pumpStatus: boolean; commandId?: number }> {
   // Se estamos no GitHub Pages, usar ThingSpeak diretamente se permitido
   if (isGitHubPagesEnv()) {
     // Verificar se o controle direto está habilitado
@@ -503,7 +502,7 @@ export async function updatePumpStatus(status: boolean): Promise<{ success: bool
 }
 
 // Update heater status
-export async function updateHeaterStatus(status: boolean): Promise<{ success: boolean; heaterStatus: boolean }> {
+export async function updateHeaterStatus(status: boolean): Promise<{ success: boolean; heaterStatus: boolean; commandId?: number }> {
   // Se estamos no GitHub Pages, usar ThingSpeak diretamente se permitido
   if (isGitHubPagesEnv()) {
     // Verificar se o controle direto está habilitado
@@ -534,7 +533,7 @@ export async function updateHeaterStatus(status: boolean): Promise<{ success: bo
 }
 
 // Update operation mode
-export async function updateOperationMode(isAutomatic: boolean): Promise<{ success: boolean; operationMode: boolean }> {
+export async function updateOperationMode(isAutomatic: boolean): Promise<{ success: boolean; operationMode: boolean; commandId?: number }> {
   // Se estamos no GitHub Pages, usar ThingSpeak diretamente se permitido
   if (isGitHubPagesEnv()) {
     // Verificar se o controle direto está habilitado
@@ -557,13 +556,15 @@ export async function updateOperationMode(isAutomatic: boolean): Promise<{ succe
     const response = await fetch('/api/control/operation-mode', {
       method: 'POST',
       headers: {
+        ...UI_REQUEST_HEADER,
+        ...getSelectedDeviceHeader(),
         'Content-Type': 'application/json'
       },
       body: JSON.stringify({ isAutomatic })
     });
     
     if (!response.ok) {
-      throw new Error(`Erro ao atualizar modo de operação: ${response.status}`);
+      throw await toApiError(response);
     }
     
     const data = await response.json();
@@ -882,3 +883,347 @@ export async function forceDeviceSync(): Promise<{ success: boolean, message: st
     };
   }
 }
+
+export type CommandConfirmation = 'pending' | 'confirmed' | 'timed_out' | 'contradicted' | 'superseded';
+
+export type DeviceCommandResponse = {
+  id: number;
+  fields: Record<string, string | number>;
+  state: 'queued' | 'sent' | 'acknowledged' | 'failed';
+  retries: number;
+  confirmation: CommandConfirmation | null;
+  confirmedAt: number | null;
+  feedback: Record<string, string | number> | null;
+  lastError: string | null;
+  createdAt: number;
+  sentAt: number | null;
+};
+
+export type DeviceKind = 'grow_bed' | 'fish_tank' | 'sump' | 'tank';
+
+export type DeviceInfo = {
+  id: number;
+  name: string;
+  kind: DeviceKind;
+  description: string | null;
+  thingspeakChannelId: string | null;
+  thingspeakFeedbackChannelId: string | null;
+  pumpWatts: number;
+  heaterWatts: number;
+  active: boolean;
+  createdAt: number;
+};
+
+// Lista os tanques ativos
+export async function getDevices(): Promise<DeviceInfo[]> {
+  const res = await apiRequest("GET", "/api/devices");
+  const data = await res.json();
+  return data.devices;
+}
+
+/**
+ * Consulta o estado de um comando enviado ao dispositivo
+ * (envio pela fila e confirmação pelo canal de feedback)
+ */
+export async function getCommand(id: number): Promise<DeviceCommandResponse> {
+  const res = await apiRequest("GET", `/api/commands/${id}`);
+  const data = await res.json();
+  return data.command;
+}
+
+export type UsagePeriod = {
+  periodStart: number;
+  onSeconds: number;
+  starts: number;
+  dutyCycle: number;
+  energyKwh: number;
+};
+
+export type ActuatorUsageSummary = {
+  isOn: boolean | null;
+  onSince: number | null;
+  watts: number;
+  total: { onSeconds: number; starts: number; energyKwh: number };
+  hourly: UsagePeriod[];
+  daily: UsagePeriod[];
+};
+
+export type DeviceUsageReport = {
+  deviceId: number;
+  days: number;
+  generatedAt: number;
+  pump: ActuatorUsageSummary;
+  heater: ActuatorUsageSummary;
+};
+
+// Tempo ligado, partidas, ciclo de trabalho e energia estimada da bomba e do aquecedor de um tanque
+export async function getDeviceUsage(deviceId: number, days = 7): Promise<DeviceUsageReport> {
+  const res = await apiRequest("GET", `/api/devices/${deviceId}/usage?days=${days}`);
+  const data = await res.json();
+  return data.usage;
+}
+
+export type SensorInfo = {
+  id: number;
+  key: string;
+  name: string;
+  type: string;
+  unit: string;
+  minValue: number;
+  maxValue: number;
+  alertMin: number | null;
+  alertMax: number | null;
+  decimals: number;
+  active: boolean;
+  createdAt: number;
+};
+
+export type SensorValue = {
+  sensor: SensorInfo;
+  value: number | null;
+  timestamp: number | null;
+  source: 'hardware' | 'virtual' | null;
+  stale: boolean;
+};
+
+export type SensorHistory = {
+  sensor: SensorInfo;
+  readings: SensorReading[];
+  stats: { avg: number; min: number; max: number; stdDev: number };
+  count: number;
+};
+
+// Valores atuais dos sensores adicionais (pH, oxigênio...) do tanque selecionado
+export async function getSensorValues(): Promise<SensorValue[]> {
+  const res = await apiRequest("GET", "/api/sensors/values");
+  const data = await res.json();
+  return data.values;
+}
+
+// Histórico agregado de um sensor adicional do tanque selecionado
+export async function getSensorHistory(key: string, startDate: string, endDate: string): Promise<SensorHistory> {
+  const params = new URLSearchParams({ startDate, endDate });
+  const res = await apiRequest("GET", `/api/sensors/${encodeURIComponent(key)}/history?${params.toString()}`);
+  return res.json();
+}
+
+export type ScheduleInfo = {
+  id: number;
+  deviceId: number;
+  name: string;
+  target: 'pump' | 'heater';
+  action: 'cycle' | 'on' | 'off' | 'auto';
+  daysOfWeek: number[];
+  startTime: string;
+  endTime: string;
+  pumpOnSeconds: number | null;
+  pumpOffSeconds: number | null;
+  priority: number;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// Lista as programações por horário do tanque selecionado
+export async function getSchedules(): Promise<ScheduleInfo[]> {
+  const res = await apiRequest("GET", "/api/schedules");
+  const data = await res.json();
+  return data.schedules;
+}
+
+export type RuleField = 'temperature' | 'level' | 'pump_status' | 'heater_status';
+export type RuleOperator = '<' | '<=' | '>' | '>=' | '==' | '!=';
+export type RuleActuator = 'pump' | 'heater' | 'mode' | 'target-temperature' | 'pump-on-timer' | 'pump-off-timer' | 'pump-flow';
+
+export type RuleCondition = {
+  field: RuleField;
+  operator: RuleOperator;
+  value: number;
+  duration_sec: number;
+};
+
+export type RuleAction =
+  | { type: 'command'; actuator: RuleActuator; value: boolean | number }
+  | { type: 'alert'; message?: string }
+  | { type: 'event'; level: 'info' | 'warning' | 'error'; message?: string };
+
+export type AutomationRule = {
+  id: number;
+  deviceId: number;
+  name: string;
+  description: string | null;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  cooldownSec: number;
+  enabled: boolean;
+  lastTriggeredAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+};
+
+// Corpo aceito por POST/PUT /api/rules
+export type AutomationRuleInput = {
+  name: string;
+  description?: string;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  cooldown_sec: number;
+  enabled: boolean;
+};
+
+// Lista as regras de automação do tanque selecionado
+export async function getRules(): Promise<AutomationRule[]> {
+  const res = await apiRequest("GET", "/api/rules");
+  const data = await res.json();
+  return data.rules;
+}
+
+// Cadastra (sem id) ou substitui (com id) uma regra de automação
+export async function saveRule(rule: AutomationRuleInput, id?: number): Promise<AutomationRule> {
+  const res = id
+    ? await apiRequest("PUT", `/api/rules/${id}`, rule)
+    : await apiRequest("POST", "/api/rules", rule);
+  const data = await res.json();
+  return data.rule;
+}
+
+export async function deleteRule(id: number): Promise<void> {
+  await apiRequest("DELETE", `/api/rules/${id}`);
+}
+
+export type AuditField = RuleActuator;
+export type AuditSource = 'ui' | 'api' | 'automation' | 'rule';
+
+export type AuditEntry = {
+  id: number;
+  deviceId: number;
+  field: AuditField;
+  oldValue: unknown;
+  newValue: unknown;
+  source: AuditSource;
+  actor: string | null;
+  ip: string | null;
+  route: string | null;
+  statusCode: number | null;
+  createdAt: number;
+};
+
+export type AuditFilters = {
+  deviceId?: number;
+  field?: AuditField;
+  source?: AuditSource;
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+};
+
+// Lista o registro de auditoria dos comandos, do mais recente para o mais antigo
+export async function getAuditEntries(filters: AuditFilters): Promise<{ entries: AuditEntry[]; total: number }> {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const res = await apiRequest("GET", `/api/audit?${params.toString()}`);
+  const data = await res.json();
+  return { entries: data.entries, total: data.total };
+}
+
+export type UserRole = 'viewer' | 'operator' | 'admin';
+
+export type UserInfo = {
+  id: number;
+  username: string;
+  role: UserRole;
+  active: boolean;
+  createdAt: number;
+  lastLoginAt: number | null;
+};
+
+export type UserInput = {
+  username?: string;
+  password?: string;
+  role?: UserRole;
+  active?: boolean;
+};
+
+export async function login(username: string, password: string): Promise<UserInfo> {
+  const res = await apiRequest("POST", "/api/auth/login", { username, password });
+  const data = await res.json();
+  return data.user;
+}
+
+export async function logout(): Promise<void> {
+  await apiRequest("POST", "/api/auth/logout");
+}
+
+// Lista os usuários (somente administradores)
+export async function getUsers(): Promise<UserInfo[]> {
+  const res = await apiRequest("GET", "/api/users");
+  const data = await res.json();
+  return data.users;
+}
+
+// Cadastra (sem id) ou altera papel, situação ou senha (com id) de um usuário
+export async function saveUser(user: UserInput, id?: number): Promise<UserInfo> {
+  const res = id
+    ? await apiRequest("PUT", `/api/users/${id}`, user)
+    : await apiRequest("POST", "/api/users", user);
+  const data = await res.json();
+  return data.user;
+}
+
+export async function deleteUser(id: number): Promise<void> {
+  await apiRequest("DELETE", `/api/users/${id}`);
+}
+
+export type ApiTokenScope = 'readings:read' | 'export:read' | 'devices:control' | 'settings:write';
+
+export type ApiTokenInfo = {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  createdBy: number | null;
+  createdAt: number;
+  expiresAt: number;
+  lastUsedAt: number | null;
+  revoked: boolean;
+};
+
+export type ApiTokenInput = {
+  name: string;
+  scopes: ApiTokenScope[];
+  expires_in_days: number;
+};
+
+// Lista os tokens de API (somente administradores)
+export async function getApiTokens(): Promise<ApiTokenInfo[]> {
+  const res = await apiRequest("GET", "/api/tokens");
+  const data = await res.json();
+  return data.tokens;
+}
+
+// Emite um token de API; o token completo só é retornado nesta chamada
+export async function createApiToken(input: ApiTokenInput): Promise<{ token: string; info: ApiTokenInfo }> {
+  const res = await apiRequest("POST", "/api/tokens", input);
+  const data = await res.json();
+  return { token: data.token, info: data.info };
+}
+
+export async function revokeApiToken(id: number): Promise<void> {
+  await apiRequest("DELETE", `/api/tokens/${id}`);
+}
+
+// Eventos em tempo real enviados por /api/events (Server-Sent Events)
+export type RealtimeEventType = 'reading' | 'device-status' | 'automation' | 'alert' | 'sync';
+
+export type RealtimeEvent = {
+  id: number;
+  type: RealtimeEventType;
+  deviceId: number | null;
+  data: unknown;
+  timestamp: number;
+};
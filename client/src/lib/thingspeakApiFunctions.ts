@@ -112,6 +112,7 @@ export async function updatePumpOffTimer(pumpOffTimer: number): Promise<{ succes
 // Obter o estado atual do ciclo da bomba em modo automático
 export interface PumpCycleState {
   success: boolean;
+  mode?: 'timer' | 'level';  // Estratégia da bomba: ciclos por temporizador ou pelo nível da água
   active: boolean;  // Mantendo como 'active' para compatibilidade com a API
   startTime: number;
   timeRemaining: number;
@@ -67,13 +67,7 @@ export function formatNumber(value: number | null | undefined, decimals = 1): st
     return '0';
   }
   
-  // Se o valor for muito pequeno (como 0.5942 para nível de água),
-  // vamos verificar se é menor que 1 e maior que 0, e multiplicar por 100 para torná-lo percentual
-  if (value > 0 && value < 1) {
-    // Se o valor já for decimal (0-1), multiplicar por 100 para mostrar como percentual
-    return (value * 100).toFixed(decimals);
-  }
-  
+  // As leituras já chegam normalizadas (nível em %, ver shared/reading.ts)
   return value.toFixed(decimals);
 }
 
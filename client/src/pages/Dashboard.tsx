@@ -3,10 +3,15 @@ import { useQuery } from "@tanstack/react-query";
 import { getLatestReadings, getHistoricalReadings } from "@/lib/thingspeakApi";
 import { EquipmentControls } from "@/components/dashboard/EquipmentControls";
 import { DashboardCharts } from "@/components/dashboard/DashboardCharts";
+import { ScheduleTimeline } from "@/components/dashboard/ScheduleTimeline";
+import { ActuatorUsageCard } from "@/components/dashboard/ActuatorUsageCard";
+import { SensorsPanel } from "@/components/dashboard/SensorsPanel";
 import { HistoricalData } from "@/components/historical/HistoricalData";
 import { formatDateForQuery } from "@/lib/utils";
+import { useRealtime } from "@/contexts/RealtimeContext";
 
 export default function Dashboard() {
+  const { pollInterval } = useRealtime();
   // Calcular o período para mostrar exatamente as últimas 24 horas
   const getLastDay = useCallback(() => {
     const endDate = new Date();
@@ -23,7 +28,7 @@ export default function Dashboard() {
   const { data: latestData, isLoading: isLatestLoading } = useQuery({
     queryKey: ['/api/readings/latest'],
     queryFn: () => getLatestReadings(10), // Pegamos apenas as 10 leituras mais recentes
-    refetchInterval: 5000, // Atualizar a cada 5 segundos para dados em tempo real
+    refetchInterval: pollInterval(5000), // A cada 5 segundos enquanto não houver fluxo de eventos
     staleTime: 2000, // Dados são considerados atualizados por apenas 2 segundos
     refetchOnWindowFocus: true,
   });
@@ -73,6 +78,21 @@ export default function Dashboard() {
         />
       </section>
       
+      {/* Programações por horário da bomba e do aquecedor */}
+      <section className="mb-8 px-4 sm:px-6" aria-label="Programação semanal">
+        <ScheduleTimeline />
+      </section>
+      
+      {/* Tempo ligado, partidas e energia estimada da bomba e do aquecedor */}
+      <section className="mb-8 px-4 sm:px-6" aria-label="Uso dos equipamentos">
+        <ActuatorUsageCard />
+      </section>
+      
+      {/* Sensores adicionais do registro (pH, oxigênio dissolvido, umidade...) */}
+      <section className="mb-8 px-4 sm:px-6" aria-label="Sensores adicionais">
+        <SensorsPanel />
+      </section>
+      
       {/* Charts Section - cabeçalho */}
       <section className="mb-2" aria-labelledby="dashboard-heading">
         <div className="px-4 sm:px-6 mb-2">
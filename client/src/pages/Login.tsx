@@ -0,0 +1,85 @@
+import { useState, FormEvent } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useAuth } from "@/contexts/AuthContext";
+import { ApiError } from "@/lib/queryClient";
+
+/**
+ * Tela de acesso, exibida enquanto não há sessão ativa
+ */
+export default function Login() {
+  const { login } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await login(username, password);
+    } catch (err) {
+      const code = err instanceof ApiError ? err.code : null;
+      if (code === "UNAUTHORIZED") {
+        setError("Usuário ou senha inválidos");
+      } else if (code === "RATE_LIMITED") {
+        setError("Muitas tentativas sem sucesso, aguarde alguns minutos antes de tentar novamente");
+      } else {
+        setError("Não foi possível entrar, tente novamente");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gradient-to-b from-[#081a33] to-[#071427] text-white">
+      <Card className="w-full max-w-sm mx-4 bg-[#0f172a] border-blue-900/40 text-white">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <i className="fas fa-fish text-blue-400"></i>
+            Aquaponia
+          </CardTitle>
+          <p className="text-sm text-gray-400">Entre com sua conta para acessar o painel</p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="login-username">Usuário</Label>
+              <Input
+                id="login-username"
+                autoComplete="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="login-password">Senha</Label>
+              <Input
+                id="login-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Entrar
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
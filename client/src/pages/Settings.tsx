@@ -2,27 +2,50 @@ import { SettingsPanel } from "@/components/settings/SettingsPanel";
 import { BackupPanel } from "@/components/settings/BackupPanel";
 import { SensorConfigPanel } from "@/components/settings/SensorConfigPanel";
 import { AlertsTab } from "@/components/settings/AlertsTab";
+import { RulesTab } from "@/components/settings/RulesTab";
+import { AuditTab } from "@/components/settings/AuditTab";
+import { UsersTab } from "@/components/settings/UsersTab";
+import { ApiTokensTab } from "@/components/settings/ApiTokensTab";
+import { TelemetryTransportCard } from "@/components/settings/TelemetryTransportCard";
 import SensorHealthCard from '@/components/emulator/SensorHealthCard';
 import SensorSourceControl from '@/components/emulator/SensorSourceControl';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useState } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { UserRole } from "@/lib/thingspeakApi";
+
+// Abas e papel mínimo para acessá-las (o servidor aplica as mesmas restrições às rotas)
+const settingsTabs: { value: string; label: string; role: UserRole }[] = [
+  { value: 'general', label: 'Gerais', role: 'admin' },
+  { value: 'sensors', label: 'Sensores', role: 'admin' },
+  { value: 'alerts', label: 'Alertas', role: 'admin' },
+  { value: 'rules', label: 'Regras', role: 'operator' },
+  { value: 'audit', label: 'Auditoria', role: 'viewer' },
+  { value: 'backup', label: 'Backup', role: 'admin' },
+  { value: 'fallback', label: 'Fontes de Dados', role: 'admin' },
+  { value: 'users', label: 'Usuários', role: 'admin' },
+  { value: 'tokens', label: 'Tokens de API', role: 'admin' }
+];
 
 export default function Settings() {
-  const [currentTab, setCurrentTab] = useState('general');
+  const { hasRole } = useAuth();
+  const tabs = settingsTabs.filter(tab => hasRole(tab.role));
+  const [currentTab, setCurrentTab] = useState(tabs[0].value);
 
   return (
     <div className="space-y-6 pb-8 px-4 sm:px-6">
       <h1 className="text-2xl md:text-3xl font-bold my-6">Configurações do Sistema</h1>
       
       <Tabs value={currentTab} onValueChange={setCurrentTab} className="space-y-4">
-        <TabsList className="grid grid-cols-5 w-full max-w-xl">
-          <TabsTrigger value="general">Gerais</TabsTrigger>
-          <TabsTrigger value="sensors">Sensores</TabsTrigger>
-          <TabsTrigger value="alerts">Alertas</TabsTrigger>
-          <TabsTrigger value="backup">Backup</TabsTrigger>
-          <TabsTrigger value="fallback">Fontes de Dados</TabsTrigger>
+        <TabsList
+          className="grid w-full max-w-5xl"
+          style={{ gridTemplateColumns: `repeat(${tabs.length}, minmax(0, 1fr))` }}
+        >
+          {tabs.map(tab => (
+            <TabsTrigger key={tab.value} value={tab.value}>{tab.label}</TabsTrigger>
+          ))}
         </TabsList>
         
         {/* Tab: Configurações Gerais */}
@@ -41,6 +64,16 @@ export default function Settings() {
           <AlertsTab />
         </TabsContent>
         
+        {/* Tab: Regras de Automação */}
+        <TabsContent value="rules" className="space-y-6">
+          <RulesTab />
+        </TabsContent>
+        
+        {/* Tab: Histórico de Comandos */}
+        <TabsContent value="audit" className="space-y-6">
+          <AuditTab />
+        </TabsContent>
+        
         <TabsContent value="backup" className="space-y-6">
           <BackupPanel />
         </TabsContent>
@@ -74,12 +107,24 @@ export default function Settings() {
                 </CardContent>
               </Card>
               
+              <TelemetryTransportCard />
+              
               <SensorHealthCard />
             </div>
             
             <SensorSourceControl />
           </div>
         </TabsContent>
+
+        {/* Tab: Usuários e papéis de acesso */}
+        <TabsContent value="users" className="space-y-6">
+          <UsersTab />
+        </TabsContent>
+
+        {/* Tab: Tokens de API para scripts e integrações */}
+        <TabsContent value="tokens" className="space-y-6">
+          <ApiTokensTab />
+        </TabsContent>
       </Tabs>
     </div>
   );
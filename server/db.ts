@@ -1,15 +1,60 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
+/**
+ * Conexão com o PostgreSQL via drizzle (usada com STORAGE_BACKEND=postgres)
+ *
+ * Bancos do Neon usam o driver serverless (WebSocket); os demais, como um PostgreSQL local ou
+ * gerenciado, usam o driver pg. As tabelas são as de shared/schema.ts (criadas com npm run db:push).
+ */
+import { Pool as NeonPool, neonConfig } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-serverless';
+import { drizzle as drizzlePg } from 'drizzle-orm/node-postgres';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import pg from 'pg';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+export type PostgresDb = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+interface PostgresConnection {
+  db: PostgresDb;
+  close: () => Promise<void>;
+}
+
+let connection: PostgresConnection | null = null;
+
+function connect(connectionString: string): PostgresConnection {
+  if (new URL(connectionString).hostname.endsWith('.neon.tech')) {
+    const pool = new NeonPool({ connectionString });
+    return { db: drizzleNeon({ client: pool, schema }), close: () => pool.end() };
+  }
+
+  const pool = new pg.Pool({ connectionString });
+  return { db: drizzlePg({ client: pool, schema }), close: () => pool.end() };
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+/**
+ * Conexão compartilhada com o banco de DATABASE_URL (criada no primeiro uso)
+ */
+export function getPostgresDb(): PostgresDb {
+  if (connection) return connection.db;
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+
+  connection = connect(process.env.DATABASE_URL);
+  return connection.db;
+}
+
+/**
+ * Encerra o pool de conexões (usado por scripts ao terminar)
+ */
+export async function closePostgresDb(): Promise<void> {
+  if (!connection) return;
+  const current = connection;
+  connection = null;
+  await current.close();
+}
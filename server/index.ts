@@ -1,13 +1,25 @@
-import express, { type Request, Response, NextFunction } from "express";
+import express, { type Request, Response } from "express";
 import { registerRoutes } from "./routes";
 import { registerHistoricalDataRoutes } from "./routes-historical-data";
 import { setupFallbackRoutes } from "./routes-fallback";
 import { setupVite, serveStatic, log } from "./vite";
 import path from "path";
-import { checkHistoricalTables, initHistoricalDatabase } from "./services/historicalDataService";
+import { migrateAllDatabases } from "./services/migrationService";
 import { settingsRouter } from './routes-settings';
 import { setupAlertRoutes } from './routes-alerts';
-// Importar o sistema de lotes do ThingSpeak
+import { setupIngestRoutes } from './routes-ingest';
+import { setupCommandRoutes } from './routes-commands';
+import { setupDeviceRoutes } from './routes-devices';
+import { setupSensorRoutes } from './routes-sensors';
+import { setupScheduleRoutes } from './routes-schedules';
+import { setupRuleRoutes } from './routes-rules';
+import { setupAuditRoutes, auditCommands } from './routes-audit';
+import { setupAuth } from './routes-auth';
+import { setupTokenRoutes } from './routes-tokens';
+import { setupEventRoutes } from './routes-events';
+import { setupV1Routes } from './routes-v1';
+import { errorHandler, sendError, NotFoundError } from './utils/errors';
+// Importar a fila de comandos dos dispositivos
 import './services/integration';
 // Importar serviço de alertas
 import './services/alertService';
@@ -47,19 +59,20 @@ app.use((req, res, next) => {
   next();
 });
 
+// Sessões, login e controle de acesso por papel (antes de qualquer rota da API)
+setupAuth(app);
+console.log('🔐 Autenticação e controle de acesso configurados.');
+
+// Registrar no log de auditoria as chamadas às rotas de controle
+app.use(auditCommands);
+
 (async () => {
-  // Inicializar tabelas para dados históricos
+  // Aplicar as migrações pendentes do banco principal (incluindo as tabelas do histórico) e do backup
   try {
-    const tablesExist = await checkHistoricalTables();
-    if (!tablesExist) {
-      console.log('📊 Inicializando tabelas para dados históricos...');
-      await initHistoricalDatabase();
-      console.log('✅ Tabelas para dados históricos inicializadas com sucesso!');
-    } else {
-      console.log('📊 Tabelas para dados históricos já existem.');
-    }
+    await migrateAllDatabases();
+    console.log('🗃️ Esquema dos bancos de dados atualizado.');
   } catch (error) {
-    console.error('❌ Erro ao inicializar tabelas históricas:', error);
+    console.error('❌ Erro ao aplicar as migrações dos bancos de dados:', error);
   }
   
   const server = await registerRoutes(app);
@@ -79,15 +92,55 @@ app.use((req, res, next) => {
   // Registrar rotas para sistema de alertas
   setupAlertRoutes(app);
   console.log('📢 Rotas para sistema de alertas registradas.');
+  
+  // Registrar rotas para ingestão direta de dispositivos
+  setupIngestRoutes(app);
+  console.log('📥 Rotas para ingestão direta registradas.');
+  
+  // Registrar rotas da fila de comandos
+  setupCommandRoutes(app);
+  console.log('📤 Rotas da fila de comandos registradas.');
+  
+  // Registrar rotas de tanques
+  setupDeviceRoutes(app);
+  console.log('🐟 Rotas de tanques registradas.');
+  
+  // Registrar rotas do registro de sensores adicionais
+  setupSensorRoutes(app);
+  console.log('🧪 Rotas de sensores registradas.');
+  
+  // Registrar rotas de programações por horário
+  setupScheduleRoutes(app);
+  console.log('🗓️ Rotas de programações registradas.');
+  
+  // Registrar rotas de regras de automação
+  setupRuleRoutes(app);
+  console.log('⚙️ Rotas de regras de automação registradas.');
+  
+  // Registrar rotas do registro de auditoria
+  setupAuditRoutes(app);
+  console.log('📋 Rotas de auditoria registradas.');
+  
+  // Registrar rotas dos tokens de API
+  setupTokenRoutes(app);
+  console.log('🔑 Rotas de tokens de API registradas.');
+  
+  // Registrar rota de eventos em tempo real
+  setupEventRoutes(app);
+  console.log('📡 Rota de eventos em tempo real registrada.');
+  
+  // Registrar a API versionada e sua documentação OpenAPI
+  setupV1Routes(app);
+  console.log('📘 API versionada registrada em /api/v1 (documentação em /api/v1/docs).');
 
-  app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
-    const status = err.status || err.statusCode || 500;
-    const message = err.message || "Internal Server Error";
-
-    res.status(status).json({ message });
-    throw err;
+  // Rotas da API sem correspondência respondem no formato padrão de erro (antes do fallback da interface)
+  app.use('/api', (req: Request, res: Response) => {
+    sendError(res, new NotFoundError('Rota não encontrada'));
   });
 
+  // Erros não tratados pelas rotas (inclui JSON inválido no corpo da requisição)
+  app.use(errorHandler);
+
   // importantly only setup vite in development and after
   // setting up all the other routes so the catch-all route
   // doesn't interfere with the other routes
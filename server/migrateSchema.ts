@@ -0,0 +1,81 @@
+/**
+ * Script para aplicar ou desfazer as migrações do esquema dos bancos SQLite
+ * Uso:
+ *   npm run db:schema                          mostra a versão de cada banco e as migrações pendentes
+ *   npm run db:schema -- up [main|backup]      aplica as migrações pendentes (padrão: todos os bancos)
+ *   npm run db:schema -- down <main|backup> [versão]
+ *                                              desfaz a última migração, ou todas acima da versão informada
+ *
+ * O servidor aplica as migrações pendentes ao iniciar; desfazer é sempre manual.
+ */
+
+import {
+  SCHEMA_DATABASE_NAMES,
+  SchemaDatabaseName,
+  getSchemaStatus,
+  migrateDatabase,
+  rollbackDatabase
+} from './services/migrationService';
+
+function parseDatabase(value: string | undefined): SchemaDatabaseName {
+  if (!SCHEMA_DATABASE_NAMES.includes(value as SchemaDatabaseName)) {
+    throw new Error(`Banco inválido: ${value ?? '(não informado)'}. Use ${SCHEMA_DATABASE_NAMES.join(' ou ')}`);
+  }
+  return value as SchemaDatabaseName;
+}
+
+async function printStatus() {
+  for (const status of await getSchemaStatus()) {
+    console.log(`\n🗃️ ${status.database} (${status.file}): ${status.initialized ? `versão ${status.currentVersion} de ${status.latestVersion}` : `não inicializado (versão mais recente: ${status.latestVersion})`}`);
+    for (const migration of status.applied) {
+      console.log(`  ✅ ${migration.version} ${migration.name} (${new Date(migration.appliedAt).toLocaleString()})`);
+    }
+    for (const migration of status.pending) {
+      console.log(`  ⏳ ${migration.version} ${migration.name} (pendente)`);
+    }
+    for (const migration of status.unknown) {
+      console.log(`  ⚠️ ${migration.version} ${migration.name} (não existe nesta versão do sistema)`);
+    }
+  }
+}
+
+async function main() {
+  const [command = 'status', databaseArg, versionArg] = process.argv.slice(2);
+
+  switch (command) {
+    case 'status':
+      await printStatus();
+      break;
+
+    case 'up': {
+      const databases = databaseArg ? [parseDatabase(databaseArg)] : SCHEMA_DATABASE_NAMES;
+      for (const database of databases) {
+        const applied = await migrateDatabase(database);
+        console.log(`✅ ${database}: ${applied} migração(ões) aplicada(s)`);
+      }
+      break;
+    }
+
+    case 'down': {
+      const database = parseDatabase(databaseArg);
+      const targetVersion = versionArg !== undefined ? Number(versionArg) : undefined;
+      if (targetVersion !== undefined && (!Number.isInteger(targetVersion) || targetVersion < 0)) {
+        throw new Error(`Versão inválida: ${versionArg}`);
+      }
+
+      const rolledBack = await rollbackDatabase(database, targetVersion);
+      console.log(rolledBack.length > 0
+        ? `✅ ${database}: migrações desfeitas: ${rolledBack.join(', ')}`
+        : `ℹ️ ${database}: nenhuma migração para desfazer`);
+      break;
+    }
+
+    default:
+      throw new Error(`Comando desconhecido: ${command}. Use status, up ou down`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Erro nas migrações do esquema:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,188 @@
+/**
+ * Script para copiar os dados do SQLite (aquaponia.db) para o PostgreSQL de DATABASE_URL
+ * Uso: npm run db:push && npm run db:migrate-sqlite
+ *
+ * Copia as tabelas usadas pelo armazenamento (leituras, leituras dos sensores adicionais, setpoints
+ * e configurações). Pode ser executado mais de uma vez: só entram as leituras mais novas que a
+ * última já existente no PostgreSQL para cada tanque (e sensor), e setpoints/configurações já
+ * existentes não são sobrescritos.
+ */
+
+import { eq, max } from 'drizzle-orm';
+import { readings, sensorReadings, setpoints, settings, DEFAULT_DEVICE_ID } from '@shared/schema';
+import { createDb } from './services/databaseService';
+import { getPostgresDb, closePostgresDb, PostgresDb } from './db';
+
+// Leituras lidas do SQLite e inseridas no PostgreSQL por vez
+const BATCH_SIZE = 1000;
+
+// Colunas da tabela settings do SQLite que não são configurações
+const SETTINGS_IGNORED_COLUMNS = ['id', 'updated_at'];
+
+/**
+ * Converte os formatos de data gravados no SQLite (milissegundos, ISO ou 'AAAA-MM-DD HH:MM:SS' em UTC)
+ */
+function parseSqliteTimestamp(value: unknown): Date {
+  if (typeof value === 'number') return new Date(value);
+  const text = String(value ?? '');
+  if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}/.test(text)) {
+    return new Date(text.replace(' ', 'T') + 'Z');
+  }
+  return new Date(text);
+}
+
+async function migrateReadings(sqlite: any, pg: PostgresDb): Promise<number> {
+  // Última leitura de cada tanque já copiada
+  const latestRows = await pg
+    .select({ deviceId: readings.device_id, latest: max(readings.timestamp) })
+    .from(readings)
+    .groupBy(readings.device_id);
+  const latestByDevice = new Map(latestRows.map(row => [row.deviceId, row.latest?.getTime() ?? 0]));
+
+  let lastId = 0;
+  let copied = 0;
+
+  while (true) {
+    const rows = await sqlite.all(
+      'SELECT * FROM readings WHERE id > ? ORDER BY id ASC LIMIT ?',
+      [lastId, BATCH_SIZE]
+    );
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    const batch = rows
+      .map((row: any) => ({
+        device_id: row.device_id ?? DEFAULT_DEVICE_ID,
+        temperature: row.temperature,
+        level: row.level,
+        pump_status: row.pump_status ? 1 : 0,
+        heater_status: row.heater_status ? 1 : 0,
+        timestamp: parseSqliteTimestamp(row.timestamp)
+      }))
+      .filter((row: { device_id: number; timestamp: Date }) =>
+        !isNaN(row.timestamp.getTime()) && row.timestamp.getTime() > (latestByDevice.get(row.device_id) ?? 0)
+      );
+
+    if (batch.length > 0) {
+      await pg.insert(readings).values(batch);
+      copied += batch.length;
+      console.log(`📦 ${copied} leituras copiadas...`);
+    }
+  }
+
+  return copied;
+}
+
+async function migrateSensorReadings(sqlite: any, pg: PostgresDb): Promise<number> {
+  // Última leitura de cada sensor de cada tanque já copiada
+  const latestRows = await pg
+    .select({ deviceId: sensorReadings.device_id, sensorKey: sensorReadings.sensor_key, latest: max(sensorReadings.timestamp) })
+    .from(sensorReadings)
+    .groupBy(sensorReadings.device_id, sensorReadings.sensor_key);
+  const latestBySensor = new Map(latestRows.map(row => [`${row.deviceId}:${row.sensorKey}`, row.latest?.getTime() ?? 0]));
+
+  let lastId = 0;
+  let copied = 0;
+
+  while (true) {
+    const rows = await sqlite.all(
+      'SELECT * FROM sensor_readings WHERE id > ? ORDER BY id ASC LIMIT ?',
+      [lastId, BATCH_SIZE]
+    );
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    const batch = rows
+      .map((row: any) => ({
+        device_id: row.device_id ?? DEFAULT_DEVICE_ID,
+        sensor_key: row.sensor_key,
+        value: row.value,
+        timestamp: parseSqliteTimestamp(row.timestamp)
+      }))
+      .filter((row: { device_id: number; sensor_key: string; timestamp: Date }) =>
+        !isNaN(row.timestamp.getTime()) &&
+        row.timestamp.getTime() > (latestBySensor.get(`${row.device_id}:${row.sensor_key}`) ?? 0)
+      );
+
+    if (batch.length > 0) {
+      await pg.insert(sensorReadings).values(batch);
+      copied += batch.length;
+      console.log(`📦 ${copied} leituras de sensores copiadas...`);
+    }
+  }
+
+  return copied;
+}
+
+async function migrateSetpoints(sqlite: any, pg: PostgresDb): Promise<number> {
+  const rows = await sqlite.all('SELECT * FROM setpoints ORDER BY id ASC');
+  let copied = 0;
+
+  for (const row of rows) {
+    const deviceId = row.device_id ?? DEFAULT_DEVICE_ID;
+    const existing = await pg.select({ id: setpoints.id }).from(setpoints).where(eq(setpoints.device_id, deviceId)).limit(1);
+    if (existing.length > 0) continue;
+
+    await pg.insert(setpoints).values({
+      device_id: deviceId,
+      temp_min: row.temp_min,
+      temp_max: row.temp_max,
+      level_min: row.level_min,
+      level_max: row.level_max,
+      timestamp: row.updated_at ? parseSqliteTimestamp(row.updated_at) : new Date()
+    });
+    copied++;
+  }
+
+  return copied;
+}
+
+// A tabela settings do SQLite tem uma coluna por configuração; no PostgreSQL cada uma vira uma chave
+async function migrateSettings(sqlite: any, pg: PostgresDb): Promise<number> {
+  const row = await sqlite.get('SELECT * FROM settings WHERE id = 1');
+  if (!row) return 0;
+
+  let copied = 0;
+  for (const [key, value] of Object.entries(row)) {
+    if (SETTINGS_IGNORED_COLUMNS.includes(key) || value === null || value === undefined) continue;
+
+    const inserted = await pg
+      .insert(settings)
+      .values({ key, value: String(value), description: 'Importado do SQLite' })
+      .onConflictDoNothing({ target: settings.key })
+      .returning({ id: settings.id });
+    copied += inserted.length;
+  }
+
+  return copied;
+}
+
+async function main() {
+  const sqlite = await createDb();
+  const pg = getPostgresDb();
+
+  try {
+    console.log('🔄 Copiando dados do SQLite para o PostgreSQL...');
+
+    const readingsCount = await migrateReadings(sqlite, pg);
+    const sensorReadingsCount = await migrateSensorReadings(sqlite, pg);
+    const setpointsCount = await migrateSetpoints(sqlite, pg);
+    const settingsCount = await migrateSettings(sqlite, pg);
+
+    console.log(`
+    ✅ Migração concluída:
+    - Leituras: ${readingsCount}
+    - Leituras de sensores: ${sensorReadingsCount}
+    - Setpoints: ${setpointsCount}
+    - Configurações: ${settingsCount}
+    `);
+  } finally {
+    await sqlite.close();
+    await closePostgresDb();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Erro durante a migração para o PostgreSQL:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,109 @@
+/**
+ * Migrações do banco de backup (aquaponia_backup.db)
+ *
+ * As versões iniciais reproduzem o esquema criado ad hoc pelo backupService e são seguras para
+ * bancos já existentes. Novas alterações entram como uma nova versão no fim da lista.
+ */
+
+import { Migration, addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const backupDbMigrations: Migration[] = [
+  {
+    version: 1,
+    name: 'esquema_inicial',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS readings (
+          id INTEGER PRIMARY KEY,
+          temperature REAL NOT NULL,
+          level REAL NOT NULL,
+          pump_status INTEGER NOT NULL,
+          heater_status INTEGER NOT NULL,
+          timestamp TEXT NOT NULL,
+          temperature_trend REAL DEFAULT 0,
+          level_trend REAL DEFAULT 0,
+          is_temp_critical INTEGER DEFAULT 0,
+          is_level_critical INTEGER DEFAULT 0,
+          data_source TEXT DEFAULT 'thingspeak',
+          data_quality REAL DEFAULT 1.0
+        );
+
+        CREATE TABLE IF NOT EXISTS setpoints (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          temp_min REAL DEFAULT 25.0,
+          temp_max REAL DEFAULT 28.0,
+          level_min REAL DEFAULT 60.0,
+          level_max REAL DEFAULT 80.0,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          system_name TEXT DEFAULT 'Aquaponia',
+          update_interval INTEGER DEFAULT 1,
+          data_retention INTEGER DEFAULT 30,
+          email_alerts INTEGER DEFAULT 1,
+          push_alerts INTEGER DEFAULT 1,
+          alert_email TEXT DEFAULT NULL,
+          temp_critical_min REAL DEFAULT 18.0,
+          temp_warning_min REAL DEFAULT 20.0,
+          temp_warning_max REAL DEFAULT 28.0,
+          temp_critical_max REAL DEFAULT 30.0,
+          level_critical_min INTEGER DEFAULT 50,
+          level_warning_min INTEGER DEFAULT 60,
+          level_warning_max INTEGER DEFAULT 85,
+          level_critical_max INTEGER DEFAULT 90,
+          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS alerts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL,
+          severity TEXT NOT NULL,
+          message TEXT NOT NULL,
+          reading_id INTEGER NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+          is_acknowledged INTEGER DEFAULT 0,
+          FOREIGN KEY (reading_id) REFERENCES readings (id)
+        );
+
+        CREATE TABLE IF NOT EXISTS daily_stats (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date TEXT UNIQUE NOT NULL,
+          min_temperature REAL NOT NULL,
+          max_temperature REAL NOT NULL,
+          avg_temperature REAL NOT NULL,
+          min_level REAL NOT NULL,
+          max_level REAL NOT NULL,
+          avg_level REAL NOT NULL,
+          pump_active_time INTEGER DEFAULT 0,
+          heater_active_time INTEGER DEFAULT 0,
+          reading_count INTEGER NOT NULL,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+    },
+    down: async (db) => {
+      await db.exec(`
+        DROP TABLE IF EXISTS daily_stats;
+        DROP TABLE IF EXISTS alerts;
+        DROP TABLE IF EXISTS settings;
+        DROP TABLE IF EXISTS setpoints;
+        DROP TABLE IF EXISTS readings;
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'configuracoes_chave_valor',
+    // Colunas key/value usadas pela versão publicada no Render
+    up: async (db) => {
+      await addColumnIfMissing(db, 'settings', 'key', 'TEXT');
+      await addColumnIfMissing(db, 'settings', 'value', 'TEXT');
+    },
+    down: async (db) => {
+      await dropColumnIfExists(db, 'settings', 'value');
+      await dropColumnIfExists(db, 'settings', 'key');
+    }
+  }
+];
@@ -0,0 +1,37 @@
+/**
+ * Tipos e utilitários comuns às migrações dos bancos SQLite
+ */
+
+import { Database } from 'sqlite';
+
+/**
+ * Migração versionada do esquema
+ * up e down rodam dentro de uma transação aberta pelo serviço de migrações
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database) => Promise<void>;
+  down: (db: Database) => Promise<void>;
+}
+
+export async function columnExists(db: Database, table: string, column: string): Promise<boolean> {
+  const columns = await db.all(`PRAGMA table_info(${table})`);
+  return columns.some((existing: any) => existing.name === column);
+}
+
+/**
+ * Adiciona a coluna se ainda não existir
+ * Bancos criados antes das migrações já podem ter a coluna, adicionada pela criação ad hoc antiga
+ */
+export async function addColumnIfMissing(db: Database, table: string, column: string, definition: string) {
+  if (!(await columnExists(db, table, column))) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+export async function dropColumnIfExists(db: Database, table: string, column: string) {
+  if (await columnExists(db, table, column)) {
+    await db.exec(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+  }
+}
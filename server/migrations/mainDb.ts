@@ -0,0 +1,496 @@
+/**
+ * Migrações do banco principal (aquaponia.db)
+ *
+ * As primeiras versões (e as versões 8 a 11) reproduzem o esquema que era criado ad hoc pelo
+ * databaseService, pelo historicalDataService e pelos demais serviços; por isso usam IF NOT EXISTS e
+ * verificam as colunas antes de alterá-las, para que bancos já existentes (local, Render...) sejam
+ * apenas registrados nessas versões.
+ * Novas alterações entram sempre como uma nova versão no fim da lista, nunca editando as anteriores.
+ */
+
+import { Migration, addColumnIfMissing, dropColumnIfExists } from './helpers';
+
+export const mainDbMigrations: Migration[] = [
+  {
+    version: 1,
+    name: 'esquema_inicial',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS readings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          temperature REAL NOT NULL,
+          level REAL NOT NULL,
+          pump_status INTEGER DEFAULT 0,
+          heater_status INTEGER DEFAULT 0,
+          timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS setpoints (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          temp_min REAL DEFAULT 20.0 NOT NULL,
+          temp_max REAL DEFAULT 30.0 NOT NULL,
+          level_min INTEGER DEFAULT 60 NOT NULL,
+          level_max INTEGER DEFAULT 90 NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          system_name TEXT DEFAULT 'Aquaponia' NOT NULL,
+          update_interval INTEGER DEFAULT 1 NOT NULL,
+          data_retention INTEGER DEFAULT 30 NOT NULL,
+          email_alerts INTEGER DEFAULT 1 NOT NULL,
+          push_alerts INTEGER DEFAULT 1 NOT NULL,
+          alert_email TEXT,
+          temp_critical_min REAL DEFAULT 18.0 NOT NULL,
+          temp_warning_min REAL DEFAULT 20.0 NOT NULL,
+          temp_warning_max REAL DEFAULT 28.0 NOT NULL,
+          temp_critical_max REAL DEFAULT 30.0 NOT NULL,
+          level_critical_min INTEGER DEFAULT 50 NOT NULL,
+          level_warning_min INTEGER DEFAULT 60 NOT NULL,
+          level_warning_max INTEGER DEFAULT 85 NOT NULL,
+          level_critical_max INTEGER DEFAULT 90 NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_readings_timestamp ON readings(timestamp);
+      `);
+    },
+    down: async (db) => {
+      await db.exec(`
+        DROP TABLE IF EXISTS settings;
+        DROP TABLE IF EXISTS setpoints;
+        DROP TABLE IF EXISTS readings;
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'multiplos_tanques',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS devices (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          kind TEXT DEFAULT 'tank' NOT NULL,
+          description TEXT,
+          thingspeak_channel_id TEXT,
+          thingspeak_read_api_key TEXT,
+          thingspeak_write_api_key TEXT,
+          thingspeak_feedback_channel_id TEXT,
+          thingspeak_feedback_read_api_key TEXT,
+          active INTEGER DEFAULT 1 NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+      `);
+
+      // Os dados existentes passam a pertencer ao tanque principal
+      await addColumnIfMissing(db, 'readings', 'device_id', 'INTEGER NOT NULL DEFAULT 1');
+      await addColumnIfMissing(db, 'setpoints', 'device_id', 'INTEGER NOT NULL DEFAULT 1');
+      await db.exec(`CREATE INDEX IF NOT EXISTS idx_readings_device_timestamp ON readings(device_id, timestamp);`);
+    },
+    down: async (db) => {
+      await db.exec(`DROP INDEX IF EXISTS idx_readings_device_timestamp;`);
+      await dropColumnIfExists(db, 'setpoints', 'device_id');
+      await dropColumnIfExists(db, 'readings', 'device_id');
+      await db.exec(`DROP TABLE IF EXISTS devices;`);
+    }
+  },
+  {
+    version: 3,
+    name: 'potencia_dos_atuadores',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'devices', 'pump_watts', 'REAL NOT NULL DEFAULT 35');
+      await addColumnIfMissing(db, 'devices', 'heater_watts', 'REAL NOT NULL DEFAULT 300');
+    },
+    down: async (db) => {
+      await dropColumnIfExists(db, 'devices', 'heater_watts');
+      await dropColumnIfExists(db, 'devices', 'pump_watts');
+    }
+  },
+  {
+    version: 4,
+    name: 'tabelas_historicas',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS historical_data (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          date INTEGER NOT NULL,
+          period_type TEXT NOT NULL,
+          avg_temperature REAL,
+          min_temperature REAL,
+          max_temperature REAL,
+          avg_level REAL,
+          min_level REAL,
+          max_level REAL,
+          pump_on_percentage REAL,
+          heater_on_percentage REAL,
+          records_count INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS sync_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          start_date INTEGER NOT NULL,
+          end_date INTEGER NOT NULL,
+          records_synced INTEGER NOT NULL,
+          status TEXT NOT NULL,
+          error_message TEXT,
+          created_at INTEGER DEFAULT CURRENT_TIMESTAMP
+        );
+
+        CREATE TABLE IF NOT EXISTS system_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          event_type TEXT NOT NULL,
+          message TEXT NOT NULL,
+          details TEXT,
+          device_id INTEGER,
+          timestamp INTEGER DEFAULT CURRENT_TIMESTAMP
+        );
+      `);
+
+      // Bancos criados antes do suporte a vários tanques não têm a coluna device_id
+      await addColumnIfMissing(db, 'system_events', 'device_id', 'INTEGER');
+
+      await db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_historical_data_date ON historical_data(date);
+        CREATE INDEX IF NOT EXISTS idx_historical_data_period ON historical_data(period_type);
+        CREATE INDEX IF NOT EXISTS idx_sync_history_dates ON sync_history(start_date, end_date);
+        CREATE INDEX IF NOT EXISTS idx_system_events_type ON system_events(event_type);
+      `);
+    },
+    down: async (db) => {
+      await db.exec(`
+        DROP TABLE IF EXISTS system_events;
+        DROP TABLE IF EXISTS sync_history;
+        DROP TABLE IF EXISTS historical_data;
+      `);
+    }
+  },
+  {
+    version: 5,
+    name: 'leituras_normalizadas',
+    // Leituras no modelo de shared/reading.ts: timestamp em milissegundos e nível em % (0-100)
+    up: async (db) => {
+      await db.exec(`
+        UPDATE readings SET timestamp = CAST(timestamp AS INTEGER)
+        WHERE typeof(timestamp) = 'real'
+           OR (typeof(timestamp) = 'text' AND timestamp <> '' AND timestamp NOT GLOB '*[^0-9.]*');
+
+        UPDATE readings SET timestamp = CAST(ROUND((julianday(timestamp) - 2440587.5) * 86400000) AS INTEGER)
+        WHERE typeof(timestamp) = 'text' AND julianday(timestamp) IS NOT NULL;
+
+      `);
+
+      // Nível em fração só é convertido nos tanques em que nenhuma leitura passa de 1: um nível entre
+      // 0 e 1% ao lado de leituras em % é uma leitura real de tanque quase vazio e fica como está
+      await db.exec(`
+        UPDATE readings SET level = level * 100
+        WHERE level > 0
+          AND device_id IN (SELECT device_id FROM readings GROUP BY device_id HAVING MAX(level) <= 1);
+      `);
+    },
+    // Migração de mão única: os formatos antigos eram misturados e não há como saber quais linhas foram
+    // convertidas, então o down não altera os dados (que continuam válidos no modelo normalizado)
+    down: async () => {}
+  },
+  {
+    version: 6,
+    name: 'sensores_adicionais',
+    // Registro de sensores (pH, oxigênio dissolvido...) e leituras no formato longo, uma linha por sensor
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS sensors (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          key TEXT NOT NULL UNIQUE,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          unit TEXT DEFAULT '' NOT NULL,
+          min_value REAL NOT NULL,
+          max_value REAL NOT NULL,
+          alert_min REAL,
+          alert_max REAL,
+          decimals INTEGER DEFAULT 1 NOT NULL,
+          active INTEGER DEFAULT 1 NOT NULL,
+          created_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS sensor_readings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          device_id INTEGER NOT NULL DEFAULT 1,
+          sensor_key TEXT NOT NULL,
+          value REAL NOT NULL,
+          timestamp INTEGER NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_sensor_readings_device_key_timestamp
+          ON sensor_readings(device_id, sensor_key, timestamp);
+      `);
+
+      // Sensores que o emulador já simulava
+      const createdAt = Date.now();
+      const defaults: [string, string, string, string, number, number, number | null, number | null, number][] = [
+        ['ph', 'pH da água', 'ph', 'pH', 0, 14, 6.5, 8.0, 2],
+        ['dissolved_oxygen', 'Oxigênio dissolvido', 'dissolved_oxygen', 'mg/L', 0, 20, 5.0, null, 1],
+        ['air_temperature', 'Temperatura do ar', 'temperature', '°C', -10, 60, null, null, 1],
+        ['humidity', 'Umidade do ar', 'humidity', '%', 0, 100, null, null, 0],
+        ['flow_rate', 'Vazão', 'flow', 'L/min', 0, 100, null, null, 1],
+        ['pump_pressure', 'Pressão da bomba', 'pressure', 'bar', 0, 10, null, null, 2]
+      ];
+      for (const [key, name, type, unit, minValue, maxValue, alertMin, alertMax, decimals] of defaults) {
+        await db.run(
+          `INSERT OR IGNORE INTO sensors (key, name, type, unit, min_value, max_value, alert_min, alert_max, decimals, active, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)`,
+          [key, name, type, unit, minValue, maxValue, alertMin, alertMax, decimals, createdAt]
+        );
+      }
+    },
+    down: async (db) => {
+      await db.exec(`
+        DROP TABLE IF EXISTS sensor_readings;
+        DROP TABLE IF EXISTS sensors;
+      `);
+    }
+  },
+  {
+    version: 7,
+    name: 'historico_unico_por_periodo',
+    // As agregações gravam com ON CONFLICT (date, period_type), que exige um índice único;
+    // linhas repetidas de reprocessamentos antigos são descartadas, mantendo a mais recente
+    up: async (db) => {
+      await db.exec(`
+        DELETE FROM historical_data
+        WHERE id NOT IN (SELECT MAX(id) FROM historical_data GROUP BY date, period_type);
+
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_historical_data_date_period
+          ON historical_data(date, period_type);
+      `);
+    },
+    down: async (db) => {
+      await db.exec(`DROP INDEX IF EXISTS idx_historical_data_date_period;`);
+    }
+  },
+  {
+    version: 8,
+    name: 'fila_de_comandos',
+    // Tabela criada antes ad hoc pelo commandQueueService, que adicionava as colunas de confirmação
+    // e de tanque nos bancos antigos
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS device_commands (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          device_id INTEGER NOT NULL DEFAULT 1,
+          fields TEXT NOT NULL,
+          state TEXT NOT NULL DEFAULT 'queued',
+          retries INTEGER NOT NULL DEFAULT 0,
+          max_retries INTEGER NOT NULL DEFAULT 3,
+          coalesced_fields TEXT NOT NULL DEFAULT '[]',
+          source TEXT NOT NULL DEFAULT 'system',
+          transport TEXT,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL,
+          sent_at INTEGER,
+          acknowledged_at INTEGER,
+          next_attempt_at INTEGER,
+          last_error TEXT,
+          confirmation TEXT,
+          confirmed_at INTEGER,
+          feedback TEXT
+        );
+      `);
+
+      await addColumnIfMissing(db, 'device_commands', 'confirmation', 'TEXT');
+      await addColumnIfMissing(db, 'device_commands', 'confirmed_at', 'INTEGER');
+      await addColumnIfMissing(db, 'device_commands', 'feedback', 'TEXT');
+      await addColumnIfMissing(db, 'device_commands', 'device_id', 'INTEGER NOT NULL DEFAULT 1');
+
+      await db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_device_commands_state ON device_commands(state);
+        CREATE INDEX IF NOT EXISTS idx_device_commands_created_at ON device_commands(created_at);
+      `);
+    },
+    down: async (db) => {
+      await db.exec(`DROP TABLE IF EXISTS device_commands;`);
+    }
+  },
+  {
+    version: 9,
+    name: 'usuarios_e_credenciais',
+    // Usuários, tokens de API e chaves dos dispositivos (antes criados ad hoc por cada serviço)
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          username TEXT NOT NULL UNIQUE,
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'viewer',
+          active INTEGER DEFAULT 1,
+          created_at INTEGER NOT NULL,
+          last_login_at INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS api_tokens (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          token_hash TEXT NOT NULL UNIQUE,
+          token_prefix TEXT NOT NULL,
+          scopes TEXT NOT NULL,
+          created_by INTEGER,
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL,
+          last_used_at INTEGER,
+          revoked INTEGER DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS device_keys (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          device_id INTEGER NOT NULL DEFAULT 1,
+          key_hash TEXT NOT NULL UNIQUE,
+          key_prefix TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          last_used_at INTEGER,
+          revoked INTEGER DEFAULT 0
+        );
+      `);
+
+      // Chaves criadas antes do suporte a vários tanques pertencem ao tanque principal
+      await addColumnIfMissing(db, 'device_keys', 'device_id', 'INTEGER NOT NULL DEFAULT 1');
+    },
+    down: async (db) => {
+      await db.exec(`
+        DROP TABLE IF EXISTS device_keys;
+        DROP TABLE IF EXISTS api_tokens;
+        DROP TABLE IF EXISTS users;
+      `);
+    }
+  },
+  {
+    version: 10,
+    name: 'regras_e_programacoes',
+    // Regras de automação, programações e estado persistido da automação
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS automation_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          device_id INTEGER NOT NULL DEFAULT 1,
+          name TEXT NOT NULL,
+          description TEXT,
+          match TEXT NOT NULL DEFAULT 'all',
+          conditions TEXT NOT NULL,
+          actions TEXT NOT NULL,
+          cooldown_sec INTEGER NOT NULL DEFAULT 300,
+          enabled INTEGER DEFAULT 1,
+          last_triggered_at INTEGER,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS schedules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          device_id INTEGER NOT NULL DEFAULT 1,
+          name TEXT NOT NULL,
+          target TEXT NOT NULL,
+          action TEXT NOT NULL,
+          days_of_week TEXT NOT NULL DEFAULT '0,1,2,3,4,5,6',
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          pump_on_seconds INTEGER,
+          pump_off_seconds INTEGER,
+          priority INTEGER NOT NULL DEFAULT 0,
+          enabled INTEGER DEFAULT 1,
+          created_at INTEGER NOT NULL,
+          updated_at INTEGER NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS automation_state (
+          device_id INTEGER PRIMARY KEY,
+          pump_status INTEGER NOT NULL DEFAULT 0,
+          heater_status INTEGER NOT NULL DEFAULT 0,
+          operation_mode INTEGER NOT NULL DEFAULT 0,
+          target_temp REAL,
+          pump_on_timer INTEGER,
+          pump_off_timer INTEGER,
+          pump_flow INTEGER,
+          status_updated_at INTEGER,
+          cycle_active INTEGER NOT NULL DEFAULT 0,
+          cycle_pump_status INTEGER NOT NULL DEFAULT 0,
+          cycle_started_at INTEGER,
+          cycle_timer_total INTEGER,
+          cycle_updated_at INTEGER
+        );
+      `);
+    },
+    down: async (db) => {
+      await db.exec(`
+        DROP TABLE IF EXISTS automation_state;
+        DROP TABLE IF EXISTS schedules;
+        DROP TABLE IF EXISTS automation_rules;
+      `);
+    }
+  },
+  {
+    version: 11,
+    name: 'auditoria_e_uso_dos_atuadores',
+    up: async (db) => {
+      await db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          device_id INTEGER NOT NULL DEFAULT 1,
+          field TEXT NOT NULL,
+          old_value TEXT,
+          new_value TEXT,
+          source TEXT NOT NULL,
+          actor TEXT,
+          ip TEXT,
+          route TEXT,
+          status_code INTEGER,
+          created_at INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS idx_audit_log_device_created ON audit_log(device_id, created_at);
+
+        CREATE TABLE IF NOT EXISTS actuator_usage (
+          device_id INTEGER NOT NULL,
+          actuator TEXT NOT NULL,
+          period_start INTEGER NOT NULL,
+          on_seconds REAL NOT NULL DEFAULT 0,
+          starts INTEGER NOT NULL DEFAULT 0,
+          energy_wh REAL NOT NULL DEFAULT 0,
+          PRIMARY KEY (device_id, actuator, period_start)
+        );
+      `);
+    },
+    down: async (db) => {
+      await db.exec(`
+        DROP TABLE IF EXISTS actuator_usage;
+        DROP TABLE IF EXISTS audit_log;
+      `);
+    }
+  },
+  {
+    version: 12,
+    name: 'historico_por_tanque',
+    // Agregações separadas por tanque: as linhas existentes ficam com o tanque padrão e o índice único
+    // passa a incluir device_id (ON CONFLICT (device_id, date, period_type))
+    up: async (db) => {
+      await addColumnIfMissing(db, 'historical_data', 'device_id', 'INTEGER NOT NULL DEFAULT 1');
+      await db.exec(`
+        DROP INDEX IF EXISTS idx_historical_data_date_period;
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_historical_data_device_date_period
+          ON historical_data(device_id, date, period_type);
+      `);
+    },
+    // O índice antigo não comporta um período repetido em vários tanques; só as agregações do tanque
+    // padrão são mantidas
+    down: async (db) => {
+      await db.exec(`
+        DROP INDEX IF EXISTS idx_historical_data_device_date_period;
+        DELETE FROM historical_data WHERE device_id <> 1;
+      `);
+      await dropColumnIfExists(db, 'historical_data', 'device_id');
+      await db.exec(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_historical_data_date_period
+          ON historical_data(date, period_type);
+      `);
+    }
+  }
+];
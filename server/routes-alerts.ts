@@ -4,6 +4,7 @@
 
 import express, { Request, Response } from 'express';
 import { getAlertConfig, updateAlertConfig, checkAndSendAlert } from './services/alertService';
+import { ValidationError, sendError } from './utils/errors';
 
 export const alertsRouter = express.Router();
 
@@ -19,11 +20,7 @@ alertsRouter.get('/config', (req: Request, res: Response) => {
       config
     });
   } catch (error) {
-    console.error('❌ Erro ao obter configuração de alertas:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Erro ao obter configuração de alertas'
-    });
+    sendError(res, error, 'Erro ao obter configuração de alertas');
   }
 });
 
@@ -41,11 +38,7 @@ alertsRouter.post('/config', express.json(), async (req: Request, res: Response)
       config: updatedConfig
     });
   } catch (error) {
-    console.error('❌ Erro ao atualizar configuração de alertas:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Erro ao atualizar configuração de alertas'
-    });
+    sendError(res, error, 'Erro ao atualizar configuração de alertas');
   }
 });
 
@@ -59,17 +52,11 @@ alertsRouter.post('/test', express.json(), async (req: Request, res: Response) =
     const { type, value } = req.body;
     
     if (!type || (type !== 'temperature' && type !== 'level')) {
-      return res.status(400).json({
-        success: false,
-        error: 'Tipo de alerta inválido. Deve ser "temperature" ou "level"'
-      });
+      return sendError(res, new ValidationError('Tipo de alerta inválido. Deve ser "temperature" ou "level"'));
     }
     
     if (typeof value !== 'number') {
-      return res.status(400).json({
-        success: false,
-        error: 'Valor inválido. Deve ser um número'
-      });
+      return sendError(res, new ValidationError('Valor inválido. Deve ser um número'));
     }
     
     // Forçar o envio de alerta independentemente dos limites configurados
@@ -80,11 +67,7 @@ alertsRouter.post('/test', express.json(), async (req: Request, res: Response) =
       alertSent: result
     });
   } catch (error) {
-    console.error('❌ Erro ao testar alerta:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Erro ao testar alerta'
-    });
+    sendError(res, error, 'Erro ao testar alerta');
   }
 });
 
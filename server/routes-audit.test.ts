@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import type { Request } from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+vi.mock('./services/thingspeakService', () => ({
+  getCurrentDeviceStatus: () => ({ pumpStatus: false, heaterStatus: false, operationMode: false })
+}));
+vi.mock('./routes-devices', () => ({ getRequestDeviceId: () => 1 }));
+
+import { auditCommands, getAuditedCommand } from './routes-audit';
+import { listAuditEntries } from './services/auditService';
+import { migrateDatabase } from './services/migrationService';
+
+function request(path: string): Request {
+  return { path, query: {}, header: () => undefined } as unknown as Request;
+}
+
+describe('getAuditedCommand', () => {
+  it('reconhece as rotas de controle como o Express as roteia', () => {
+    for (const path of ['/api/control/pump', '/API/control/pump', '/api/control/pump/', '/Api/Device/Pump//']) {
+      expect(getAuditedCommand(request(path)), path).toEqual({ deviceId: 1, fields: ['pump'] });
+    }
+  });
+
+  it('reconhece as rotas versionadas de controle dos tanques', () => {
+    expect(getAuditedCommand(request('/api/v1/devices/2/control/heater'))).toEqual({ deviceId: 2, fields: ['heater'] });
+    expect(getAuditedCommand(request('/API/V1/Devices/3/Control/Pump-Flow/'))).toEqual({ deviceId: 3, fields: ['pump-flow'] });
+  });
+
+  it('ignora rotas que não são de controle', () => {
+    expect(getAuditedCommand(request('/api/readings/latest'))).toBeNull();
+    expect(getAuditedCommand(request('/api/control/constructor'))).toBeNull();
+  });
+});
+
+describe('auditCommands', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    await migrateDatabase('main');
+
+    const app = express();
+    app.use(auditCommands);
+    app.post('/api/control/pump', (_req, res) => res.json({ success: true }));
+    app.post('/api/v1/devices/:deviceId/control/:actuator', (_req, res) => res.json({ success: true }));
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('registra os comandos enviados por variações do caminho', async () => {
+    for (const path of ['/API/control/pump', '/api/control/pump/', '/api/v1/devices/4/control/heater']) {
+      expect((await fetch(`${baseUrl}${path}`, { method: 'POST' })).status, path).toBe(200);
+    }
+
+    // A gravação acontece depois que a resposta termina
+    await vi.waitFor(async () => {
+      const { entries } = await listAuditEntries({ limit: 10, offset: 0 });
+      expect(entries.map(entry => `${entry.deviceId}:${entry.field}`).sort()).toEqual(['1:pump', '1:pump', '4:heater']);
+    });
+  });
+});
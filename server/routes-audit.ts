@@ -0,0 +1,160 @@
+/**
+ * Rotas e middleware do registro de auditoria dos comandos
+ * O middleware registra cada chamada às rotas de controle (/api/control/*, /api/device/*,
+ * /api/devices/:deviceId/control/:actuator, também em /api/v1, e controles de bomba/aquecedor do emulador)
+ * com o valor anterior e o novo, a origem, o usuário da sessão (ou o token de API) e o IP do cliente.
+ */
+
+import express, { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
+import {
+  AUDIT_FIELDS,
+  AUDIT_SOURCES,
+  AuditField,
+  AuditSource,
+  getAuditValue,
+  listAuditEntries,
+  recordAudit
+} from './services/auditService';
+import { getRequestDeviceId } from './routes-devices';
+import { ValidationError, sendError } from './utils/errors';
+
+export const auditRouter = express.Router();
+
+// Campos alterados por cada rota de controle; as rotas do emulador controlam o tanque principal
+const AUDITED_ROUTES: Record<string, { fields: AuditField[]; mainDevice?: boolean }> = {
+  '/api/control/pump': { fields: ['pump'] },
+  '/api/control/heater': { fields: ['heater'] },
+  '/api/control/operation-mode': { fields: ['mode'] },
+  '/api/control/pump-flow': { fields: ['pump-flow'] },
+  '/api/control/targettemp': { fields: ['target-temperature'] },
+  '/api/control/pumpontimer': { fields: ['pump-on-timer'] },
+  '/api/control/pumpofftimer': { fields: ['pump-off-timer'] },
+  '/api/device/pump': { fields: ['pump'] },
+  '/api/device/heater': { fields: ['heater'] },
+  '/api/device/mode': { fields: ['mode'] },
+  '/api/device/target-temperature': { fields: ['target-temperature'] },
+  '/api/device/pump-on-timer': { fields: ['pump-on-timer'] },
+  '/api/device/pump-off-timer': { fields: ['pump-off-timer'] },
+  '/api/device/timer': { fields: ['pump-on-timer', 'pump-off-timer'] },
+  '/api/emulator/pump': { fields: ['pump'], mainDevice: true },
+  '/api/emulator/heater': { fields: ['heater'], mainDevice: true },
+  '/api/emulator/control/pump': { fields: ['pump'], mainDevice: true },
+  '/api/emulator/control/heater': { fields: ['heater'], mainDevice: true }
+};
+
+const DEVICE_CONTROL_ROUTE = /^\/api\/devices\/(\d+)\/control\/([\w-]+)$/;
+
+const auditQuerySchema = z.object({
+  deviceId: z.coerce.number().int().positive().optional(),
+  field: z.enum(AUDIT_FIELDS).optional(),
+  source: z.enum(AUDIT_SOURCES).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * Origem do comando: a interface web se identifica pelo cabeçalho X-Request-Source: ui
+ */
+export function getRequestSource(req: Request): AuditSource {
+  return req.header('x-request-source') === 'ui' ? 'ui' : 'api';
+}
+
+/**
+ * IP do cliente que fez a requisição
+ */
+export function getClientIp(req: Request): string | null {
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+/**
+ * Caminho comparado com as rotas auditadas, normalizado como o Express o roteia (sem diferenciar
+ * maiúsculas e com ou sem barra final) e com /api/v1 equivalente a /api, como em getAccessRule
+ */
+function normalizeAuditPath(path: string): string {
+  return path.toLowerCase().replace(/\/+$/, '').replace(/^\/api\/v\d+\//, '/api/');
+}
+
+export function getAuditedCommand(req: Request): { deviceId: number; fields: AuditField[] } | null {
+  const path = normalizeAuditPath(req.path);
+  const match = DEVICE_CONTROL_ROUTE.exec(path);
+  if (match) {
+    const field = AUDIT_FIELDS.find(name => name === match[2]);
+    return field ? { deviceId: parseInt(match[1]), fields: [field] } : null;
+  }
+
+  const route = Object.prototype.hasOwnProperty.call(AUDITED_ROUTES, path) ? AUDITED_ROUTES[path] : null;
+  if (!route) return null;
+
+  return {
+    deviceId: route.mainDevice ? DEFAULT_DEVICE_ID : getRequestDeviceId(req),
+    fields: route.fields
+  };
+}
+
+/**
+ * Middleware que registra as chamadas às rotas de controle
+ * O valor anterior é lido antes da rota executar e o novo quando a resposta termina
+ * (comandos recusados ficam registrados com o mesmo valor e o código de erro)
+ */
+export function auditCommands(req: Request, res: Response, next: NextFunction): void {
+  const command = req.method === 'POST' ? getAuditedCommand(req) : null;
+  if (!command) return next();
+
+  const { deviceId, fields } = command;
+  const oldValues = fields.map(field => getAuditValue(field, deviceId));
+
+  res.on('finish', () => {
+    fields.forEach((field, index) => {
+      recordAudit({
+        deviceId,
+        field,
+        oldValue: oldValues[index],
+        newValue: getAuditValue(field, deviceId),
+        source: getRequestSource(req),
+        actor: req.user?.username ?? (req.apiToken ? `token "${req.apiToken.name}"` : null),
+        ip: getClientIp(req),
+        route: `${req.method} ${req.path}`,
+        statusCode: res.statusCode
+      });
+    });
+  });
+
+  next();
+}
+
+/**
+ * Lista os registros de auditoria
+ * GET /api/audit?deviceId=&field=&source=&from=&to=&limit=&offset=
+ */
+auditRouter.get('/', async (req: Request, res: Response) => {
+  const validation = auditQuerySchema.safeParse(req.query);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const { from, to, ...filters } = validation.data;
+    const { entries, total } = await listAuditEntries({
+      ...filters,
+      from: from?.getTime(),
+      to: to?.getTime()
+    });
+    res.json({ success: true, entries, total });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar registros de auditoria');
+  }
+});
+
+/**
+ * Registra as rotas de auditoria
+ * O middleware deve ser registrado antes das rotas de controle
+ * @param app Express app
+ */
+export function setupAuditRoutes(app: express.Express): void {
+  app.use('/api/audit', auditRouter);
+}
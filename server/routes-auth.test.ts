@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+import { enforceAccess, getAccessRule, getClientAddress, getTrustProxySetting } from './routes-auth';
+
+describe('getAccessRule', () => {
+  it('aplica as mesmas regras independentemente de maiúsculas e minúsculas', () => {
+    expect(getAccessRule('POST', '/API/control/pump')).toMatchObject({ role: 'operator', scope: 'devices:control' });
+    expect(getAccessRule('POST', '/Api/V1/Control/pump')).toMatchObject({ role: 'operator', scope: 'devices:control' });
+    expect(getAccessRule('GET', '/API/USERS')).toMatchObject({ role: 'admin' });
+    expect(getAccessRule('GET', '/API/Readings/latest')).toMatchObject({ role: 'viewer' });
+  });
+
+  it('mantém públicas apenas as rotas liberadas', () => {
+    expect(getAccessRule('POST', '/API/AUTH/login')).toMatchObject({ role: null });
+    expect(getAccessRule('GET', '/')).toBeNull();
+    expect(getAccessRule('GET', '/apidocs')).toBeNull();
+  });
+
+  it('exige administrador para /api sem regra correspondente', () => {
+    expect(getAccessRule('GET', '/API')).toMatchObject({ role: 'admin' });
+  });
+});
+
+describe('enforceAccess', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(enforceAccess);
+    app.post('/api/control/pump', (_req, res) => res.json({ success: true }));
+    app.post('/api/v1/control/pump', (_req, res) => res.json({ success: true }));
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('não libera comandos pela rota em maiúsculas sem sessão', async () => {
+    for (const path of ['/api/control/pump', '/API/control/pump', '/Api/Control/Pump', '/API/v1/control/pump']) {
+      const response = await fetch(`${baseUrl}${path}`, { method: 'POST' });
+      expect(response.status, path).toBe(401);
+    }
+  });
+});
+
+describe('getClientAddress', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.set('trust proxy', getTrustProxySetting());
+    app.get('/address', (req, res) => res.json({ address: getClientAddress(req) }));
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    delete process.env.TRUST_PROXY;
+  });
+
+  it('usa o endereço repassado pelo proxy, e não o do próprio proxy', async () => {
+    const address = async (forwardedFor: string) => {
+      const response = await fetch(`${baseUrl}/address`, { headers: { 'X-Forwarded-For': forwardedFor } });
+      return (await response.json()).address;
+    };
+
+    expect(await address('203.0.113.7')).toBe('203.0.113.7');
+    expect(await address('198.51.100.2')).toBe('198.51.100.2');
+    // Somente o salto adicionado pelo proxy confiável é considerado
+    expect(await address('10.0.0.1, 203.0.113.7')).toBe('203.0.113.7');
+  });
+
+  it('lê TRUST_PROXY como booleano, número de saltos ou lista de endereços', () => {
+    expect(getTrustProxySetting()).toBe(1);
+    process.env.TRUST_PROXY = 'false';
+    expect(getTrustProxySetting()).toBe(false);
+    process.env.TRUST_PROXY = '2';
+    expect(getTrustProxySetting()).toBe(2);
+    process.env.TRUST_PROXY = 'loopback, 10.0.0.0/8';
+    expect(getTrustProxySetting()).toBe('loopback, 10.0.0.0/8');
+  });
+});
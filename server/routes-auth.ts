@@ -0,0 +1,459 @@
+/**
+ * Autenticação, sessões e controle de acesso por papel
+ *
+ * O login cria uma sessão guardada em cookie (httpOnly). As sessões ficam no PostgreSQL
+ * (connect-pg-simple) quando DATABASE_URL está definida e em memória nos demais casos.
+ * Scripts e integrações usam tokens de API (Authorization: Bearer <token>) com escopos.
+ *
+ * Toda rota /api exige sessão ou token, exceto o login e a ingestão dos dispositivos (que usa chaves próprias).
+ * Consultas exigem o papel viewer; alterações exigem operator ou admin conforme ACCESS_RULES.
+ */
+
+import crypto from 'crypto';
+import express, { Request, Response, NextFunction } from 'express';
+import session from 'express-session';
+import connectPg from 'connect-pg-simple';
+import createMemoryStore from 'memorystore';
+import passport from 'passport';
+import { Strategy as LocalStrategy } from 'passport-local';
+import { z } from 'zod';
+import { insertUserSchema, USER_ROLES, UserRole, ApiTokenScope } from '@shared/schema';
+import {
+  UserInfo,
+  createUser,
+  deleteUser,
+  ensureInitialAdmin,
+  getUser,
+  hasRole,
+  listUsers,
+  updateUser,
+  verifyCredentials
+} from './services/userService';
+import { ApiTokenInfo, verifyApiToken } from './services/apiTokenService';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  ValidationError,
+  sendError
+} from './utils/errors';
+
+declare global {
+  namespace Express {
+    interface User extends UserInfo {}
+    interface Request {
+      // Token de API usado na requisição (ausente nas requisições com sessão)
+      apiToken?: ApiTokenInfo;
+    }
+  }
+}
+
+export const authRouter = express.Router();
+export const usersRouter = express.Router();
+
+// Duração da sessão sem uso (renovada a cada requisição)
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Tentativas de login com senha errada aceitas por endereço dentro da janela
+const LOGIN_MAX_FAILURES = 5;
+const LOGIN_FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// Falhas de login recentes por endereço de origem
+const loginFailures = new Map<string, { count: number; firstAt: number }>();
+
+/**
+ * Regras de acesso às rotas da API, avaliadas em ordem (vale a primeira que casar)
+ * role null indica rota pública; sem methods a regra vale para consultas e alterações;
+ * scope é o escopo exigido dos tokens de API (sem scope a rota só aceita sessão).
+ * As rotas da API versionada (/api/v1/...) seguem as regras da rota equivalente sem versão.
+ */
+interface AccessRule {
+  pattern: RegExp;
+  methods?: 'read' | 'write';
+  role: UserRole | null;
+  scope?: ApiTokenScope;
+}
+
+const ACCESS_RULES: AccessRule[] = [
+  // Login, logout e sessão atual
+  { pattern: /^\/api\/auth\//, role: null },
+  // Documentação da API versionada
+  { pattern: /^\/api\/v1\/(openapi\.json|docs)$/, methods: 'read', role: null },
+  // Ingestão dos dispositivos, autenticada pela chave do dispositivo
+  { pattern: /^\/api\/ingest(\/batch)?\/?$/, methods: 'write', role: null },
+  // Usuários e credenciais: somente administradores com sessão
+  { pattern: /^\/api\/(users|tokens|ingest\/keys)(\/|$)/, role: 'admin' },
+  // Dados sensíveis mesmo para consulta
+  { pattern: /^\/api\/alerts\/config$/, role: 'admin', scope: 'settings:write' },
+  // Comandos dos equipamentos e da automação
+  { pattern: /^\/api\/(control|device|automation)\//, methods: 'write', role: 'operator', scope: 'devices:control' },
+  { pattern: /^\/api\/devices\/\d+\/(control|setpoints)(\/|$)/, methods: 'write', role: 'operator', scope: 'devices:control' },
+  { pattern: /^\/api\/emulator\/(pump|heater|control\/|update-sensor)/, methods: 'write', role: 'operator', scope: 'devices:control' },
+  { pattern: /^\/api\/(schedules|rules|setpoints)(\/|$)/, methods: 'write', role: 'operator', scope: 'devices:control' },
+  { pattern: /^\/api\/fallback\/(sources|virtual-reading|health\/check)/, methods: 'write', role: 'operator', scope: 'devices:control' },
+  { pattern: /^\/api\/system\/force-sync$/, methods: 'write', role: 'operator', scope: 'devices:control' },
+  // Demais alterações (configurações, backup, tanques, alertas, emulador, sincronização): administrador
+  { pattern: /^\/api\//, methods: 'write', role: 'admin', scope: 'settings:write' },
+  // Históricos completos e registros, para exportação
+  {
+    pattern: /^\/api\/(historical-data|readings\/history|thingspeak\/history|sync-history|system-events|audit)(\/|$)/,
+    methods: 'read',
+    role: 'viewer',
+    scope: 'export:read'
+  },
+  // Demais consultas: qualquer usuário autenticado
+  { pattern: /^\/api\//, methods: 'read', role: 'viewer', scope: 'readings:read' }
+];
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+// Por segurança, requisições sem regra correspondente exigem administrador
+const DEFAULT_RULE: AccessRule = { pattern: /^/, role: 'admin', scope: 'settings:write' };
+
+const loginSchema = z.object({
+  username: z.string().min(1).max(64),
+  password: z.string().min(1).max(128)
+});
+
+const userUpdateSchema = z.object({
+  role: z.enum(USER_ROLES).optional(),
+  active: z.boolean().optional(),
+  password: insertUserSchema.shape.password.optional()
+});
+
+/**
+ * Regra de acesso da requisição; null se a rota não for da API
+ * O roteamento do Express não diferencia maiúsculas de minúsculas (/API/control/pump chega à
+ * mesma rota que /api/control/pump), por isso o caminho é comparado sempre em minúsculas.
+ */
+export function getAccessRule(method: string, path: string): AccessRule | null {
+  const normalized = path.toLowerCase();
+  if (normalized !== '/api' && !normalized.startsWith('/api/')) return null;
+
+  const kind = READ_METHODS.includes(method) ? 'read' : 'write';
+  const unversioned = normalized.replace(/^\/api\/v\d+\//, '/api/');
+  return ACCESS_RULES.find(rule =>
+    (rule.pattern.test(normalized) || rule.pattern.test(unversioned)) && (!rule.methods || rule.methods === kind)
+  ) || DEFAULT_RULE;
+}
+
+function getBearerToken(req: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.header('authorization') || '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Middleware que aplica ACCESS_RULES
+ * Com token de API: 401 se inválido, revogado ou expirado, 403 sem o escopo exigido
+ * Com sessão: 401 sem sessão, 403 sem o papel exigido
+ */
+export async function enforceAccess(req: Request, res: Response, next: NextFunction) {
+  const rule = getAccessRule(req.method, req.path);
+  if (!rule || !rule.role) return next();
+
+  const bearer = getBearerToken(req);
+  if (bearer) {
+    try {
+      const token = await verifyApiToken(bearer);
+
+      if (!token) {
+        return sendError(res, new UnauthorizedError('Token de API inválido, revogado ou expirado'));
+      }
+
+      if (!rule.scope || !token.scopes.includes(rule.scope)) {
+        return sendError(res, new ForbiddenError('Escopo insuficiente', {
+          required: rule.scope ?? null,
+          scopes: token.scopes
+        }));
+      }
+
+      req.apiToken = token;
+      return next();
+    } catch (error) {
+      return next(error);
+    }
+  }
+
+  if (!req.user) {
+    return sendError(res, new UnauthorizedError());
+  }
+
+  if (!hasRole(req.user.role, rule.role)) {
+    return sendError(res, new ForbiddenError('Permissão insuficiente', { required: rule.role, role: req.user.role }));
+  }
+
+  next();
+}
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PgStore = connectPg(session);
+    return new PgStore({ conString: process.env.DATABASE_URL, createTableIfMissing: true });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+
+  console.warn('⚠️ SESSION_SECRET não definido, usando um segredo temporário (as sessões serão perdidas ao reiniciar)');
+  return crypto.randomBytes(32).toString('hex');
+}
+
+function parseId(req: Request): number | null {
+  const id = parseInt(req.params.id);
+  return isNaN(id) ? null : id;
+}
+
+/**
+ * Valor de 'trust proxy' do Express, lido de TRUST_PROXY (padrão: 1 salto, o proxy da hospedagem)
+ * Aceita true/false, o número de proxies à frente do servidor ou a lista de endereços/sub-redes confiáveis
+ */
+export function getTrustProxySetting(): boolean | number | string {
+  const value = (process.env.TRUST_PROXY ?? '1').trim();
+  if (value === 'true' || value === 'false') return value === 'true';
+  return /^\d+$/.test(value) ? parseInt(value) : value;
+}
+
+/**
+ * Endereço do cliente segundo 'trust proxy': atrás do proxy, o do X-Forwarded-For e não o do proxy
+ */
+export function getClientAddress(req: Request): string {
+  return req.ip || 'desconhecido';
+}
+
+/**
+ * Bloqueia novas tentativas de login após falhas seguidas do mesmo endereço
+ */
+function checkLoginThrottle(address: string): RateLimitedError | null {
+  const failures = loginFailures.get(address);
+  if (!failures) return null;
+
+  const elapsed = Date.now() - failures.firstAt;
+  if (elapsed >= LOGIN_FAILURE_WINDOW_MS) {
+    loginFailures.delete(address);
+    return null;
+  }
+
+  if (failures.count < LOGIN_MAX_FAILURES) return null;
+  return new RateLimitedError(Math.ceil((LOGIN_FAILURE_WINDOW_MS - elapsed) / 1000));
+}
+
+function recordLoginFailure(address: string): void {
+  const failures = loginFailures.get(address);
+  if (failures) {
+    failures.count++;
+  } else {
+    loginFailures.set(address, { count: 1, firstAt: Date.now() });
+  }
+}
+
+/**
+ * Login
+ * POST /api/auth/login
+ * Body: { username, password }
+ */
+authRouter.post('/login', (req: Request, res: Response, next: NextFunction) => {
+  const validation = loginSchema.safeParse(req.body);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  const address = getClientAddress(req);
+  const throttled = checkLoginThrottle(address);
+  if (throttled) {
+    return sendError(res, throttled);
+  }
+
+  passport.authenticate('local', (error: unknown, user: Express.User | false) => {
+    if (error) return next(error);
+
+    if (!user) {
+      recordLoginFailure(address);
+      return sendError(res, new UnauthorizedError('Usuário ou senha inválidos'));
+    }
+
+    loginFailures.delete(address);
+
+    // Nova sessão a cada login para evitar fixação de sessão
+    req.session.regenerate(regenerateError => {
+      if (regenerateError) return next(regenerateError);
+
+      req.login(user, loginError => {
+        if (loginError) return next(loginError);
+        console.log(`🔐 Login de "${user.username}" (${user.role})`);
+        res.json({ success: true, user });
+      });
+    });
+  })(req, res, next);
+});
+
+/**
+ * Logout
+ * POST /api/auth/logout
+ */
+authRouter.post('/logout', (req: Request, res: Response, next: NextFunction) => {
+  req.logout(logoutError => {
+    if (logoutError) return next(logoutError);
+
+    req.session.destroy(() => {
+      res.clearCookie('connect.sid');
+      res.json({ success: true });
+    });
+  });
+});
+
+/**
+ * Usuário da sessão atual
+ * GET /api/auth/me
+ */
+authRouter.get('/me', (req: Request, res: Response) => {
+  if (!req.user) {
+    return sendError(res, new UnauthorizedError());
+  }
+  res.json({ success: true, user: req.user });
+});
+
+/**
+ * Lista os usuários
+ * GET /api/users
+ */
+usersRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const users = await listUsers();
+    res.json({ success: true, users });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar usuários');
+  }
+});
+
+/**
+ * Cadastra um usuário
+ * POST /api/users
+ * Body: { username, password, role?, active? }
+ */
+usersRouter.post('/', async (req: Request, res: Response) => {
+  const validation = insertUserSchema.safeParse(req.body);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const user = await createUser(validation.data);
+    res.status(201).json({ success: true, user });
+  } catch (error) {
+    sendError(res, error, 'Erro ao cadastrar usuário');
+  }
+});
+
+/**
+ * Altera papel, situação ou senha de um usuário
+ * PUT /api/users/:id
+ * Body: { role?, active?, password? }
+ */
+usersRouter.put('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req);
+  const validation = userUpdateSchema.safeParse(req.body);
+
+  if (id === null || !validation.success) {
+    return sendError(res, validation.success ? new ValidationError('ID inválido') : ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const user = await updateUser(id, validation.data);
+    if (!user) {
+      return sendError(res, new NotFoundError('Usuário não encontrado'));
+    }
+    res.json({ success: true, user });
+  } catch (error) {
+    sendError(res, error, 'Erro ao alterar usuário');
+  }
+});
+
+/**
+ * Remove um usuário
+ * DELETE /api/users/:id
+ */
+usersRouter.delete('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req);
+
+  if (id === null) {
+    return sendError(res, new ValidationError('ID inválido'));
+  }
+
+  if (id === req.user?.id) {
+    return sendError(res, new ConflictError('Não é possível remover o próprio usuário'));
+  }
+
+  try {
+    const removed = await deleteUser(id);
+    if (!removed) {
+      return sendError(res, new NotFoundError('Usuário não encontrado'));
+    }
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao remover usuário');
+  }
+});
+
+/**
+ * Configura sessões, login e controle de acesso
+ * Deve ser registrado antes das demais rotas da API
+ * @param app Express app
+ */
+export function setupAuth(app: express.Express): void {
+  // Necessário para o limite de login por endereço e para o cookie secure atrás do proxy
+  app.set('trust proxy', getTrustProxySetting());
+
+  app.use(session({
+    store: createSessionStore(),
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    rolling: true,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.SESSION_COOKIE_SECURE === 'true',
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  }));
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await verifyCredentials(username, password);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+
+  // Usuários removidos ou desativados perdem a sessão na próxima requisição
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await getUser(id);
+      done(null, user && user.active ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use(enforceAccess);
+
+  app.use('/api/auth', authRouter);
+  app.use('/api/users', usersRouter);
+
+  ensureInitialAdmin().catch(error => {
+    console.error('❌ Erro ao criar o administrador inicial:', error);
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Rotas para consulta da fila de comandos dos dispositivos
+ */
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { commandQueue } from './services/commandQueueService';
+import { NotFoundError, ValidationError, sendError } from './utils/errors';
+
+export const commandsRouter = express.Router();
+
+const listCommandsSchema = z.object({
+  state: z.enum(['queued', 'sent', 'acknowledged', 'failed']).optional(),
+  confirmation: z.enum(['pending', 'confirmed', 'timed_out', 'contradicted', 'superseded']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * Lista os comandos da fila
+ * GET /api/commands?state=acknowledged&confirmation=pending&limit=50&offset=0
+ */
+commandsRouter.get('/', async (req: Request, res: Response) => {
+  const validation = listCommandsSchema.safeParse(req.query);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const { commands, total } = await commandQueue.listCommands(validation.data);
+    const stats = await commandQueue.getStats();
+
+    res.json({
+      success: true,
+      commands,
+      total,
+      stats
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar comandos');
+  }
+});
+
+/**
+ * Consulta um comando específico
+ * GET /api/commands/:id
+ */
+commandsRouter.get('/:id', async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    return sendError(res, new ValidationError('ID inválido'));
+  }
+
+  try {
+    const command = await commandQueue.getCommand(id);
+
+    if (!command) {
+      return sendError(res, new NotFoundError('Comando não encontrado'));
+    }
+
+    res.json({ success: true, command });
+  } catch (error) {
+    sendError(res, error, 'Erro ao consultar comando');
+  }
+});
+
+/**
+ * Registra as rotas da fila de comandos
+ * @param app Express app
+ */
+export function setupCommandRoutes(app: express.Express): void {
+  app.use('/api/commands', commandsRouter);
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import express from 'express';
+import { z } from 'zod';
+import type { AddressInfo } from 'net';
+import type { Server } from 'http';
+
+const mocks = vi.hoisted(() => ({
+  requestPump: vi.fn(async () => 7)
+}));
+
+vi.mock('./services/deviceService', () => ({ getDevice: async (id: number) => ({ id, active: true }) }));
+vi.mock('./services/actuators', () => ({
+  ACTUATORS: { pump: { value: z.boolean(), request: mocks.requestPump } }
+}));
+
+import { setupDeviceRoutes } from './routes-devices';
+
+describe('POST /api/devices/:deviceId/control/:actuator', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    setupDeviceRoutes(app);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function control(actuator: string, value: unknown) {
+    return fetch(`${baseUrl}/api/devices/1/control/${actuator}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ value })
+    });
+  }
+
+  it('envia o comando do atuador cadastrado', async () => {
+    const response = await control('pump', true);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, value: true, commandId: 7 });
+    expect(mocks.requestPump).toHaveBeenCalledWith(true, 'api', 1);
+  });
+
+  it('responde 404 para chaves herdadas do objeto de atuadores', async () => {
+    for (const actuator of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      const response = await control(actuator, true);
+      expect(response.status, actuator).toBe(404);
+      expect(await response.json(), actuator).toMatchObject({ code: 'NOT_FOUND' });
+    }
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Rotas para cadastro de tanques e consultas/comandos por tanque
+ *
+ * Todas as rotas em /api/devices/:deviceId/... operam sobre um único tanque. As rotas antigas
+ * (/api/readings, /api/control, ...) continuam respondendo pelo tanque principal, ou pelo tanque
+ * informado no cabeçalho X-Device-Id.
+ */
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { insertDeviceSchema, DEFAULT_DEVICE_ID } from '@shared/schema';
+import { storage } from './storage';
+import {
+  listDevices,
+  getDevice,
+  createDevice,
+  updateDevice,
+  deactivateDevice,
+  DeviceInfo
+} from './services/deviceService';
+import { getCurrentDeviceStatus } from './services/thingspeakService';
+import { ACTUATORS } from './services/actuators';
+import { commandQueue } from './services/commandQueueService';
+import { getSystemEvents } from './services/historicalDataService';
+import { getActuatorUsage } from './services/actuatorUsageService';
+import { aggregateReadingsByDateRange } from './utils/dataAggregation';
+import { ConflictError, NotFoundError, ValidationError, sendError } from './utils/errors';
+
+export const devicesRouter = express.Router();
+
+const listDevicesSchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional()
+});
+
+const latestReadingsSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(60)
+});
+
+const historySchema = z.object({
+  startDate: z.string().min(1),
+  endDate: z.string().min(1)
+});
+
+const setpointsSchema = z.object({
+  tempMin: z.number(),
+  tempMax: z.number(),
+  levelMin: z.number(),
+  levelMax: z.number()
+});
+
+// Apenas as chaves do próprio registro (não herdadas, como constructor)
+const actuatorParamsSchema = z.object({
+  actuator: z.enum(Object.keys(ACTUATORS) as [string, ...string[]])
+});
+
+const deviceCommandsSchema = z.object({
+  state: z.enum(['queued', 'sent', 'acknowledged', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const deviceUsageSchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7)
+});
+
+const deviceEventsSchema = z.object({
+  type: z.enum(['error', 'warning', 'info']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+/**
+ * Tanque selecionado pelo cliente nas rotas sem :deviceId
+ * (cabeçalho X-Device-Id ou query ?deviceId); padrão: tanque principal
+ */
+export function getRequestDeviceId(req: Request): number {
+  const raw = req.header('x-device-id') ?? req.query.deviceId;
+  const id = parseInt(String(raw ?? ''));
+  return Number.isInteger(id) && id > 0 ? id : DEFAULT_DEVICE_ID;
+}
+
+/**
+ * Carrega o tanque de :deviceId em res.locals.device (404 se não existir)
+ */
+devicesRouter.param('deviceId', async (req, res, next, value) => {
+  const id = parseInt(value);
+
+  if (isNaN(id)) {
+    return sendError(res, new ValidationError('ID inválido'));
+  }
+
+  try {
+    const device = await getDevice(id);
+
+    if (!device) {
+      return sendError(res, new NotFoundError('Tanque não encontrado'));
+    }
+
+    res.locals.device = device;
+    next();
+  } catch (error) {
+    sendError(res, error, 'Erro ao consultar tanque');
+  }
+});
+
+/**
+ * Lista os tanques cadastrados
+ * GET /api/devices?includeInactive=true
+ */
+devicesRouter.get('/', async (req: Request, res: Response) => {
+  const validation = listDevicesSchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const devices = await listDevices(validation.data.includeInactive === 'true');
+    res.json({ success: true, devices });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar tanques');
+  }
+});
+
+/**
+ * Cadastra um tanque
+ * POST /api/devices
+ * Body: { name, kind?, description?, thingspeak_channel_id?, ... }
+ */
+devicesRouter.post('/', async (req: Request, res: Response) => {
+  const validation = insertDeviceSchema.safeParse(req.body);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const device = await createDevice(validation.data);
+    res.status(201).json({ success: true, device });
+  } catch (error) {
+    sendError(res, error, 'Erro ao cadastrar tanque');
+  }
+});
+
+/**
+ * Consulta um tanque
+ * GET /api/devices/:deviceId
+ */
+devicesRouter.get('/:deviceId', (req: Request, res: Response) => {
+  res.json({ success: true, device: res.locals.device });
+});
+
+/**
+ * Atualiza os dados de um tanque
+ * PUT /api/devices/:deviceId
+ */
+devicesRouter.put('/:deviceId', async (req: Request, res: Response) => {
+  const validation = insertDeviceSchema.partial().safeParse(req.body);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const device = await updateDevice(res.locals.device.id, validation.data);
+    res.json({ success: true, device });
+  } catch (error) {
+    sendError(res, error, 'Erro ao atualizar tanque');
+  }
+});
+
+/**
+ * Desativa um tanque (o histórico é mantido)
+ * DELETE /api/devices/:deviceId
+ */
+devicesRouter.delete('/:deviceId', async (req: Request, res: Response) => {
+  const device: DeviceInfo = res.locals.device;
+
+  if (device.id === DEFAULT_DEVICE_ID) {
+    return sendError(res, new ConflictError('O tanque principal não pode ser desativado'));
+  }
+
+  try {
+    await deactivateDevice(device.id);
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao desativar tanque');
+  }
+});
+
+/**
+ * Últimas leituras do tanque e seus setpoints
+ * GET /api/devices/:deviceId/readings/latest?limit=60
+ */
+devicesRouter.get('/:deviceId/readings/latest', async (req: Request, res: Response) => {
+  const validation = latestReadingsSchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const deviceId = res.locals.device.id;
+    const readings = await storage.getLatestReadings(validation.data.limit, deviceId);
+    const setpoints = await storage.getSetpoints(deviceId);
+
+    res.json({
+      success: true,
+      readings,
+      setpoints: {
+        temp: { min: setpoints.tempMin, max: setpoints.tempMax },
+        level: { min: setpoints.levelMin, max: setpoints.levelMax }
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao buscar leituras do tanque');
+  }
+});
+
+/**
+ * Histórico de leituras do tanque, agregado conforme o período
+ * GET /api/devices/:deviceId/readings/history?startDate=2025-01-01&endDate=2025-01-07
+ */
+devicesRouter.get('/:deviceId/readings/history', async (req: Request, res: Response) => {
+  const validation = historySchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const deviceId = res.locals.device.id;
+    const { startDate, endDate } = validation.data;
+    const readings = await storage.getReadingsByDateRange(startDate, endDate, 1000, deviceId);
+    const setpoints = await storage.getSetpoints(deviceId);
+
+    res.json({
+      success: true,
+      readings: aggregateReadingsByDateRange(readings, new Date(startDate), new Date(endDate)),
+      setpoints: {
+        temp: { min: setpoints.tempMin, max: setpoints.tempMax },
+        level: { min: setpoints.levelMin, max: setpoints.levelMax }
+      },
+      stats: {
+        temperature: storage.getTemperatureStats(readings),
+        level: storage.getLevelStats(readings)
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao buscar histórico do tanque');
+  }
+});
+
+/**
+ * Setpoints do tanque
+ * GET /api/devices/:deviceId/setpoints
+ */
+devicesRouter.get('/:deviceId/setpoints', async (req: Request, res: Response) => {
+  try {
+    const setpoints = await storage.getSetpoints(res.locals.device.id);
+    res.json({ success: true, setpoints });
+  } catch (error) {
+    sendError(res, error, 'Erro ao buscar setpoints do tanque');
+  }
+});
+
+/**
+ * Atualiza os setpoints do tanque
+ * POST /api/devices/:deviceId/setpoints
+ * Body: { tempMin, tempMax, levelMin, levelMax }
+ */
+devicesRouter.post('/:deviceId/setpoints', async (req: Request, res: Response) => {
+  const validation = setpointsSchema.safeParse(req.body);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const setpoints = await storage.updateSetpoints(validation.data, res.locals.device.id);
+    res.json({ success: true, setpoints });
+  } catch (error) {
+    sendError(res, error, 'Erro ao atualizar setpoints do tanque');
+  }
+});
+
+/**
+ * Estado atual do tanque: última leitura e último estado solicitado aos atuadores
+ * GET /api/devices/:deviceId/status
+ */
+devicesRouter.get('/:deviceId/status', async (req: Request, res: Response) => {
+  try {
+    const deviceId = res.locals.device.id;
+    const [latest] = await storage.getLatestReadings(1, deviceId);
+
+    res.json({
+      success: true,
+      reading: latest || null,
+      memoryState: getCurrentDeviceStatus(deviceId)
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao buscar estado do tanque');
+  }
+});
+
+/**
+ * Envia um comando a um atuador do tanque
+ * POST /api/devices/:deviceId/control/:actuator
+ * Body: { value } (boolean para pump/heater/mode, número para os demais)
+ */
+devicesRouter.post('/:deviceId/control/:actuator', async (req: Request, res: Response) => {
+  const actuatorValidation = actuatorParamsSchema.safeParse(req.params);
+  if (!actuatorValidation.success) {
+    return sendError(res, new NotFoundError('Atuador desconhecido', { actuators: Object.keys(ACTUATORS) }));
+  }
+  const actuator = ACTUATORS[actuatorValidation.data.actuator];
+
+  const validation = z.object({ value: actuator.value }).safeParse(req.body);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const commandId = await actuator.request(validation.data.value, 'api', res.locals.device.id);
+    res.json({ success: true, value: validation.data.value, commandId });
+  } catch (error) {
+    sendError(res, error, 'Erro ao enviar comando ao tanque');
+  }
+});
+
+/**
+ * Comandos enviados ao tanque
+ * GET /api/devices/:deviceId/commands?state=&limit=&offset=
+ */
+devicesRouter.get('/:deviceId/commands', async (req: Request, res: Response) => {
+  const validation = deviceCommandsSchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const { commands, total } = await commandQueue.listCommands({
+      ...validation.data,
+      deviceId: res.locals.device.id
+    });
+    res.json({ success: true, commands, total });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar comandos do tanque');
+  }
+});
+
+/**
+ * Eventos do sistema relacionados ao tanque
+ * GET /api/devices/:deviceId/events?type=&limit=&offset=
+ */
+devicesRouter.get('/:deviceId/events', async (req: Request, res: Response) => {
+  const validation = deviceEventsSchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const { type, limit, offset } = validation.data;
+    const events = await getSystemEvents(limit, offset, type, res.locals.device.id);
+    res.json({ success: true, events });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar eventos do tanque');
+  }
+});
+
+/**
+ * Tempo ligado, partidas, ciclo de trabalho e energia estimada da bomba e do aquecedor
+ * GET /api/devices/:deviceId/usage?days=7
+ */
+devicesRouter.get('/:deviceId/usage', async (req: Request, res: Response) => {
+  const validation = deviceUsageSchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const usage = await getActuatorUsage(res.locals.device.id, validation.data.days);
+    res.json({ success: true, usage });
+  } catch (error) {
+    sendError(res, error, 'Erro ao calcular o uso dos atuadores');
+  }
+});
+
+/**
+ * Registra as rotas de tanques
+ * @param app Express app
+ */
+export function setupDeviceRoutes(app: express.Express): void {
+  app.use('/api/devices', devicesRouter);
+}
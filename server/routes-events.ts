@@ -0,0 +1,87 @@
+/**
+ * Rota de eventos em tempo real (Server-Sent Events)
+ * A interface mantém uma conexão aberta em /api/events e recebe novas leituras, mudanças de estado
+ * dos equipamentos, passos do ciclo automático, alertas e o andamento das sincronizações.
+ * O acesso segue as mesmas regras das consultas (sessão ou token com readings:read).
+ */
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { REALTIME_EVENT_TYPES, RealtimeEvent, realtimeService } from './services/realtimeService';
+import { getRequestDeviceId } from './routes-devices';
+import { ValidationError, sendError } from './utils/errors';
+
+export const eventsRouter = express.Router();
+
+// Comentário enviado periodicamente para manter a conexão aberta em proxies
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// Intervalo sugerido ao navegador para reconectar após uma queda
+const RETRY_MS = 3000;
+
+const eventsQuerySchema = z.object({
+  deviceId: z.coerce.number().int().positive().optional(),
+  // Tipos de evento separados por vírgula; sem o parâmetro todos são enviados
+  types: z.string().optional().transform((value, ctx) => {
+    if (!value) return [...REALTIME_EVENT_TYPES];
+    const types = value.split(',').map(type => type.trim());
+    const invalid = types.filter(type => !(REALTIME_EVENT_TYPES as readonly string[]).includes(type));
+    if (invalid.length > 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Tipos de evento inválidos: ${invalid.join(', ')}` });
+      return z.NEVER;
+    }
+    return types;
+  })
+});
+
+function writeEvent(res: Response, event: RealtimeEvent) {
+  res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Fluxo de eventos do tanque selecionado
+ * GET /api/events?deviceId=&types=reading,device-status
+ * (EventSource não envia cabeçalhos próprios, por isso o tanque vem na query string)
+ */
+eventsRouter.get('/', (req: Request, res: Response) => {
+  const validation = eventsQuerySchema.safeParse(req.query);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  const deviceId = validation.data.deviceId ?? getRequestDeviceId(req);
+  const types = validation.data.types;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Desativa o buffer de proxies como o nginx
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const unsubscribe = realtimeService.subscribe(event => {
+    if (!types.includes(event.type)) return;
+    if (event.deviceId !== null && event.deviceId !== deviceId) return;
+    writeEvent(res, event);
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(`: heartbeat ${Date.now()}\n\n`);
+  }, HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+/**
+ * Registra a rota de eventos em tempo real
+ * @param app Express app
+ */
+export function setupEventRoutes(app: express.Express): void {
+  app.use('/api/events', eventsRouter);
+}
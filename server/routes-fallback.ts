@@ -5,6 +5,7 @@
  */
 import express, { Request, Response } from 'express';
 import { fallbackService } from './services/fallbackService';
+import { ValidationError, sendError } from './utils/errors';
 
 /**
  * Registra as rotas relacionadas ao sistema de fallback
@@ -43,11 +44,7 @@ export function setupFallbackRoutes(app: express.Express): void {
         config: fallbackService.getConfig()
       });
     } catch (error: any) {
-      console.error('❌ Erro ao atualizar leitura virtual:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Erro interno do servidor'
-      });
+      sendError(res, error, 'Erro ao atualizar leitura virtual');
     }
   });
   /**
@@ -61,11 +58,7 @@ export function setupFallbackRoutes(app: express.Express): void {
         config
       });
     } catch (error: any) {
-      console.error('❌ Erro ao obter configuração do fallback:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Erro interno do servidor'
-      });
+      sendError(res, error, 'Erro ao obter configuração do fallback');
     }
   });
 
@@ -77,10 +70,7 @@ export function setupFallbackRoutes(app: express.Express): void {
       const newConfig = req.body;
       
       if (!newConfig || typeof newConfig !== 'object') {
-        return res.status(400).json({
-          success: false,
-          error: 'Configuração inválida'
-        });
+        return sendError(res, new ValidationError('Configuração inválida'));
       }
       
       const updatedConfig = fallbackService.updateConfig(newConfig);
@@ -89,11 +79,7 @@ export function setupFallbackRoutes(app: express.Express): void {
         config: updatedConfig
       });
     } catch (error: any) {
-      console.error('❌ Erro ao atualizar configuração do fallback:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Erro interno do servidor'
-      });
+      sendError(res, error, 'Erro ao atualizar configuração do fallback');
     }
   });
 
@@ -108,11 +94,7 @@ export function setupFallbackRoutes(app: express.Express): void {
         sources
       });
     } catch (error: any) {
-      console.error('❌ Erro ao obter fontes dos sensores:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Erro interno do servidor'
-      });
+      sendError(res, error, 'Erro ao obter fontes dos sensores');
     }
   });
 
@@ -125,10 +107,7 @@ export function setupFallbackRoutes(app: express.Express): void {
       const { source } = req.body;
       
       if (!sensor || !source || (source !== 'hardware' && source !== 'virtual')) {
-        return res.status(400).json({
-          success: false,
-          error: 'Parâmetros inválidos. Sensor e fonte (hardware/virtual) são obrigatórios.'
-        });
+        return sendError(res, new ValidationError('Parâmetros inválidos. Sensor e fonte (hardware/virtual) são obrigatórios.'));
       }
       
       // Método agora é assíncrono e precisa ser aguardado
@@ -140,11 +119,7 @@ export function setupFallbackRoutes(app: express.Express): void {
         sources: fallbackService.getSensorSources()
       });
     } catch (error: any) {
-      console.error(`❌ Erro ao definir fonte do sensor:`, error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Erro interno do servidor'
-      });
+      sendError(res, error, 'Erro ao definir fonte do sensor');
     }
   });
 
@@ -159,11 +134,7 @@ export function setupFallbackRoutes(app: express.Express): void {
         health
       });
     } catch (error: any) {
-      console.error('❌ Erro ao obter saúde dos sensores:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Erro interno do servidor'
-      });
+      sendError(res, error, 'Erro ao obter saúde dos sensores');
     }
   });
 
@@ -181,11 +152,7 @@ export function setupFallbackRoutes(app: express.Express): void {
         health
       });
     } catch (error: any) {
-      console.error('❌ Erro ao verificar saúde dos sensores:', error);
-      res.status(500).json({
-        success: false,
-        error: error.message || 'Erro interno do servidor'
-      });
+      sendError(res, error, 'Erro ao verificar saúde dos sensores');
     }
   });
 
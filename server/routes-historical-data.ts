@@ -12,6 +12,10 @@ import {
   getSystemEvents,
   PeriodType
 } from './services/historicalDataService';
+import { retentionService } from './services/retentionService';
+import { getRequestDeviceId } from './routes-devices';
+import { ValidationError, sendError } from './utils/errors';
+import { assertSqliteReadings } from './utils/storageBackend';
 
 /**
  * Registra as rotas para dados históricos na aplicação Express
@@ -33,7 +37,7 @@ export function registerHistoricalDataRoutes(app: Express) {
       console.log(`Fetching temperature readings from ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()} from local database...`);
       
       // Obter dados históricos específicos de temperatura
-      const data = await getHistoricalData(startDate, endDate, periodType as PeriodType);
+      const data = await getHistoricalData(startDate, endDate, periodType as PeriodType, getRequestDeviceId(req));
       
       // Retornar estrutura esperada pelo componente de análise histórica
       return res.json({
@@ -45,8 +49,7 @@ export function registerHistoricalDataRoutes(app: Express) {
         }
       });
     } catch (error) {
-      console.error('Erro ao buscar dados históricos de temperatura:', error);
-      return res.status(500).json({ success: false, error: (error as Error).message });
+      return sendError(res, error, 'Erro ao buscar dados históricos de temperatura');
     }
   });
   
@@ -64,7 +67,7 @@ export function registerHistoricalDataRoutes(app: Express) {
       console.log(`Fetching water level readings from ${new Date(startDate).toLocaleDateString()} to ${new Date(endDate).toLocaleDateString()} from local database...`);
       
       // Obter dados históricos específicos de nível da água
-      const data = await getHistoricalData(startDate, endDate, periodType as PeriodType);
+      const data = await getHistoricalData(startDate, endDate, periodType as PeriodType, getRequestDeviceId(req));
       
       // Retornar estrutura esperada pelo componente de análise histórica
       return res.json({
@@ -76,8 +79,7 @@ export function registerHistoricalDataRoutes(app: Express) {
         }
       });
     } catch (error) {
-      console.error('Erro ao buscar dados históricos de nível da água:', error);
-      return res.status(500).json({ success: false, error: (error as Error).message });
+      return sendError(res, error, 'Erro ao buscar dados históricos de nível da água');
     }
   });
   
@@ -94,10 +96,7 @@ export function registerHistoricalDataRoutes(app: Express) {
       const validation = schema.safeParse(req.query);
       
       if (!validation.success) {
-        return res.status(400).json({ 
-          error: 'Parâmetros inválidos', 
-          details: validation.error.format() 
-        });
+        return sendError(res, ValidationError.fromZod(validation.error));
       }
       
       const { startDate, endDate, periodType } = validation.data;
@@ -108,7 +107,8 @@ export function registerHistoricalDataRoutes(app: Express) {
       const historicalData = await getHistoricalData(
         startDate,
         endDate,
-        periodType as PeriodType
+        periodType as PeriodType,
+        getRequestDeviceId(req)
       );
       
       return res.json({ success: true, historicalData });
@@ -119,7 +119,7 @@ export function registerHistoricalDataRoutes(app: Express) {
         'Erro ao buscar dados históricos',
         error instanceof Error ? error.message : String(error)
       );
-      return res.status(500).json({ error: 'Erro ao buscar dados históricos' });
+      return sendError(res, error, 'Erro ao buscar dados históricos');
     }
   });
   
@@ -135,13 +135,12 @@ export function registerHistoricalDataRoutes(app: Express) {
       const validation = schema.safeParse(req.body);
       
       if (!validation.success) {
-        return res.status(400).json({ 
-          error: 'Parâmetros inválidos', 
-          details: validation.error.format() 
-        });
+        return sendError(res, ValidationError.fromZod(validation.error));
       }
       
       const { startDate, endDate } = validation.data;
+      // Falha antes da resposta: o processamento em segundo plano só registraria o erro
+      assertSqliteReadings('A agregação do histórico');
       
       console.log(`Iniciando processamento de dados históricos de ${new Date(startDate).toISOString()} até ${new Date(endDate).toISOString()}`);
       
@@ -178,7 +177,26 @@ export function registerHistoricalDataRoutes(app: Express) {
         'Erro ao iniciar processamento de dados históricos',
         error instanceof Error ? error.message : String(error)
       );
-      return res.status(500).json({ error: 'Erro ao iniciar processamento de dados históricos' });
+      return sendError(res, error, 'Erro ao iniciar processamento de dados históricos');
+    }
+  });
+  
+  // Política de retenção efetiva e resultado da última execução
+  app.get('/api/historical-data/retention', async (req, res) => {
+    try {
+      res.json(await retentionService.getStatus());
+    } catch (error) {
+      return sendError(res, error, 'Erro ao buscar a política de retenção');
+    }
+  });
+  
+  // Executa a retenção imediatamente (agrega, remove leituras antigas e compacta o banco)
+  app.post('/api/historical-data/retention/run', async (req, res) => {
+    try {
+      const result = await retentionService.run();
+      res.json({ success: true, result });
+    } catch (error) {
+      return sendError(res, error, 'Erro ao executar a retenção de dados');
     }
   });
   
@@ -194,10 +212,7 @@ export function registerHistoricalDataRoutes(app: Express) {
       const validation = schema.safeParse(req.query);
       
       if (!validation.success) {
-        return res.status(400).json({ 
-          error: 'Parâmetros inválidos', 
-          details: validation.error.format() 
-        });
+        return sendError(res, ValidationError.fromZod(validation.error));
       }
       
       const { limit, offset } = validation.data;
@@ -207,8 +222,7 @@ export function registerHistoricalDataRoutes(app: Express) {
       
       return res.json({ success: true, syncHistory });
     } catch (error) {
-      console.error('Erro ao buscar histórico de sincronização:', error);
-      return res.status(500).json({ error: 'Erro ao buscar histórico de sincronização' });
+      return sendError(res, error, 'Erro ao buscar histórico de sincronização');
     }
   });
   
@@ -225,10 +239,7 @@ export function registerHistoricalDataRoutes(app: Express) {
       const validation = schema.safeParse(req.query);
       
       if (!validation.success) {
-        return res.status(400).json({ 
-          error: 'Parâmetros inválidos', 
-          details: validation.error.format() 
-        });
+        return sendError(res, ValidationError.fromZod(validation.error));
       }
       
       const { limit, offset, type } = validation.data;
@@ -238,8 +249,7 @@ export function registerHistoricalDataRoutes(app: Express) {
       
       return res.json({ success: true, systemEvents });
     } catch (error) {
-      console.error('Erro ao buscar eventos do sistema:', error);
-      return res.status(500).json({ error: 'Erro ao buscar eventos do sistema' });
+      return sendError(res, error, 'Erro ao buscar eventos do sistema');
     }
   });
 }
\ No newline at end of file
@@ -0,0 +1,259 @@
+/**
+ * Rotas para ingestão direta de leituras pelos dispositivos
+ *
+ * Os nós NodeMCU enviam os mesmos campos field1..field8 que enviariam ao ThingSpeak
+ * (ver THINGSPEAK_FIELD_MAPPINGS), autenticados por uma chave própria do dispositivo.
+ * Sensores adicionais cadastrados no registro (pH, oxigênio...) vão no objeto sensors,
+ * pela chave do sensor (ex: { "sensors": { "ph": 7.1 } }).
+ * Assim o sistema continua recebendo dados quando a conta do ThingSpeak está limitada ou fora do ar.
+ */
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { insertReadingSchema, insertDeviceKeySchema } from '@shared/schema';
+import { NewReading } from '@shared/reading';
+import { storage } from './storage';
+import {
+  createDeviceKey,
+  listDeviceKeys,
+  revokeDeviceKey,
+  verifyDeviceKey,
+  DeviceKeyInfo
+} from './services/deviceKeyService';
+import { getDevice } from './services/deviceService';
+import { recordSensorValues } from './services/sensorService';
+import { saveLiveReading, recordLiveSensorValues } from './services/liveReadingService';
+import { NotFoundError, UnauthorizedError, ValidationError, sendError } from './utils/errors';
+
+export const ingestRouter = express.Router();
+
+// Limite de entradas por requisição em lote
+const MAX_BATCH_SIZE = 500;
+
+// Firmwares enviam os campos como texto (form-urlencoded ou query string)
+const toNumber = (value: unknown) => {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return Number(value.replace(',', '.'));
+  }
+  return value === '' || value === null ? undefined : value;
+};
+
+const readingShape = insertReadingSchema.shape;
+
+// Campos de uma entrada, derivados do esquema de inserção de leituras
+const ingestEntrySchema = z.object({
+  field1: z.preprocess(toNumber, readingShape.temperature),   // temperatura (°C)
+  field2: z.preprocess(toNumber, readingShape.level),         // nível (%)
+  field3: z.preprocess(toNumber, readingShape.pump_status),   // bomba 0/1
+  field4: z.preprocess(toNumber, readingShape.heater_status), // aquecedor 0/1
+  field5: z.preprocess(toNumber, z.number().optional()),      // modo de operação
+  field6: z.preprocess(toNumber, z.number().optional()),      // temperatura alvo
+  field7: z.preprocess(toNumber, z.number().optional()),      // timer bomba ligada
+  field8: z.preprocess(toNumber, z.number().optional()),      // timer bomba desligada
+  created_at: z.coerce.date().optional(),
+  sensors: z.record(z.preprocess(toNumber, z.number())).optional() // sensores adicionais por chave
+});
+
+// Formato do bulk_update do ThingSpeak
+const ingestBatchSchema = z.object({
+  updates: z.array(z.unknown()).min(1).max(MAX_BATCH_SIZE)
+});
+
+type IngestEntry = z.infer<typeof ingestEntrySchema>;
+
+/**
+ * Extrai a chave do dispositivo do cabeçalho, corpo ou query string
+ * (api_key / write_api_key mantêm compatibilidade com os firmwares do ThingSpeak)
+ */
+function extractDeviceKey(req: Request): string {
+  const header = req.header('x-device-key');
+  const candidate = header
+    || req.body?.api_key
+    || req.body?.write_api_key
+    || req.query.api_key;
+  return typeof candidate === 'string' ? candidate : '';
+}
+
+/**
+ * Middleware de autenticação por chave de dispositivo
+ */
+async function requireDeviceKey(req: Request, res: Response, next: express.NextFunction) {
+  try {
+    const device = await verifyDeviceKey(extractDeviceKey(req));
+
+    if (!device) {
+      return sendError(res, new UnauthorizedError('Chave de dispositivo inválida ou revogada'));
+    }
+
+    res.locals.device = device;
+    next();
+  } catch (error) {
+    sendError(res, error, 'Erro ao verificar chave de dispositivo');
+  }
+}
+
+// As leituras são gravadas no tanque associado à chave do dispositivo
+function toNewReading(entry: IngestEntry, deviceId: number): NewReading {
+  return {
+    deviceId,
+    temperature: entry.field1,
+    level: entry.field2,
+    pumpStatus: entry.field3 === 1,
+    heaterStatus: entry.field4 === 1,
+    timestamp: entry.created_at?.getTime()
+  };
+}
+
+/**
+ * Recebe uma leitura de um dispositivo
+ * POST /api/ingest
+ * Body: { field1, field2, field3?, ..., created_at? }
+ */
+ingestRouter.post('/', requireDeviceKey, async (req: Request, res: Response) => {
+  const validation = ingestEntrySchema.safeParse({ ...req.query, ...req.body });
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const device: DeviceKeyInfo = res.locals.device;
+    const reading = await saveLiveReading(toNewReading(validation.data, device.deviceId));
+    const sensors = validation.data.sensors
+      ? await recordLiveSensorValues(device.deviceId, validation.data.sensors, reading.timestamp)
+      : null;
+
+    console.log(`📥 [ingest] Leitura recebida de "${device.name}": ${validation.data.field1}°C, ${validation.data.field2}%`);
+
+    res.json({
+      success: true,
+      id: reading.id,
+      timestamp: new Date(reading.timestamp).toISOString(),
+      // Chaves não cadastradas ou com valor fora da faixa válida do sensor
+      ...(sensors && sensors.ignored.length > 0 ? { ignoredSensors: sensors.ignored } : {})
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao gravar leitura');
+  }
+});
+
+/**
+ * Recebe várias leituras de uma vez (leituras acumuladas offline pelo dispositivo)
+ * Gravadas como histórico: não acionam regras, intertravamentos nem alertas
+ * POST /api/ingest/batch
+ * Body: { updates: [{ field1, field2, ..., created_at }] }
+ */
+ingestRouter.post('/batch', requireDeviceKey, async (req: Request, res: Response) => {
+  const validation = ingestBatchSchema.safeParse(req.body);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  const device: DeviceKeyInfo = res.locals.device;
+  const rejected: { index: number; details: unknown }[] = [];
+  let accepted = 0;
+
+  const { updates } = validation.data;
+  
+  for (let index = 0; index < updates.length; index++) {
+    const entry = ingestEntrySchema.safeParse(updates[index]);
+
+    if (!entry.success) {
+      rejected.push({ index, details: entry.error.format() });
+      continue;
+    }
+
+    try {
+      const reading = await storage.saveReading(toNewReading(entry.data, device.deviceId));
+      if (entry.data.sensors) {
+        await recordSensorValues(device.deviceId, entry.data.sensors, reading.timestamp);
+      }
+      accepted++;
+    } catch (error) {
+      rejected.push({ index, details: error instanceof Error ? error.message : 'Erro desconhecido' });
+    }
+  }
+
+  console.log(`📥 [ingest] Lote de "${device.name}": ${accepted} aceitas, ${rejected.length} rejeitadas`);
+
+  res.status(accepted > 0 || rejected.length === 0 ? 200 : 400).json({
+    success: accepted > 0,
+    accepted,
+    rejected
+  });
+});
+
+/**
+ * Lista as chaves de dispositivos
+ * GET /api/ingest/keys
+ */
+ingestRouter.get('/keys', async (req: Request, res: Response) => {
+  try {
+    const keys = await listDeviceKeys();
+    res.json({ success: true, keys });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar chaves de dispositivos');
+  }
+});
+
+/**
+ * Cria uma nova chave de dispositivo
+ * POST /api/ingest/keys
+ * Body: { name: string, device_id?: number }
+ */
+ingestRouter.post('/keys', async (req: Request, res: Response) => {
+  const validation = insertDeviceKeySchema.pick({ name: true, device_id: true }).safeParse(req.body);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    if (validation.data.device_id !== undefined && !(await getDevice(validation.data.device_id))) {
+      return sendError(res, new NotFoundError('Tanque não encontrado'));
+    }
+
+    const { key, info } = await createDeviceKey(validation.data.name, validation.data.device_id);
+    res.status(201).json({
+      success: true,
+      // A chave completa só é exibida neste momento
+      key,
+      device: info
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao criar chave de dispositivo');
+  }
+});
+
+/**
+ * Revoga uma chave de dispositivo
+ * DELETE /api/ingest/keys/:id
+ */
+ingestRouter.delete('/keys/:id', async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    return sendError(res, new ValidationError('ID inválido'));
+  }
+
+  try {
+    const revoked = await revokeDeviceKey(id);
+
+    if (!revoked) {
+      return sendError(res, new NotFoundError('Chave não encontrada'));
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao revogar chave de dispositivo');
+  }
+});
+
+/**
+ * Registra as rotas de ingestão direta
+ * @param app Express app
+ */
+export function setupIngestRoutes(app: express.Express): void {
+  app.use('/api/ingest', ingestRouter);
+}
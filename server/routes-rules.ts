@@ -0,0 +1,150 @@
+/**
+ * Rotas para as regras de automação condicionais
+ * As regras pertencem ao tanque selecionado (cabeçalho X-Device-Id ou ?deviceId)
+ */
+
+import express, { Request, Response } from 'express';
+import { insertAutomationRuleSchema } from '@shared/schema';
+import {
+  listRules,
+  getRule,
+  createRule,
+  updateRule,
+  deleteRule,
+  findInvalidCommandAction
+} from './services/ruleEngineService';
+import { getRequestDeviceId } from './routes-devices';
+import { NotFoundError, ValidationError, sendError } from './utils/errors';
+
+export const rulesRouter = express.Router();
+
+function parseId(req: Request, res: Response): number | null {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    sendError(res, new ValidationError('ID inválido'));
+    return null;
+  }
+  return id;
+}
+
+// Valida o corpo da regra, incluindo os valores aceitos por cada atuador
+function parseRule(req: Request, res: Response) {
+  const validation = insertAutomationRuleSchema.safeParse(req.body);
+
+  if (!validation.success) {
+    sendError(res, ValidationError.fromZod(validation.error));
+    return null;
+  }
+
+  const invalidAction = findInvalidCommandAction(validation.data.actions);
+  if (invalidAction) {
+    sendError(res, new ValidationError('Parâmetros inválidos', invalidAction));
+    return null;
+  }
+
+  return validation.data;
+}
+
+/**
+ * Lista as regras do tanque
+ * GET /api/rules
+ */
+rulesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const rules = await listRules(getRequestDeviceId(req));
+    res.json({ success: true, rules });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar regras');
+  }
+});
+
+/**
+ * Cadastra uma regra
+ * POST /api/rules
+ * Body: { name, description?, match?, conditions: [...], actions: [...], cooldown_sec?, enabled? }
+ */
+rulesRouter.post('/', async (req: Request, res: Response) => {
+  const data = parseRule(req, res);
+  if (!data) return;
+
+  try {
+    const rule = await createRule(data, getRequestDeviceId(req));
+    res.status(201).json({ success: true, rule });
+  } catch (error) {
+    sendError(res, error, 'Erro ao cadastrar regra');
+  }
+});
+
+/**
+ * Consulta uma regra
+ * GET /api/rules/:id
+ */
+rulesRouter.get('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === null) return;
+
+  try {
+    const rule = await getRule(id);
+
+    if (!rule) {
+      return sendError(res, new NotFoundError('Regra não encontrada'));
+    }
+
+    res.json({ success: true, rule });
+  } catch (error) {
+    sendError(res, error, 'Erro ao consultar regra');
+  }
+});
+
+/**
+ * Substitui uma regra
+ * PUT /api/rules/:id
+ */
+rulesRouter.put('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === null) return;
+
+  const data = parseRule(req, res);
+  if (!data) return;
+
+  try {
+    const rule = await updateRule(id, data);
+
+    if (!rule) {
+      return sendError(res, new NotFoundError('Regra não encontrada'));
+    }
+
+    res.json({ success: true, rule });
+  } catch (error) {
+    sendError(res, error, 'Erro ao atualizar regra');
+  }
+});
+
+/**
+ * Remove uma regra
+ * DELETE /api/rules/:id
+ */
+rulesRouter.delete('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === null) return;
+
+  try {
+    const deleted = await deleteRule(id);
+
+    if (!deleted) {
+      return sendError(res, new NotFoundError('Regra não encontrada'));
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao remover regra');
+  }
+});
+
+/**
+ * Registra as rotas de regras de automação
+ * @param app Express app
+ */
+export function setupRuleRoutes(app: express.Express): void {
+  app.use('/api/rules', rulesRouter);
+}
@@ -0,0 +1,141 @@
+/**
+ * Rotas para as programações por horário da bomba e do aquecedor
+ * As programações pertencem ao tanque selecionado (cabeçalho X-Device-Id ou ?deviceId)
+ */
+
+import express, { Request, Response } from 'express';
+import { insertScheduleSchema } from '@shared/schema';
+import {
+  listSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule
+} from './services/scheduleService';
+import { automationService } from './services/automationService';
+import { getRequestDeviceId } from './routes-devices';
+import { NotFoundError, ValidationError, sendError } from './utils/errors';
+
+export const schedulesRouter = express.Router();
+
+function parseId(req: Request, res: Response): number | null {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    sendError(res, new ValidationError('ID inválido'));
+    return null;
+  }
+  return id;
+}
+
+/**
+ * Lista as programações do tanque
+ * GET /api/schedules
+ */
+schedulesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const schedules = await listSchedules(getRequestDeviceId(req));
+    res.json({ success: true, schedules });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar programações');
+  }
+});
+
+/**
+ * Cadastra uma programação
+ * POST /api/schedules
+ * Body: { name, target, action, days_of_week?, start_time, end_time, pump_on_seconds?, pump_off_seconds?, priority?, enabled? }
+ */
+schedulesRouter.post('/', async (req: Request, res: Response) => {
+  const validation = insertScheduleSchema.safeParse(req.body);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const schedule = await createSchedule(validation.data, getRequestDeviceId(req));
+    await automationService.reloadSchedules();
+    res.status(201).json({ success: true, schedule });
+  } catch (error) {
+    sendError(res, error, 'Erro ao cadastrar programação');
+  }
+});
+
+/**
+ * Consulta uma programação
+ * GET /api/schedules/:id
+ */
+schedulesRouter.get('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === null) return;
+
+  try {
+    const schedule = await getSchedule(id);
+
+    if (!schedule) {
+      return sendError(res, new NotFoundError('Programação não encontrada'));
+    }
+
+    res.json({ success: true, schedule });
+  } catch (error) {
+    sendError(res, error, 'Erro ao consultar programação');
+  }
+});
+
+/**
+ * Substitui uma programação
+ * PUT /api/schedules/:id
+ */
+schedulesRouter.put('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === null) return;
+
+  const validation = insertScheduleSchema.safeParse(req.body);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const schedule = await updateSchedule(id, validation.data);
+
+    if (!schedule) {
+      return sendError(res, new NotFoundError('Programação não encontrada'));
+    }
+
+    await automationService.reloadSchedules();
+    res.json({ success: true, schedule });
+  } catch (error) {
+    sendError(res, error, 'Erro ao atualizar programação');
+  }
+});
+
+/**
+ * Remove uma programação
+ * DELETE /api/schedules/:id
+ */
+schedulesRouter.delete('/:id', async (req: Request, res: Response) => {
+  const id = parseId(req, res);
+  if (id === null) return;
+
+  try {
+    const deleted = await deleteSchedule(id);
+
+    if (!deleted) {
+      return sendError(res, new NotFoundError('Programação não encontrada'));
+    }
+
+    await automationService.reloadSchedules();
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao remover programação');
+  }
+});
+
+/**
+ * Registra as rotas de programações
+ * @param app Express app
+ */
+export function setupScheduleRoutes(app: express.Express): void {
+  app.use('/api/schedules', schedulesRouter);
+}
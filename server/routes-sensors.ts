@@ -0,0 +1,138 @@
+/**
+ * Rotas do registro de sensores adicionais (pH, oxigênio dissolvido, umidade, vazão...)
+ *
+ * O registro define tipo, unidade, faixa válida e faixa de alerta de cada sensor; os valores
+ * chegam pela ingestão (campo sensors) ou pelo emulador. As consultas de valores e histórico
+ * usam o tanque do cabeçalho X-Device-Id (ou ?deviceId), como as rotas antigas de leituras.
+ */
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { insertSensorSchema } from '@shared/schema';
+import {
+  listSensors,
+  createSensor,
+  updateSensor,
+  deactivateSensor,
+  getSensorHistory
+} from './services/sensorService';
+import { fallbackService } from './services/fallbackService';
+import { getRequestDeviceId } from './routes-devices';
+import { NotFoundError, ValidationError, sendError } from './utils/errors';
+
+export const sensorsRouter = express.Router();
+
+const listSensorsSchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional()
+});
+
+const sensorHistorySchema = z.object({
+  startDate: z.string().min(1),
+  endDate: z.string().min(1)
+});
+
+// A chave identifica as leituras já gravadas e não pode ser alterada
+const updateSensorSchema = insertSensorSchema.omit({ key: true }).partial();
+
+/**
+ * Lista os sensores cadastrados
+ * GET /api/sensors?includeInactive=true
+ */
+sensorsRouter.get('/', async (req: Request, res: Response) => {
+  const validation = listSensorsSchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const sensors = await listSensors(validation.data.includeInactive === 'true');
+    res.json({ success: true, sensors });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar sensores');
+  }
+});
+
+/**
+ * Valores atuais dos sensores ativos do tanque, com a fonte de cada um (hardware ou virtual)
+ * GET /api/sensors/values
+ */
+sensorsRouter.get('/values', async (req: Request, res: Response) => {
+  try {
+    const values = await fallbackService.getSensorValues(getRequestDeviceId(req));
+    res.json({ success: true, values });
+  } catch (error) {
+    sendError(res, error, 'Erro ao buscar valores dos sensores');
+  }
+});
+
+/**
+ * Cadastra um sensor
+ * POST /api/sensors
+ * Body: { key, name, type, unit?, min_value, max_value, alert_min?, alert_max?, decimals? }
+ */
+sensorsRouter.post('/', async (req: Request, res: Response) => {
+  const validation = insertSensorSchema.safeParse(req.body);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const sensor = await createSensor(validation.data);
+    res.status(201).json({ success: true, sensor });
+  } catch (error) {
+    sendError(res, error, 'Erro ao cadastrar sensor');
+  }
+});
+
+/**
+ * Atualiza os dados de um sensor
+ * PUT /api/sensors/:key
+ */
+sensorsRouter.put('/:key', async (req: Request, res: Response) => {
+  const validation = updateSensorSchema.safeParse(req.body);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const sensor = await updateSensor(req.params.key, validation.data);
+    if (!sensor) return sendError(res, new NotFoundError('Sensor não encontrado'));
+    res.json({ success: true, sensor });
+  } catch (error) {
+    sendError(res, error, 'Erro ao atualizar sensor');
+  }
+});
+
+/**
+ * Desativa um sensor (as leituras gravadas são mantidas)
+ * DELETE /api/sensors/:key
+ */
+sensorsRouter.delete('/:key', async (req: Request, res: Response) => {
+  try {
+    const deactivated = await deactivateSensor(req.params.key);
+    if (!deactivated) return sendError(res, new NotFoundError('Sensor não encontrado'));
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao desativar sensor');
+  }
+});
+
+/**
+ * Histórico de um sensor no tanque, agregado conforme o período
+ * GET /api/sensors/:key/history?startDate=2025-01-01&endDate=2025-01-07
+ */
+sensorsRouter.get('/:key/history', async (req: Request, res: Response) => {
+  const validation = sensorHistorySchema.safeParse(req.query);
+  if (!validation.success) return sendError(res, ValidationError.fromZod(validation.error));
+
+  try {
+    const { startDate, endDate } = validation.data;
+    const history = await getSensorHistory(req.params.key, startDate, endDate, getRequestDeviceId(req));
+    if (!history) return sendError(res, new NotFoundError('Sensor não encontrado'));
+    res.json({ success: true, ...history });
+  } catch (error) {
+    sendError(res, error, 'Erro ao buscar histórico do sensor');
+  }
+});
+
+/**
+ * Registra as rotas de sensores
+ * @param app Express app
+ */
+export function setupSensorRoutes(app: express.Express): void {
+  app.use('/api/sensors', sensorsRouter);
+}
@@ -6,6 +6,12 @@ import { fileURLToPath } from 'url';
 import { logInfo, logError } from './utils/logger';
 import { saveSettingsInDB } from './services/databaseService';
 import { storage } from './storage';
+import { 
+  getTelemetryTransport, 
+  setTelemetryTransport, 
+  listTelemetryTransports 
+} from './services/telemetryTransport';
+import { ValidationError, sendError } from './utils/errors';
 
 // ES Modules fix for __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -50,6 +56,11 @@ const generalSettingsSchema = z.object({
   levelCriticalMax: z.number().min(0).max(100).optional()
 });
 
+// Esquema para a seleção do transporte de telemetria
+const telemetrySettingsSchema = z.object({
+  transport: z.string().min(1)
+});
+
 // Esquema completo para as configurações de sensores
 const sensorSettingsSchema = z.object({
   thresholds: sensorThresholdsSchema,
@@ -167,7 +178,7 @@ router.get('/', (req, res) => {
     const settings = loadSettings();
     res.json(settings);
   } catch (error) {
-    res.status(500).json({ error: 'Erro ao obter configurações de sensores' });
+    sendError(res, error, 'Erro ao obter configurações de sensores');
   }
 });
 
@@ -286,8 +297,7 @@ router.post('/fallback', async (req, res) => {
     
     res.json({ success: true, fallback: fallbackSettings });
   } catch (error) {
-    console.error('❌ [routes-settings] Erro ao atualizar configurações de fallback:', error);
-    res.status(500).json({ error: 'Erro ao atualizar configurações de fallback', message: error instanceof Error ? error.message : 'Erro desconhecido' });
+    sendError(res, error, 'Erro ao atualizar configurações de fallback');
   }
 });
 
@@ -402,8 +412,52 @@ router.post('/', async (req, res) => {
     
     res.json({ success: true, settings });
   } catch (error) {
-    console.error('❌ [routes-settings] Erro ao atualizar todas as configurações:', error);
-    res.status(500).json({ error: 'Erro ao atualizar configurações de sensores', message: error instanceof Error ? error.message : 'Erro desconhecido' });
+    sendError(res, error, 'Erro ao atualizar configurações de sensores');
+  }
+});
+
+// Rota para obter o transporte de telemetria ativo e os disponíveis
+router.get('/telemetry', (req, res) => {
+  try {
+    const transport = getTelemetryTransport();
+    res.json({ 
+      success: true, 
+      transport: transport.name, 
+      description: transport.description,
+      available: listTelemetryTransports() 
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao obter transporte de telemetria');
+  }
+});
+
+// Rota para alterar o transporte de telemetria
+router.post('/telemetry', (req, res) => {
+  const validation = telemetrySettingsSchema.safeParse(req.body);
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+  
+  const { transport: transportName } = validation.data;
+  if (!listTelemetryTransports().includes(transportName)) {
+    return res.status(400).json({ 
+      error: 'Transporte de telemetria desconhecido', 
+      available: listTelemetryTransports() 
+    });
+  }
+  
+  try {
+    const transport = setTelemetryTransport(transportName);
+    
+    // Persistir a escolha no arquivo de configurações (lido na inicialização)
+    const settings = loadSettings();
+    settings.telemetry = { transport: transport.name };
+    fs.writeFileSync(CONFIG_FILE, JSON.stringify(settings, null, 2), 'utf8');
+    logInfo(`Transporte de telemetria alterado para ${transport.name}`);
+    
+    res.json({ success: true, transport: transport.name, description: transport.description });
+  } catch (error) {
+    sendError(res, error, 'Erro ao alterar transporte de telemetria');
   }
 });
 
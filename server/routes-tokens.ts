@@ -0,0 +1,80 @@
+/**
+ * Rotas para gerenciamento dos tokens de API (somente administradores com sessão)
+ */
+
+import express, { Request, Response } from 'express';
+import { insertApiTokenSchema } from '@shared/schema';
+import { createApiToken, listApiTokens, revokeApiToken } from './services/apiTokenService';
+import { NotFoundError, ValidationError, sendError } from './utils/errors';
+
+export const tokensRouter = express.Router();
+
+/**
+ * Lista os tokens de API
+ * GET /api/tokens
+ */
+tokensRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const tokens = await listApiTokens();
+    res.json({ success: true, tokens });
+  } catch (error) {
+    sendError(res, error, 'Erro ao listar tokens de API');
+  }
+});
+
+/**
+ * Emite um novo token de API
+ * POST /api/tokens
+ * Body: { name: string, scopes: string[], expires_in_days?: number }
+ */
+tokensRouter.post('/', async (req: Request, res: Response) => {
+  const validation = insertApiTokenSchema.safeParse(req.body);
+
+  if (!validation.success) {
+    return sendError(res, ValidationError.fromZod(validation.error));
+  }
+
+  try {
+    const { token, info } = await createApiToken(validation.data, req.user?.id ?? null);
+    res.status(201).json({
+      success: true,
+      // O token completo só é exibido neste momento
+      token,
+      info
+    });
+  } catch (error) {
+    sendError(res, error, 'Erro ao criar token de API');
+  }
+});
+
+/**
+ * Revoga um token de API
+ * DELETE /api/tokens/:id
+ */
+tokensRouter.delete('/:id', async (req: Request, res: Response) => {
+  const id = parseInt(req.params.id);
+
+  if (isNaN(id)) {
+    return sendError(res, new ValidationError('ID inválido'));
+  }
+
+  try {
+    const revoked = await revokeApiToken(id);
+
+    if (!revoked) {
+      return sendError(res, new NotFoundError('Token não encontrado'));
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    sendError(res, error, 'Erro ao revogar token de API');
+  }
+});
+
+/**
+ * Registra as rotas dos tokens de API
+ * @param app Express app
+ */
+export function setupTokenRoutes(app: express.Express): void {
+  app.use('/api/tokens', tokensRouter);
+}
@@ -0,0 +1,525 @@
+/**
+ * API REST versionada (/api/v1)
+ *
+ * Contrato estável para integrações: todas as rotas validam parâmetros, query e body com zod e
+ * respondem no mesmo envelope ({ success: true, data } ou { success: false, error, code, details? },
+ * ver utils/errors).
+ * Os mesmos schemas geram o documento OpenAPI (/api/v1/openapi.json), exibido em /api/v1/docs.
+ *
+ * As rotas sem versão (/api/readings, /api/control, /api/device, ...) continuam atendendo a
+ * interface, mas podem mudar sem aviso; integrações devem usar /api/v1.
+ * O acesso segue as mesmas regras das rotas sem versão (ver ACCESS_RULES em routes-auth).
+ */
+
+import express, { Request, Response } from 'express';
+import { z } from 'zod';
+import { readingSchema } from '@shared/reading';
+import { storage } from './storage';
+import { listDevices, getDevice, DeviceInfo } from './services/deviceService';
+import { getCurrentDeviceStatus } from './services/thingspeakService';
+import { ACTUATORS } from './services/actuators';
+import { commandQueue } from './services/commandQueueService';
+import { getActuatorUsage } from './services/actuatorUsageService';
+import { automationService } from './services/automationService';
+import { aggregateReadingsByDateRange } from './utils/dataAggregation';
+import { ApiOperation, buildOpenApiDocument } from './utils/openapi';
+import { NotFoundError, ValidationError, sendError, validateRequest } from './utils/errors';
+
+export const v1Router = express.Router();
+
+const API_BASE_PATH = '/api/v1';
+const API_VERSION = '1.0.0';
+
+// Limite de leituras consultadas para montar um histórico
+const MAX_HISTORY_READINGS = 1000;
+
+// Operações registradas, na ordem em que aparecem no documento
+const operations: ApiOperation[] = [];
+
+// ---------------------------------------------------------------------------
+// Schemas de entrada
+// ---------------------------------------------------------------------------
+
+const deviceParamsSchema = z.object({
+  deviceId: z.coerce.number().int().positive().describe('ID do tanque')
+});
+
+const commandParamsSchema = z.object({
+  commandId: z.coerce.number().int().positive().describe('ID do comando')
+});
+
+const controlParamsSchema = deviceParamsSchema.extend({
+  actuator: z.enum(Object.keys(ACTUATORS) as [string, ...string[]]).describe('Atuador a comandar')
+});
+
+const listDevicesQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).optional().describe('Incluir tanques desativados')
+});
+
+const latestReadingsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(60).describe('Quantidade de leituras')
+});
+
+const historyQuerySchema = z.object({
+  startDate: z.string().min(1).describe('Data inicial (YYYY-MM-DD ou ISO 8601)'),
+  endDate: z.string().min(1).describe('Data final (YYYY-MM-DD ou ISO 8601)')
+});
+
+const commandsQuerySchema = z.object({
+  state: z.enum(['queued', 'sent', 'acknowledged', 'failed']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+});
+
+const usageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7).describe('Dias do resumo diário')
+});
+
+const setpointsBodySchema = z.object({
+  tempMin: z.number(),
+  tempMax: z.number(),
+  levelMin: z.number(),
+  levelMax: z.number()
+});
+
+const controlBodySchema = z.object({
+  value: z.union([z.boolean(), z.number()])
+    .describe('boolean para pump, heater e mode (true = automático); número para os demais atuadores')
+});
+
+// ---------------------------------------------------------------------------
+// Schemas de resposta (apenas documentação)
+// ---------------------------------------------------------------------------
+
+const deviceSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  kind: z.string(),
+  description: z.string().nullable(),
+  thingspeakChannelId: z.string().nullable(),
+  thingspeakFeedbackChannelId: z.string().nullable(),
+  pumpWatts: z.number(),
+  heaterWatts: z.number(),
+  active: z.boolean(),
+  createdAt: z.number().int().describe('Milissegundos desde 1970')
+});
+
+const setpointsSchema = z.object({
+  tempMin: z.number(),
+  tempMax: z.number(),
+  levelMin: z.number(),
+  levelMax: z.number()
+});
+
+const setpointRangesSchema = z.object({
+  temp: z.object({ min: z.number(), max: z.number() }),
+  level: z.object({ min: z.number(), max: z.number() })
+});
+
+const statsSchema = z.object({
+  avg: z.number(),
+  min: z.number(),
+  max: z.number(),
+  stdDev: z.number()
+});
+
+const memoryStateSchema = z.object({
+  pumpStatus: z.boolean(),
+  heaterStatus: z.boolean(),
+  operationMode: z.boolean().describe('true = automático'),
+  targetTemp: z.number(),
+  pumpOnTimer: z.number(),
+  pumpOffTimer: z.number(),
+  pumpFlow: z.number(),
+  lastUpdate: z.string().datetime()
+});
+
+const commandSchema = z.object({
+  id: z.number().int(),
+  deviceId: z.number().int(),
+  fields: z.record(z.union([z.string(), z.number()])),
+  state: z.enum(['queued', 'sent', 'acknowledged', 'failed']),
+  retries: z.number().int(),
+  maxRetries: z.number().int(),
+  coalescedFields: z.array(z.string()),
+  source: z.string(),
+  transport: z.string().nullable(),
+  createdAt: z.number().int(),
+  updatedAt: z.number().int(),
+  sentAt: z.number().int().nullable(),
+  acknowledgedAt: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  confirmation: z.enum(['pending', 'confirmed', 'timed_out', 'contradicted', 'superseded']).nullable(),
+  confirmedAt: z.number().int().nullable(),
+  feedback: z.record(z.union([z.string(), z.number()])).nullable()
+});
+
+const usagePeriodSchema = z.object({
+  periodStart: z.number().int(),
+  onSeconds: z.number(),
+  starts: z.number().int(),
+  dutyCycle: z.number().describe('Fração do período com o atuador ligado (0-1)'),
+  energyKwh: z.number()
+});
+
+const usageSummarySchema = z.object({
+  isOn: z.boolean().nullable(),
+  onSince: z.number().int().nullable(),
+  watts: z.number(),
+  total: z.object({ onSeconds: z.number(), starts: z.number().int(), energyKwh: z.number() }),
+  hourly: z.array(usagePeriodSchema),
+  daily: z.array(usagePeriodSchema)
+});
+
+const pumpCycleSchema = z.object({
+  mode: z.enum(['timer', 'level']),
+  active: z.boolean(),
+  pumpStatus: z.boolean(),
+  startTime: z.number().int(),
+  timeRemaining: z.number(),
+  currentTimerValue: z.number(),
+  currentTimerTotal: z.number(),
+  schedule: z.string().nullable(),
+  heaterSchedule: z.string().nullable()
+});
+
+// ---------------------------------------------------------------------------
+// Registro das rotas
+// ---------------------------------------------------------------------------
+
+type Infer<T> = T extends z.ZodTypeAny ? z.infer<T> : undefined;
+
+interface RouteInput<P, Q, B> {
+  params: Infer<P>;
+  query: Infer<Q>;
+  body: Infer<B>;
+}
+
+/**
+ * Registra uma operação: valida a entrada com os schemas, envelopa o retorno do handler
+ * e inclui a operação no documento OpenAPI
+ */
+function defineRoute<
+  P extends z.AnyZodObject | undefined = undefined,
+  Q extends z.AnyZodObject | undefined = undefined,
+  B extends z.ZodTypeAny | undefined = undefined
+>(
+  operation: Omit<ApiOperation, 'params' | 'query' | 'body'> & { params?: P; query?: Q; body?: B },
+  handler: (input: RouteInput<P, Q, B>, req: Request) => Promise<unknown>
+): void {
+  operations.push(operation as ApiOperation);
+
+  const validation = validateRequest({ params: operation.params, query: operation.query, body: operation.body });
+
+  v1Router[operation.method](operation.path, validation, async (req: Request, res: Response) => {
+    try {
+      const input = { params: req.params, query: req.query, body: req.body } as unknown as RouteInput<P, Q, B>;
+      const data = await handler(input, req);
+      res.status(operation.successStatus ?? 200).json({ success: true, data });
+    } catch (error) {
+      sendError(res, error, `Erro em ${operation.method.toUpperCase()} ${API_BASE_PATH}${operation.path}`);
+    }
+  });
+}
+
+async function loadDevice(deviceId: number): Promise<DeviceInfo> {
+  const device = await getDevice(deviceId);
+  if (!device) {
+    throw new NotFoundError('Tanque não encontrado');
+  }
+  return device;
+}
+
+async function getSetpointRanges(deviceId: number) {
+  const setpoints = await storage.getSetpoints(deviceId);
+  return {
+    temp: { min: setpoints.tempMin, max: setpoints.tempMax },
+    level: { min: setpoints.levelMin, max: setpoints.levelMax }
+  };
+}
+
+const DEVICE_NOT_FOUND = { 404: 'Tanque não encontrado' };
+
+// Tanques ---------------------------------------------------------------------
+
+defineRoute({
+  method: 'get',
+  path: '/devices',
+  summary: 'Lista os tanques cadastrados',
+  tags: ['Tanques'],
+  query: listDevicesQuerySchema,
+  response: z.array(deviceSchema)
+}, async ({ query }) => listDevices(query.includeInactive === 'true'));
+
+defineRoute({
+  method: 'get',
+  path: '/devices/:deviceId',
+  summary: 'Consulta um tanque',
+  tags: ['Tanques'],
+  params: deviceParamsSchema,
+  response: deviceSchema,
+  errors: DEVICE_NOT_FOUND
+}, async ({ params }) => loadDevice(params.deviceId));
+
+// Leituras --------------------------------------------------------------------
+
+defineRoute({
+  method: 'get',
+  path: '/devices/:deviceId/readings/latest',
+  summary: 'Últimas leituras do tanque',
+  description: 'Leituras mais recentes primeiro, com as faixas configuradas nos setpoints.',
+  tags: ['Leituras'],
+  params: deviceParamsSchema,
+  query: latestReadingsQuerySchema,
+  response: z.object({ readings: z.array(readingSchema), setpoints: setpointRangesSchema }),
+  errors: DEVICE_NOT_FOUND
+}, async ({ params, query }) => {
+  const device = await loadDevice(params.deviceId);
+  return {
+    readings: await storage.getLatestReadings(query.limit, device.id),
+    setpoints: await getSetpointRanges(device.id)
+  };
+});
+
+defineRoute({
+  method: 'get',
+  path: '/devices/:deviceId/readings/history',
+  summary: 'Histórico de leituras do tanque',
+  description: `Leituras do período agregadas conforme a duração (até ${MAX_HISTORY_READINGS} leituras consultadas), ` +
+    'com estatísticas calculadas sobre as leituras originais.',
+  tags: ['Leituras'],
+  params: deviceParamsSchema,
+  query: historyQuerySchema,
+  response: z.object({
+    readings: z.array(readingSchema),
+    setpoints: setpointRangesSchema,
+    stats: z.object({ temperature: statsSchema, level: statsSchema })
+  }),
+  errors: DEVICE_NOT_FOUND
+}, async ({ params, query }) => {
+  const device = await loadDevice(params.deviceId);
+  const start = new Date(query.startDate);
+  const end = new Date(query.endDate);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || start > end) {
+    throw new ValidationError('Período inválido');
+  }
+
+  const readings = await storage.getReadingsByDateRange(query.startDate, query.endDate, MAX_HISTORY_READINGS, device.id);
+  return {
+    readings: aggregateReadingsByDateRange(readings, start, end),
+    setpoints: await getSetpointRanges(device.id),
+    stats: {
+      temperature: storage.getTemperatureStats(readings),
+      level: storage.getLevelStats(readings)
+    }
+  };
+});
+
+// Estado e comandos -----------------------------------------------------------
+
+defineRoute({
+  method: 'get',
+  path: '/devices/:deviceId/status',
+  summary: 'Estado atual do tanque',
+  description: 'Última leitura registrada e último estado solicitado aos atuadores.',
+  tags: ['Equipamentos'],
+  params: deviceParamsSchema,
+  response: z.object({ reading: readingSchema.nullable(), memoryState: memoryStateSchema }),
+  errors: DEVICE_NOT_FOUND
+}, async ({ params }) => {
+  const device = await loadDevice(params.deviceId);
+  const [latest] = await storage.getLatestReadings(1, device.id);
+  return { reading: latest || null, memoryState: getCurrentDeviceStatus(device.id) };
+});
+
+defineRoute({
+  method: 'post',
+  path: '/devices/:deviceId/control/:actuator',
+  summary: 'Envia um comando a um atuador',
+  description: 'O comando entra na fila de envio; acompanhe a entrega e a confirmação em /commands/{commandId}.',
+  tags: ['Equipamentos'],
+  params: controlParamsSchema,
+  body: controlBodySchema,
+  response: z.object({ actuator: z.string(), value: z.union([z.boolean(), z.number()]), commandId: z.number().int() }),
+  successStatus: 202,
+  errors: { ...DEVICE_NOT_FOUND, 409: 'Comando bloqueado por intertravamento de segurança' }
+}, async ({ params, body }) => {
+  const device = await loadDevice(params.deviceId);
+  const actuator = ACTUATORS[params.actuator];
+
+  const validation = actuator.value.safeParse(body.value);
+  if (!validation.success) {
+    throw new ValidationError('Parâmetros inválidos', { value: validation.error.format() });
+  }
+
+  const commandId = await actuator.request(validation.data, 'api', device.id);
+  return { actuator: params.actuator, value: validation.data, commandId };
+});
+
+defineRoute({
+  method: 'get',
+  path: '/devices/:deviceId/commands',
+  summary: 'Comandos enviados ao tanque',
+  tags: ['Equipamentos'],
+  params: deviceParamsSchema,
+  query: commandsQuerySchema,
+  response: z.object({ commands: z.array(commandSchema), total: z.number().int() }),
+  errors: DEVICE_NOT_FOUND
+}, async ({ params, query }) => {
+  const device = await loadDevice(params.deviceId);
+  return commandQueue.listCommands({ ...query, deviceId: device.id });
+});
+
+defineRoute({
+  method: 'get',
+  path: '/commands/:commandId',
+  summary: 'Consulta um comando',
+  tags: ['Equipamentos'],
+  params: commandParamsSchema,
+  response: commandSchema,
+  errors: { 404: 'Comando não encontrado' }
+}, async ({ params }) => {
+  const command = await commandQueue.getCommand(params.commandId);
+  if (!command) {
+    throw new NotFoundError('Comando não encontrado');
+  }
+  return command;
+});
+
+// Setpoints -------------------------------------------------------------------
+
+defineRoute({
+  method: 'get',
+  path: '/devices/:deviceId/setpoints',
+  summary: 'Setpoints do tanque',
+  tags: ['Setpoints'],
+  params: deviceParamsSchema,
+  response: setpointsSchema,
+  errors: DEVICE_NOT_FOUND
+}, async ({ params }) => {
+  const device = await loadDevice(params.deviceId);
+  const { tempMin, tempMax, levelMin, levelMax } = await storage.getSetpoints(device.id);
+  return { tempMin, tempMax, levelMin, levelMax };
+});
+
+defineRoute({
+  method: 'put',
+  path: '/devices/:deviceId/setpoints',
+  summary: 'Atualiza os setpoints do tanque',
+  tags: ['Setpoints'],
+  params: deviceParamsSchema,
+  body: setpointsBodySchema.refine(data => data.tempMin < data.tempMax && data.levelMin < data.levelMax, {
+    message: 'O mínimo deve ser menor que o máximo'
+  }),
+  response: setpointsSchema,
+  errors: DEVICE_NOT_FOUND
+}, async ({ params, body }) => {
+  const device = await loadDevice(params.deviceId);
+  const { tempMin, tempMax, levelMin, levelMax } = await storage.updateSetpoints(body, device.id);
+  return { tempMin, tempMax, levelMin, levelMax };
+});
+
+// Uso dos atuadores -----------------------------------------------------------
+
+defineRoute({
+  method: 'get',
+  path: '/devices/:deviceId/usage',
+  summary: 'Tempo ligado, partidas, ciclo de trabalho e energia da bomba e do aquecedor',
+  tags: ['Equipamentos'],
+  params: deviceParamsSchema,
+  query: usageQuerySchema,
+  response: z.object({
+    deviceId: z.number().int(),
+    days: z.number().int(),
+    generatedAt: z.number().int(),
+    pump: usageSummarySchema,
+    heater: usageSummarySchema
+  }),
+  errors: DEVICE_NOT_FOUND
+}, async ({ params, query }) => {
+  const device = await loadDevice(params.deviceId);
+  return getActuatorUsage(device.id, query.days);
+});
+
+// Automação e sistema ---------------------------------------------------------
+
+defineRoute({
+  method: 'get',
+  path: '/automation/pump-cycle',
+  summary: 'Estado do ciclo automático da bomba (tanque principal)',
+  tags: ['Automação'],
+  response: pumpCycleSchema
+}, async () => {
+  const { success, ...state } = automationService.getCycleState();
+  return state;
+});
+
+defineRoute({
+  method: 'get',
+  path: '/system/uptime',
+  summary: 'Data da primeira leitura registrada',
+  tags: ['Sistema'],
+  response: z.object({ firstReadingDate: z.string().datetime().nullable() })
+}, async () => {
+  const firstReading = await storage.getFirstReading();
+  return { firstReadingDate: firstReading ? new Date(firstReading.timestamp).toISOString() : null };
+});
+
+// Documentação ----------------------------------------------------------------
+
+const openApiDocument = buildOpenApiDocument(
+  {
+    title: 'Aquaponia API',
+    version: API_VERSION,
+    description: 'API do sistema de monitoramento e controle de aquaponia. ' +
+      'Autentique com a sessão da interface ou com um token de API (Authorization: Bearer aqt_...).'
+  },
+  API_BASE_PATH,
+  operations
+);
+
+const DOCS_HTML = `<!DOCTYPE html>
+<html lang="pt-BR">
+<head>
+  <meta charset="utf-8" />
+  <title>Aquaponia API</title>
+  <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: '${API_BASE_PATH}/openapi.json', dom_id: '#swagger-ui', withCredentials: true });
+  </script>
+</body>
+</html>`;
+
+/**
+ * Documento OpenAPI da API versionada
+ * GET /api/v1/openapi.json
+ */
+v1Router.get('/openapi.json', (req: Request, res: Response) => {
+  res.json(openApiDocument);
+});
+
+/**
+ * Explorador interativo do documento (Swagger UI)
+ * GET /api/v1/docs
+ */
+v1Router.get('/docs', (req: Request, res: Response) => {
+  res.type('html').send(DOCS_HTML);
+});
+
+// Rotas inexistentes da versão respondem no mesmo envelope
+v1Router.use((req: Request, res: Response) => {
+  sendError(res, new NotFoundError('Rota não encontrada'));
+});
+
+/**
+ * Registra a API versionada
+ * @param app Express app
+ */
+export function setupV1Routes(app: express.Express): void {
+  app.use(API_BASE_PATH, v1Router);
+}
@@ -1,5 +1,6 @@
 import { Router, Request, Response, Express } from 'express';
 import { emulatorService } from './services/emulatorService';
+import { ConflictError, ValidationError, sendError } from './utils/errors';
 
 /**
  * Registra as rotas relacionadas aos sensores virtuais
@@ -16,10 +17,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
       const status = emulatorService.getStatus();
       
       if (!status.enabled) {
-        return res.status(400).json({ 
-          success: false, 
-          message: 'O emulador não está ativo. Ative-o primeiro.' 
-        });
+        return sendError(res, new ConflictError('O emulador não está ativo. Ative-o primeiro.'));
       }
       
       // Dados dos sensores a partir do emulador
@@ -46,12 +44,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
         }
       });
     } catch (error) {
-      console.error('Error fetching virtual sensors data:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Failed to fetch virtual sensors data',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to fetch virtual sensors data');
     }
   });
   
@@ -65,10 +58,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
       const { sensorKey, value } = req.body;
       
       if (!sensorKey || typeof value !== 'number') {
-        return res.status(400).json({ 
-          success: false, 
-          message: 'Sensor key and numeric value are required' 
-        });
+        return sendError(res, new ValidationError('Sensor key and numeric value are required'));
       }
       
       // Atualizar a configuração do emulador para refletir o novo valor do sensor
@@ -76,10 +66,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
       
       // Verificar se a chave do sensor é válida
       if (!(sensorKey in config.sensorRanges)) {
-        return res.status(400).json({ 
-          success: false, 
-          message: `Invalid sensor key: ${sensorKey}` 
-        });
+        return sendError(res, new ValidationError(`Invalid sensor key: ${sensorKey}`));
       }
       
       // Criar uma cópia parcial da configuração para atualização
@@ -96,12 +83,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
         updatedValue: value
       });
     } catch (error) {
-      console.error('Error updating virtual sensor:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Failed to update virtual sensor',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to update virtual sensor');
     }
   });
 
@@ -115,10 +97,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
       const { status } = req.body;
       
       if (typeof status !== 'boolean') {
-        return res.status(400).json({ 
-          success: false, 
-          message: 'Status must be a boolean' 
-        });
+        return sendError(res, new ValidationError('Status must be a boolean'));
       }
       
       emulatorService.setPumpStatus(status);
@@ -128,12 +107,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
         pumpStatus: status 
       });
     } catch (error) {
-      console.error('Error controlling pump:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Failed to control pump',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to control pump');
     }
   });
 
@@ -147,10 +121,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
       const { status } = req.body;
       
       if (typeof status !== 'boolean') {
-        return res.status(400).json({ 
-          success: false, 
-          message: 'Status must be a boolean' 
-        });
+        return sendError(res, new ValidationError('Status must be a boolean'));
       }
       
       emulatorService.setHeaterStatus(status);
@@ -160,12 +131,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
         heaterStatus: status 
       });
     } catch (error) {
-      console.error('Error controlling heater:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Failed to control heater',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to control heater');
     }
   });
 
@@ -179,10 +145,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
       const { flowRate } = req.body;
       
       if (typeof flowRate !== 'number' || flowRate < 0 || flowRate > 100) {
-        return res.status(400).json({ 
-          success: false, 
-          message: 'Flow rate must be a number between 0 and 100' 
-        });
+        return sendError(res, new ValidationError('Flow rate must be a number between 0 and 100'));
       }
       
       // Obter a configuração atual para preservar outros estados
@@ -206,12 +169,7 @@ export function registerVirtualSensorsRoutes(app: Express) {
         pumpFlow: flowRate
       });
     } catch (error) {
-      console.error('Error updating pump flow:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Failed to update pump flow',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to update pump flow');
     }
   });
 
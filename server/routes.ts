@@ -9,18 +9,18 @@ import {
   fetchLatestReading, 
   fetchHistoricalReadings, 
   updateDeviceStatus,
-  updatePumpStatus,
-  updateHeaterStatus,
-  updateOperationMode,
-  updateTargetTemperature,
-  updatePumpOnTimer,
-  updatePumpOffTimer,
-  updatePumpFlow,
+  requestPumpStatus,
+  requestHeaterStatus,
+  requestOperationMode,
+  requestTargetTemperature,
+  requestPumpOnTimer,
+  requestPumpOffTimer,
+  requestPumpFlow,
   getCurrentDeviceStatus,
   getFeedbackChannelStatus,
   REFRESH_INTERVAL 
 } from "./services/thingspeakService";
-import { Reading } from "@shared/sqlite-schema";
+import { Reading } from "@shared/reading";
 import { backupService } from "./services/backupService";
 import { insertSetpointsSchema, insertSettingsSchema } from "@shared/sqlite-schema";
 import { z } from "zod";
@@ -28,8 +28,17 @@ import { emulatorService } from "./services/emulatorService";
 import { aggregateReadingsByDateRange } from "./utils/dataAggregation";
 import { registerVirtualSensorsRoutes } from "./routes-virtual-sensors";
 import { automationService } from "./services/automationService";
+import { interlockService } from "./services/interlockService";
+import { retentionService } from "./services/retentionService";
 import { syncScheduler } from "./services/syncSchedulerService";
 import { fallbackService } from "./services/fallbackService";
+import { commandQueue } from "./services/commandQueueService";
+import { saveLiveReading } from "./services/liveReadingService";
+import { getSchemaStatus } from "./services/migrationService";
+import { getRequestDeviceId } from "./routes-devices";
+import { DEFAULT_DEVICE_ID } from "@shared/schema";
+import { NotFoundError, ValidationError, sendError, validateRequest } from "./utils/errors";
+import { getStorageBackend } from "./utils/storageBackend";
 
 // Declaração de tipo para variáveis globais
 declare global {
@@ -67,11 +76,11 @@ const configureDataCollectionInterval = async () => {
         const reading = await fetchLatestReading();
         
         if (reading) {
-          // Armazenar no banco de dados
-          await storage.saveReading(reading);
+          // Armazenar no banco de dados e repassar às regras, intertravamentos e interface
+          await saveLiveReading(reading);
           
           // Log de confirmação
-          console.log(`✅ [${new Date().toLocaleTimeString()}] Inserindo nova leitura: Temp=${reading.temperature.toFixed(1)}°C, Nível=${(reading.level * 100).toFixed(2)}%, Bomba=${reading.pumpStatus ? 'ON' : 'OFF'}, Aquecedor=${reading.heaterStatus ? 'ON' : 'OFF'}`);
+          console.log(`✅ [${new Date().toLocaleTimeString()}] Inserindo nova leitura: Temp=${reading.temperature.toFixed(1)}°C, Nível=${reading.level.toFixed(1)}%, Bomba=${reading.pumpStatus ? 'ON' : 'OFF'}, Aquecedor=${reading.heaterStatus ? 'ON' : 'OFF'}`);
           console.log(`✅ [${new Date().toLocaleTimeString()}] Ciclo de coleta concluído - Dados armazenados no banco com sucesso`);
         } else {
           console.log(`❌ [${new Date().toLocaleTimeString()}] Falha ao obter dados do ThingSpeak`);
@@ -103,16 +112,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.log(`🚀 Sistema inicializado com configurações do banco de dados`);
   }, 1000); // Pequeno atraso para garantir que o banco esteja pronto
 
-  // Agenda sincronização do backup a cada 30 minutos
-  cron.schedule('*/30 * * * *', async () => {
-    try {
-      console.log('🔄 Starting scheduled backup sync...');
-      await backupService.syncData();
-      console.log('✅ Scheduled backup completed');
-    } catch (error) {
-      console.error('❌ Error in scheduled backup:', error);
-    }
-  });
+  // Agenda sincronização do backup a cada 30 minutos (o backup copia as leituras do SQLite)
+  if (getStorageBackend() === 'postgres') {
+    console.log('⏸️ Backup não agendado: as leituras ficam no PostgreSQL (STORAGE_BACKEND=postgres)');
+  } else {
+    cron.schedule('*/30 * * * *', async () => {
+      try {
+        console.log('🔄 Starting scheduled backup sync...');
+        await backupService.syncData();
+        console.log('✅ Scheduled backup completed');
+      } catch (error) {
+        console.error('❌ Error in scheduled backup:', error);
+      }
+    });
+  }
 
   // Inicializar o serviço de backup
   try {
@@ -130,6 +143,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error('❌ Error starting automation service:', error);
   }
   
+  // Inicializar o watchdog dos intertravamentos de segurança
+  try {
+    await interlockService.start();
+    console.log('✅ Interlock service started - actuator safety watchdog active');
+  } catch (error) {
+    console.error('❌ Error starting interlock service:', error);
+  }
+  
   // Inicializar o serviço de sincronização automática com ThingSpeak
   try {
     await syncScheduler.initialize();
@@ -138,18 +159,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error('❌ Error initializing ThingSpeak sync scheduler:', error);
   }
 
+  // Agendar a retenção diária dos dados (agregação, limpeza e VACUUM)
+  try {
+    retentionService.start();
+    console.log('✅ Retention service initialized - old readings rolled up and pruned daily');
+  } catch (error) {
+    console.error('❌ Error starting retention service:', error);
+  }
+
   // API Routes
   
   // Get latest readings
   app.get('/api/readings/latest', async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || 60;
-      const readings = await storage.getLatestReadings(limit);
-      const setpoints = await storage.getSetpoints();
+      const deviceId = getRequestDeviceId(req);
+      const readings = await storage.getLatestReadings(limit, deviceId);
+      const setpoints = await storage.getSetpoints(deviceId);
       
-      // Obter configuração e fontes do serviço de fallback
+      // Obter configuração e fontes do serviço de fallback (sensores virtuais simulam o tanque principal)
       const sensorSources = fallbackService.getSensorSources();
-      const usesVirtualSources = Object.values(sensorSources).includes('virtual');
+      const usesVirtualSources = deviceId === DEFAULT_DEVICE_ID && Object.values(sensorSources).includes('virtual');
       
       // Se estiver usando fontes virtuais e tivermos leituras
       if (usesVirtualSources && readings.length > 0) {
@@ -167,10 +197,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           latestReading.level = virtualReading.level;
         }
         if (sensorSources.pumpStatus === 'virtual') {
-          latestReading.pump_status = virtualReading.pump_status;
+          latestReading.pumpStatus = virtualReading.pumpStatus;
         }
         if (sensorSources.heaterStatus === 'virtual') {
-          latestReading.heater_status = virtualReading.heater_status;
+          latestReading.heaterStatus = virtualReading.heaterStatus;
         }
       }
       
@@ -190,26 +220,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sensorSources: sensorSources
       });
     } catch (error) {
-      console.error('Error fetching latest readings:', error);
-      res.status(500).json({ error: 'Failed to fetch latest readings' });
+      sendError(res, error, 'Failed to fetch latest readings');
     }
   });
   
   // Endpoint específico para verificar o status atual dos dispositivos
   app.get('/api/device/status', async (req, res) => {
     try {
+      const deviceId = getRequestDeviceId(req);
+      
       // Obter o estado atual em memória (atualizações mais recentes)
-      const inMemoryStatus = getCurrentDeviceStatus();
+      const inMemoryStatus = getCurrentDeviceStatus(deviceId);
       
       // Buscar também a leitura mais recente do banco de dados
-      const latestReadings = await storage.getLatestReadings(1);
+      const latestReadings = await storage.getLatestReadings(1, deviceId);
       
       // Obter configuração e fontes do serviço de fallback
       const sensorSources = fallbackService.getSensorSources();
       let virtualReading = null;
       
-      // Verificar se algum sensor está usando fonte virtual
-      const usesVirtualSources = Object.values(sensorSources).includes('virtual');
+      // Verificar se algum sensor está usando fonte virtual (apenas no tanque principal)
+      const usesVirtualSources = deviceId === DEFAULT_DEVICE_ID && Object.values(sensorSources).includes('virtual');
       
       // Se estiver usando fontes virtuais, obter a leitura virtual
       if (usesVirtualSources) {
@@ -283,10 +314,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           finalLevel = virtualReading.level;
         }
         if (sensorSources.pumpStatus === 'virtual') {
-          finalPumpStatus = virtualReading.pump_status === 1;
+          finalPumpStatus = virtualReading.pumpStatus;
         }
         if (sensorSources.heaterStatus === 'virtual') {
-          finalHeaterStatus = virtualReading.heater_status === 1;
+          finalHeaterStatus = virtualReading.heaterStatus;
         }
       }
       
@@ -306,8 +337,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sensorSources: sensorSources
       });
     } catch (error) {
-      console.error('Error fetching device status:', error);
-      res.status(500).json({ error: 'Failed to fetch device status' });
+      sendError(res, error, 'Failed to fetch device status');
     }
   });
   
@@ -318,11 +348,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const feedbackStatus = await getFeedbackChannelStatus();
       res.json(feedbackStatus);
     } catch (error) {
-      console.error('Error fetching feedback status:', error);
-      res.status(500).json({ 
-        error: 'Failed to fetch feedback status',
-        message: 'Não foi possível obter o status de feedback do sistema físico. Utilize o status principal.'
-      });
+      sendError(res, error, 'Não foi possível obter o status de feedback do sistema físico. Utilize o status principal.');
     }
   });
 
@@ -332,7 +358,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { startDate, endDate } = req.query;
       
       if (!startDate || !endDate) {
-        return res.status(400).json({ error: 'Start and end dates are required' });
+        return sendError(res, new ValidationError('Start and end dates are required'));
       }
       
       console.log(`Fetching readings from ${startDate} to ${endDate} from local database...`);
@@ -352,17 +378,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`Data inicial: ${start.toLocaleDateString()}, Data final ajustada: ${new Date(end.getTime() + 86400000).toLocaleDateString()}`);
       
       // Agora tentar buscar os dados do banco local
+      const deviceId = getRequestDeviceId(req);
       let readings: Reading[] = [];
       try {
-        readings = await storage.getReadingsByDateRange(startDate as string, endDate as string, MAX_READINGS);
+        readings = await storage.getReadingsByDateRange(startDate as string, endDate as string, MAX_READINGS, deviceId);
         console.log(`Found ${readings.length} readings in the local database.`);
       } catch (dbError) {
         console.error("Erro ao buscar dados do banco:", dbError);
         readings = [];
       }
       
-      // Se mesmo após a importação ainda não temos dados, usar o ThingSpeak diretamente
-      if (readings.length === 0) {
+      // Se mesmo após a importação ainda não temos dados, usar o ThingSpeak diretamente (canal do tanque principal)
+      if (readings.length === 0 && deviceId === DEFAULT_DEVICE_ID) {
         console.log('Nenhum dado encontrado no banco após importação. Buscando do ThingSpeak diretamente...');
         
         try {
@@ -373,13 +400,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           if (thingspeakReadings && thingspeakReadings.length > 0) {
             console.log(`Obtidas ${thingspeakReadings.length} leituras diretamente do ThingSpeak.`);
             
-            // Converter para o formato esperado - adicionar IDs para compatibilidade
+            // Completar as leituras com IDs temporários e o tanque principal
             readings = thingspeakReadings.map((r, index) => ({
               ...r,
               id: 10000 + index, // IDs temporários
-              pumpStatus: r.pumpStatus || false,
-              heaterStatus: r.heaterStatus || false,
-              timestamp: r.timestamp || new Date()
+              deviceId: DEFAULT_DEVICE_ID,
+              timestamp: r.timestamp ?? Date.now()
             }));
           }
         } catch (thingspeakError) {
@@ -390,16 +416,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Se ainda não temos dados, retorne erro
       if (!readings || readings.length === 0) {
         console.log('Nenhum dado disponível após todas as tentativas.');
-        return res.status(404).json({ 
-          error: 'No data found for the selected period', 
-          message: 'Não há dados disponíveis para o período selecionado. Por favor, tente outro período.'
-        });
+        return sendError(res, new NotFoundError('Não há dados disponíveis para o período selecionado. Por favor, tente outro período.'));
       }
       
       // Aplicar a agregação com base no período selecionado
       const aggregatedReadings = aggregateReadingsByDateRange(readings, start, end);
       
-      const setpoints = await storage.getSetpoints();
+      const setpoints = await storage.getSetpoints(deviceId);
       const tempStats = storage.getTemperatureStats(readings); // Usamos os dados originais para estatísticas precisas
       const levelStats = storage.getLevelStats(readings);
       
@@ -421,8 +444,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      console.error('Error fetching readings history:', error);
-      res.status(500).json({ error: 'Failed to fetch readings history' });
+      sendError(res, error, 'Failed to fetch readings history');
     }
   });
   
@@ -435,7 +457,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const readings = await fetchHistoricalReadings(days);
       
       if (readings.length === 0) {
-        return res.status(404).json({ error: 'No data found from ThingSpeak' });
+        return sendError(res, new NotFoundError('No data found from ThingSpeak'));
       }
       
       // Save readings to database if they don't already exist
@@ -449,14 +471,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const setpoints = await storage.getSetpoints();
       
-      // Convert the readings to the format expected by the stats functions
-      // This is a temporary fix for the type error
-      const readingsWithId = readings.map(r => ({
+      // Leituras completas (id temporário) para as estatísticas
+      const readingsWithId: Reading[] = readings.map(r => ({
         ...r,
         id: 0, // Temporary ID for stats calculation only
-        pumpStatus: r.pumpStatus || false,
-        heaterStatus: r.heaterStatus || false,
-        timestamp: r.timestamp || new Date(),
+        deviceId: DEFAULT_DEVICE_ID,
+        timestamp: r.timestamp ?? Date.now()
       }));
       
       const tempStats = storage.getTemperatureStats(readingsWithId);
@@ -480,8 +500,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      console.error('Error fetching readings from ThingSpeak:', error);
-      res.status(500).json({ error: 'Failed to fetch readings from ThingSpeak' });
+      sendError(res, error, 'Failed to fetch readings from ThingSpeak');
     }
   });
 
@@ -491,14 +510,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = insertSetpointSchema.safeParse(req.body);
       
       if (!result.success) {
-        return res.status(400).json({ error: 'Invalid setpoint data', details: result.error });
+        return sendError(res, new ValidationError('Invalid setpoint data', result.error));
       }
       
-      const updatedSetpoints = await storage.updateSetpoints(result.data);
+      const updatedSetpoints = await storage.updateSetpoints(result.data, getRequestDeviceId(req));
       res.json(updatedSetpoints);
     } catch (error) {
-      console.error('Error updating setpoints:', error);
-      res.status(500).json({ error: 'Failed to update setpoints' });
+      sendError(res, error, 'Failed to update setpoints');
     }
   });
 
@@ -508,8 +526,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const settings = await storage.getSettings();
       res.json(settings);
     } catch (error) {
-      console.error('Error fetching settings:', error);
-      res.status(500).json({ error: 'Failed to fetch settings' });
+      sendError(res, error, 'Failed to fetch settings');
     }
   });
 
@@ -530,7 +547,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Fazer validação básica do formato
       if (!req.body || typeof req.body !== 'object') {
-        return res.status(400).json({ error: 'Invalid settings data', details: 'Body must be an object' });
+        return sendError(res, new ValidationError('Invalid settings data', 'Body must be an object'));
       }
       
       // Permitir que o Storage faça a conversão para o formato necessário
@@ -550,8 +567,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('📤 Respondendo com as configurações atualizadas');
       res.json(updatedSettings);
     } catch (error) {
-      console.error('❌ Erro crítico ao atualizar configurações:', error);
-      res.status(500).json({ error: 'Failed to update settings', message: error.message });
+      sendError(res, error, 'Failed to update settings');
     }
   });
   
@@ -562,7 +578,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (firstReading) {
         res.json({
           success: true,
-          firstReadingDate: firstReading.timestamp.toISOString()
+          firstReadingDate: new Date(firstReading.timestamp).toISOString()
         });
       } else {
         // Caso não haja leituras, retornar a data atual
@@ -581,6 +597,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Versão do esquema de cada banco SQLite e migrações pendentes
+  app.get('/api/system/schema', async (req, res) => {
+    try {
+      const databases = await getSchemaStatus();
+      res.json({
+        success: true,
+        upToDate: databases.every(database => database.upToDate && database.unknown.length === 0),
+        databases
+      });
+    } catch (error) {
+      sendError(res, error, 'Erro ao consultar o esquema dos bancos de dados');
+    }
+  });
+  
   // Endpoint para forçar a sincronização entre o estado em memória e o banco de dados
   app.post('/api/system/force-sync', async (req, res) => {
     try {
@@ -588,10 +618,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const latestReadings = await storage.getLatestReadings(1);
       
       if (!latestReadings || latestReadings.length === 0) {
-        return res.status(404).json({ 
-          success: false, 
-          message: 'No readings found in database' 
-        });
+        return sendError(res, new NotFoundError('No readings found in database'));
       }
       
       const latest = latestReadings[0];
@@ -640,259 +667,178 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
     } catch (error) {
-      console.error('Error syncing memory state with database:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Failed to sync memory state with database' 
-      });
+      sendError(res, error, 'Failed to sync memory state with database');
     }
   });
 
   // Control pump - otimizado para resposta rápida sem persistência de histórico
-  app.post('/api/control/pump', async (req, res) => {
+  app.post('/api/control/pump', validateRequest({ body: z.object({ status: z.boolean() }) }), async (req, res) => {
     try {
-      const schema = z.object({
-        status: z.boolean()
-      });
-      
-      const result = schema.safeParse(req.body);
-      
-      if (!result.success) {
-        return res.status(400).json({ error: 'Invalid pump control data' });
-      }
-      
-      // Responder imediatamente para fornecer feedback rápido na interface
-      res.json({ success: true, pumpStatus: result.data.status });
+      // Enfileirar o comando e responder imediatamente com seu ID para acompanhamento
+      const commandId = await requestPumpStatus(req.body.status, 'api', getRequestDeviceId(req));
+      res.json({ success: true, pumpStatus: req.body.status, commandId });
       
-      // Processar atualização em segundo plano sem bloquear a resposta
+      // Acompanhar o envio em segundo plano sem bloquear a resposta
       try {
-        // Update ThingSpeak - usando o método individual da bomba
-        const updateResult = await updatePumpStatus(result.data.status);
+        const updateResult = await commandQueue.waitFor(commandId);
         
         if (updateResult) {
-          console.log('✅ Bomba atualizada com sucesso no ThingSpeak:', result.data.status ? 'LIGADA' : 'DESLIGADA');
+          console.log('✅ Bomba atualizada com sucesso no ThingSpeak:', req.body.status ? 'LIGADA' : 'DESLIGADA');
         } else {
-          console.log('⚠️ Bomba enviada para ThingSpeak, aguardando confirmação:', result.data.status ? 'LIGADA' : 'DESLIGADA');
+          console.log('⚠️ Bomba enviada para ThingSpeak, aguardando confirmação:', req.body.status ? 'LIGADA' : 'DESLIGADA');
         }
       } catch (bgError) {
         console.error('❌ Erro em segundo plano ao atualizar bomba:', bgError);
       }
     } catch (error) {
-      console.error('Error controlling pump:', error);
-      res.status(500).json({ error: 'Failed to control pump' });
+      sendError(res, error, 'Failed to control pump');
     }
   });
 
   // Control heater - otimizado para resposta rápida sem persistência de histórico
-  app.post('/api/control/heater', async (req, res) => {
+  app.post('/api/control/heater', validateRequest({ body: z.object({ status: z.boolean() }) }), async (req, res) => {
     try {
-      const schema = z.object({
-        status: z.boolean()
-      });
+      // Enfileirar o comando e responder imediatamente com seu ID para acompanhamento
+      const commandId = await requestHeaterStatus(req.body.status, 'api', getRequestDeviceId(req));
+      res.json({ success: true, heaterStatus: req.body.status, commandId });
       
-      const result = schema.safeParse(req.body);
-      
-      if (!result.success) {
-        return res.status(400).json({ error: 'Invalid heater control data' });
-      }
-      
-      // Responder imediatamente para fornecer feedback rápido na interface
-      res.json({ success: true, heaterStatus: result.data.status });
-      
-      // Processar atualização em segundo plano sem bloquear a resposta
+      // Acompanhar o envio em segundo plano sem bloquear a resposta
       try {
-        // Update ThingSpeak - usando o método individual do aquecedor
-        const updateResult = await updateHeaterStatus(result.data.status);
+        const updateResult = await commandQueue.waitFor(commandId);
         
         if (updateResult) {
-          console.log('✅ Aquecedor atualizado com sucesso no ThingSpeak:', result.data.status ? 'LIGADO' : 'DESLIGADO');
+          console.log('✅ Aquecedor atualizado com sucesso no ThingSpeak:', req.body.status ? 'LIGADO' : 'DESLIGADO');
         } else {
-          console.log('⚠️ Aquecedor enviado para ThingSpeak, aguardando confirmação:', result.data.status ? 'LIGADO' : 'DESLIGADO');
+          console.log('⚠️ Aquecedor enviado para ThingSpeak, aguardando confirmação:', req.body.status ? 'LIGADO' : 'DESLIGADO');
         }
       } catch (bgError) {
         console.error('❌ Erro em segundo plano ao atualizar aquecedor:', bgError);
       }
     } catch (error) {
-      console.error('Error controlling heater:', error);
-      res.status(500).json({ error: 'Failed to control heater' });
+      sendError(res, error, 'Failed to control heater');
     }
   });
   
   // Control operation mode - otimizado para resposta rápida sem persistência de histórico
-  app.post('/api/control/operation-mode', async (req, res) => {
+  app.post('/api/control/operation-mode', validateRequest({ body: z.object({ isAutomatic: z.boolean() }) }), async (req, res) => {
     try {
-      const schema = z.object({
-        isAutomatic: z.boolean()
-      });
+      // Enfileirar o comando e responder imediatamente com seu ID para acompanhamento
+      const commandId = await requestOperationMode(req.body.isAutomatic, 'api', getRequestDeviceId(req));
+      res.json({ success: true, operationMode: req.body.isAutomatic, commandId });
       
-      const result = schema.safeParse(req.body);
-      
-      if (!result.success) {
-        return res.status(400).json({ error: 'Invalid operation mode data' });
-      }
-      
-      // Responder imediatamente para fornecer feedback rápido na interface
-      res.json({ success: true, operationMode: result.data.isAutomatic });
-      
-      // Processar atualização em segundo plano sem bloquear a resposta
+      // Acompanhar o envio em segundo plano sem bloquear a resposta
       try {
-        // Update ThingSpeak - usando o método para alterar modo de operação
-        const updateResult = await updateOperationMode(result.data.isAutomatic);
+        const updateResult = await commandQueue.waitFor(commandId);
         
         // Atualizar o serviço de automação para refletir o novo modo
-        automationService.setAutoMode(result.data.isAutomatic);
+        automationService.setAutoMode(req.body.isAutomatic);
         
         if (updateResult) {
-          console.log('✅ Modo de operação atualizado com sucesso no ThingSpeak:', result.data.isAutomatic ? 'AUTOMÁTICO' : 'MANUAL');
+          console.log('✅ Modo de operação atualizado com sucesso no ThingSpeak:', req.body.isAutomatic ? 'AUTOMÁTICO' : 'MANUAL');
         } else {
-          console.log('⚠️ Modo de operação enviado para ThingSpeak, aguardando confirmação:', result.data.isAutomatic ? 'AUTOMÁTICO' : 'MANUAL');
+          console.log('⚠️ Modo de operação enviado para ThingSpeak, aguardando confirmação:', req.body.isAutomatic ? 'AUTOMÁTICO' : 'MANUAL');
         }
       } catch (bgError) {
         console.error('❌ Erro em segundo plano ao atualizar modo de operação:', bgError);
       }
     } catch (error) {
-      console.error('Error controlling operation mode:', error);
-      res.status(500).json({ error: 'Failed to control operation mode' });
+      sendError(res, error, 'Failed to control operation mode');
     }
   });
 
   // Control pump flow - otimizado para resposta rápida sem persistência de histórico
-  app.post('/api/control/pump-flow', async (req, res) => {
+  app.post('/api/control/pump-flow', validateRequest({ body: z.object({ flowPercent: z.number().min(0).max(100) }) }), async (req, res) => {
     try {
-      const schema = z.object({
-        flowPercent: z.number().min(0).max(100)
-      });
-      
-      const result = schema.safeParse(req.body);
+      // Enfileirar o comando e responder imediatamente com seu ID para acompanhamento
+      const commandId = await requestPumpFlow(req.body.flowPercent, 'api', getRequestDeviceId(req));
+      res.json({ success: true, pumpFlow: req.body.flowPercent, commandId });
       
-      if (!result.success) {
-        return res.status(400).json({ error: 'Valor de vazão inválido' });
-      }
-      
-      // Responder imediatamente para fornecer feedback rápido na interface
-      res.json({ success: true, pumpFlow: result.data.flowPercent });
-      
-      // Processar atualização em segundo plano sem bloquear a resposta
+      // Acompanhar o envio em segundo plano sem bloquear a resposta
       try {
-        // Update ThingSpeak
-        const updateResult = await updatePumpFlow(result.data.flowPercent);
+        const updateResult = await commandQueue.waitFor(commandId);
         
         if (updateResult) {
-          console.log(`✅ Vazão da bomba atualizada com sucesso no ThingSpeak: ${result.data.flowPercent}%`);
+          console.log(`✅ Vazão da bomba atualizada com sucesso no ThingSpeak: ${req.body.flowPercent}%`);
         } else {
-          console.log(`⚠️ Vazão da bomba enviada para ThingSpeak, aguardando confirmação: ${result.data.flowPercent}%`);
+          console.log(`⚠️ Vazão da bomba enviada para ThingSpeak, aguardando confirmação: ${req.body.flowPercent}%`);
         }
       } catch (bgError) {
         console.error('❌ Erro em segundo plano ao atualizar vazão da bomba:', bgError);
       }
     } catch (error) {
-      console.error('Error controlling pump flow:', error);
-      res.status(500).json({ error: 'Falha ao controlar vazão da bomba' });
+      sendError(res, error, 'Falha ao controlar vazão da bomba');
     }
   });
 
   // Control target temperature - otimizado para resposta rápida sem persistência de histórico
-  app.post('/api/control/targettemp', async (req, res) => {
+  app.post('/api/control/targettemp', validateRequest({ body: z.object({ targetTemp: z.number().min(20).max(35) }) }), async (req, res) => {
     try {
-      const schema = z.object({
-        targetTemp: z.number().min(20).max(35)
-      });
-      
-      const result = schema.safeParse(req.body);
+      // Enfileirar o comando e responder imediatamente com seu ID para acompanhamento
+      const commandId = await requestTargetTemperature(req.body.targetTemp, 'api', getRequestDeviceId(req));
+      res.json({ success: true, targetTemp: req.body.targetTemp, commandId });
       
-      if (!result.success) {
-        return res.status(400).json({ error: 'Invalid target temperature data' });
-      }
-      
-      // Responder imediatamente para fornecer feedback rápido na interface
-      res.json({ success: true, targetTemp: result.data.targetTemp });
-      
-      // Processar atualização em segundo plano sem bloquear a resposta
+      // Acompanhar o envio em segundo plano sem bloquear a resposta
       try {
-        // Update ThingSpeak - usando o método para temperatura alvo
-        const updateResult = await updateTargetTemperature(result.data.targetTemp);
+        const updateResult = await commandQueue.waitFor(commandId);
         
         if (updateResult) {
-          console.log(`✅ Temperatura alvo atualizada com sucesso no ThingSpeak: ${result.data.targetTemp}°C`);
+          console.log(`✅ Temperatura alvo atualizada com sucesso no ThingSpeak: ${req.body.targetTemp}°C`);
         } else {
-          console.log(`⚠️ Temperatura alvo enviada para ThingSpeak, aguardando confirmação: ${result.data.targetTemp}°C`);
+          console.log(`⚠️ Temperatura alvo enviada para ThingSpeak, aguardando confirmação: ${req.body.targetTemp}°C`);
         }
       } catch (bgError) {
         console.error('❌ Erro em segundo plano ao atualizar temperatura alvo:', bgError);
       }
     } catch (error) {
-      console.error('Error controlling target temperature:', error);
-      res.status(500).json({ error: 'Failed to control target temperature' });
+      sendError(res, error, 'Failed to control target temperature');
     }
   });
 
   // Control pump on timer - otimizado para resposta rápida sem persistência de histórico
-  app.post('/api/control/pumpontimer', async (req, res) => {
+  app.post('/api/control/pumpontimer', validateRequest({ body: z.object({ pumpOnTimer: z.number().min(0).max(3600) }) }), async (req, res) => {
     try {
-      const schema = z.object({
-        pumpOnTimer: z.number().min(0).max(3600)
-      });
-      
-      const result = schema.safeParse(req.body);
+      // Enfileirar o comando e responder imediatamente com seu ID para acompanhamento
+      const commandId = await requestPumpOnTimer(req.body.pumpOnTimer, 'api', getRequestDeviceId(req));
+      res.json({ success: true, pumpOnTimer: req.body.pumpOnTimer, commandId });
       
-      if (!result.success) {
-        return res.status(400).json({ error: 'Invalid pump on timer data' });
-      }
-      
-      // Responder imediatamente para fornecer feedback rápido na interface
-      res.json({ success: true, pumpOnTimer: result.data.pumpOnTimer });
-      
-      // Processar atualização em segundo plano sem bloquear a resposta
+      // Acompanhar o envio em segundo plano sem bloquear a resposta
       try {
-        // Update ThingSpeak - usando o método para timer de bomba ligada
-        const updateResult = await updatePumpOnTimer(result.data.pumpOnTimer);
+        const updateResult = await commandQueue.waitFor(commandId);
         
         if (updateResult) {
-          console.log(`✅ Timer de bomba ligada atualizado com sucesso no ThingSpeak: ${result.data.pumpOnTimer} segundos`);
+          console.log(`✅ Timer de bomba ligada atualizado com sucesso no ThingSpeak: ${req.body.pumpOnTimer} segundos`);
         } else {
-          console.log(`⚠️ Timer de bomba ligada enviado para ThingSpeak, aguardando confirmação: ${result.data.pumpOnTimer} segundos`);
+          console.log(`⚠️ Timer de bomba ligada enviado para ThingSpeak, aguardando confirmação: ${req.body.pumpOnTimer} segundos`);
         }
       } catch (bgError) {
         console.error('❌ Erro em segundo plano ao atualizar timer de bomba ligada:', bgError);
       }
     } catch (error) {
-      console.error('Error controlling pump on timer:', error);
-      res.status(500).json({ error: 'Failed to control pump on timer' });
+      sendError(res, error, 'Failed to control pump on timer');
     }
   });
 
   // Control pump off timer - otimizado para resposta rápida sem persistência de histórico
-  app.post('/api/control/pumpofftimer', async (req, res) => {
+  app.post('/api/control/pumpofftimer', validateRequest({ body: z.object({ pumpOffTimer: z.number().min(0).max(3600) }) }), async (req, res) => {
     try {
-      const schema = z.object({
-        pumpOffTimer: z.number().min(0).max(3600)
-      });
-      
-      const result = schema.safeParse(req.body);
-      
-      if (!result.success) {
-        return res.status(400).json({ error: 'Invalid pump off timer data' });
-      }
+      // Enfileirar o comando e responder imediatamente com seu ID para acompanhamento
+      const commandId = await requestPumpOffTimer(req.body.pumpOffTimer, 'api', getRequestDeviceId(req));
+      res.json({ success: true, pumpOffTimer: req.body.pumpOffTimer, commandId });
       
-      // Responder imediatamente para fornecer feedback rápido na interface
-      res.json({ success: true, pumpOffTimer: result.data.pumpOffTimer });
-      
-      // Processar atualização em segundo plano sem bloquear a resposta
+      // Acompanhar o envio em segundo plano sem bloquear a resposta
       try {
-        // Update ThingSpeak - usando o método para timer de bomba desligada
-        const updateResult = await updatePumpOffTimer(result.data.pumpOffTimer);
+        const updateResult = await commandQueue.waitFor(commandId);
         
         if (updateResult) {
-          console.log(`✅ Timer de bomba desligada atualizado com sucesso no ThingSpeak: ${result.data.pumpOffTimer} segundos`);
+          console.log(`✅ Timer de bomba desligada atualizado com sucesso no ThingSpeak: ${req.body.pumpOffTimer} segundos`);
         } else {
-          console.log(`⚠️ Timer de bomba desligada enviado para ThingSpeak, aguardando confirmação: ${result.data.pumpOffTimer} segundos`);
+          console.log(`⚠️ Timer de bomba desligada enviado para ThingSpeak, aguardando confirmação: ${req.body.pumpOffTimer} segundos`);
         }
       } catch (bgError) {
         console.error('❌ Erro em segundo plano ao atualizar timer de bomba desligada:', bgError);
       }
     } catch (error) {
-      console.error('Error controlling pump off timer:', error);
-      res.status(500).json({ error: 'Failed to control pump off timer' });
+      sendError(res, error, 'Failed to control pump off timer');
     }
   });
 
@@ -917,6 +863,146 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Rota para obter a configuração e o estado do termostato do aquecedor
+  app.get('/api/automation/heater', (req, res) => {
+    try {
+      res.json(automationService.getThermostatState());
+    } catch (error) {
+      sendError(res, error, 'Failed to get heater thermostat state');
+    }
+  });
+  
+  // Rota para configurar o termostato do aquecedor
+  app.post('/api/automation/heater', (req, res) => {
+    try {
+      const schema = z.object({
+        enabled: z.boolean().optional(),
+        mode: z.enum(['hysteresis', 'pid']).optional(),
+        hysteresis: z.number().min(0.1).max(5).optional(),
+        minOnTimeSec: z.number().int().min(0).max(3600).optional(),
+        minOffTimeSec: z.number().int().min(0).max(3600).optional(),
+        cutoffTemperature: z.number().min(20).max(40).optional(),
+        maxReadingAgeSec: z.number().int().min(60).max(86400).optional(),
+        kp: z.number().min(0).max(1000).optional(),
+        ki: z.number().min(0).max(100).optional(),
+        kd: z.number().min(0).max(100000).optional(),
+        pidWindowSec: z.number().int().min(30).max(3600).optional()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return sendError(res, ValidationError.fromZod(result.error));
+      }
+      
+      automationService.updateThermostatConfig(result.data);
+      res.json(automationService.getThermostatState());
+    } catch (error) {
+      sendError(res, error, 'Failed to update heater thermostat');
+    }
+  });
+  
+  // Rota para iniciar ou cancelar a sintonia automática do PID do aquecedor
+  app.post('/api/automation/heater/autotune', async (req, res) => {
+    try {
+      const schema = z.object({
+        action: z.enum(['start', 'cancel']),
+        hysteresis: z.number().min(0.05).max(2).optional(),
+        cycles: z.number().int().min(2).max(10).optional(),
+        maxDurationMin: z.number().int().min(10).max(1440).optional()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return sendError(res, ValidationError.fromZod(result.error));
+      }
+      
+      const { action, ...options } = result.data;
+      
+      if (action === 'cancel') {
+        if (!(await automationService.cancelAutoTune())) {
+          return sendError(res, new ValidationError('Nenhuma sintonia automática em andamento'));
+        }
+      } else {
+        const startError = automationService.startAutoTune(options);
+        if (startError) {
+          return sendError(res, new ValidationError(startError));
+        }
+      }
+      
+      res.json(automationService.getThermostatState());
+    } catch (error) {
+      sendError(res, error, 'Failed to control heater auto-tune');
+    }
+  });
+  
+  // Rota para obter a configuração, o estado e as violações recentes dos intertravamentos
+  app.get('/api/automation/interlocks', (req, res) => {
+    try {
+      res.json(interlockService.getStatus());
+    } catch (error) {
+      sendError(res, error, 'Failed to get interlock status');
+    }
+  });
+  
+  // Rota para configurar os intertravamentos de segurança
+  app.post('/api/automation/interlocks', (req, res) => {
+    try {
+      const schema = z.object({
+        enabled: z.boolean().optional(),
+        heaterMinLevel: z.number().min(0).max(100).optional(),
+        heaterMaxRuntimeMin: z.number().int().min(1).max(1440).optional(),
+        heaterRestMin: z.number().int().min(0).max(1440).optional(),
+        pumpMaxStartsPerHour: z.number().int().min(0).max(3600).optional(),
+        readingTimeoutMin: z.number().int().min(1).max(1440).optional()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return sendError(res, ValidationError.fromZod(result.error));
+      }
+      
+      interlockService.updateConfig(result.data);
+      res.json(interlockService.getStatus());
+    } catch (error) {
+      sendError(res, error, 'Failed to update interlocks');
+    }
+  });
+  
+  // Rota para obter a configuração e o estado da bomba controlada por nível
+  app.get('/api/automation/pump-level', (req, res) => {
+    try {
+      res.json(automationService.getPumpLevelState());
+    } catch (error) {
+      sendError(res, error, 'Failed to get pump level control state');
+    }
+  });
+  
+  // Rota para escolher a estratégia da bomba (temporizador ou nível) e configurar a proteção a seco
+  app.post('/api/automation/pump-level', (req, res) => {
+    try {
+      const schema = z.object({
+        mode: z.enum(['timer', 'level']).optional(),
+        criticalLevel: z.number().min(0).max(100).optional(),
+        minSwitchIntervalSec: z.number().int().min(0).max(3600).optional(),
+        maxReadingAgeSec: z.number().int().min(60).max(86400).optional()
+      });
+      
+      const result = schema.safeParse(req.body);
+      
+      if (!result.success) {
+        return sendError(res, ValidationError.fromZod(result.error));
+      }
+      
+      automationService.updatePumpLevelConfig(result.data);
+      res.json(automationService.getPumpLevelState());
+    } catch (error) {
+      sendError(res, error, 'Failed to update pump level control');
+    }
+  });
+  
   // Rota para forçar o início de um novo ciclo (usado para depuração)
   app.post('/api/automation/force-cycle', (req, res) => {
     try {
@@ -929,8 +1015,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         state: cycleState
       });
     } catch (error) {
-      console.error('Error forcing cycle start:', error);
-      res.status(500).json({ success: false, error: 'Failed to force cycle start' });
+      sendError(res, error, 'Failed to force cycle start');
     }
   });
   
@@ -955,12 +1040,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         config: { days: syncDays, batchSize: syncBatchSize }
       });
     } catch (error) {
-      console.error('Error during manual backup sync:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Falha na sincronização do backup',
-        details: error instanceof Error ? error.message : 'Erro desconhecido'
-      });
+      sendError(res, error, 'Falha na sincronização do backup');
     }
   });
 
@@ -1014,36 +1094,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         stats
       });
     } catch (error) {
-      console.error('Error fetching backup stats:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Falha ao obter estatísticas do backup',
-        details: error instanceof Error ? error.message : 'Erro desconhecido' 
-      });
+      sendError(res, error, 'Falha ao obter estatísticas do backup');
     }
   });
   
-  // Rota para obter informações de uptime do sistema
-  app.get('/api/system/uptime', async (req, res) => {
-    try {
-      // Buscar a primeira (mais antiga) leitura no banco
-      const readings = await storage.getFirstReading();
-      const firstTimestamp = readings?.timestamp || new Date().toISOString();
-      
-      res.json({ 
-        success: true, 
-        firstReadingDate: firstTimestamp
-      });
-    } catch (error) {
-      console.error('Erro ao buscar informações de uptime:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Erro ao buscar informações de uptime',
-        firstReadingDate: new Date().toISOString()
-      });
-    }
-  });
-
   // Rota para importar dados históricos do ThingSpeak para o banco de dados local
   app.post('/api/sync/thingspeak-to-db', async (req, res) => {
     try {
@@ -1070,12 +1124,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         background: true
       });
     } catch (error) {
-      console.error('Error importing data from ThingSpeak to local database:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Falha ao importar dados do ThingSpeak',
-        details: error instanceof Error ? error.message : 'Erro desconhecido' 
-      });
+      sendError(res, error, 'Falha ao importar dados do ThingSpeak');
     }
   });
   
@@ -1109,12 +1158,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: syncStatus
       });
     } catch (error) {
-      console.error('Error getting sync scheduler status:', error);
-      res.status(500).json({ 
-        success: false, 
-        error: 'Falha ao obter status do agendador',
-        details: error instanceof Error ? error.message : 'Erro desconhecido'
-      });
+      sendError(res, error, 'Falha ao obter status do agendador');
     }
   });
 
@@ -1125,11 +1169,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const status = emulatorService.getStatus();
       res.json(status);
     } catch (error) {
-      console.error('Error getting emulator status:', error);
-      res.status(500).json({ 
-        error: 'Failed to get emulator status',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to get emulator status');
     }
   });
 
@@ -1139,11 +1179,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const config = emulatorService.getConfig();
       res.json(config);
     } catch (error) {
-      console.error('Error getting emulator config:', error);
-      res.status(500).json({ 
-        error: 'Failed to get emulator config',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to get emulator config');
     }
   });
 
@@ -1153,11 +1189,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       emulatorService.start(req.body);
       res.json({ success: true, message: 'Emulator started' });
     } catch (error) {
-      console.error('Error starting emulator:', error);
-      res.status(500).json({ 
-        error: 'Failed to start emulator',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to start emulator');
     }
   });
 
@@ -1167,11 +1199,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       emulatorService.stop();
       res.json({ success: true, message: 'Emulator stopped' });
     } catch (error) {
-      console.error('Error stopping emulator:', error);
-      res.status(500).json({ 
-        error: 'Failed to stop emulator',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to stop emulator');
     }
   });
 
@@ -1181,12 +1209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const updatedConfig = emulatorService.updateConfig(req.body);
       res.json({ success: true, config: updatedConfig });
     } catch (error) {
-      console.error('Error updating emulator config:', error);
-      res.status(500).json({ 
-        success: false,
-        error: 'Failed to update emulator config',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to update emulator config');
     }
   });
 
@@ -1196,11 +1219,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const scenarios = emulatorService.getAvailableScenarios();
       res.json({ scenarios });
     } catch (error) {
-      console.error('Error getting available scenarios:', error);
-      res.status(500).json({ 
-        error: 'Failed to get available scenarios',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to get available scenarios');
     }
   });
   
@@ -1216,14 +1235,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (success) {
         res.json({ success: true, message: `Scenario '${name}' loaded successfully` });
       } else {
-        res.status(404).json({ success: false, message: `Scenario '${name}' not found` });
+        sendError(res, new NotFoundError(`Scenario '${name}' not found`));
       }
     } catch (error) {
-      console.error('Error loading scenario:', error);
-      res.status(500).json({ 
-        error: 'Failed to load scenario',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to load scenario');
     }
   });
 
@@ -1233,17 +1248,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { status } = req.body;
       
       if (typeof status !== 'boolean') {
-        return res.status(400).json({ error: 'Status must be a boolean' });
+        return sendError(res, new ValidationError('Status must be a boolean'));
       }
       
       emulatorService.setPumpStatus(status);
       res.json({ success: true, pumpStatus: status });
     } catch (error) {
-      console.error('Error controlling pump:', error);
-      res.status(500).json({ 
-        error: 'Failed to control pump',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to control pump');
     }
   });
 
@@ -1253,20 +1264,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { status } = req.body;
       
       if (typeof status !== 'boolean') {
-        return res.status(400).json({ error: 'Status must be a boolean' });
+        return sendError(res, new ValidationError('Status must be a boolean'));
       }
       
       emulatorService.setHeaterStatus(status);
       res.json({ success: true, heaterStatus: status });
     } catch (error) {
-      console.error('Error controlling heater:', error);
-      res.status(500).json({ 
-        error: 'Failed to control heater',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      });
+      sendError(res, error, 'Failed to control heater');
     }
   });
   
+  // Rotas /api/device/* aguardam a confirmação do envio; duplicam /api/control/* e são mantidas apenas
+  // para clientes antigos (integrações devem usar POST /api/v1/devices/:deviceId/control/:actuator)
+
   // Endpoint para controlar a bomba (field3)
   app.post('/api/device/pump', async (req, res) => {
     try {
@@ -1274,14 +1284,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validar se o status é um boolean
       if (typeof status !== 'boolean') {
-        return res.status(400).json({ 
-          error: 'Invalid pump status', 
-          message: 'Status deve ser um valor booleano (true/false)' 
-        });
+        return sendError(res, new ValidationError('Status deve ser um valor booleano (true/false)'));
       }
       
       // Atualizar o status da bomba no ThingSpeak
-      const success = await updatePumpStatus(status);
+      const commandId = await requestPumpStatus(status, 'api', getRequestDeviceId(req));
+      const success = await commandQueue.waitFor(commandId);
       
       if (success) {
         // Registrar na leitura mais recente também
@@ -1293,28 +1301,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const updatedReading = {
             ...latest,
             pumpStatus: status,
-            timestamp: new Date()
+            timestamp: Date.now()
           };
           
           // Salvar no banco
-          await storage.saveReading(updatedReading);
+          await saveLiveReading(updatedReading);
         }
         
         // Resposta de sucesso
         res.json({
           success: true,
           message: `Bomba ${status ? 'ligada' : 'desligada'} com sucesso`,
-          newStatus: status
+          newStatus: status,
+          commandId
         });
       } else {
         throw new Error('Failed to update pump status on ThingSpeak');
       }
     } catch (error) {
-      console.error('Error updating pump status:', error);
-      res.status(500).json({ 
-        error: 'Failed to update pump status',
-        message: 'Erro ao atualizar o status da bomba. Tente novamente.'
-      });
+      sendError(res, error, 'Erro ao atualizar o status da bomba. Tente novamente.');
     }
   });
   
@@ -1325,14 +1330,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validar se o status é um boolean
       if (typeof status !== 'boolean') {
-        return res.status(400).json({ 
-          error: 'Invalid heater status', 
-          message: 'Status deve ser um valor booleano (true/false)' 
-        });
+        return sendError(res, new ValidationError('Status deve ser um valor booleano (true/false)'));
       }
       
       // Atualizar o status do aquecedor no ThingSpeak
-      const success = await updateHeaterStatus(status);
+      const commandId = await requestHeaterStatus(status, 'api', getRequestDeviceId(req));
+      const success = await commandQueue.waitFor(commandId);
       
       if (success) {
         // Registrar na leitura mais recente também
@@ -1344,28 +1347,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const updatedReading = {
             ...latest,
             heaterStatus: status,
-            timestamp: new Date()
+            timestamp: Date.now()
           };
           
           // Salvar no banco
-          await storage.saveReading(updatedReading);
+          await saveLiveReading(updatedReading);
         }
         
         // Resposta de sucesso
         res.json({
           success: true,
           message: `Aquecedor ${status ? 'ligado' : 'desligado'} com sucesso`,
-          newStatus: status
+          newStatus: status,
+          commandId
         });
       } else {
         throw new Error('Failed to update heater status on ThingSpeak');
       }
     } catch (error) {
-      console.error('Error updating heater status:', error);
-      res.status(500).json({ 
-        error: 'Failed to update heater status',
-        message: 'Erro ao atualizar o status do aquecedor. Tente novamente.'
-      });
+      sendError(res, error, 'Erro ao atualizar o status do aquecedor. Tente novamente.');
     }
   });
   
@@ -1376,10 +1376,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validar se isAutomatic é um boolean
       if (typeof isAutomatic !== 'boolean') {
-        return res.status(400).json({ 
-          error: 'Invalid operation mode', 
-          message: 'Modo deve ser um valor booleano (true=automático/false=manual)' 
-        });
+        return sendError(res, new ValidationError('Modo deve ser um valor booleano (true=automático/false=manual)'));
       }
       
       // Atualização otimista no estado para feedback imediato na UI
@@ -1388,13 +1385,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Atualizar o modo de operação
       console.log(`Alterando modo de operação para: ${isAutomatic ? 'Automático' : 'Manual'}`);
-      const success = await updateOperationMode(isAutomatic);
+      const commandId = await requestOperationMode(isAutomatic, 'api', getRequestDeviceId(req));
+      const success = await commandQueue.waitFor(commandId);
       
       if (success) {
         res.json({
           success: true,
           message: `Modo de operação alterado para ${isAutomatic ? 'automático' : 'manual'} com sucesso`,
-          newMode: isAutomatic
+          newMode: isAutomatic,
+          commandId
         });
       } else {
         // Mesmo se falhar no ThingSpeak, mantemos a interface atualizada com o status desejado
@@ -1404,15 +1403,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           success: true,
           message: `Modo de operação alterado para ${isAutomatic ? 'automático' : 'manual'} localmente. Sincronizando...`,
           newMode: isAutomatic,
-          syncing: true
+          syncing: true,
+          commandId
         });
       }
     } catch (error) {
-      console.error('Error updating operation mode:', error);
-      res.status(500).json({ 
-        error: 'Failed to update operation mode',
-        message: 'Erro ao atualizar o modo de operação. Tente novamente.'
-      });
+      sendError(res, error, 'Erro ao atualizar o modo de operação. Tente novamente.');
     }
   });
   
@@ -1423,30 +1419,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validar se a temperatura é um número entre 18 e 32
       if (typeof temperature !== 'number' || temperature < 18 || temperature > 32) {
-        return res.status(400).json({ 
-          error: 'Invalid target temperature', 
-          message: 'A temperatura deve ser um número entre 18°C e 32°C' 
-        });
+        return sendError(res, new ValidationError('A temperatura deve ser um número entre 18°C e 32°C'));
       }
       
       // Atualizar a temperatura alvo
-      const success = await updateTargetTemperature(temperature);
+      const commandId = await requestTargetTemperature(temperature, 'api', getRequestDeviceId(req));
+      const success = await commandQueue.waitFor(commandId);
       
       if (success) {
         res.json({
           success: true,
           message: `Temperatura alvo definida para ${temperature}°C com sucesso`,
-          newTargetTemperature: temperature
+          newTargetTemperature: temperature,
+          commandId
         });
       } else {
         throw new Error('Failed to update target temperature on ThingSpeak');
       }
     } catch (error) {
-      console.error('Error updating target temperature:', error);
-      res.status(500).json({ 
-        error: 'Failed to update target temperature',
-        message: 'Erro ao atualizar a temperatura alvo. Tente novamente.'
-      });
+      sendError(res, error, 'Erro ao atualizar a temperatura alvo. Tente novamente.');
     }
   });
   
@@ -1457,30 +1448,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validar se seconds é um número positivo e razoável
       if (typeof seconds !== 'number' || seconds < 0 || seconds > 3600) {
-        return res.status(400).json({ 
-          error: 'Invalid pump on timer', 
-          message: 'O timer deve ser um número entre 0 e 3600 segundos (1 hora)' 
-        });
+        return sendError(res, new ValidationError('O timer deve ser um número entre 0 e 3600 segundos (1 hora)'));
       }
       
       // Atualizar o timer
-      const success = await updatePumpOnTimer(seconds);
+      const commandId = await requestPumpOnTimer(seconds, 'api', getRequestDeviceId(req));
+      const success = await commandQueue.waitFor(commandId);
       
       if (success) {
         res.json({
           success: true,
           message: `Timer de bomba ligada definido para ${seconds} segundos com sucesso`,
-          newTimer: seconds
+          newTimer: seconds,
+          commandId
         });
       } else {
         throw new Error('Failed to update pump on timer on ThingSpeak');
       }
     } catch (error) {
-      console.error('Error updating pump on timer:', error);
-      res.status(500).json({ 
-        error: 'Failed to update pump on timer',
-        message: 'Erro ao atualizar o timer de bomba ligada. Tente novamente.'
-      });
+      sendError(res, error, 'Erro ao atualizar o timer de bomba ligada. Tente novamente.');
     }
   });
   
@@ -1491,30 +1477,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validar se seconds é um número positivo e razoável
       if (typeof seconds !== 'number' || seconds < 0 || seconds > 3600) {
-        return res.status(400).json({ 
-          error: 'Invalid pump off timer', 
-          message: 'O timer deve ser um número entre 0 e 3600 segundos (1 hora)' 
-        });
+        return sendError(res, new ValidationError('O timer deve ser um número entre 0 e 3600 segundos (1 hora)'));
       }
       
       // Atualizar o timer
-      const success = await updatePumpOffTimer(seconds);
+      const commandId = await requestPumpOffTimer(seconds, 'api', getRequestDeviceId(req));
+      const success = await commandQueue.waitFor(commandId);
       
       if (success) {
         res.json({
           success: true,
           message: `Timer de bomba desligada definido para ${seconds} segundos com sucesso`,
-          newTimer: seconds
+          newTimer: seconds,
+          commandId
         });
       } else {
         throw new Error('Failed to update pump off timer on ThingSpeak');
       }
     } catch (error) {
-      console.error('Error updating pump off timer:', error);
-      res.status(500).json({ 
-        error: 'Failed to update pump off timer',
-        message: 'Erro ao atualizar o timer de bomba desligada. Tente novamente.'
-      });
+      sendError(res, error, 'Erro ao atualizar o timer de bomba desligada. Tente novamente.');
     }
   });
 
@@ -1525,61 +1506,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Validar se são números positivos e razoáveis
       if (typeof onSeconds !== 'number' || onSeconds < 0 || onSeconds > 3600) {
-        return res.status(400).json({ 
-          error: 'Invalid pump on timer', 
-          message: 'O timer ON deve ser um número entre 0 e 3600 segundos (1 hora)' 
-        });
+        return sendError(res, new ValidationError('O timer ON deve ser um número entre 0 e 3600 segundos (1 hora)'));
       }
       
       if (typeof offSeconds !== 'number' || offSeconds < 0 || offSeconds > 3600) {
-        return res.status(400).json({ 
-          error: 'Invalid pump off timer', 
-          message: 'O timer OFF deve ser um número entre 0 e 3600 segundos (1 hora)' 
-        });
+        return sendError(res, new ValidationError('O timer OFF deve ser um número entre 0 e 3600 segundos (1 hora)'));
       }
       
       // Atualizar ambos os timers
       console.log(`Atualizando timers: ON=${onSeconds}s, OFF=${offSeconds}s`);
       
-      // Função para atualizar ambos os valores de uma vez
-      const updateBothTimers = async () => {
-        const onSuccess = await updatePumpOnTimer(onSeconds);
-        const offSuccess = await updatePumpOffTimer(offSeconds);
-        return { onSuccess, offSuccess };
-      };
-      
-      const { onSuccess, offSuccess } = await updateBothTimers();
+      // Enfileirar ambos os valores (a fila agrupa os dois campos no mesmo envio)
+      const onCommandId = await requestPumpOnTimer(onSeconds, 'api', getRequestDeviceId(req));
+      const offCommandId = await requestPumpOffTimer(offSeconds, 'api', getRequestDeviceId(req));
+      const onSuccess = await commandQueue.waitFor(onCommandId);
+      const offSuccess = await commandQueue.waitFor(offCommandId);
+      const commandIds = Array.from(new Set([onCommandId, offCommandId]));
       
       if (onSuccess && offSuccess) {
         res.json({
           success: true,
           message: `Timers atualizados com sucesso: ON=${onSeconds}s, OFF=${offSeconds}s`,
           onTimer: onSeconds,
-          offTimer: offSeconds
+          offTimer: offSeconds,
+          commandIds
         });
       } else if (onSuccess) {
         res.json({
           success: true,
           message: `Timer ON atualizado com sucesso para ${onSeconds}s. Falha ao atualizar timer OFF.`,
           onTimer: onSeconds,
-          warning: "Timer OFF não foi atualizado."
+          warning: "Timer OFF não foi atualizado.",
+          commandIds
         });
       } else if (offSuccess) {
         res.json({
           success: true,
           message: `Timer OFF atualizado com sucesso para ${offSeconds}s. Falha ao atualizar timer ON.`,
           offTimer: offSeconds,
-          warning: "Timer ON não foi atualizado."
+          warning: "Timer ON não foi atualizado.",
+          commandIds
         });
       } else {
         throw new Error('Failed to update pump timers on ThingSpeak');
       }
     } catch (error) {
-      console.error('Error updating pump timers:', error);
-      res.status(500).json({ 
-        error: 'Failed to update pump timers',
-        message: 'Erro ao atualizar os timers da bomba. Tente novamente.'
-      });
+      sendError(res, error, 'Erro ao atualizar os timers da bomba. Tente novamente.');
     }
   });
 
@@ -0,0 +1,319 @@
+/**
+ * Contabilização de uso dos atuadores
+ * Acumula, por tanque e por hora, o tempo ligado, o número de partidas e a energia estimada
+ * da bomba e do aquecedor, para planejar manutenção e custos de energia.
+ *
+ * O estado de cada atuador vem de duas fontes: os comandos (requestPumpStatus/requestHeaterStatus)
+ * e os estados pumpStatus/heaterStatus das leituras gravadas. Leituras mais antigas que a última
+ * observação são ignoradas, assim como leituras que contradizem um comando recente (o dispositivo
+ * ainda não aplicou o comando). A energia usa a potência cadastrada no tanque (pump_watts/heater_watts).
+ */
+
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { Reading } from '@shared/reading';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+// Fuso horário usado para agrupar o uso por dia
+const BRASILIA_TIME_ZONE = 'America/Sao_Paulo';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Tempo em que uma leitura contrária a um comando é atribuída ao atraso do dispositivo
+const COMMAND_GRACE_MS = 2 * 60 * 1000;
+
+export type UsageActuator = 'pump' | 'heater';
+
+export interface UsagePeriod {
+  periodStart: number;
+  onSeconds: number;
+  starts: number;
+  dutyCycle: number;   // fração do período com o atuador ligado (0-1)
+  energyKwh: number;
+}
+
+export interface ActuatorUsageSummary {
+  isOn: boolean | null;   // null enquanto nenhum estado foi observado desde o início do servidor
+  onSince: number | null;
+  watts: number;
+  total: { onSeconds: number; starts: number; energyKwh: number };
+  hourly: UsagePeriod[];  // últimas 24 horas
+  daily: UsagePeriod[];   // últimos dias (horário de Brasília), o último é hoje
+}
+
+export interface DeviceUsageReport {
+  deviceId: number;
+  days: number;
+  generatedAt: number;
+  pump: ActuatorUsageSummary;
+  heater: ActuatorUsageSummary;
+}
+
+interface UsageTracker {
+  isOn: boolean | null;
+  onSince: number | null;
+  lastAt: number;          // até onde o tempo ligado já foi contabilizado
+  lastCommandAt: number;
+}
+
+// Coluna da potência de cada atuador na tabela devices
+const WATTS_COLUMNS: Record<UsageActuator, string> = {
+  pump: 'pump_watts',
+  heater: 'heater_watts'
+};
+
+const trackers = new Map<string, UsageTracker>();
+
+// As gravações são feitas uma de cada vez para não abrir conexões concorrentes
+let writeChain: Promise<void> = Promise.resolve();
+
+const dayFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: BRASILIA_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+});
+
+async function openDb(): Promise<Database> {
+  // Tabela actuator_usage: migração 11 do banco principal
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function getTracker(deviceId: number, actuator: UsageActuator): UsageTracker {
+  const key = `${deviceId}:${actuator}`;
+  let tracker = trackers.get(key);
+  if (!tracker) {
+    tracker = { isOn: null, onSince: null, lastAt: 0, lastCommandAt: 0 };
+    trackers.set(key, tracker);
+  }
+  return tracker;
+}
+
+function hourStart(timestamp: number): number {
+  return Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+}
+
+// Divide o intervalo [from, to) nas horas que ele atravessa
+function splitByHour(from: number, to: number): Array<{ periodStart: number; seconds: number }> {
+  const parts: Array<{ periodStart: number; seconds: number }> = [];
+  let cursor = from;
+  while (cursor < to) {
+    const periodStart = hourStart(cursor);
+    const end = Math.min(to, periodStart + HOUR_MS);
+    parts.push({ periodStart, seconds: (end - cursor) / 1000 });
+    cursor = end;
+  }
+  return parts;
+}
+
+function addUsage(deviceId: number, actuator: UsageActuator, periodStart: number, onSeconds: number, starts: number): void {
+  writeChain = writeChain
+    .then(async () => {
+      const db = await openDb();
+      try {
+        await db.run(
+          `INSERT INTO actuator_usage (device_id, actuator, period_start, on_seconds, starts, energy_wh)
+          VALUES (?, ?, ?, ?, ?, ? * COALESCE((SELECT ${WATTS_COLUMNS[actuator]} FROM devices WHERE id = ?), 0) / 3600)
+          ON CONFLICT(device_id, actuator, period_start) DO UPDATE SET
+            on_seconds = on_seconds + excluded.on_seconds,
+            starts = starts + excluded.starts,
+            energy_wh = energy_wh + excluded.energy_wh`,
+          [deviceId, actuator, periodStart, onSeconds, starts, onSeconds, deviceId]
+        );
+      } finally {
+        await db.close();
+      }
+    })
+    .catch(error => {
+      console.error('❌ Erro ao gravar uso dos atuadores:', error);
+    });
+}
+
+/**
+ * Registra o estado observado de um atuador
+ * O tempo ligado desde a observação anterior é acumulado e a passagem de desligado para ligado conta uma partida
+ * @param origin 'command' para comandos enviados, 'reading' para o estado informado nas leituras
+ */
+export function recordActuatorState(
+  deviceId: number,
+  actuator: UsageActuator,
+  isOn: boolean,
+  origin: 'command' | 'reading',
+  at: number = Date.now()
+): void {
+  const tracker = getTracker(deviceId, actuator);
+
+  if (origin === 'reading') {
+    if (at < tracker.lastAt) return;
+    if (isOn !== tracker.isOn && at - tracker.lastCommandAt < COMMAND_GRACE_MS) return;
+  }
+
+  const now = Math.max(at, tracker.lastAt);
+
+  if (tracker.isOn && tracker.lastAt > 0) {
+    for (const part of splitByHour(tracker.lastAt, now)) {
+      addUsage(deviceId, actuator, part.periodStart, part.seconds, 0);
+    }
+  }
+
+  if (isOn && tracker.isOn === false) {
+    addUsage(deviceId, actuator, hourStart(now), 0, 1);
+  }
+
+  // Estado desconhecido (início do servidor): passa a contar sem registrar uma partida
+  if (isOn && !tracker.isOn) {
+    tracker.onSince = now;
+  } else if (!isOn) {
+    tracker.onSince = null;
+  }
+
+  tracker.isOn = isOn;
+  tracker.lastAt = now;
+  if (origin === 'command') {
+    tracker.lastCommandAt = now;
+  }
+}
+
+/**
+ * Registra o estado da bomba e do aquecedor informado em uma leitura ao vivo
+ */
+export function recordReadingUsage(reading: Reading): void {
+  recordActuatorState(reading.deviceId, 'pump', reading.pumpStatus, 'reading', reading.timestamp);
+  recordActuatorState(reading.deviceId, 'heater', reading.heaterStatus, 'reading', reading.timestamp);
+}
+
+// Horas do período consultado, da atual para trás, até completar o número de dias (horário de Brasília)
+function getReportHours(now: number, days: number): Array<{ periodStart: number; day: string }> {
+  const hours: Array<{ periodStart: number; day: string }> = [];
+  const seenDays = new Set<string>();
+
+  for (let periodStart = hourStart(now); ; periodStart -= HOUR_MS) {
+    const day = dayFormatter.format(new Date(periodStart));
+    if (!seenDays.has(day) && seenDays.size === days) break;
+    seenDays.add(day);
+    hours.push({ periodStart, day });
+  }
+
+  return hours;
+}
+
+function toPeriod(periodStart: number, onSeconds: number, starts: number, energyWh: number, periodSeconds: number): UsagePeriod {
+  return {
+    periodStart,
+    onSeconds: Math.round(onSeconds),
+    starts,
+    dutyCycle: periodSeconds > 0 ? Math.min(1, onSeconds / periodSeconds) : 0,
+    energyKwh: energyWh / 1000
+  };
+}
+
+function summarize(
+  actuator: UsageActuator,
+  deviceId: number,
+  rows: any[],
+  hours: Array<{ periodStart: number; day: string }>,
+  watts: number,
+  now: number
+): ActuatorUsageSummary {
+  const byHour = new Map<number, { onSeconds: number; starts: number; energyWh: number }>();
+  for (const row of rows) {
+    if (row.actuator !== actuator) continue;
+    byHour.set(row.period_start, { onSeconds: row.on_seconds, starts: row.starts, energyWh: row.energy_wh });
+  }
+
+  // Tempo ligado ainda não gravado (desde a última observação até agora)
+  const tracker = getTracker(deviceId, actuator);
+  if (tracker.isOn && tracker.lastAt > 0) {
+    for (const part of splitByHour(tracker.lastAt, now)) {
+      const hour = byHour.get(part.periodStart) || { onSeconds: 0, starts: 0, energyWh: 0 };
+      hour.onSeconds += part.seconds;
+      hour.energyWh += part.seconds * watts / 3600;
+      byHour.set(part.periodStart, hour);
+    }
+  }
+
+  const periodSeconds = (periodStart: number) => (Math.min(now, periodStart + HOUR_MS) - periodStart) / 1000;
+
+  const ascending = [...hours].reverse();
+  const hourly = ascending.slice(-24).map(({ periodStart }) => {
+    const hour = byHour.get(periodStart) || { onSeconds: 0, starts: 0, energyWh: 0 };
+    return toPeriod(periodStart, hour.onSeconds, hour.starts, hour.energyWh, periodSeconds(periodStart));
+  });
+
+  const daily: UsagePeriod[] = [];
+  let currentDay: string | null = null;
+  let day = { periodStart: 0, onSeconds: 0, starts: 0, energyWh: 0, seconds: 0 };
+  for (const { periodStart, day: dayKey } of ascending) {
+    if (dayKey !== currentDay) {
+      if (currentDay !== null) {
+        daily.push(toPeriod(day.periodStart, day.onSeconds, day.starts, day.energyWh, day.seconds));
+      }
+      currentDay = dayKey;
+      day = { periodStart, onSeconds: 0, starts: 0, energyWh: 0, seconds: 0 };
+    }
+    const hour = byHour.get(periodStart);
+    day.onSeconds += hour?.onSeconds || 0;
+    day.starts += hour?.starts || 0;
+    day.energyWh += hour?.energyWh || 0;
+    day.seconds += periodSeconds(periodStart);
+  }
+  if (currentDay !== null) {
+    daily.push(toPeriod(day.periodStart, day.onSeconds, day.starts, day.energyWh, day.seconds));
+  }
+
+  return {
+    isOn: tracker.isOn,
+    onSince: tracker.onSince,
+    watts,
+    total: {
+      onSeconds: daily.reduce((sum, period) => sum + period.onSeconds, 0),
+      starts: daily.reduce((sum, period) => sum + period.starts, 0),
+      energyKwh: daily.reduce((sum, period) => sum + period.energyKwh, 0)
+    },
+    hourly,
+    daily
+  };
+}
+
+/**
+ * Relatório de uso da bomba e do aquecedor de um tanque
+ * @param days Número de dias (o dia atual conta como um)
+ */
+export async function getActuatorUsage(deviceId: number, days: number = 7): Promise<DeviceUsageReport> {
+  // Aguardar as gravações pendentes para não contar o mesmo intervalo duas vezes
+  await writeChain;
+
+  const now = Date.now();
+  const hours = getReportHours(now, days);
+  const since = hours[hours.length - 1].periodStart;
+
+  const db = await openDb();
+  let rows: any[];
+  let device: any;
+  try {
+    rows = await db.all(
+      `SELECT * FROM actuator_usage WHERE device_id = ? AND period_start >= ?`,
+      [deviceId, since]
+    );
+    device = await db.get(`SELECT pump_watts, heater_watts FROM devices WHERE id = ?`, [deviceId]);
+  } finally {
+    await db.close();
+  }
+
+  return {
+    deviceId,
+    days,
+    generatedAt: now,
+    pump: summarize('pump', deviceId, rows, hours, device?.pump_watts ?? 0, now),
+    heater: summarize('heater', deviceId, rows, hours, device?.heater_watts ?? 0, now)
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * Atuadores controláveis por tanque
+ * Cada atuador tem a validação do valor aceito e a função que enfileira o comando.
+ * Usado pelas rotas de controle por tanque e pelas ações das regras de automação.
+ */
+
+import { z } from 'zod';
+import {
+  requestPumpStatus,
+  requestHeaterStatus,
+  requestOperationMode,
+  requestTargetTemperature,
+  requestPumpOnTimer,
+  requestPumpOffTimer,
+  requestPumpFlow
+} from './thingspeakService';
+
+export interface Actuator {
+  value: z.ZodTypeAny;
+  request: (value: any, source: string, deviceId: number) => Promise<number>;
+}
+
+export const ACTUATORS: Record<string, Actuator> = {
+  'pump': { value: z.boolean(), request: requestPumpStatus },
+  'heater': { value: z.boolean(), request: requestHeaterStatus },
+  'mode': { value: z.boolean(), request: requestOperationMode },
+  'target-temperature': { value: z.number().min(18).max(32), request: requestTargetTemperature },
+  'pump-on-timer': { value: z.number().int().min(0).max(3600), request: requestPumpOnTimer },
+  'pump-off-timer': { value: z.number().int().min(0).max(3600), request: requestPumpOffTimer },
+  'pump-flow': { value: z.number().min(0).max(100), request: requestPumpFlow }
+};
@@ -3,8 +3,9 @@
  * Verifica se os parâmetros do sistema estão dentro dos limites e envia alertas quando necessário
  */
 
-import { sendAlertEmail } from './emailService';
+import { sendAlertEmail, sendRuleAlertEmail, sendInterlockAlertEmail } from './emailService';
 import { storage } from '../storage';
+import { realtimeService } from './realtimeService';
 
 // Configurações de limites para alertas
 interface AlertConfig {
@@ -164,6 +165,13 @@ export async function checkAndSendAlert(parameter: 'temperature' | 'level', valu
         // Atualizar o timestamp do último alerta enviado
         paramConfig.lastAlertSent = now;
         console.log(`✅ Alerta enviado: ${parameter} = ${value}`);
+        realtimeService.publish('alert', {
+          kind: 'threshold',
+          parameter,
+          value,
+          min: paramConfig.min,
+          max: paramConfig.max
+        });
         return true;
       }
     } catch (error) {
@@ -174,6 +182,129 @@ export async function checkAndSendAlert(parameter: 'temperature' | 'level', valu
   return false;
 }
 
+// Último alerta de cada sensor adicional, por tanque (chave 'deviceId:sensorKey')
+const sensorAlertsSent = new Map<string, number>();
+
+/**
+ * Limites de alerta de um sensor adicional, vindos do registro de sensores
+ */
+export interface SensorAlertLimits {
+  key: string;
+  name: string;
+  unit: string;
+  alertMin: number | null;
+  alertMax: number | null;
+}
+
+/**
+ * Verifica se o valor de um sensor adicional está fora da faixa de alerta do registro
+ * Usa o mesmo intervalo mínimo entre alertas dos parâmetros principais, contado por sensor e tanque
+ * @returns true se o alerta foi emitido, false caso contrário
+ */
+export async function checkSensorAlert(sensor: SensorAlertLimits, value: number, deviceId: number): Promise<boolean> {
+  const isOutOfBounds =
+    (sensor.alertMin !== null && value < sensor.alertMin) ||
+    (sensor.alertMax !== null && value > sensor.alertMax);
+  if (!isOutOfBounds) {
+    return false;
+  }
+
+  const alertKey = `${deviceId}:${sensor.key}`;
+  const now = Date.now();
+  if (now - (sensorAlertsSent.get(alertKey) || 0) <= alertConfig.alertInterval) {
+    return false;
+  }
+  sensorAlertsSent.set(alertKey, now);
+
+  // A interface recebe o alerta mesmo com o envio por e-mail desativado
+  realtimeService.publish('alert', {
+    kind: 'sensor',
+    title: `Alerta: ${sensor.name}`,
+    message: `${sensor.name} fora da faixa de alerta: ${value} ${sensor.unit}`.trim(),
+    parameter: sensor.key,
+    value,
+    min: sensor.alertMin,
+    max: sensor.alertMax
+  }, deviceId);
+
+  if (!alertConfig.enabled || !alertConfig.email) {
+    return true;
+  }
+
+  try {
+    const success = await sendAlertEmail(
+      alertConfig.email,
+      alertConfig.senderEmail,
+      sensor.name,
+      value,
+      sensor.alertMin,
+      sensor.alertMax
+    );
+    if (success) {
+      console.log(`✅ Alerta enviado: ${sensor.key} = ${value}`);
+    }
+  } catch (error) {
+    console.error(`❌ Erro ao enviar alerta para ${sensor.key}:`, error);
+  }
+  return true;
+}
+
+/**
+ * Envia o alerta de uma regra de automação para o e-mail configurado
+ * O intervalo entre alertas é controlado pelo cooldown da própria regra
+ * @param ruleName Nome da regra acionada
+ * @param message Descrição do acionamento
+ * @returns true se o alerta foi enviado, false caso contrário
+ */
+export async function sendRuleAlert(ruleName: string, message: string): Promise<boolean> {
+  // A interface recebe o alerta mesmo com o envio por e-mail desativado
+  realtimeService.publish('alert', { kind: 'rule', title: ruleName, message });
+
+  if (!alertConfig.enabled || !alertConfig.email) {
+    console.log(`ℹ️ Alerta da regra "${ruleName}" não enviado: alertas por e-mail desativados`);
+    return false;
+  }
+
+  try {
+    const success = await sendRuleAlertEmail(alertConfig.email, alertConfig.senderEmail, ruleName, message);
+    if (success) {
+      console.log(`✅ Alerta enviado: regra "${ruleName}"`);
+    }
+    return success;
+  } catch (error) {
+    console.error(`❌ Erro ao enviar alerta da regra "${ruleName}":`, error);
+    return false;
+  }
+}
+
+/**
+ * Envia o alerta de um intertravamento de segurança
+ * O intervalo entre alertas da mesma violação é controlado pelo serviço de intertravamentos
+ * @param title Intertravamento violado
+ * @param message Descrição da violação e da ação tomada
+ * @returns true se o alerta foi enviado, false caso contrário
+ */
+export async function sendInterlockAlert(title: string, message: string): Promise<boolean> {
+  // A interface recebe o alerta mesmo com o envio por e-mail desativado
+  realtimeService.publish('alert', { kind: 'interlock', title, message });
+
+  if (!alertConfig.enabled || !alertConfig.email) {
+    console.log(`ℹ️ Alerta de intertravamento "${title}" não enviado: alertas por e-mail desativados`);
+    return false;
+  }
+
+  try {
+    const success = await sendInterlockAlertEmail(alertConfig.email, alertConfig.senderEmail, title, message);
+    if (success) {
+      console.log(`✅ Alerta enviado: intertravamento "${title}"`);
+    }
+    return success;
+  } catch (error) {
+    console.error(`❌ Erro ao enviar alerta de intertravamento "${title}":`, error);
+    return false;
+  }
+}
+
 /**
  * Processa as leituras mais recentes e envia alertas se necessário
  */
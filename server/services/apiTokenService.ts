@@ -0,0 +1,161 @@
+/**
+ * Serviço de tokens de API
+ * Scripts e integrações (ex: Home Assistant) acessam a API com um token próprio, enviado no
+ * cabeçalho Authorization: Bearer <token>, sem compartilhar a senha de um usuário.
+ *
+ * Cada token tem escopos (ver API_TOKEN_SCOPES), validade e registro do último uso.
+ * Apenas o hash SHA-256 do token é armazenado; o token completo é exibido uma única vez.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { API_TOKEN_SCOPES, ApiTokenScope, InsertApiToken } from '@shared/schema';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+// Prefixo dos tokens gerados, facilita identificar a origem em logs e scripts
+const TOKEN_PREFIX = 'aqt_';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ApiTokenInfo {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  createdBy: number | null;
+  createdAt: number;
+  expiresAt: number;
+  lastUsedAt: number | null;
+  revoked: boolean;
+}
+
+async function openDb(): Promise<Database> {
+  // Tabela api_tokens: migração 9 do banco principal
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function toApiTokenInfo(row: any): ApiTokenInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    tokenPrefix: row.token_prefix,
+    // Escopos desconhecidos (ex: removidos em versões futuras) são ignorados
+    scopes: String(row.scopes).split(',').filter((scope): scope is ApiTokenScope =>
+      (API_TOKEN_SCOPES as readonly string[]).includes(scope)
+    ),
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+    revoked: row.revoked === 1
+  };
+}
+
+/**
+ * Emite um novo token com os escopos e a validade informados
+ * Retorna o token em texto puro, que não poderá ser recuperado depois
+ * @param createdBy Usuário administrador que emitiu o token
+ */
+export async function createApiToken(
+  data: InsertApiToken,
+  createdBy: number | null = null
+): Promise<{ token: string; info: ApiTokenInfo }> {
+  const token = TOKEN_PREFIX + crypto.randomBytes(24).toString('hex');
+  const tokenPrefix = token.substring(0, TOKEN_PREFIX.length + 6);
+  const scopes = Array.from(new Set(data.scopes));
+  const createdAt = Date.now();
+  const expiresAt = createdAt + data.expires_in_days * DAY_MS;
+
+  const db = await openDb();
+  try {
+    const result = await db.run(
+      `INSERT INTO api_tokens (name, token_hash, token_prefix, scopes, created_by, created_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [data.name, hashToken(token), tokenPrefix, scopes.join(','), createdBy, createdAt, expiresAt]
+    );
+
+    console.log(`🔑 Token de API criado para "${data.name}" (${tokenPrefix}…, ${scopes.join(', ')})`);
+
+    return {
+      token,
+      info: {
+        id: result.lastID!,
+        name: data.name,
+        tokenPrefix,
+        scopes,
+        createdBy,
+        createdAt,
+        expiresAt,
+        lastUsedAt: null,
+        revoked: false
+      }
+    };
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Lista os tokens emitidos (sem os hashes)
+ */
+export async function listApiTokens(): Promise<ApiTokenInfo[]> {
+  const db = await openDb();
+  try {
+    const rows = await db.all(`SELECT * FROM api_tokens ORDER BY created_at DESC`);
+    return rows.map(toApiTokenInfo);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Revoga um token; retorna false se o token não existir
+ */
+export async function revokeApiToken(id: number): Promise<boolean> {
+  const db = await openDb();
+  try {
+    const result = await db.run(`UPDATE api_tokens SET revoked = 1 WHERE id = ?`, [id]);
+    return (result.changes || 0) > 0;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Verifica um token recebido e registra o último uso
+ * Retorna os dados do token ou null se inválido, revogado ou expirado
+ */
+export async function verifyApiToken(token: string): Promise<ApiTokenInfo | null> {
+  if (!token) return null;
+
+  const db = await openDb();
+  try {
+    const now = Date.now();
+    const row = await db.get(
+      `SELECT * FROM api_tokens WHERE token_hash = ? AND revoked = 0 AND expires_at > ?`,
+      [hashToken(token), now]
+    );
+
+    if (!row) return null;
+
+    await db.run(`UPDATE api_tokens SET last_used_at = ? WHERE id = ?`, [now, row.id]);
+
+    return toApiTokenInfo({ ...row, last_used_at: now });
+  } finally {
+    await db.close();
+  }
+}
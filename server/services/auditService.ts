@@ -0,0 +1,201 @@
+/**
+ * Registro de auditoria dos comandos
+ * Guarda quem alterou cada atuador de um tanque: valor anterior e novo, origem (interface, API,
+ * automação ou regra), responsável automático e IP do cliente, para responder perguntas como
+ * "quem desligou o aquecedor ontem à noite?".
+ *
+ * Os comandos das rotas são registrados pelo middleware de routes-audit; as alternâncias
+ * automáticas são registradas pelos próprios serviços (automationService, regras, intertravamentos).
+ */
+
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
+import { getCurrentDeviceStatus } from './thingspeakService';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+export const AUDIT_SOURCES = ['ui', 'api', 'automation', 'rule'] as const;
+
+// Campos auditados (mesmos nomes de /api/devices/:deviceId/control/:actuator)
+export const AUDIT_FIELDS = ['pump', 'heater', 'mode', 'target-temperature', 'pump-on-timer', 'pump-off-timer', 'pump-flow'] as const;
+
+export type AuditSource = typeof AUDIT_SOURCES[number];
+export type AuditField = typeof AUDIT_FIELDS[number];
+
+export interface AuditRecord {
+  deviceId?: number;
+  field: AuditField;
+  oldValue: unknown;
+  newValue: unknown;
+  source: AuditSource;
+  actor?: string | null;
+  ip?: string | null;
+  route?: string | null;
+  statusCode?: number | null;
+}
+
+export interface AuditEntry {
+  id: number;
+  deviceId: number;
+  field: AuditField;
+  oldValue: unknown;
+  newValue: unknown;
+  source: AuditSource;
+  actor: string | null;
+  ip: string | null;
+  route: string | null;
+  statusCode: number | null;
+  createdAt: number;
+}
+
+export interface AuditFilters {
+  deviceId?: number;
+  field?: AuditField;
+  source?: AuditSource;
+  from?: number;
+  to?: number;
+  limit: number;
+  offset: number;
+}
+
+// Campo do estado em memória correspondente a cada campo auditado
+const STATUS_KEYS: Record<AuditField, keyof ReturnType<typeof getCurrentDeviceStatus>> = {
+  'pump': 'pumpStatus',
+  'heater': 'heaterStatus',
+  'mode': 'operationMode',
+  'target-temperature': 'targetTemp',
+  'pump-on-timer': 'pumpOnTimer',
+  'pump-off-timer': 'pumpOffTimer',
+  'pump-flow': 'pumpFlow'
+};
+
+// As gravações são feitas uma de cada vez para não abrir conexões concorrentes
+let writeChain: Promise<void> = Promise.resolve();
+
+async function openDb(): Promise<Database> {
+  // Tabela audit_log: migração 11 do banco principal
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function parseValue(value: string | null): unknown {
+  if (value === null) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function toAuditEntry(row: any): AuditEntry {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    field: row.field,
+    oldValue: parseValue(row.old_value),
+    newValue: parseValue(row.new_value),
+    source: row.source,
+    actor: row.actor,
+    ip: row.ip,
+    route: row.route,
+    statusCode: row.status_code,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Valor atual de um campo auditado do tanque (estado em memória)
+ */
+export function getAuditValue(field: AuditField, deviceId: number = DEFAULT_DEVICE_ID): unknown {
+  return getCurrentDeviceStatus(deviceId)[STATUS_KEYS[field]];
+}
+
+/**
+ * Grava um registro de auditoria
+ * Os erros são registrados sem interromper o comando auditado
+ */
+export function recordAudit(record: AuditRecord): Promise<void> {
+  const createdAt = Date.now();
+
+  writeChain = writeChain
+    .then(async () => {
+      const db = await openDb();
+      try {
+        await db.run(
+          `INSERT INTO audit_log (
+            device_id, field, old_value, new_value, source, actor, ip, route, status_code, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            record.deviceId ?? DEFAULT_DEVICE_ID,
+            record.field,
+            record.oldValue === undefined ? null : JSON.stringify(record.oldValue),
+            record.newValue === undefined ? null : JSON.stringify(record.newValue),
+            record.source,
+            record.actor ?? null,
+            record.ip ?? null,
+            record.route ?? null,
+            record.statusCode ?? null,
+            createdAt
+          ]
+        );
+      } finally {
+        await db.close();
+      }
+    })
+    .catch(error => {
+      console.error('❌ Erro ao gravar registro de auditoria:', error);
+    });
+
+  return writeChain;
+}
+
+/**
+ * Lista os registros de auditoria, do mais recente para o mais antigo
+ */
+export async function listAuditEntries(filters: AuditFilters): Promise<{ entries: AuditEntry[]; total: number }> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (filters.deviceId !== undefined) {
+    conditions.push('device_id = ?');
+    params.push(filters.deviceId);
+  }
+  if (filters.field) {
+    conditions.push('field = ?');
+    params.push(filters.field);
+  }
+  if (filters.source) {
+    conditions.push('source = ?');
+    params.push(filters.source);
+  }
+  if (filters.from !== undefined) {
+    conditions.push('created_at >= ?');
+    params.push(filters.from);
+  }
+  if (filters.to !== undefined) {
+    conditions.push('created_at <= ?');
+    params.push(filters.to);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const db = await openDb();
+  try {
+    const rows = await db.all(
+      `SELECT * FROM audit_log ${where} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`,
+      [...params, filters.limit, filters.offset]
+    );
+    const count = await db.get(`SELECT COUNT(*) as total FROM audit_log ${where}`, params);
+    return { entries: rows.map(toAuditEntry), total: count?.total || 0 };
+  } finally {
+    await db.close();
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+
+const deviceStatus = { pumpStatus: false, heaterStatus: false, operationMode: true, pumpOnTimer: 30, pumpOffTimer: 30 };
+
+vi.mock('./thingspeakService', () => ({
+  updatePumpStatus: vi.fn(),
+  requestHeaterStatus: vi.fn(async () => true),
+  requestPumpStatus: vi.fn(async () => true),
+  getCurrentDeviceStatus: () => deviceStatus,
+  restoreDeviceStatuses: vi.fn(async () => undefined)
+}));
+vi.mock('../storage', () => ({ storage: {} }));
+vi.mock('./historicalDataService', () => ({ logSystemEvent: vi.fn(async () => undefined) }));
+vi.mock('./scheduleService', () => ({
+  listSchedules: vi.fn(async () => []),
+  findActiveSchedule: () => null
+}));
+vi.mock('./automationStateService', () => ({
+  loadAutomationState: vi.fn(async () => null),
+  saveCycleState: vi.fn()
+}));
+vi.mock('./interlockService', () => ({ interlockService: { evaluate: () => null } }));
+// Auditoria real, gravando em audit_log, com as gravações observáveis pelo teste
+vi.mock('./auditService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./auditService')>();
+  return { ...actual, recordAudit: vi.fn(actual.recordAudit) };
+});
+vi.mock('./realtimeService', () => ({ realtimeService: { publish: vi.fn() } }));
+
+import { automationService } from './automationService';
+import { updatePumpStatus } from './thingspeakService';
+import { listAuditEntries, recordAudit } from './auditService';
+import { migrateDatabase } from './migrationService';
+
+// Acesso ao estado interno do ciclo, sem iniciar os temporizadores do serviço
+const service = automationService as any;
+
+/**
+ * Ciclo no último segundo da fase com a bomba desligada: a próxima verificação alterna a bomba
+ */
+function armCycleAboutToToggle() {
+  service.autoModeEnabled = true;
+  service.schedules = [];
+  service.pumpSchedule = null;
+  service.cycleState = {
+    isActive: true,
+    startTime: Date.now() - 29000,
+    timeRemaining: 1,
+    currentTimer: 30,
+    currentTimerTotal: 30,
+    pumpStatus: false
+  };
+}
+
+/**
+ * Registros de auditoria do ciclo da bomba, depois de concluídas as gravações pendentes
+ */
+async function cycleAuditEntries() {
+  await Promise.all(vi.mocked(recordAudit).mock.results.map(result => result.value));
+  const { entries } = await listAuditEntries({ field: 'pump', source: 'automation', limit: 100, offset: 0 });
+  return entries.filter(entry => entry.actor === 'ciclo da bomba');
+}
+
+describe('automationService - ciclo da bomba', () => {
+  beforeAll(async () => {
+    await migrateDatabase('main');
+  });
+
+  beforeEach(() => {
+    vi.mocked(updatePumpStatus).mockReset();
+  });
+
+  it('alterna a bomba uma única vez enquanto o comando aguarda a entrega pela fila', async () => {
+    let deliver!: () => void;
+    vi.mocked(updatePumpStatus).mockImplementation(() => new Promise(resolve => {
+      deliver = () => resolve(true);
+    }));
+    armCycleAboutToToggle();
+
+    // Verificações de 1 s seguidas enquanto a fila respeita o intervalo mínimo do transporte
+    const first = service.checkCycle();
+    await Promise.all([service.checkCycle(), service.checkCycle(), service.checkCycle()]);
+    deliver();
+    await first;
+
+    expect(updatePumpStatus).toHaveBeenCalledTimes(1);
+    expect(updatePumpStatus).toHaveBeenCalledWith(true, 'automation');
+    expect(service.cycleState.pumpStatus).toBe(true);
+    expect(service.cycleState.timeRemaining).toBe(30);
+  });
+
+  it('retoma a contagem depois da entrega do comando', async () => {
+    vi.mocked(updatePumpStatus).mockResolvedValue(true);
+    armCycleAboutToToggle();
+
+    await service.checkCycle();
+    await service.checkCycle();
+
+    expect(updatePumpStatus).toHaveBeenCalledTimes(1);
+    expect(service.cycleState.timeRemaining).toBe(29);
+  });
+
+  it('registra uma única linha de auditoria por troca do ciclo', async () => {
+    const before = (await cycleAuditEntries()).length;
+
+    let deliver!: () => void;
+    vi.mocked(updatePumpStatus).mockImplementation(() => new Promise(resolve => {
+      deliver = () => resolve(true);
+    }));
+    armCycleAboutToToggle();
+
+    // Verificações enquanto o comando aguarda a fila, e depois da entrega
+    const first = service.checkCycle();
+    await Promise.all([service.checkCycle(), service.checkCycle(), service.checkCycle()]);
+    deliver();
+    await first;
+    await service.checkCycle();
+    await service.checkCycle();
+
+    const entries = await cycleAuditEntries();
+    expect(entries).toHaveLength(before + 1);
+    expect(entries[0]).toMatchObject({ deviceId: 1, oldValue: false, newValue: true });
+  });
+
+  it('mantém a fase e não audita quando o comando não é aceito', async () => {
+    const before = (await cycleAuditEntries()).length;
+    vi.mocked(updatePumpStatus).mockResolvedValue(false);
+    armCycleAboutToToggle();
+    service.lastPumpStatus = false;
+
+    await service.checkCycle();
+
+    expect(updatePumpStatus).toHaveBeenCalledWith(true, 'automation');
+    expect(service.lastPumpStatus).toBe(false);
+    expect(service.cycleState).toMatchObject({ pumpStatus: false, timeRemaining: 0 });
+    expect(await cycleAuditEntries()).toHaveLength(before);
+
+    // Nova tentativa na verificação seguinte, agora aceita
+    vi.mocked(updatePumpStatus).mockResolvedValue(true);
+    await service.checkCycle();
+
+    expect(updatePumpStatus).toHaveBeenCalledTimes(2);
+    expect(service.cycleState).toMatchObject({ pumpStatus: true, timeRemaining: 30 });
+  });
+});
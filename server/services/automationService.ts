@@ -5,8 +5,28 @@
  * 1. Gerencia o temporizador da bomba no modo automático
  * 2. Garante que os tempos exatos configurados sejam respeitados
  * 3. Mantém a bomba ligada/desligada pelos períodos especificados
+ * 4. Controla o aquecedor em malha fechada (termostato) a partir das leituras de temperatura
+ * 5. Alternativamente, aciona a bomba pelo nível da água, com proteção contra funcionamento a seco
+ * 6. Aplica as programações por horário (fuso de Brasília) da bomba e do aquecedor
+ * 7. Opcionalmente controla o aquecedor por PID com ciclo de trabalho proporcional ao tempo,
+ *    com sintonia automática por realimentação a relé
+ * 8. Grava o modo automático e a fase do ciclo, retomando-os após um reinício do servidor
  */
-import { updatePumpStatus } from './thingspeakService';
+import {
+  updatePumpStatus,
+  requestHeaterStatus,
+  requestPumpStatus,
+  getCurrentDeviceStatus,
+  restoreDeviceStatuses
+} from './thingspeakService';
+import { storage } from '../storage';
+import { logSystemEvent } from './historicalDataService';
+import { listSchedules, findActiveSchedule, ScheduleInfo, ScheduleAction } from './scheduleService';
+import { loadAutomationState, saveCycleState } from './automationStateService';
+import { interlockService } from './interlockService';
+import { recordAudit } from './auditService';
+import { realtimeService } from './realtimeService';
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
 
 interface CycleState {
   isActive: boolean;
@@ -17,6 +37,149 @@ interface CycleState {
   pumpStatus: boolean;
 }
 
+/**
+ * Estratégia de controle do aquecedor
+ * - hysteresis: liga/desliga na faixa alvo ± histerese
+ * - pid: a saída do PID (0-100%) define quanto tempo o aquecedor fica ligado em cada janela
+ */
+export type ThermostatMode = 'hysteresis' | 'pid';
+
+/**
+ * Configuração do termostato do aquecedor
+ * No modo histerese o aquecedor liga abaixo de (alvo - histerese) e desliga acima de (alvo + histerese)
+ */
+export interface ThermostatConfig {
+  enabled: boolean;
+  mode: ThermostatMode;
+  hysteresis: number;          // °C em torno da temperatura alvo
+  minOnTimeSec: number;        // tempo mínimo ligado antes de desligar
+  minOffTimeSec: number;       // tempo mínimo desligado antes de religar
+  cutoffTemperature: number;   // corte de segurança: acima disso o aquecedor é desligado imediatamente
+  maxReadingAgeSec: number;    // leituras mais antigas que isso desligam o aquecedor por segurança
+  kp: number;                  // ganho proporcional (% de potência por °C de erro)
+  ki: number;                  // ganho integral (% por °C·s)
+  kd: number;                  // ganho derivativo (% por °C/s)
+  pidWindowSec: number;        // janela do ciclo de trabalho; no modo PID substitui os tempos mínimos
+}
+
+export type AutoTuneStatus = 'idle' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface AutoTuneResult {
+  ku: number;                  // ganho crítico
+  tuSec: number;               // período de oscilação
+  amplitude: number;           // amplitude média da oscilação (°C)
+  kp: number;
+  ki: number;
+  kd: number;
+}
+
+export interface AutoTuneOptions {
+  hysteresis?: number;         // °C em torno do alvo para comutar o relé
+  cycles?: number;             // ciclos de oscilação medidos
+  maxDurationMin?: number;     // tempo máximo antes de desistir
+}
+
+interface AutoTuneState {
+  status: AutoTuneStatus;
+  startedAt: number | null;
+  finishedAt: number | null;
+  setpoint: number | null;
+  cycles: number;
+  cyclesRequired: number;
+  result: AutoTuneResult | null;
+  message: string;
+}
+
+// Dados internos da sintonia em andamento
+interface AutoTuneRun {
+  hysteresis: number;
+  maxDurationSec: number;
+  relayOn: boolean;
+  lastReadingAt: number | null;
+  lastOnSwitchAt: number | null;
+  cycleMax: number;
+  cycleMin: number;
+  periods: number[];
+  amplitudes: number[];
+}
+
+// Estado interno do controlador PID
+interface PidState {
+  integral: number;            // termo integral acumulado (%)
+  output: number;              // última saída (0-100%)
+  lastTemperature: number | null;
+  lastReadingAt: number | null;
+  windowStart: number;
+  windowOnSec: number;
+}
+
+interface ThermostatState {
+  heaterStatus: boolean;
+  targetTemp: number;
+  lowerBound: number;
+  upperBound: number;
+  lastTemperature: number | null;
+  lastReadingAt: number | null;
+  lastSwitchAt: number;
+  lastCheckAt: number;
+  safetyCutoff: boolean;
+  dutyCycle: number | null;    // saída do PID (%), null no modo histerese
+  reason: string;
+}
+
+/**
+ * Estratégia de acionamento da bomba no modo automático
+ * - timer: ciclos fixos de pumpOnTimer/pumpOffTimer
+ * - level: liga quando o nível chega a level_max e desliga em level_min (setpoints)
+ * 
+ * O sensor de nível fica no tanque de onde a bomba puxa a água (flood-and-drain):
+ * com o tanque cheio a bomba enche o grow bed, e para quando o tanque baixa até level_min.
+ */
+export type PumpControlMode = 'timer' | 'level';
+
+export interface PumpLevelConfig {
+  mode: PumpControlMode;
+  criticalLevel: number;         // % abaixo do qual a bomba nunca liga (proteção contra funcionamento a seco)
+  minSwitchIntervalSec: number;  // intervalo mínimo entre acionamentos no modo por nível
+  maxReadingAgeSec: number;      // leituras mais antigas que isso desligam a bomba no modo por nível
+}
+
+interface PumpLevelState {
+  pumpStatus: boolean;
+  levelMin: number;
+  levelMax: number;
+  lastLevel: number | null;
+  lastReadingAt: number | null;
+  lastSwitchAt: number;
+  lastCheckAt: number;
+  dryRunProtection: boolean;
+  reason: string;
+}
+
+const DEFAULT_PUMP_LEVEL_CONFIG: PumpLevelConfig = {
+  mode: process.env.PUMP_CONTROL_MODE === 'level' ? 'level' : 'timer',
+  criticalLevel: parseFloat(process.env.PUMP_CRITICAL_LEVEL || '20'),
+  minSwitchIntervalSec: parseInt(process.env.PUMP_LEVEL_MIN_SWITCH_INTERVAL || '30'),
+  maxReadingAgeSec: parseInt(process.env.PUMP_LEVEL_MAX_READING_AGE || '600')
+};
+
+const DEFAULT_THERMOSTAT_CONFIG: ThermostatConfig = {
+  enabled: process.env.THERMOSTAT_ENABLED === 'true',
+  mode: process.env.THERMOSTAT_MODE === 'pid' ? 'pid' : 'hysteresis',
+  hysteresis: parseFloat(process.env.THERMOSTAT_HYSTERESIS || '0.5'),
+  minOnTimeSec: parseInt(process.env.THERMOSTAT_MIN_ON_TIME || '120'),
+  minOffTimeSec: parseInt(process.env.THERMOSTAT_MIN_OFF_TIME || '120'),
+  cutoffTemperature: parseFloat(process.env.THERMOSTAT_CUTOFF_TEMPERATURE || '33'),
+  maxReadingAgeSec: parseInt(process.env.THERMOSTAT_MAX_READING_AGE || '600'),
+  kp: parseFloat(process.env.THERMOSTAT_PID_KP || '40'),
+  ki: parseFloat(process.env.THERMOSTAT_PID_KI || '0.02'),
+  kd: parseFloat(process.env.THERMOSTAT_PID_KD || '0'),
+  pidWindowSec: parseInt(process.env.THERMOSTAT_PID_WINDOW || '300')
+};
+
+// Amplitude do relé na sintonia automática: o aquecedor alterna entre 0% e 100% (±50% em torno da média)
+const AUTOTUNE_RELAY_AMPLITUDE = 50;
+
 class AutomationService {
   private static instance: AutomationService;
   
@@ -32,6 +195,10 @@ class AutomationService {
   
   // Timer para verificação do ciclo
   private intervalId: NodeJS.Timeout | null = null;
+  private starting = false;
+  // Verificação do ciclo em andamento: a alternância da bomba aguarda a entrega do comando pela
+  // fila (pode levar vários segundos), e as verificações seguintes não podem repeti-la
+  private checkingCycle = false;
   
   // Modo automático está habilitado
   private autoModeEnabled: boolean = false;
@@ -46,6 +213,61 @@ class AutomationService {
   // Último status conhecido da bomba
   private lastPumpStatus: boolean = false;
   
+  // Controles por leitura de sensores (termostato e bomba por nível) do tanque principal
+  private readonly SENSOR_CHECK_INTERVAL_MS = 10000; // Verifica a cada 10 segundos
+  private sensorIntervalId: NodeJS.Timeout | null = null;
+  private thermostatConfig: ThermostatConfig = { ...DEFAULT_THERMOSTAT_CONFIG };
+  private thermostatState: ThermostatState = {
+    heaterStatus: false,
+    targetTemp: 26,
+    lowerBound: 25.5,
+    upperBound: 26.5,
+    lastTemperature: null,
+    lastReadingAt: null,
+    lastSwitchAt: 0,
+    lastCheckAt: 0,
+    safetyCutoff: false,
+    dutyCycle: null,
+    reason: 'Termostato desativado'
+  };
+  private checkingThermostat = false;
+  private pidState: PidState = this.createPidState();
+  private autoTuneState: AutoTuneState = {
+    status: 'idle',
+    startedAt: null,
+    finishedAt: null,
+    setpoint: null,
+    cycles: 0,
+    cyclesRequired: 0,
+    result: null,
+    message: 'Sintonia automática não executada'
+  };
+  private autoTuneRun: AutoTuneRun | null = null;
+  
+  // Bomba acionada pelo nível da água
+  private pumpLevelConfig: PumpLevelConfig = { ...DEFAULT_PUMP_LEVEL_CONFIG };
+  private pumpLevelState: PumpLevelState = {
+    pumpStatus: false,
+    levelMin: 60,
+    levelMax: 90,
+    lastLevel: null,
+    lastReadingAt: null,
+    lastSwitchAt: 0,
+    lastCheckAt: 0,
+    dryRunProtection: false,
+    reason: 'Modo por nível desativado'
+  };
+  private checkingPumpLevel = false;
+  
+  // Programações por horário do tanque principal (recarregadas periodicamente e após alterações)
+  private readonly SCHEDULE_RELOAD_INTERVAL_MS = 60000;
+  private schedules: ScheduleInfo[] = [];
+  private schedulesLoadedAt = 0;
+  private pumpSchedule: ScheduleInfo | null = null;
+  private heaterSchedule: ScheduleInfo | null = null;
+  // Ação do aquecedor imposta pelas programações; null = sem programações de aquecedor
+  private heaterScheduleAction: ScheduleAction | null = null;
+  
   private constructor() {
     console.log('🤖 Iniciando serviço de automação de ciclos...');
   }
@@ -65,16 +287,103 @@ class AutomationService {
    */
   public start(): void {
     // Só inicia se não estiver rodando
-    if (this.intervalId) {
+    if (this.intervalId || this.starting) {
       return;
     }
+    this.starting = true;
     
+    // Restaurar o estado anterior ao reinício antes de qualquer acionamento
+    this.restoreState().finally(() => {
+      this.starting = false;
+      this.startTimers();
+    });
+  }
+  
+  /**
+   * Restaura o modo automático, os temporizadores e a fase do ciclo gravados antes do reinício
+   * 
+   * O modo segue o estado do tanque já reconciliado com o canal de feedback. Uma fase que terminou
+   * enquanto o servidor estava fora do ar é encerrada na primeira verificação, para que a bomba
+   * não fique presa ligada.
+   */
+  private async restoreState(): Promise<void> {
+    try {
+      await restoreDeviceStatuses();
+      const status = getCurrentDeviceStatus();
+      
+      this.pumpOnTimer = status.pumpOnTimer || this.pumpOnTimer;
+      this.pumpOffTimer = status.pumpOffTimer || this.pumpOffTimer;
+      this.lastPumpStatus = status.pumpStatus;
+      this.autoModeEnabled = status.operationMode;
+      
+      if (!this.autoModeEnabled) {
+        console.log('🔄 Automação restaurada no modo manual');
+        return;
+      }
+      
+      const saved = await loadAutomationState(DEFAULT_DEVICE_ID);
+      const cycle = saved?.cycle;
+      
+      if (this.pumpLevelConfig.mode === 'timer' && cycle?.isActive && cycle.pumpStatus === status.pumpStatus && cycle.timerTotal > 0) {
+        const elapsedSec = Math.floor((Date.now() - cycle.startedAt) / 1000);
+        const timeRemaining = Math.max(1, cycle.timerTotal - elapsedSec);
+        
+        this.cycleState = {
+          isActive: true,
+          startTime: cycle.startedAt,
+          timeRemaining,
+          currentTimer: cycle.timerTotal,
+          currentTimerTotal: cycle.timerTotal,
+          pumpStatus: cycle.pumpStatus
+        };
+        console.log(`🔄 Modo automático restaurado, ciclo retomado: bomba ${cycle.pumpStatus ? 'LIGADA' : 'DESLIGADA'} por mais ${timeRemaining}s de ${cycle.timerTotal}s`);
+      } else {
+        console.log('🔄 Modo automático restaurado, um novo ciclo será iniciado');
+      }
+    } catch (error) {
+      console.error('❌ Erro ao restaurar o estado da automação:', error);
+    }
+  }
+  
+  /**
+   * Grava a fase atual do ciclo para ser retomada após um reinício
+   * O início gravado considera ajustes proporcionais feitos pelos temporizadores
+   */
+  private persistCycleState(): void {
+    const cycle = this.cycleState;
+    saveCycleState(DEFAULT_DEVICE_ID, {
+      isActive: cycle.isActive,
+      pumpStatus: cycle.pumpStatus,
+      startedAt: Date.now() - (cycle.currentTimerTotal - cycle.timeRemaining) * 1000,
+      timerTotal: cycle.currentTimerTotal,
+      updatedAt: Date.now()
+    });
+    this.publishCycleState();
+  }
+  
+  /**
+   * Envia a fase atual do ciclo da bomba à interface (mesmo formato de /api/automation/pump-cycle)
+   */
+  private publishCycleState(): void {
+    realtimeService.publish('automation', this.getCycleState(), DEFAULT_DEVICE_ID);
+  }
+  
+  private startTimers(): void {
     // Inicia o timer de verificação constante
     this.intervalId = setInterval(() => this.checkCycle(), this.CHECK_INTERVAL_MS);
+    this.sensorIntervalId = setInterval(async () => {
+      if (Date.now() - this.schedulesLoadedAt >= this.SCHEDULE_RELOAD_INTERVAL_MS) {
+        await this.reloadSchedules();
+      }
+      await this.checkThermostat();
+      await this.applyHeaterSchedule();
+      this.checkPumpLevel();
+    }, this.SENSOR_CHECK_INTERVAL_MS);
+    this.reloadSchedules();
     
     // Verifica o estado atual após 5 segundos para garantir que tudo está inicializado
     setTimeout(() => {
-      if (this.autoModeEnabled && !this.cycleState.isActive) {
+      if (this.autoModeEnabled && this.pumpLevelConfig.mode === 'timer' && !this.cycleState.isActive) {
         console.log('🔍 Verificação inicial: Modo automático ativo, mas ciclo inativo. Iniciando ciclo.');
         this.startNewCycle(this.lastPumpStatus);
       }
@@ -105,6 +414,10 @@ class AutomationService {
       this.intervalId = null;
       this.cycleState.isActive = false;
     }
+    if (this.sensorIntervalId) {
+      clearInterval(this.sensorIntervalId);
+      this.sensorIntervalId = null;
+    }
   }
   
   /**
@@ -115,7 +428,8 @@ class AutomationService {
     this.pumpOffTimer = offTimer;
     
     // Se um ciclo estiver ativo, atualiza os tempos restantes proporcionalmente
-    if (this.cycleState.isActive) {
+    // (ciclos de uma programação seguem os tempos da própria programação)
+    if (this.cycleState.isActive && !this.pumpSchedule) {
       const currentStatus = this.cycleState.pumpStatus;
       const newTotal = currentStatus ? onTimer : offTimer;
       const oldTotal = this.cycleState.currentTimerTotal;
@@ -126,6 +440,7 @@ class AutomationService {
       // Atualiza o tempo restante para manter a mesma porcentagem no novo timer
       this.cycleState.currentTimerTotal = newTotal;
       this.cycleState.timeRemaining = Math.round(newTotal * (1 - percentComplete));
+      this.persistCycleState();
     }
   }
   
@@ -134,7 +449,12 @@ class AutomationService {
    */
   public setAutoMode(enabled: boolean): void {
     // Se o modo automático está sendo habilitado
-    if (enabled && !this.autoModeEnabled) {
+    if (enabled && !this.autoModeEnabled && this.pumpLevelConfig.mode === 'level') {
+      this.autoModeEnabled = true;
+      console.log('🔄 Modo automático ativado, bomba controlada pelo nível da água');
+      this.checkPumpLevel();
+    }
+    else if (enabled && !this.autoModeEnabled) {
       this.autoModeEnabled = true;
       console.log('🔄 Modo automático ativado, iniciando ciclos');
       // Forçar início do ciclo com um atraso curto para garantir que outras inicializações terminaram
@@ -144,7 +464,7 @@ class AutomationService {
       }, 1000);
     }
     // Se já está no modo automático, verifica se o ciclo está ativo
-    else if (enabled && this.autoModeEnabled && !this.cycleState.isActive) {
+    else if (enabled && this.autoModeEnabled && this.pumpLevelConfig.mode === 'timer' && !this.cycleState.isActive) {
       console.log('🔄 Modo automático já ativo, mas ciclo inativo. Reiniciando ciclo.');
       this.startNewCycle(this.lastPumpStatus);
     }
@@ -152,6 +472,7 @@ class AutomationService {
     else if (!enabled && this.autoModeEnabled) {
       this.autoModeEnabled = false;
       this.cycleState.isActive = false;
+      this.persistCycleState();
       console.log('🛑 Modo automático desativado, interrompendo ciclos');
     }
   }
@@ -164,7 +485,7 @@ class AutomationService {
     
     // Se a bomba mudou de estado e o modo automático está ativo,
     // inicia um novo ciclo com o estado atual
-    if (this.autoModeEnabled && this.cycleState.pumpStatus !== status) {
+    if (this.autoModeEnabled && this.pumpLevelConfig.mode === 'timer' && this.cycleState.pumpStatus !== status) {
       console.log(`🔄 Estado da bomba alterado externamente para: ${status ? 'LIGADA' : 'DESLIGADA'}`);
       this.startNewCycle(status);
     }
@@ -175,8 +496,36 @@ class AutomationService {
    * e nos valores configurados pelo usuário (pumpOnTimer e pumpOffTimer)
    */
   private async checkCycle(): Promise<void> {
-    // Só executa se o modo automático estiver ativo
-    if (!this.autoModeEnabled) {
+    // Só executa se o modo automático por temporizador estiver ativo
+    if (!this.autoModeEnabled || this.pumpLevelConfig.mode !== 'timer') {
+      this.pumpSchedule = null;
+      return;
+    }
+    if (this.checkingCycle) {
+      return;
+    }
+    this.checkingCycle = true;
+    
+    try {
+      await this.runCycleCheck();
+    } finally {
+      this.checkingCycle = false;
+    }
+  }
+  
+  private async runCycleCheck(): Promise<void> {
+    // Programação da bomba em vigor no horário de Brasília
+    const schedule = findActiveSchedule(this.schedules, 'pump');
+    if ((schedule?.id ?? null) !== (this.pumpSchedule?.id ?? null)) {
+      console.log(`🗓️ Programação da bomba: ${schedule ? `"${schedule.name}" (${schedule.startTime}-${schedule.endTime})` : 'nenhuma, usando os temporizadores padrão'}`);
+      // Recomeçar o ciclo com os tempos da nova programação
+      this.cycleState.isActive = false;
+    }
+    this.pumpSchedule = schedule;
+    
+    // Programações 'on'/'off' mantêm a bomba fixa durante a janela, sem ciclos
+    if (schedule && schedule.action !== 'cycle') {
+      await this.holdPumpForSchedule(schedule);
       return;
     }
     
@@ -189,6 +538,7 @@ class AutomationService {
     
     // Atualiza o tempo restante
     this.cycleState.timeRemaining -= 1;
+    this.publishCycleState();
     
     // Logs de debug a cada 5 segundos
     if (this.cycleState.timeRemaining % 5 === 0 || this.cycleState.timeRemaining <= 5) {
@@ -199,13 +549,33 @@ class AutomationService {
     if (this.cycleState.timeRemaining <= 0) {
       // Alterna o estado da bomba
       const newPumpStatus = !this.cycleState.pumpStatus;
+      
+      // Proteção contra funcionamento a seco: manter desligada e iniciar outro ciclo desligado
+      if (newPumpStatus && this.pumpLevelState.dryRunProtection) {
+        console.warn(`⚠️ Ciclo de bomba ignorado: ${this.pumpLevelState.reason}`);
+        this.startNewCycle(false);
+        return;
+      }
+      
+      // Intertravamentos de segurança: o mesmo tratamento da proteção a seco
+      const violation = newPumpStatus ? interlockService.evaluate('pump', true, DEFAULT_DEVICE_ID, 'automation') : null;
+      if (violation) {
+        console.warn(`⚠️ Ciclo de bomba ignorado: ${violation.message}`);
+        this.startNewCycle(false);
+        return;
+      }
       console.log(`⏱️ Tempo de ciclo atingido (${this.cycleState.currentTimerTotal}s), alterando bomba para: ${newPumpStatus ? 'LIGADA' : 'DESLIGADA'}`);
       
       // Envia o novo estado APENAS DA BOMBA para o ThingSpeak
       // Aqui alteramos somente o campo da bomba, sem afetar o estado do aquecedor
       try {
-        await updatePumpStatus(newPumpStatus);
+        // Comando bloqueado ou não entregue: a fase continua e a troca é tentada na próxima verificação
+        if (!(await updatePumpStatus(newPumpStatus, 'automation'))) {
+          console.warn(`⚠️ Bomba não foi ${newPumpStatus ? 'ligada' : 'desligada'} pelo ciclo; nova tentativa na próxima verificação`);
+          return;
+        }
         this.lastPumpStatus = newPumpStatus;
+        this.auditToggle('pump', !newPumpStatus, newPumpStatus, 'ciclo da bomba');
         
         // Inicia um novo ciclo com o estado oposto
         this.startNewCycle(newPumpStatus);
@@ -215,11 +585,39 @@ class AutomationService {
     }
   }
   
+  /**
+   * Mantém a bomba no estado definido por uma programação 'on'/'off'
+   */
+  private async holdPumpForSchedule(schedule: ScheduleInfo): Promise<void> {
+    this.cycleState.isActive = false;
+    
+    // A proteção contra funcionamento a seco prevalece sobre a programação
+    const desired = schedule.action === 'on' && !this.pumpLevelState.dryRunProtection;
+    if (getCurrentDeviceStatus().pumpStatus === desired) {
+      return;
+    }
+    if (interlockService.evaluate('pump', desired, DEFAULT_DEVICE_ID, 'schedule')) {
+      return;
+    }
+    
+    console.log(`🗓️ Programação "${schedule.name}": bomba ${desired ? 'LIGADA' : 'DESLIGADA'}`);
+    try {
+      await requestPumpStatus(desired, 'schedule');
+      this.lastPumpStatus = desired;
+      this.auditToggle('pump', !desired, desired, `programação "${schedule.name}"`);
+    } catch (error) {
+      console.error('❌ Erro ao aplicar a programação da bomba:', error);
+    }
+  }
+  
   /**
    * Inicia um novo ciclo com o estado da bomba especificado
+   * Durante uma programação do tipo 'cycle' são usados os tempos da programação
    */
   private startNewCycle(pumpStatus: boolean): void {
-    const timerValue = pumpStatus ? this.pumpOnTimer : this.pumpOffTimer;
+    const onTimer = this.pumpSchedule?.action === 'cycle' ? this.pumpSchedule.pumpOnSeconds || this.pumpOnTimer : this.pumpOnTimer;
+    const offTimer = this.pumpSchedule?.action === 'cycle' ? this.pumpSchedule.pumpOffSeconds || this.pumpOffTimer : this.pumpOffTimer;
+    const timerValue = pumpStatus ? onTimer : offTimer;
     
     this.cycleState = {
       isActive: true,
@@ -229,30 +627,699 @@ class AutomationService {
       currentTimerTotal: timerValue,
       pumpStatus
     };
+    this.persistCycleState();
     
     console.log(`🔄 Novo ciclo iniciado: Bomba ${pumpStatus ? 'LIGADA' : 'DESLIGADA'} por ${timerValue} segundos`);
   }
   
+  /**
+   * Atualiza a configuração do termostato e reavalia o aquecedor imediatamente
+   */
+  public updateThermostatConfig(config: Partial<ThermostatConfig>): ThermostatConfig {
+    const wasEnabled = this.thermostatConfig.enabled;
+    const previousMode = this.thermostatConfig.mode;
+    this.thermostatConfig = { ...this.thermostatConfig, ...config };
+    
+    if (this.thermostatConfig.enabled !== wasEnabled) {
+      console.log(`🌡️ Termostato do aquecedor ${this.thermostatConfig.enabled ? 'ativado' : 'desativado'}`);
+      if (!this.thermostatConfig.enabled) {
+        this.thermostatState.safetyCutoff = false;
+        this.thermostatState.reason = 'Termostato desativado';
+        if (this.autoTuneRun) {
+          this.finishAutoTune('cancelled', 'Termostato desativado durante a sintonia');
+        }
+      }
+    }
+    
+    if (this.thermostatConfig.mode !== previousMode) {
+      console.log(`🌡️ Modo do termostato: ${this.thermostatConfig.mode === 'pid' ? 'PID' : 'histerese'}`);
+      this.pidState = this.createPidState();
+      this.thermostatState.dutyCycle = null;
+    }
+    
+    this.checkThermostat();
+    return { ...this.thermostatConfig };
+  }
+  
+  /**
+   * Compara a última leitura de temperatura com a faixa do termostato e liga/desliga o aquecedor
+   * 
+   * A temperatura alvo é a configurada no dispositivo (field6), limitada aos setpoints temp_min/temp_max.
+   * O corte de segurança (temperatura acima do limite ou leitura desatualizada) desliga o aquecedor
+   * sem respeitar o tempo mínimo ligado.
+   */
+  public async checkThermostat(): Promise<void> {
+    if (!this.thermostatConfig.enabled || this.checkingThermostat) {
+      return;
+    }
+    this.checkingThermostat = true;
+    
+    try {
+      const config = this.thermostatConfig;
+      const state = this.thermostatState;
+      const now = Date.now();
+      
+      const deviceStatus = getCurrentDeviceStatus();
+      const setpoints = await storage.getSetpoints();
+      const [latest] = await storage.getLatestReadings(1);
+      
+      // Temperatura alvo limitada aos setpoints do tanque
+      const targetTemp = Math.max(setpoints.tempMin, Math.min(setpoints.tempMax, deviceStatus.targetTemp));
+      state.targetTemp = targetTemp;
+      state.lowerBound = targetTemp - config.hysteresis;
+      state.upperBound = targetTemp + config.hysteresis;
+      state.heaterStatus = deviceStatus.heaterStatus;
+      state.lastCheckAt = now;
+      
+      const temperature = latest ? latest.temperature : NaN;
+      const readingAt = latest ? latest.timestamp : NaN;
+      state.lastTemperature = isNaN(temperature) ? null : temperature;
+      state.lastReadingAt = isNaN(readingAt) ? null : readingAt;
+      
+      // Corte de segurança
+      let cutoffReason: string | null = null;
+      if (isNaN(temperature) || isNaN(readingAt)) {
+        cutoffReason = 'Sem leitura de temperatura';
+      } else if (now - readingAt > config.maxReadingAgeSec * 1000) {
+        cutoffReason = `Leitura de temperatura desatualizada (${Math.round((now - readingAt) / 1000)}s)`;
+      } else if (temperature >= config.cutoffTemperature) {
+        cutoffReason = `Temperatura ${temperature.toFixed(1)}°C acima do limite de segurança (${config.cutoffTemperature}°C)`;
+      } else if (state.safetyCutoff && temperature > config.cutoffTemperature - config.hysteresis) {
+        // Manter o corte até a temperatura cair abaixo do limite com folga
+        cutoffReason = state.reason;
+      }
+      
+      if (cutoffReason) {
+        if (!state.safetyCutoff) {
+          console.warn(`⚠️ Termostato: corte de segurança do aquecedor - ${cutoffReason}`);
+          await logSystemEvent('warning', 'Corte de segurança do aquecedor', cutoffReason);
+        }
+        state.safetyCutoff = true;
+        state.reason = cutoffReason;
+        state.dutyCycle = null;
+        this.pidState = this.createPidState();
+        if (this.autoTuneRun) {
+          await this.finishAutoTune('failed', `Interrompida pelo corte de segurança: ${cutoffReason}`);
+        }
+        if (state.heaterStatus) {
+          await this.switchHeater(false, cutoffReason);
+        }
+        return;
+      }
+      
+      if (state.safetyCutoff) {
+        console.log('✅ Termostato: condições normalizadas, corte de segurança removido');
+      }
+      state.safetyCutoff = false;
+      
+      // A sintonia automática, iniciada pelo usuário, tem prioridade sobre as programações
+      if (this.autoTuneRun) {
+        await this.stepAutoTune(temperature, readingAt, now);
+        return;
+      }
+      
+      // Programações 'on'/'off' do aquecedor têm prioridade sobre o termostato
+      if (this.heaterScheduleAction === 'on' || this.heaterScheduleAction === 'off') {
+        state.reason = `Controlado pela programação ${this.heaterSchedule ? `"${this.heaterSchedule.name}"` : '(fora das janelas programadas)'}`;
+        state.dutyCycle = null;
+        return;
+      }
+      
+      if (config.mode === 'pid') {
+        await this.runPid(temperature, readingAt, now);
+        return;
+      }
+      
+      // Decisão com histerese
+      let desired = state.heaterStatus;
+      if (temperature <= state.lowerBound) {
+        desired = true;
+      } else if (temperature >= state.upperBound) {
+        desired = false;
+      }
+      
+      if (desired === state.heaterStatus) {
+        state.reason = state.heaterStatus
+          ? `Aquecendo até ${state.upperBound.toFixed(1)}°C`
+          : `Temperatura ${temperature.toFixed(1)}°C dentro da faixa`;
+        return;
+      }
+      
+      // Respeitar o tempo mínimo no estado atual para evitar liga/desliga frequente
+      const minTimeSec = state.heaterStatus ? config.minOnTimeSec : config.minOffTimeSec;
+      const elapsedSec = (now - state.lastSwitchAt) / 1000;
+      if (elapsedSec < minTimeSec) {
+        state.reason = `Aguardando tempo mínimo ${state.heaterStatus ? 'ligado' : 'desligado'} (${Math.ceil(minTimeSec - elapsedSec)}s)`;
+        return;
+      }
+      
+      await this.switchHeater(desired, `Temperatura ${temperature.toFixed(1)}°C, faixa ${state.lowerBound.toFixed(1)}-${state.upperBound.toFixed(1)}°C`);
+    } catch (error) {
+      console.error('❌ Erro na verificação do termostato:', error);
+    } finally {
+      this.checkingThermostat = false;
+    }
+  }
+  
+  /**
+   * Recarrega as programações do tanque principal
+   * Chamado periodicamente e pelas rotas após criar/alterar/remover uma programação
+   */
+  public async reloadSchedules(): Promise<void> {
+    try {
+      this.schedules = (await listSchedules(DEFAULT_DEVICE_ID)).filter(schedule => schedule.enabled);
+      this.schedulesLoadedAt = Date.now();
+      this.updateHeaterScheduleAction();
+    } catch (error) {
+      console.error('❌ Erro ao carregar as programações:', error);
+    }
+  }
+  
+  /**
+   * Determina a ação do aquecedor imposta pelas programações
+   * Havendo programações de aquecedor, fora de todas as janelas ele permanece desligado;
+   * 'auto' devolve o controle ao termostato durante a janela
+   */
+  private updateHeaterScheduleAction(): void {
+    const schedule = findActiveSchedule(this.schedules, 'heater');
+    const hasHeaterSchedules = this.schedules.some(s => s.target === 'heater');
+    
+    if ((schedule?.id ?? null) !== (this.heaterSchedule?.id ?? null)) {
+      console.log(`🗓️ Programação do aquecedor: ${schedule ? `"${schedule.name}" (${schedule.startTime}-${schedule.endTime})` : 'nenhuma em vigor'}`);
+    }
+    
+    this.heaterSchedule = schedule;
+    this.heaterScheduleAction = schedule ? schedule.action : hasHeaterSchedules ? 'off' : null;
+  }
+  
+  /**
+   * Aplica as programações 'on'/'off' do aquecedor
+   * O corte de segurança do termostato impede ligar o aquecedor mesmo com a programação,
+   * e a sintonia automática em andamento suspende as programações
+   */
+  private async applyHeaterSchedule(): Promise<void> {
+    this.updateHeaterScheduleAction();
+    const action = this.heaterScheduleAction;
+    if ((action !== 'on' && action !== 'off') || this.autoTuneRun) {
+      return;
+    }
+    
+    const desired = action === 'on' && !(this.thermostatConfig.enabled && this.thermostatState.safetyCutoff);
+    if (getCurrentDeviceStatus().heaterStatus === desired) {
+      return;
+    }
+    if (interlockService.evaluate('heater', desired, DEFAULT_DEVICE_ID, 'schedule')) {
+      return;
+    }
+    
+    const name = this.heaterSchedule ? `"${this.heaterSchedule.name}"` : '(fora das janelas programadas)';
+    console.log(`🗓️ Programação ${name}: aquecedor ${desired ? 'LIGADO' : 'DESLIGADO'}`);
+    try {
+      await requestHeaterStatus(desired, 'schedule');
+      this.auditToggle('heater', !desired, desired, `programação ${name}`);
+      this.thermostatState.heaterStatus = desired;
+      this.thermostatState.lastSwitchAt = Date.now();
+    } catch (error) {
+      console.error('❌ Erro ao aplicar a programação do aquecedor:', error);
+    }
+  }
+  
+  private createPidState(): PidState {
+    return {
+      integral: 0,
+      output: 0,
+      lastTemperature: null,
+      lastReadingAt: null,
+      windowStart: 0,
+      windowOnSec: 0
+    };
+  }
+  
+  /**
+   * Controle PID com ciclo de trabalho proporcional ao tempo
+   * 
+   * A saída (0-100%) é recalculada a cada nova leitura. No início de cada janela de pidWindowSec
+   * o tempo ligado é fixado em saída × janela; pulsos menores que o intervalo de verificação
+   * são arredondados para desligado/ligado a janela inteira.
+   * A derivada é calculada sobre a temperatura (e não sobre o erro) para não gerar picos quando
+   * o alvo muda, e o termo integral só acumula enquanto a saída não está saturada (anti-windup).
+   */
+  private async runPid(temperature: number, readingAt: number, now: number): Promise<void> {
+    const config = this.thermostatConfig;
+    const state = this.thermostatState;
+    const pid = this.pidState;
+    
+    if (pid.lastReadingAt !== readingAt) {
+      const error = state.targetTemp - temperature;
+      const dtSec = pid.lastReadingAt !== null ? (readingAt - pid.lastReadingAt) / 1000 : 0;
+      const derivative = pid.lastTemperature !== null && dtSec > 0
+        ? -(temperature - pid.lastTemperature) / dtSec
+        : 0;
+      
+      const integral = pid.integral + config.ki * error * dtSec;
+      const unclamped = config.kp * error + integral + config.kd * derivative;
+      const output = Math.max(0, Math.min(100, unclamped));
+      
+      const saturatedHigh = unclamped > 100 && error > 0;
+      const saturatedLow = unclamped < 0 && error < 0;
+      if (!saturatedHigh && !saturatedLow) {
+        pid.integral = Math.max(0, Math.min(100, integral));
+      }
+      
+      pid.output = output;
+      pid.lastTemperature = temperature;
+      pid.lastReadingAt = readingAt;
+      state.dutyCycle = parseFloat(output.toFixed(1));
+    }
+    
+    // Nova janela do ciclo de trabalho
+    if (now - pid.windowStart >= config.pidWindowSec * 1000) {
+      const minPulseSec = this.SENSOR_CHECK_INTERVAL_MS / 1000;
+      let onSec = (pid.output / 100) * config.pidWindowSec;
+      if (onSec < minPulseSec) {
+        onSec = 0;
+      } else if (config.pidWindowSec - onSec < minPulseSec) {
+        onSec = config.pidWindowSec;
+      }
+      pid.windowStart = now;
+      pid.windowOnSec = Math.round(onSec);
+    }
+    
+    const desired = now - pid.windowStart < pid.windowOnSec * 1000;
+    const reason = `PID: temperatura ${temperature.toFixed(1)}°C, alvo ${state.targetTemp.toFixed(1)}°C, ` +
+      `saída ${pid.output.toFixed(0)}% (${pid.windowOnSec}s ligado a cada ${config.pidWindowSec}s)`;
+    
+    if (desired === state.heaterStatus) {
+      state.reason = reason;
+      return;
+    }
+    
+    await this.switchHeater(desired, reason);
+  }
+  
+  /**
+   * Inicia a sintonia automática do PID por realimentação a relé (método de Åström-Hägglund)
+   * 
+   * O aquecedor é ligado abaixo de (alvo - histerese) e desligado acima de (alvo + histerese),
+   * sem tempos mínimos, até a oscilação se estabilizar. O ganho crítico Ku e o período Tu
+   * medidos definem os ganhos pela regra de Ziegler-Nichols "sem sobressinal".
+   * Pode ser executada contra o emulador no modo 'thermal'.
+   * 
+   * @returns Mensagem de erro se a sintonia não puder ser iniciada, ou null
+   */
+  public startAutoTune(options: AutoTuneOptions = {}): string | null {
+    if (!this.thermostatConfig.enabled) {
+      return 'Ative o termostato antes de iniciar a sintonia automática';
+    }
+    if (this.autoTuneRun) {
+      return 'Já existe uma sintonia automática em andamento';
+    }
+    if (this.thermostatState.safetyCutoff) {
+      return `Corte de segurança ativo: ${this.thermostatState.reason}`;
+    }
+    
+    const cyclesRequired = options.cycles ?? 3;
+    this.autoTuneRun = {
+      hysteresis: options.hysteresis ?? 0.2,
+      maxDurationSec: (options.maxDurationMin ?? 240) * 60,
+      relayOn: this.thermostatState.heaterStatus,
+      lastReadingAt: null,
+      lastOnSwitchAt: null,
+      cycleMax: -Infinity,
+      cycleMin: Infinity,
+      periods: [],
+      amplitudes: []
+    };
+    this.autoTuneState = {
+      status: 'running',
+      startedAt: Date.now(),
+      finishedAt: null,
+      setpoint: this.thermostatState.targetTemp,
+      cycles: 0,
+      cyclesRequired,
+      result: null,
+      message: 'Aguardando oscilação estável'
+    };
+    this.thermostatState.dutyCycle = null;
+    
+    console.log(`🌡️ Sintonia automática do PID iniciada (alvo ${this.thermostatState.targetTemp.toFixed(1)}°C, ±${this.autoTuneRun.hysteresis}°C, ${cyclesRequired} ciclos)`);
+    this.checkThermostat();
+    return null;
+  }
+  
+  /**
+   * Cancela a sintonia automática em andamento
+   * @returns false se não havia sintonia em andamento
+   */
+  public async cancelAutoTune(): Promise<boolean> {
+    if (!this.autoTuneRun) {
+      return false;
+    }
+    await this.finishAutoTune('cancelled', 'Sintonia cancelada pelo usuário');
+    return true;
+  }
+  
+  /**
+   * Executa um passo da sintonia automática a cada nova leitura
+   * Um ciclo completo vai de um religamento do relé ao seguinte; o primeiro ciclo é descartado
+   * por incluir o transitório inicial.
+   */
+  private async stepAutoTune(temperature: number, readingAt: number, now: number): Promise<void> {
+    const run = this.autoTuneRun!;
+    const tune = this.autoTuneState;
+    const state = this.thermostatState;
+    
+    if (tune.startedAt !== null && now - tune.startedAt > run.maxDurationSec * 1000) {
+      await this.finishAutoTune('failed', `Tempo máximo de ${Math.round(run.maxDurationSec / 60)} min excedido sem oscilação estável`);
+      return;
+    }
+    
+    // A temperatura alvo fica fixa durante a sintonia
+    const setpoint = tune.setpoint ?? state.targetTemp;
+    
+    if (run.lastReadingAt === readingAt) {
+      return;
+    }
+    run.lastReadingAt = readingAt;
+    run.cycleMax = Math.max(run.cycleMax, temperature);
+    run.cycleMin = Math.min(run.cycleMin, temperature);
+    
+    if (run.relayOn && temperature >= setpoint + run.hysteresis) {
+      run.relayOn = false;
+    } else if (!run.relayOn && temperature <= setpoint - run.hysteresis) {
+      if (run.lastOnSwitchAt !== null) {
+        run.periods.push((readingAt - run.lastOnSwitchAt) / 1000);
+        run.amplitudes.push((run.cycleMax - run.cycleMin) / 2);
+        tune.cycles = Math.max(0, run.periods.length - 1);
+      }
+      run.lastOnSwitchAt = readingAt;
+      run.cycleMax = temperature;
+      run.cycleMin = temperature;
+      run.relayOn = true;
+      
+      if (run.periods.length > tune.cyclesRequired) {
+        await this.completeAutoTune();
+        return;
+      }
+    }
+    
+    const reason = `Sintonia automática: ciclo ${tune.cycles + 1} de ${tune.cyclesRequired}, ` +
+      `temperatura ${temperature.toFixed(1)}°C, relé ${run.relayOn ? 'ligado' : 'desligado'}`;
+    tune.message = reason;
+    
+    if (run.relayOn === state.heaterStatus) {
+      state.reason = reason;
+      return;
+    }
+    
+    await this.switchHeater(run.relayOn, reason);
+  }
+  
+  /**
+   * Calcula os ganhos a partir dos ciclos medidos e passa o termostato para o modo PID
+   */
+  private async completeAutoTune(): Promise<void> {
+    const run = this.autoTuneRun!;
+    const cycles = this.autoTuneState.cyclesRequired;
+    const periods = run.periods.slice(-cycles);
+    const amplitudes = run.amplitudes.slice(-cycles);
+    
+    const tuSec = periods.reduce((sum, value) => sum + value, 0) / periods.length;
+    const amplitude = amplitudes.reduce((sum, value) => sum + value, 0) / amplitudes.length;
+    
+    // Descontar a histerese do relé quando a oscilação for maior que ela
+    const effectiveAmplitude = amplitude > run.hysteresis
+      ? Math.sqrt(amplitude * amplitude - run.hysteresis * run.hysteresis)
+      : amplitude;
+    
+    if (!(effectiveAmplitude > 0) || !(tuSec > 0)) {
+      await this.finishAutoTune('failed', 'Oscilação medida inválida');
+      return;
+    }
+    
+    // Ziegler-Nichols "sem sobressinal": Kp = 0,2·Ku, Ti = Tu/2, Td = Tu/3
+    const ku = (4 * AUTOTUNE_RELAY_AMPLITUDE) / (Math.PI * effectiveAmplitude);
+    const kp = 0.2 * ku;
+    const ki = kp / (tuSec / 2);
+    const kd = kp * (tuSec / 3);
+    
+    const round = (value: number) => parseFloat(value.toPrecision(4));
+    const result: AutoTuneResult = {
+      ku: round(ku),
+      tuSec: Math.round(tuSec),
+      amplitude: round(amplitude),
+      kp: round(kp),
+      ki: round(ki),
+      kd: round(kd)
+    };
+    
+    this.autoTuneState.result = result;
+    this.thermostatConfig = {
+      ...this.thermostatConfig,
+      mode: 'pid',
+      kp: result.kp,
+      ki: result.ki,
+      kd: result.kd
+    };
+    this.pidState = this.createPidState();
+    
+    await this.finishAutoTune(
+      'completed',
+      `Ku = ${result.ku}, Tu = ${result.tuSec}s → Kp = ${result.kp}, Ki = ${result.ki}, Kd = ${result.kd}`
+    );
+  }
+  
+  private async finishAutoTune(status: AutoTuneStatus, message: string): Promise<void> {
+    this.autoTuneRun = null;
+    this.autoTuneState.status = status;
+    this.autoTuneState.finishedAt = Date.now();
+    this.autoTuneState.message = message;
+    
+    if (status === 'completed') {
+      console.log(`✅ Sintonia automática do PID concluída: ${message}`);
+      await logSystemEvent('info', 'Sintonia automática do PID concluída', message);
+    } else {
+      console.warn(`⚠️ Sintonia automática do PID encerrada (${status}): ${message}`);
+      await logSystemEvent('warning', 'Sintonia automática do PID encerrada', message);
+    }
+  }
+  
+  /**
+   * Envia o novo estado do aquecedor pela fila de comandos
+   */
+  private async switchHeater(status: boolean, reason: string): Promise<void> {
+    const violation = interlockService.evaluate('heater', status, DEFAULT_DEVICE_ID, 'thermostat');
+    if (violation) {
+      this.thermostatState.reason = `Bloqueado por intertravamento: ${violation.message}`;
+      return;
+    }
+    
+    console.log(`🌡️ Termostato: aquecedor ${status ? 'LIGADO' : 'DESLIGADO'} - ${reason}`);
+    const previous = getCurrentDeviceStatus().heaterStatus;
+    await requestHeaterStatus(status, 'thermostat');
+    this.auditToggle('heater', previous, status, 'termostato');
+    this.thermostatState.heaterStatus = status;
+    this.thermostatState.lastSwitchAt = Date.now();
+    this.thermostatState.reason = reason;
+  }
+  
+  /**
+   * Atualiza a configuração da bomba por nível
+   * Ao trocar de estratégia, o ciclo por temporizador é interrompido ou reiniciado conforme o caso
+   */
+  public updatePumpLevelConfig(config: Partial<PumpLevelConfig>): PumpLevelConfig {
+    const previousMode = this.pumpLevelConfig.mode;
+    this.pumpLevelConfig = { ...this.pumpLevelConfig, ...config };
+    // O intertravamento aplica o nível crítico a todos os comandos da bomba, inclusive os manuais
+    interlockService.updateConfig({ pumpCriticalLevel: this.pumpLevelConfig.criticalLevel });
+    
+    if (this.pumpLevelConfig.mode !== previousMode) {
+      console.log(`🔄 Estratégia da bomba alterada: ${previousMode} -> ${this.pumpLevelConfig.mode}`);
+      if (this.pumpLevelConfig.mode === 'level') {
+        this.cycleState.isActive = false;
+        this.persistCycleState();
+      } else if (this.autoModeEnabled) {
+        this.startNewCycle(this.lastPumpStatus);
+      }
+    }
+    
+    this.checkPumpLevel();
+    return { ...this.pumpLevelConfig };
+  }
+  
+  /**
+   * Verifica o nível da água do tanque principal e aciona a bomba
+   * 
+   * A proteção contra funcionamento a seco vale para as duas estratégias: abaixo do nível crítico
+   * a bomba é desligada imediatamente e não liga até o nível se recuperar.
+   * No modo por nível a bomba liga em level_max e desliga em level_min.
+   */
+  public async checkPumpLevel(): Promise<void> {
+    if (!this.autoModeEnabled || this.checkingPumpLevel) {
+      return;
+    }
+    this.checkingPumpLevel = true;
+    
+    try {
+      const config = this.pumpLevelConfig;
+      const state = this.pumpLevelState;
+      const now = Date.now();
+      
+      const setpoints = await storage.getSetpoints();
+      const [latest] = await storage.getLatestReadings(1);
+      
+      state.levelMin = setpoints.levelMin;
+      state.levelMax = setpoints.levelMax;
+      state.pumpStatus = getCurrentDeviceStatus().pumpStatus;
+      state.lastCheckAt = now;
+      
+      const level = latest ? latest.level : NaN;
+      const readingAt = latest ? latest.timestamp : NaN;
+      state.lastLevel = isNaN(level) ? null : level;
+      state.lastReadingAt = isNaN(readingAt) ? null : readingAt;
+      
+      // Proteção contra funcionamento a seco
+      if (!isNaN(level) && level < config.criticalLevel) {
+        if (!state.dryRunProtection) {
+          const message = `Nível ${level.toFixed(1)}% abaixo do nível crítico (${config.criticalLevel}%)`;
+          console.warn(`⚠️ Proteção contra funcionamento a seco ativada - ${message}`);
+          await logSystemEvent('warning', 'Proteção contra funcionamento a seco da bomba', message);
+        }
+        state.dryRunProtection = true;
+        state.reason = `Nível ${level.toFixed(1)}% abaixo do nível crítico (${config.criticalLevel}%)`;
+        if (state.pumpStatus) {
+          await this.switchPump(false, state.reason);
+        }
+        return;
+      }
+      
+      if (state.dryRunProtection && !isNaN(level)) {
+        console.log('✅ Nível recuperado, proteção contra funcionamento a seco removida');
+        state.dryRunProtection = false;
+      }
+      
+      if (config.mode !== 'level') {
+        return;
+      }
+      
+      // Sem leitura recente não há como controlar pelo nível: manter a bomba desligada
+      if (isNaN(level) || isNaN(readingAt) || now - readingAt > config.maxReadingAgeSec * 1000) {
+        state.reason = isNaN(level) ? 'Sem leitura de nível' : 'Leitura de nível desatualizada';
+        if (state.pumpStatus) {
+          await this.switchPump(false, state.reason);
+        }
+        return;
+      }
+      
+      let desired = state.pumpStatus;
+      if (level >= state.levelMax) {
+        desired = true;
+      } else if (level <= state.levelMin) {
+        desired = false;
+      }
+      
+      if (desired === state.pumpStatus) {
+        state.reason = state.pumpStatus
+          ? `Bombeando até o nível ${state.levelMin}%`
+          : `Aguardando o nível chegar a ${state.levelMax}%`;
+        return;
+      }
+      
+      const elapsedSec = (now - state.lastSwitchAt) / 1000;
+      if (elapsedSec < config.minSwitchIntervalSec) {
+        state.reason = `Aguardando intervalo mínimo entre acionamentos (${Math.ceil(config.minSwitchIntervalSec - elapsedSec)}s)`;
+        return;
+      }
+      
+      await this.switchPump(desired, `Nível ${level.toFixed(1)}%, faixa ${state.levelMin}-${state.levelMax}%`);
+    } catch (error) {
+      console.error('❌ Erro na verificação do nível para a bomba:', error);
+    } finally {
+      this.checkingPumpLevel = false;
+    }
+  }
+  
+  /**
+   * Registra no log de auditoria uma alternância feita pela automação
+   */
+  private auditToggle(field: 'pump' | 'heater', oldValue: boolean, newValue: boolean, actor: string): void {
+    recordAudit({ deviceId: DEFAULT_DEVICE_ID, field, oldValue, newValue, source: 'automation', actor });
+  }
+  
+  /**
+   * Envia o novo estado da bomba pela fila de comandos
+   */
+  private async switchPump(status: boolean, reason: string): Promise<void> {
+    const violation = interlockService.evaluate('pump', status, DEFAULT_DEVICE_ID, 'level-control');
+    if (violation) {
+      this.pumpLevelState.reason = `Bloqueado por intertravamento: ${violation.message}`;
+      return;
+    }
+    
+    console.log(`💧 Controle por nível: bomba ${status ? 'LIGADA' : 'DESLIGADA'} - ${reason}`);
+    const previous = getCurrentDeviceStatus().pumpStatus;
+    await requestPumpStatus(status, 'level-control');
+    this.auditToggle('pump', previous, status, 'controle por nível');
+    this.lastPumpStatus = status;
+    this.pumpLevelState.pumpStatus = status;
+    this.pumpLevelState.lastSwitchAt = Date.now();
+    this.pumpLevelState.reason = reason;
+    
+    // No modo por temporizador, recomeçar o ciclo a partir do novo estado
+    if (this.pumpLevelConfig.mode === 'timer' && this.cycleState.isActive) {
+      this.startNewCycle(status);
+    }
+  }
+  
+  /**
+   * Retorna a configuração e o estado da bomba por nível para informação no frontend
+   */
+  public getPumpLevelState(): { success: boolean; config: PumpLevelConfig } & PumpLevelState {
+    return {
+      success: true,
+      config: { ...this.pumpLevelConfig },
+      ...this.pumpLevelState
+    };
+  }
+  
+  /**
+   * Retorna a configuração e o estado do termostato para informação no frontend
+   */
+  public getThermostatState(): { success: boolean; config: ThermostatConfig; autoTune: AutoTuneState } & ThermostatState {
+    return {
+      success: true,
+      config: { ...this.thermostatConfig },
+      ...this.thermostatState,
+      autoTune: { ...this.autoTuneState }
+    };
+  }
+  
   /**
    * Retorna o estado atual do ciclo para informação no frontend
    */
   public getCycleState(): {
     success: boolean;
+    mode: PumpControlMode;
     active: boolean;
     pumpStatus: boolean;
     startTime: number;
     timeRemaining: number;
     currentTimerValue: number; 
     currentTimerTotal: number;
+    schedule: string | null;
+    heaterSchedule: string | null;
   } {
     return {
       success: true,
+      mode: this.pumpLevelConfig.mode,
       active: this.cycleState.isActive,
       pumpStatus: this.cycleState.pumpStatus,
       startTime: this.cycleState.startTime,
       timeRemaining: this.cycleState.timeRemaining,
       currentTimerValue: this.cycleState.currentTimer,
-      currentTimerTotal: this.cycleState.currentTimerTotal
+      currentTimerTotal: this.cycleState.currentTimerTotal,
+      schedule: this.pumpSchedule?.name ?? null,
+      heaterSchedule: this.heaterSchedule?.name ?? null
     };
   }
 }
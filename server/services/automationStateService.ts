@@ -0,0 +1,177 @@
+/**
+ * Persistência do estado da automação
+ * Guarda o último estado conhecido dos atuadores de cada tanque (bomba, aquecedor, modo de operação,
+ * temperatura alvo, temporizadores e vazão) e a fase do ciclo automático da bomba, para que um
+ * reinício do servidor retome de onde parou em vez de voltar aos valores padrão.
+ */
+
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+export interface PersistedDeviceStatus {
+  pumpStatus: boolean;
+  heaterStatus: boolean;
+  operationMode: boolean;
+  targetTemp: number;
+  pumpOnTimer: number;
+  pumpOffTimer: number;
+  pumpFlow: number;
+  updatedAt: number;
+}
+
+export interface PersistedCycleState {
+  isActive: boolean;
+  pumpStatus: boolean;   // estado da bomba na fase atual
+  startedAt: number;     // início da fase atual
+  timerTotal: number;    // duração da fase atual em segundos
+  updatedAt: number;
+}
+
+export interface PersistedAutomationState {
+  deviceId: number;
+  status: PersistedDeviceStatus | null;
+  cycle: PersistedCycleState | null;
+}
+
+// As gravações são feitas uma de cada vez para não abrir conexões concorrentes
+let writeChain: Promise<void> = Promise.resolve();
+
+async function openDb(): Promise<Database> {
+  // Tabela automation_state: migração 10 do banco principal
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function toAutomationState(row: any): PersistedAutomationState {
+  return {
+    deviceId: row.device_id,
+    status: row.status_updated_at === null ? null : {
+      pumpStatus: row.pump_status === 1,
+      heaterStatus: row.heater_status === 1,
+      operationMode: row.operation_mode === 1,
+      targetTemp: row.target_temp,
+      pumpOnTimer: row.pump_on_timer,
+      pumpOffTimer: row.pump_off_timer,
+      pumpFlow: row.pump_flow,
+      updatedAt: row.status_updated_at
+    },
+    cycle: row.cycle_updated_at === null ? null : {
+      isActive: row.cycle_active === 1,
+      pumpStatus: row.cycle_pump_status === 1,
+      startedAt: row.cycle_started_at,
+      timerTotal: row.cycle_timer_total,
+      updatedAt: row.cycle_updated_at
+    }
+  };
+}
+
+function enqueueWrite(label: string, sql: string, params: any[]): Promise<void> {
+  writeChain = writeChain
+    .then(async () => {
+      const db = await openDb();
+      try {
+        await db.run(sql, params);
+      } finally {
+        await db.close();
+      }
+    })
+    .catch(error => {
+      console.error(`❌ Erro ao gravar ${label}:`, error);
+    });
+  return writeChain;
+}
+
+/**
+ * Lista o estado gravado de todos os tanques
+ */
+export async function loadAutomationStates(): Promise<PersistedAutomationState[]> {
+  const db = await openDb();
+  try {
+    const rows = await db.all(`SELECT * FROM automation_state ORDER BY device_id ASC`);
+    return rows.map(toAutomationState);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Busca o estado gravado de um tanque; retorna null se nunca foi gravado
+ */
+export async function loadAutomationState(deviceId: number): Promise<PersistedAutomationState | null> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM automation_state WHERE device_id = ?`, [deviceId]);
+    return row ? toAutomationState(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Grava o estado dos atuadores de um tanque
+ * Os erros são registrados sem interromper o comando que originou a gravação
+ */
+export function saveDeviceStatus(deviceId: number, status: PersistedDeviceStatus): Promise<void> {
+  return enqueueWrite(
+    'estado dos atuadores',
+    `INSERT INTO automation_state (
+      device_id, pump_status, heater_status, operation_mode, target_temp,
+      pump_on_timer, pump_off_timer, pump_flow, status_updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(device_id) DO UPDATE SET
+      pump_status = excluded.pump_status,
+      heater_status = excluded.heater_status,
+      operation_mode = excluded.operation_mode,
+      target_temp = excluded.target_temp,
+      pump_on_timer = excluded.pump_on_timer,
+      pump_off_timer = excluded.pump_off_timer,
+      pump_flow = excluded.pump_flow,
+      status_updated_at = excluded.status_updated_at`,
+    [
+      deviceId,
+      status.pumpStatus ? 1 : 0,
+      status.heaterStatus ? 1 : 0,
+      status.operationMode ? 1 : 0,
+      status.targetTemp,
+      status.pumpOnTimer,
+      status.pumpOffTimer,
+      status.pumpFlow,
+      status.updatedAt
+    ]
+  );
+}
+
+/**
+ * Grava a fase atual do ciclo automático da bomba de um tanque
+ */
+export function saveCycleState(deviceId: number, cycle: PersistedCycleState): Promise<void> {
+  return enqueueWrite(
+    'estado do ciclo automático',
+    `INSERT INTO automation_state (
+      device_id, cycle_active, cycle_pump_status, cycle_started_at, cycle_timer_total, cycle_updated_at
+    ) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(device_id) DO UPDATE SET
+      cycle_active = excluded.cycle_active,
+      cycle_pump_status = excluded.cycle_pump_status,
+      cycle_started_at = excluded.cycle_started_at,
+      cycle_timer_total = excluded.cycle_timer_total,
+      cycle_updated_at = excluded.cycle_updated_at`,
+    [
+      deviceId,
+      cycle.isActive ? 1 : 0,
+      cycle.pumpStatus ? 1 : 0,
+      cycle.startedAt,
+      cycle.timerTotal,
+      cycle.updatedAt
+    ]
+  );
+}
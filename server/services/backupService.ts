@@ -2,7 +2,9 @@ import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { Reading } from '@shared/schema';
+import { Reading, readingFromRow } from '@shared/reading';
+import { migrateDatabase } from './migrationService';
+import { assertSqliteReadings } from '../utils/storageBackend';
 
 // Caminho correto para os arquivos de banco de dados
 const MAIN_DB_PATH = path.resolve(process.cwd(), 'aquaponia.db');
@@ -70,122 +72,12 @@ export class BackupService {
   }
 
   /**
-   * Cria as tabelas necessárias no banco de backup
+   * Cria ou atualiza as tabelas do banco de backup pelas migrações versionadas
+   * e insere os valores padrão
    */
   private async createBackupTables() {
     try {
-      // Tabela readings com campos adicionais
-      await this.backupDb.exec(`
-        CREATE TABLE IF NOT EXISTS readings (
-          id INTEGER PRIMARY KEY,
-          temperature REAL NOT NULL,
-          level REAL NOT NULL,
-          pump_status INTEGER NOT NULL,
-          heater_status INTEGER NOT NULL,
-          timestamp TEXT NOT NULL,
-          temperature_trend REAL DEFAULT 0,
-          level_trend REAL DEFAULT 0,
-          is_temp_critical INTEGER DEFAULT 0,
-          is_level_critical INTEGER DEFAULT 0,
-          data_source TEXT DEFAULT 'thingspeak',
-          data_quality REAL DEFAULT 1.0
-        )
-      `);
-
-      // Tabela de setpoints (igual à principal)
-      await this.backupDb.exec(`
-        CREATE TABLE IF NOT EXISTS setpoints (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          temp_min REAL DEFAULT 25.0,
-          temp_max REAL DEFAULT 28.0,
-          level_min REAL DEFAULT 60.0,
-          level_max REAL DEFAULT 80.0,
-          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
-
-      // Tabela de configurações (compatível com o banco principal)
-      await this.backupDb.exec(`
-        CREATE TABLE IF NOT EXISTS settings (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          system_name TEXT DEFAULT 'Aquaponia',
-          update_interval INTEGER DEFAULT 1,
-          data_retention INTEGER DEFAULT 30,
-          email_alerts INTEGER DEFAULT 1,
-          push_alerts INTEGER DEFAULT 1,
-          alert_email TEXT DEFAULT NULL,
-          temp_critical_min REAL DEFAULT 18.0,
-          temp_warning_min REAL DEFAULT 20.0,
-          temp_warning_max REAL DEFAULT 28.0,
-          temp_critical_max REAL DEFAULT 30.0,
-          level_critical_min INTEGER DEFAULT 50,
-          level_warning_min INTEGER DEFAULT 60,
-          level_warning_max INTEGER DEFAULT 85,
-          level_critical_max INTEGER DEFAULT 90,
-          updated_at TEXT DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
-
-      // Verificar se a coluna 'key' existe na tabela settings
-      // Esta verificação é necessária para compatibilidade com a versão
-      // utilizada no Render e em outros ambientes de hospedagem
-      try {
-        // Consultar informações da tabela settings
-        const tableInfo = await this.backupDb.all("PRAGMA table_info(settings)");
-        
-        // Verificar se a coluna 'key' existe
-        const hasKeyColumn = tableInfo.some((col: any) => col.name === 'key');
-        const hasValueColumn = tableInfo.some((col: any) => col.name === 'value');
-        
-        // Se a coluna 'key' não existir, adicioná-la
-        if (!hasKeyColumn) {
-          console.log('⚠️ Coluna "key" não encontrada na tabela settings. Adicionando...');
-          await this.backupDb.exec('ALTER TABLE settings ADD COLUMN key TEXT');
-        }
-        
-        // Se a coluna 'value' não existir, adicioná-la
-        if (!hasValueColumn) {
-          console.log('⚠️ Coluna "value" não encontrada na tabela settings. Adicionando...');
-          await this.backupDb.exec('ALTER TABLE settings ADD COLUMN value TEXT');
-        }
-        
-        console.log('✅ Verificação e correção do esquema da tabela settings concluída');
-      } catch (schemaError) {
-        console.error('❌ Erro ao verificar ou modificar o esquema da tabela settings:', schemaError);
-        // Continuar a execução, não interromper todo o processo por causa deste erro
-      }
-
-      // Tabela de alertas (nova tabela para backup)
-      await this.backupDb.exec(`
-        CREATE TABLE IF NOT EXISTS alerts (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          type TEXT NOT NULL,
-          severity TEXT NOT NULL,
-          message TEXT NOT NULL,
-          reading_id INTEGER NOT NULL,
-          created_at TEXT DEFAULT CURRENT_TIMESTAMP,
-          is_acknowledged INTEGER DEFAULT 0,
-          FOREIGN KEY (reading_id) REFERENCES readings (id)
-        )
-      `);
-
-      // Tabela de estatísticas diárias (nova tabela para backup)
-      await this.backupDb.exec(`
-        CREATE TABLE IF NOT EXISTS daily_stats (
-          id INTEGER PRIMARY KEY AUTOINCREMENT,
-          date TEXT UNIQUE NOT NULL,
-          min_temperature REAL NOT NULL,
-          max_temperature REAL NOT NULL,
-          avg_temperature REAL NOT NULL,
-          min_level REAL NOT NULL,
-          max_level REAL NOT NULL,
-          avg_level REAL NOT NULL,
-          pump_active_time INTEGER DEFAULT 0,
-          heater_active_time INTEGER DEFAULT 0,
-          reading_count INTEGER NOT NULL,
-          created_at TEXT DEFAULT CURRENT_TIMESTAMP
-        )
-      `);
+      await migrateDatabase('backup');
     } catch (error) {
       console.error('❌ Erro ao criar tabelas de backup:', error);
       throw error;
@@ -221,8 +113,11 @@ export class BackupService {
    * Sincroniza os dados do banco principal para o banco de backup
    * @param days Número de dias para importar do ThingSpeak (padrão: 1)
    * @param batchSize Tamanho do lote para processamento em grupo (padrão: 100)
+   * @throws ConflictError com STORAGE_BACKEND=postgres (o backup copia a tabela readings do SQLite)
    */
   async syncData(days: number = 1, batchSize: number = 100) {
+    assertSqliteReadings('O backup');
+
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -282,7 +177,7 @@ export class BackupService {
         
         // Processar e inserir cada nova leitura
         for (const reading of newReadings) {
-          await this.processAndInsertReading(reading);
+          await this.processAndInsertReading(readingFromRow(reading));
         }
         
         // Confirmar transação
@@ -419,7 +314,8 @@ export class BackupService {
           reading.level,
           reading.pumpStatus ? 1 : 0,
           reading.heaterStatus ? 1 : 0,
-          reading.timestamp,
+          // No backup as datas ficam em texto ISO (consultadas com date() e comparadas com toISOString())
+          new Date(reading.timestamp).toISOString(),
           temperatureTrend,
           levelTrend,
           isTempCritical ? 1 : 0,
@@ -542,6 +438,8 @@ export class BackupService {
    * Obtém informações sobre o último backup
    */
   async getLastBackupInfo(): Promise<LastBackupInfo> {
+    assertSqliteReadings('O backup');
+
     if (!this.isInitialized) {
       await this.initialize();
     }
@@ -615,6 +513,8 @@ export class BackupService {
    * Obtém estatísticas do banco de backup
    */
   async getBackupStats(): Promise<BackupStats> {
+    assertSqliteReadings('O backup');
+
     if (!this.isInitialized) {
       await this.initialize();
     }
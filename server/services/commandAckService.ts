@@ -0,0 +1,175 @@
+/**
+ * Acompanhamento da confirmação de comandos pelo canal de feedback
+ *
+ * Depois que o transporte aceita um comando, o dispositivo deve refletir os valores aplicados
+ * no canal de feedback (Canal 2: field1-field6 = field3-field8 do Canal 1). Este serviço compara
+ * cada comando pendente com o feedback publicado após o envio e marca o comando como:
+ * - confirmed: o dispositivo informou os valores enviados
+ * - contradicted: o dispositivo informou outros valores até o fim do prazo
+ * - timed_out: nenhum feedback posterior ao envio chegou dentro do prazo
+ * - superseded: todos os campos foram alterados por um comando mais recente
+ *
+ * Cada tanque é comparado com o canal de feedback do seu próprio transporte.
+ */
+import { commandQueue, DeviceCommand } from './commandQueueService';
+import { TelemetryFeed, TelemetryFields } from './telemetryTransport';
+import { getTransportForDevice } from './deviceService';
+import { parseThingspeakNumber } from './thingspeakConfig';
+import { logSystemEvent } from './historicalDataService';
+
+// Prazo para o dispositivo confirmar um comando (padrão: 2 minutos)
+const ACK_TIMEOUT_MS = parseInt(process.env.COMMAND_ACK_TIMEOUT_MS || '120000');
+// Intervalo entre consultas ao canal de feedback enquanto houver comandos pendentes
+const CHECK_INTERVAL_MS = 15000;
+// Tolerância na comparação de valores numéricos
+const VALUE_TOLERANCE = 0.01;
+
+// Campo do Canal 1 -> campo correspondente no canal de feedback
+const FEEDBACK_FIELD_MAP: Record<string, keyof TelemetryFeed> = {
+  field3: 'field1',
+  field4: 'field2',
+  field5: 'field3',
+  field6: 'field4',
+  field7: 'field5',
+  field8: 'field6'
+};
+
+class CommandAckService {
+  private static instance: CommandAckService;
+  private checkInterval: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  private constructor() {}
+
+  public static getInstance(): CommandAckService {
+    if (!CommandAckService.instance) {
+      CommandAckService.instance = new CommandAckService();
+    }
+    return CommandAckService.instance;
+  }
+
+  /**
+   * Inicia a verificação periódica dos comandos pendentes
+   */
+  start() {
+    if (this.checkInterval) return;
+    this.checkInterval = setInterval(() => this.checkPendingCommands(), CHECK_INTERVAL_MS);
+    console.log(`✅ Acompanhamento de confirmações iniciado (prazo de ${ACK_TIMEOUT_MS / 1000}s)`);
+  }
+
+  stop() {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Compara os comandos pendentes com o último feedback do dispositivo
+   */
+  async checkPendingCommands(): Promise<void> {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const pending = await commandQueue.listAwaitingConfirmation();
+      if (pending.length === 0) return;
+
+      // Comandos aceitos recentemente, usados para detectar campos sobrescritos
+      const { commands: recent } = await commandQueue.listCommands({ state: 'acknowledged', limit: 200 });
+
+      // Último feedback de cada tanque com comandos pendentes
+      const feeds = new Map<number, TelemetryFeed | null>();
+      for (const deviceId of Array.from(new Set(pending.map(command => command.deviceId)))) {
+        let deviceFeed: TelemetryFeed | null = null;
+        try {
+          deviceFeed = await (await getTransportForDevice(deviceId)).fetchFeedbackFeed();
+        } catch (error) {
+          console.warn(`⚠️ Não foi possível consultar o canal de feedback do tanque ${deviceId}:`, error);
+        }
+        feeds.set(deviceId, deviceFeed);
+      }
+
+      const now = Date.now();
+
+      for (const command of pending) {
+        const feed = feeds.get(command.deviceId) || null;
+        const feedTime = feed?.created_at ? new Date(feed.created_at).getTime() : 0;
+
+        // Campos alterados para outro valor por comandos mais recentes do mesmo tanque não são comparados
+        const newer = recent.filter(other => other.id > command.id && other.deviceId === command.deviceId);
+        const expected = this.getCommandFields(command).filter(field =>
+          !newer.some(other => {
+            const key = field as keyof TelemetryFields;
+            return key in other.fields && !this.valuesMatch(command.fields[key], other.fields[key]);
+          })
+        );
+
+        if (expected.length === 0) {
+          await commandQueue.setConfirmation(command.id, 'superseded');
+          continue;
+        }
+
+        const sentAt = command.sentAt || command.acknowledgedAt || command.createdAt;
+        const expired = now - sentAt > ACK_TIMEOUT_MS;
+
+        // Feedback anterior ao envio ainda não reflete o comando
+        if (!feed || feedTime < sentAt) {
+          if (expired) {
+            await commandQueue.setConfirmation(command.id, 'timed_out');
+            console.warn(`⚠️ Comando #${command.id} sem confirmação do dispositivo`);
+            await logSystemEvent(
+              'warning',
+              `Comando #${command.id} sem confirmação do dispositivo`,
+              JSON.stringify({ fields: command.fields, timeoutMs: ACK_TIMEOUT_MS }),
+              command.deviceId
+            );
+          }
+          continue;
+        }
+
+        const reported: TelemetryFields = {};
+        const mismatched: string[] = [];
+        for (const field of expected) {
+          const value = feed[FEEDBACK_FIELD_MAP[field]];
+          reported[field as keyof TelemetryFields] = value ?? undefined;
+          if (!this.valuesMatch(command.fields[field as keyof TelemetryFields], value)) {
+            mismatched.push(field);
+          }
+        }
+
+        if (mismatched.length === 0) {
+          await commandQueue.setConfirmation(command.id, 'confirmed', reported);
+          console.log(`✅ Comando #${command.id} confirmado pelo dispositivo`);
+        } else if (expired) {
+          await commandQueue.setConfirmation(command.id, 'contradicted', reported);
+          console.warn(`⚠️ Comando #${command.id} contrariado pelo dispositivo: ${mismatched.join(', ')}`);
+          await logSystemEvent(
+            'warning',
+            `Comando #${command.id} contrariado pelo canal de feedback`,
+            JSON.stringify({ expected: command.fields, reported, mismatched }),
+            command.deviceId
+          );
+        } else {
+          // O dispositivo pode ainda não ter aplicado o comando; registrar e aguardar
+          await commandQueue.setConfirmation(command.id, 'pending', reported);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Erro ao verificar confirmação de comandos:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  private getCommandFields(command: DeviceCommand): string[] {
+    return Object.keys(command.fields).filter(field => field in FEEDBACK_FIELD_MAP);
+  }
+
+  private valuesMatch(expected: unknown, reported: unknown): boolean {
+    if (reported === null || reported === undefined || reported === '') return false;
+    return Math.abs(parseThingspeakNumber(expected) - parseThingspeakNumber(reported)) < VALUE_TOLERANCE;
+  }
+}
+
+export const commandAckService = CommandAckService.getInstance();
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { TelemetryFields, TelemetryTransport } from './telemetryTransport';
+import { commandQueue } from './commandQueueService';
+
+const writes: TelemetryFields[] = [];
+let acceptWrites = true;
+
+const transport: TelemetryTransport = {
+  name: 'test',
+  description: 'Transporte de teste',
+  minWriteIntervalMs: 0,
+  fetchLatestFeeds: async () => [],
+  fetchFeedsInRange: async () => [],
+  fetchFeedbackFeed: async () => null,
+  writeFields: async (fields) => {
+    writes.push(fields);
+    return acceptWrites;
+  }
+};
+
+vi.mock('./deviceService', () => ({
+  getTransportForDevice: async () => transport
+}));
+
+async function waitUntil(condition: () => Promise<boolean>, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error('Tempo esgotado aguardando a condição');
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('commandQueue', () => {
+  beforeEach(() => {
+    writes.length = 0;
+    acceptWrites = true;
+  });
+
+  it('envia o comando e resolve quem aguarda', async () => {
+    const accepted = await commandQueue.send({ field3: 1 }, { source: 'test', deviceId: 11 });
+
+    expect(accepted).toBe(true);
+    expect(writes).toEqual([{ field3: 1 }]);
+  });
+
+  it('agrupa comandos ainda não enviados do mesmo tanque', async () => {
+    acceptWrites = false;
+    const first = await commandQueue.enqueue({ field3: 1 }, { deviceId: 12 });
+    await waitUntil(async () => (await commandQueue.getCommand(first))!.retries === 1);
+
+    acceptWrites = true;
+    const second = await commandQueue.enqueue({ field4: 0 }, { deviceId: 12 });
+
+    expect(second).toBe(first);
+    expect(await commandQueue.waitFor(second)).toBe(true);
+    expect(writes.at(-1)).toEqual({ field3: 1, field4: 0 });
+  });
+
+  it('comando agrupado em um comando em backoff não herda tentativas nem espera', async () => {
+    acceptWrites = false;
+    const id = await commandQueue.enqueue({ field3: 1 }, { deviceId: 13 });
+    await waitUntil(async () => (await commandQueue.getCommand(id))!.retries === 1);
+
+    acceptWrites = true;
+    const startedAt = Date.now();
+    const coalesced = await commandQueue.enqueue({ field3: 0 }, { deviceId: 13 });
+    const command = (await commandQueue.getCommand(coalesced))!;
+
+    expect(coalesced).toBe(id);
+    expect(command.retries).toBe(0);
+
+    // Sem a espera de 2 s do backoff herdado, o envio é imediato
+    expect(await commandQueue.waitFor(coalesced)).toBe(true);
+    expect(Date.now() - startedAt).toBeLessThan(1500);
+    expect(writes.at(-1)).toEqual({ field3: 0 });
+  });
+});
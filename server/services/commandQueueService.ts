@@ -0,0 +1,526 @@
+/**
+ * Fila persistente de comandos para os dispositivos
+ *
+ * Cada comando é gravado na tabela device_commands antes de ser enviado pelo transporte de
+ * telemetria ativo, respeitando o intervalo mínimo entre escritas do transporte. Comandos ainda
+ * não enviados são agrupados (o valor mais recente de cada campo prevalece) e continuam na fila
+ * após uma reinicialização do servidor.
+ *
+ * Cada tanque tem sua própria fila, enviada pelo transporte do tanque (getTransportForDevice).
+ *
+ * Estados: queued -> sent -> acknowledged | failed
+ * Após aceito pelo transporte, a confirmação pelo dispositivo é acompanhada pelo commandAckService:
+ * pending -> confirmed | timed_out | contradicted | superseded
+ */
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import path from 'path';
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
+import { TelemetryFields, TelemetryTransport } from './telemetryTransport';
+import { getTransportForDevice } from './deviceService';
+import { migrateDatabase } from './migrationService';
+
+const DB_PATH = path.resolve(process.cwd(), 'aquaponia.db');
+
+// Configurações
+const MAX_RETRIES = 3;
+const WRITE_TIMEOUT_MS = 5000;
+const COMMAND_RETENTION_DAYS = 7;
+const PRUNE_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 horas
+
+export type CommandState = 'queued' | 'sent' | 'acknowledged' | 'failed';
+export type CommandConfirmation = 'pending' | 'confirmed' | 'timed_out' | 'contradicted' | 'superseded';
+
+// Campos de comando refletidos pelo dispositivo no canal de feedback
+const COMMAND_FIELDS = ['field3', 'field4', 'field5', 'field6', 'field7', 'field8'];
+
+export interface DeviceCommand {
+  id: number;
+  deviceId: number;
+  fields: TelemetryFields;
+  state: CommandState;
+  retries: number;
+  maxRetries: number;
+  coalescedFields: string[];
+  source: string;
+  transport: string | null;
+  createdAt: number;
+  updatedAt: number;
+  sentAt: number | null;
+  acknowledgedAt: number | null;
+  lastError: string | null;
+  confirmation: CommandConfirmation | null;
+  confirmedAt: number | null;
+  // Valores informados pelo dispositivo na última verificação
+  feedback: TelemetryFields | null;
+}
+
+export interface EnqueueOptions {
+  source?: string;
+  deviceId?: number;
+  maxRetries?: number;
+}
+
+export interface CommandListFilter {
+  deviceId?: number;
+  state?: CommandState;
+  confirmation?: CommandConfirmation;
+  limit?: number;
+  offset?: number;
+}
+
+export class CommandQueueService {
+  private static instance: CommandQueueService;
+  private db: Database<sqlite3.Database, sqlite3.Statement> | null = null;
+  private initPromise: Promise<void> | null = null;
+  private processing = false;
+  private timer: NodeJS.Timeout | null = null;
+  private timerDueAt = 0;
+  // Horário da última escrita em cada transporte (tanques podem compartilhar o mesmo canal)
+  private lastSendTime = new Map<TelemetryTransport, number>();
+  // Promessas aguardando a conclusão de cada comando
+  private waiters = new Map<number, ((success: boolean) => void)[]>();
+  // Serializa o acesso à fila entre enfileiramento e envio
+  private lock: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  public static getInstance(): CommandQueueService {
+    if (!CommandQueueService.instance) {
+      CommandQueueService.instance = new CommandQueueService();
+    }
+    return CommandQueueService.instance;
+  }
+
+  /**
+   * Abre o banco e retoma comandos pendentes
+   */
+  initialize(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.doInitialize().catch(error => {
+        this.initPromise = null;
+        console.error('❌ Erro ao inicializar fila de comandos:', error);
+        throw error;
+      });
+    }
+    return this.initPromise;
+  }
+
+  private async doInitialize(): Promise<void> {
+    // Tabela device_commands: migração 8 do banco principal
+    await migrateDatabase('main');
+
+    this.db = await open({
+      filename: DB_PATH,
+      driver: sqlite3.Database
+    });
+
+    // Comandos interrompidos durante o envio voltam para a fila
+    const interrupted = await this.db.run(
+      `UPDATE device_commands SET state = 'queued', updated_at = ? WHERE state = 'sent'`,
+      [Date.now()]
+    );
+    if (interrupted.changes) {
+      console.log(`🔄 ${interrupted.changes} comando(s) interrompido(s) retornaram para a fila`);
+    }
+
+    await this.prune();
+    setInterval(() => this.prune(), PRUNE_INTERVAL_MS);
+
+    const pending = await this.db.get(`SELECT COUNT(*) as count FROM device_commands WHERE state = 'queued'`);
+    console.log(`✅ Fila de comandos inicializada (${pending?.count || 0} pendente(s))`);
+
+    this.schedule(0);
+  }
+
+  private async getDb() {
+    await this.initialize();
+    return this.db!;
+  }
+
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.lock.then(fn);
+    this.lock = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Adiciona um comando à fila e retorna seu ID
+   * Se já houver um comando do mesmo tanque aguardando envio, os campos são agrupados nele
+   * @throws ConflictError se o tanque não tiver transporte próprio (ver getTransportForDevice)
+   */
+  async enqueue(fields: TelemetryFields, options: EnqueueOptions = {}): Promise<number> {
+    const db = await this.getDb();
+    const source = options.source || 'system';
+    const deviceId = options.deviceId ?? DEFAULT_DEVICE_ID;
+    const maxRetries = options.maxRetries ?? MAX_RETRIES;
+
+    await getTransportForDevice(deviceId);
+
+    const id = await this.exclusive(async () => {
+      const now = Date.now();
+      const pending = await db.get(
+        `SELECT * FROM device_commands WHERE state = 'queued' AND device_id = ? ORDER BY id DESC LIMIT 1`,
+        [deviceId]
+      );
+
+      if (pending) {
+        const existing: TelemetryFields = JSON.parse(pending.fields);
+        const coalesced = new Set<string>(JSON.parse(pending.coalesced_fields || '[]'));
+        Object.keys(fields).forEach(field => {
+          if (field in existing) coalesced.add(field);
+        });
+
+        const sources = new Set(String(pending.source).split(','));
+        sources.add(source);
+
+        // O comando agrupado é novo: não herda as tentativas nem a espera do backoff do anterior
+        await db.run(
+          `UPDATE device_commands
+           SET fields = ?, coalesced_fields = ?, source = ?, max_retries = MAX(max_retries, ?),
+               retries = 0, next_attempt_at = NULL, updated_at = ?
+           WHERE id = ?`,
+          [
+            JSON.stringify({ ...existing, ...fields }),
+            JSON.stringify(Array.from(coalesced)),
+            Array.from(sources).join(','),
+            maxRetries,
+            now,
+            pending.id
+          ]
+        );
+
+        console.log(`🔄 Comando #${pending.id} agrupado: ${JSON.stringify(fields)}`);
+        return pending.id as number;
+      }
+
+      const result = await db.run(
+        `INSERT INTO device_commands (device_id, fields, state, max_retries, source, created_at, updated_at)
+         VALUES (?, ?, 'queued', ?, ?, ?, ?)`,
+        [deviceId, JSON.stringify(fields), maxRetries, source, now, now]
+      );
+
+      console.log(`📥 Comando #${result.lastID} enfileirado (tanque ${deviceId}): ${JSON.stringify(fields)}`);
+      return result.lastID!;
+    });
+
+    this.schedule(0);
+    return id;
+  }
+
+  /**
+   * Aguarda a conclusão de um comando (true = confirmado pelo transporte)
+   */
+  async waitFor(id: number): Promise<boolean> {
+    const db = await this.getDb();
+    const row = await db.get(`SELECT state FROM device_commands WHERE id = ?`, [id]);
+
+    if (!row) return false;
+    if (row.state === 'acknowledged') return true;
+    if (row.state === 'failed') return false;
+
+    return new Promise<boolean>(resolve => {
+      const list = this.waiters.get(id) || [];
+      list.push(resolve);
+      this.waiters.set(id, list);
+    });
+  }
+
+  /**
+   * Enfileira um comando e aguarda sua conclusão
+   */
+  async send(fields: TelemetryFields, options: EnqueueOptions = {}): Promise<boolean> {
+    const id = await this.enqueue(fields, options);
+    return this.waitFor(id);
+  }
+
+  private resolveWaiters(id: number, success: boolean) {
+    const list = this.waiters.get(id);
+    if (list) {
+      this.waiters.delete(id);
+      list.forEach(resolve => resolve(success));
+    }
+  }
+
+  private schedule(delayMs: number) {
+    const dueAt = Date.now() + Math.max(0, delayMs);
+    // Um processamento já agendado só é antecipado, nunca adiado
+    if (this.timer) {
+      if (this.timerDueAt <= dueAt) return;
+      clearTimeout(this.timer);
+    }
+    this.timerDueAt = dueAt;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.processQueue();
+    }, Math.max(0, delayMs));
+  }
+
+  /**
+   * Envia o comando mais antigo da fila cujo transporte esteja livre para escrita
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    let nextDelay: number | null = null;
+
+    try {
+      const db = await this.getDb();
+      let throttledDelay: number | null = null;
+
+      const selected = await this.exclusive(async () => {
+        const now = Date.now();
+        const rows = await db.all(
+          `SELECT * FROM device_commands
+           WHERE state = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+           ORDER BY id ASC`,
+          [now]
+        );
+
+        for (const row of rows) {
+          let rowTransport: TelemetryTransport;
+          try {
+            rowTransport = await getTransportForDevice(row.device_id);
+          } catch (error) {
+            // Comandos enfileirados antes de o tanque perder o canal próprio não são enviados a outro tanque
+            const message = error instanceof Error ? error.message : String(error);
+            await db.run(
+              `UPDATE device_commands SET state = 'failed', last_error = ?, updated_at = ? WHERE id = ?`,
+              [message, now, row.id]
+            );
+            console.error(`❌ Comando #${row.id} descartado: ${message}`);
+            this.resolveWaiters(row.id, false);
+            continue;
+          }
+
+          // Respeitar o intervalo mínimo entre escritas do transporte
+          const wait = (this.lastSendTime.get(rowTransport) || 0) + rowTransport.minWriteIntervalMs - now;
+          if (wait > 0) {
+            throttledDelay = throttledDelay === null ? wait : Math.min(throttledDelay, wait);
+            continue;
+          }
+
+          await db.run(
+            `UPDATE device_commands SET state = 'sent', sent_at = ?, transport = ?, updated_at = ? WHERE id = ?`,
+            [now, rowTransport.name, now, row.id]
+          );
+          return { command: row, transport: rowTransport };
+        }
+        return null;
+      });
+
+      if (!selected) {
+        nextDelay = throttledDelay;
+        // Pode haver comandos aguardando o próximo retry
+        const next = await db.get(
+          `SELECT MIN(next_attempt_at) as next FROM device_commands WHERE state = 'queued' AND next_attempt_at > ?`,
+          [Date.now()]
+        );
+        if (next?.next) {
+          const retryDelay = next.next - Date.now();
+          nextDelay = nextDelay === null ? retryDelay : Math.min(nextDelay, retryDelay);
+        }
+        return;
+      }
+
+      const { command, transport } = selected;
+
+      const fields: TelemetryFields = JSON.parse(command.fields);
+      console.log(`📤 Enviando comando #${command.id} via ${transport.name}: ${command.fields}`);
+
+      let accepted = false;
+      let errorMessage: string | null = null;
+
+      try {
+        accepted = await transport.writeFields(fields, WRITE_TIMEOUT_MS);
+        if (!accepted) {
+          errorMessage = 'Escrita recusada pelo destino (possível limite de taxa)';
+        }
+      } catch (error) {
+        errorMessage = error instanceof Error ? error.message : String(error);
+      }
+
+      this.lastSendTime.set(transport, Date.now());
+      const now = Date.now();
+
+      if (accepted) {
+        // Apenas campos de comando podem ser confirmados pelo canal de feedback
+        const confirmation = Object.keys(fields).some(field => COMMAND_FIELDS.includes(field)) ? 'pending' : null;
+        await db.run(
+          `UPDATE device_commands
+           SET state = 'acknowledged', acknowledged_at = ?, confirmation = ?, last_error = NULL, updated_at = ?
+           WHERE id = ?`,
+          [now, confirmation, now, command.id]
+        );
+        console.log(`✅ Comando #${command.id} aceito por ${transport.name}`);
+        this.resolveWaiters(command.id, true);
+      } else {
+        const retries = command.retries + 1;
+
+        if (retries >= command.max_retries) {
+          await db.run(
+            `UPDATE device_commands SET state = 'failed', retries = ?, last_error = ?, updated_at = ? WHERE id = ?`,
+            [retries, errorMessage, now, command.id]
+          );
+          console.error(`❌ Comando #${command.id} falhou após ${retries} tentativa(s): ${errorMessage}`);
+          this.resolveWaiters(command.id, false);
+        } else {
+          // Backoff exponencial antes da próxima tentativa
+          const backoff = Math.pow(2, retries) * 1000;
+          await db.run(
+            `UPDATE device_commands
+             SET state = 'queued', retries = ?, last_error = ?, next_attempt_at = ?, updated_at = ?
+             WHERE id = ?`,
+            [retries, errorMessage, now + backoff, now, command.id]
+          );
+          console.warn(`⚠️ Comando #${command.id} falhou (${retries}/${command.max_retries}): ${errorMessage}`);
+        }
+      }
+
+      nextDelay = 0;
+    } catch (error) {
+      console.error('❌ Erro ao processar fila de comandos:', error);
+      nextDelay = 5000;
+    } finally {
+      this.processing = false;
+      if (nextDelay !== null) {
+        this.schedule(nextDelay);
+      }
+    }
+  }
+
+  /**
+   * Remove comandos concluídos mais antigos que o período de retenção
+   */
+  private async prune(): Promise<void> {
+    try {
+      const cutoff = Date.now() - COMMAND_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+      const result = await this.db!.run(
+        `DELETE FROM device_commands WHERE state IN ('acknowledged', 'failed') AND created_at < ?`,
+        [cutoff]
+      );
+      if (result.changes) {
+        console.log(`🧹 ${result.changes} comando(s) antigo(s) removido(s) da fila`);
+      }
+    } catch (error) {
+      console.error('⚠️ Erro ao limpar comandos antigos:', error);
+    }
+  }
+
+  private toCommand(row: any): DeviceCommand {
+    return {
+      id: row.id,
+      deviceId: row.device_id,
+      fields: JSON.parse(row.fields),
+      state: row.state,
+      retries: row.retries,
+      maxRetries: row.max_retries,
+      coalescedFields: JSON.parse(row.coalesced_fields || '[]'),
+      source: row.source,
+      transport: row.transport,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      sentAt: row.sent_at,
+      acknowledgedAt: row.acknowledged_at,
+      lastError: row.last_error,
+      confirmation: row.confirmation,
+      confirmedAt: row.confirmed_at,
+      feedback: row.feedback ? JSON.parse(row.feedback) : null
+    };
+  }
+
+  /**
+   * Comandos aceitos pelo transporte que ainda aguardam confirmação do dispositivo
+   */
+  async listAwaitingConfirmation(): Promise<DeviceCommand[]> {
+    const db = await this.getDb();
+    const rows = await db.all(
+      `SELECT * FROM device_commands WHERE state = 'acknowledged' AND confirmation = 'pending' ORDER BY id ASC`
+    );
+    return rows.map(row => this.toCommand(row));
+  }
+
+  /**
+   * Registra o resultado da verificação de um comando contra o canal de feedback
+   */
+  async setConfirmation(
+    id: number,
+    confirmation: CommandConfirmation,
+    feedback: TelemetryFields | null = null
+  ): Promise<void> {
+    const db = await this.getDb();
+    const now = Date.now();
+    await db.run(
+      `UPDATE device_commands
+       SET confirmation = ?, confirmed_at = ?, feedback = COALESCE(?, feedback), updated_at = ?
+       WHERE id = ?`,
+      [
+        confirmation,
+        confirmation === 'pending' ? null : now,
+        feedback ? JSON.stringify(feedback) : null,
+        now,
+        id
+      ]
+    );
+  }
+
+  /**
+   * Busca um comando pelo ID
+   */
+  async getCommand(id: number): Promise<DeviceCommand | null> {
+    const db = await this.getDb();
+    const row = await db.get(`SELECT * FROM device_commands WHERE id = ?`, [id]);
+    return row ? this.toCommand(row) : null;
+  }
+
+  /**
+   * Lista os comandos mais recentes, opcionalmente filtrados por tanque e estado
+   */
+  async listCommands(filter: CommandListFilter = {}): Promise<{ commands: DeviceCommand[]; total: number }> {
+    const db = await this.getDb();
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.deviceId !== undefined) {
+      conditions.push('device_id = ?');
+      params.push(filter.deviceId);
+    }
+    if (filter.state) {
+      conditions.push('state = ?');
+      params.push(filter.state);
+    }
+    if (filter.confirmation) {
+      conditions.push('confirmation = ?');
+      params.push(filter.confirmation);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = await db.all(
+      `SELECT * FROM device_commands ${where} ORDER BY id DESC LIMIT ? OFFSET ?`,
+      [...params, filter.limit ?? 50, filter.offset ?? 0]
+    );
+    const total = await db.get(`SELECT COUNT(*) as count FROM device_commands ${where}`, params);
+
+    return {
+      commands: rows.map(row => this.toCommand(row)),
+      total: total?.count || 0
+    };
+  }
+
+  /**
+   * Contagem de comandos por estado
+   */
+  async getStats(): Promise<Record<CommandState, number>> {
+    const db = await this.getDb();
+    const rows = await db.all(`SELECT state, COUNT(*) as count FROM device_commands GROUP BY state`);
+    const stats: Record<CommandState, number> = { queued: 0, sent: 0, acknowledged: 0, failed: 0 };
+    rows.forEach(row => {
+      stats[row.state as CommandState] = row.count;
+    });
+    return stats;
+  }
+}
+
+export const commandQueue = CommandQueueService.getInstance();
@@ -3,6 +3,7 @@ import { open } from 'sqlite';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { migrateDatabase } from './migrationService';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -44,50 +45,18 @@ export async function createDb() {
 
   console.log('🔄 Connected to database');
 
-  // Create tables if they don't exist
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS readings (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      temperature REAL NOT NULL,
-      level REAL NOT NULL,
-      pump_status INTEGER DEFAULT 0,
-      heater_status INTEGER DEFAULT 0,
-      timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS setpoints (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      temp_min REAL DEFAULT 20.0 NOT NULL,
-      temp_max REAL DEFAULT 30.0 NOT NULL,
-      level_min INTEGER DEFAULT 60 NOT NULL,
-      level_max INTEGER DEFAULT 90 NOT NULL,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE TABLE IF NOT EXISTS settings (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      system_name TEXT DEFAULT 'Aquaponia' NOT NULL,
-      update_interval INTEGER DEFAULT 1 NOT NULL,
-      data_retention INTEGER DEFAULT 30 NOT NULL,
-      email_alerts INTEGER DEFAULT 1 NOT NULL,
-      push_alerts INTEGER DEFAULT 1 NOT NULL,
-      alert_email TEXT,
-      temp_critical_min REAL DEFAULT 18.0 NOT NULL,
-      temp_warning_min REAL DEFAULT 20.0 NOT NULL,
-      temp_warning_max REAL DEFAULT 28.0 NOT NULL,
-      temp_critical_max REAL DEFAULT 30.0 NOT NULL,
-      level_critical_min INTEGER DEFAULT 50 NOT NULL,
-      level_warning_min INTEGER DEFAULT 60 NOT NULL,
-      level_warning_max INTEGER DEFAULT 85 NOT NULL,
-      level_critical_max INTEGER DEFAULT 90 NOT NULL,
-      updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
-    );
-
-    CREATE INDEX IF NOT EXISTS idx_readings_timestamp ON readings(timestamp);
-  `);
+  // Criar ou atualizar as tabelas pelas migrações versionadas (ver server/migrations)
+  await migrateDatabase('main');
 
   console.log('✅ Database tables created successfully');
 
+  // Insert default device if it doesn't exist
+  await db.run(`
+    INSERT INTO devices (id, name, kind, created_at)
+    SELECT 1, 'Tanque principal', 'tank', ?
+    WHERE NOT EXISTS (SELECT 1 FROM devices WHERE id = 1);
+  `, [Date.now()]);
+
   // Insert default setpoints if they don't exist
   await db.run(`
     INSERT INTO setpoints (id, temp_min, temp_max, level_min, level_max)
@@ -155,34 +124,9 @@ export async function saveSettingsInDB(settings: any) {
       }
       
       try {
-        // Verificar se a tabela settings existe
-        const tableCheck = await db.get("SELECT name FROM sqlite_master WHERE type='table' AND name='settings'");
-        
-        if (!tableCheck) {
-          // Criar tabela se não existir
-          console.log('🔄 [databaseService] Criando tabela settings...');
-          await db.run(`
-            CREATE TABLE IF NOT EXISTS settings (
-              id INTEGER PRIMARY KEY,
-              temperature_min REAL,
-              temperature_max REAL,
-              level_min REAL,
-              level_max REAL,
-              temp_critical_min REAL,
-              temp_warning_min REAL,
-              temp_warning_max REAL,
-              temp_critical_max REAL,
-              level_critical_min REAL,
-              level_warning_min REAL,
-              level_warning_max REAL,
-              level_critical_max REAL,
-              updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-            )
-          `);
-          
-          // Inserir registro inicial
-          await db.run('INSERT INTO settings (id) VALUES (1)');
-        }
+        // Garantir que a tabela settings existe (criada pelas migrações) com o registro inicial
+        await migrateDatabase('main');
+        await db.run('INSERT INTO settings (id) SELECT 1 WHERE NOT EXISTS (SELECT 1 FROM settings WHERE id = 1)');
         
         // Construir a query de UPDATE
         const setClause = columns.map(col => `${col} = ?`).join(', ');
@@ -0,0 +1,146 @@
+/**
+ * Serviço de chaves de API por dispositivo
+ * Os nós NodeMCU usam essas chaves para enviar leituras diretamente ao servidor
+ * (POST /api/ingest), sem passar pelo ThingSpeak.
+ *
+ * Apenas o hash SHA-256 da chave é armazenado; a chave completa é exibida uma única vez.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+// Prefixo das chaves geradas, facilita identificar a origem em logs e firmwares
+const KEY_PREFIX = 'aqk_';
+
+export interface DeviceKeyInfo {
+  id: number;
+  name: string;
+  deviceId: number;
+  keyPrefix: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revoked: boolean;
+}
+
+async function openDb(): Promise<Database> {
+  // Tabela device_keys: migração 9 do banco principal (inclui a coluna device_id dos bancos antigos)
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function toDeviceKeyInfo(row: any): DeviceKeyInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    deviceId: row.device_id,
+    keyPrefix: row.key_prefix,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revoked: row.revoked === 1
+  };
+}
+
+/**
+ * Gera uma nova chave para o dispositivo informado
+ * Retorna a chave em texto puro, que não poderá ser recuperada depois
+ * @param deviceId Tanque ao qual as leituras enviadas com esta chave pertencem
+ */
+export async function createDeviceKey(
+  name: string,
+  deviceId: number = DEFAULT_DEVICE_ID
+): Promise<{ key: string; info: DeviceKeyInfo }> {
+  const key = KEY_PREFIX + crypto.randomBytes(24).toString('hex');
+  const keyPrefix = key.substring(0, KEY_PREFIX.length + 6);
+  const createdAt = Date.now();
+
+  const db = await openDb();
+  try {
+    const result = await db.run(
+      `INSERT INTO device_keys (name, device_id, key_hash, key_prefix, created_at) VALUES (?, ?, ?, ?, ?)`,
+      [name, deviceId, hashKey(key), keyPrefix, createdAt]
+    );
+
+    console.log(`🔑 Chave de dispositivo criada para "${name}" (${keyPrefix}…)`);
+
+    return {
+      key,
+      info: {
+        id: result.lastID!,
+        name,
+        deviceId,
+        keyPrefix,
+        createdAt,
+        lastUsedAt: null,
+        revoked: false
+      }
+    };
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Lista as chaves cadastradas (sem os hashes)
+ */
+export async function listDeviceKeys(): Promise<DeviceKeyInfo[]> {
+  const db = await openDb();
+  try {
+    const rows = await db.all(`SELECT * FROM device_keys ORDER BY created_at DESC`);
+    return rows.map(toDeviceKeyInfo);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Revoga uma chave; retorna false se a chave não existir
+ */
+export async function revokeDeviceKey(id: number): Promise<boolean> {
+  const db = await openDb();
+  try {
+    const result = await db.run(`UPDATE device_keys SET revoked = 1 WHERE id = ?`, [id]);
+    return (result.changes || 0) > 0;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Verifica uma chave recebida de um dispositivo e registra o último uso
+ * Retorna os dados da chave ou null se inválida/revogada
+ */
+export async function verifyDeviceKey(key: string): Promise<DeviceKeyInfo | null> {
+  if (!key) return null;
+
+  const db = await openDb();
+  try {
+    const row = await db.get(
+      `SELECT * FROM device_keys WHERE key_hash = ? AND revoked = 0`,
+      [hashKey(key)]
+    );
+
+    if (!row) return null;
+
+    const now = Date.now();
+    await db.run(`UPDATE device_keys SET last_used_at = ? WHERE id = ?`, [now, row.id]);
+
+    return toDeviceKeyInfo({ ...row, last_used_at: now });
+  } finally {
+    await db.close();
+  }
+}
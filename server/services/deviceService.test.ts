@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+
+const mocks = vi.hoisted(() => ({
+  global: { name: 'mqtt' }
+}));
+
+vi.mock('./telemetryTransport', () => ({ getTelemetryTransport: () => mocks.global }));
+
+import { createDevice, getTransportForDevice } from './deviceService';
+import { migrateDatabase } from './migrationService';
+import { ConflictError } from '../utils/errors';
+
+describe('getTransportForDevice', () => {
+  beforeAll(async () => {
+    await migrateDatabase('main');
+    // Ocupa o ID do tanque principal, como no banco criado pelo servidor
+    await createDevice({ name: 'Tanque principal' } as any);
+  });
+
+  it('usa o transporte global apenas no tanque principal', async () => {
+    mocks.global = { name: 'mqtt' };
+
+    expect(await getTransportForDevice(1)).toBe(mocks.global);
+    await expect(getTransportForDevice(2)).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  it('recusa tanques sem canal ThingSpeak próprio', async () => {
+    mocks.global = { name: 'thingspeak' };
+    const withoutChannel = await createDevice({ name: 'Sump' } as any);
+    const withChannel = await createDevice({ name: 'Grow bed', thingspeak_channel_id: '123', thingspeak_write_api_key: 'KEY' } as any);
+
+    await expect(getTransportForDevice(withoutChannel.id)).rejects.toBeInstanceOf(ConflictError);
+
+    const transport = await getTransportForDevice(withChannel.id);
+    expect(transport).not.toBe(mocks.global);
+    expect(transport.name).toBe('thingspeak');
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Serviço de tanques/dispositivos
+ * Uma instalação pode monitorar vários tanques (grow bed, tanque de peixes, sump).
+ * Leituras, setpoints, eventos e comandos são associados ao tanque pelo device_id.
+ *
+ * O tanque principal (DEFAULT_DEVICE_ID) é criado junto com o banco e usa o canal
+ * ThingSpeak configurado no .env; os demais podem ter canais próprios.
+ */
+
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { DEFAULT_DEVICE_ID, InsertDevice } from '@shared/schema';
+import { getTelemetryTransport, TelemetryTransport } from './telemetryTransport';
+import { ThingspeakTransport } from './thingspeakTransport';
+import { THINGSPEAK_BASE_URL } from './thingspeakConfig';
+import { ConflictError } from '../utils/errors';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+export interface DeviceInfo {
+  id: number;
+  name: string;
+  kind: string;
+  description: string | null;
+  // As chaves de API não são expostas, apenas os canais
+  thingspeakChannelId: string | null;
+  thingspeakFeedbackChannelId: string | null;
+  pumpWatts: number;
+  heaterWatts: number;
+  active: boolean;
+  createdAt: number;
+}
+
+// Colunas que podem ser alteradas pela API
+const UPDATABLE_COLUMNS: (keyof InsertDevice)[] = [
+  'name',
+  'kind',
+  'description',
+  'thingspeak_channel_id',
+  'thingspeak_read_api_key',
+  'thingspeak_write_api_key',
+  'thingspeak_feedback_channel_id',
+  'thingspeak_feedback_read_api_key',
+  'pump_watts',
+  'heater_watts',
+  'active'
+];
+
+// Transportes dos tanques com canal ThingSpeak próprio
+const deviceTransports = new Map<number, TelemetryTransport>();
+
+async function openDb(): Promise<Database> {
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function toDeviceInfo(row: any): DeviceInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    description: row.description,
+    thingspeakChannelId: row.thingspeak_channel_id,
+    thingspeakFeedbackChannelId: row.thingspeak_feedback_channel_id,
+    pumpWatts: row.pump_watts,
+    heaterWatts: row.heater_watts,
+    active: row.active === 1,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Lista os tanques cadastrados
+ * @param includeInactive Incluir tanques desativados
+ */
+export async function listDevices(includeInactive = false): Promise<DeviceInfo[]> {
+  const db = await openDb();
+  try {
+    const rows = await db.all(
+      `SELECT * FROM devices ${includeInactive ? '' : 'WHERE active = 1'} ORDER BY id ASC`
+    );
+    return rows.map(toDeviceInfo);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Busca um tanque pelo ID; retorna null se não existir
+ */
+export async function getDevice(id: number): Promise<DeviceInfo | null> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM devices WHERE id = ?`, [id]);
+    return row ? toDeviceInfo(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Cadastra um novo tanque com setpoints padrão
+ */
+export async function createDevice(data: InsertDevice): Promise<DeviceInfo> {
+  const db = await openDb();
+  try {
+    const createdAt = Date.now();
+    const result = await db.run(
+      `INSERT INTO devices (
+        name, kind, description,
+        thingspeak_channel_id, thingspeak_read_api_key, thingspeak_write_api_key,
+        thingspeak_feedback_channel_id, thingspeak_feedback_read_api_key,
+        pump_watts, heater_watts, active, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?)`,
+      [
+        data.name,
+        data.kind || 'tank',
+        data.description || null,
+        data.thingspeak_channel_id || null,
+        data.thingspeak_read_api_key || null,
+        data.thingspeak_write_api_key || null,
+        data.thingspeak_feedback_channel_id || null,
+        data.thingspeak_feedback_read_api_key || null,
+        data.pump_watts ?? 35,
+        data.heater_watts ?? 300,
+        createdAt
+      ]
+    );
+
+    await db.run(
+      `INSERT INTO setpoints (device_id, temp_min, temp_max, level_min, level_max) VALUES (?, 20.0, 30.0, 60, 90)`,
+      [result.lastID]
+    );
+
+    console.log(`✅ Tanque "${data.name}" cadastrado (ID ${result.lastID})`);
+
+    const row = await db.get(`SELECT * FROM devices WHERE id = ?`, [result.lastID]);
+    return toDeviceInfo(row);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Atualiza os dados de um tanque; retorna null se não existir
+ */
+export async function updateDevice(id: number, data: Partial<InsertDevice>): Promise<DeviceInfo | null> {
+  const columns = UPDATABLE_COLUMNS.filter(column => data[column] !== undefined);
+
+  const db = await openDb();
+  try {
+    if (columns.length > 0) {
+      const values = columns.map(column => {
+        const value = data[column];
+        return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+      });
+      await db.run(
+        `UPDATE devices SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?`,
+        [...values, id]
+      );
+    }
+
+    // O canal pode ter mudado, recriar o transporte na próxima utilização
+    await closeDeviceTransport(id);
+
+    const row = await db.get(`SELECT * FROM devices WHERE id = ?`, [id]);
+    return row ? toDeviceInfo(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Desativa um tanque (os dados históricos são preservados)
+ * O tanque principal não pode ser desativado
+ */
+export async function deactivateDevice(id: number): Promise<boolean> {
+  if (id === DEFAULT_DEVICE_ID) {
+    throw new ConflictError('O tanque principal não pode ser desativado');
+  }
+
+  const db = await openDb();
+  try {
+    const result = await db.run(`UPDATE devices SET active = 0 WHERE id = ?`, [id]);
+    await closeDeviceTransport(id);
+    return (result.changes || 0) > 0;
+  } finally {
+    await db.close();
+  }
+}
+
+async function closeDeviceTransport(id: number) {
+  const transport = deviceTransports.get(id);
+  if (transport) {
+    deviceTransports.delete(id);
+    await transport.close?.();
+  }
+}
+
+/**
+ * Retorna o transporte de telemetria de um tanque
+ * Só o tanque principal usa o transporte global: os tópicos MQTT e o canal do .env não identificam o
+ * tanque, e um comando de outro tanque acionaria a bomba ou o aquecedor do principal.
+ * @throws ConflictError se o tanque não tiver um canal ThingSpeak próprio
+ */
+export async function getTransportForDevice(id: number): Promise<TelemetryTransport> {
+  const cached = deviceTransports.get(id);
+  if (cached) return cached;
+
+  const global = getTelemetryTransport();
+  if (id === DEFAULT_DEVICE_ID) {
+    return global;
+  }
+  if (global.name !== 'thingspeak') {
+    throw new ConflictError(
+      `O tanque ${id} não pode receber comandos pelo transporte ${global.name}, que atende apenas o tanque principal`,
+      { deviceId: id, transport: global.name }
+    );
+  }
+
+  const db = await openDb();
+  let row: any;
+  try {
+    row = await db.get(`SELECT * FROM devices WHERE id = ?`, [id]);
+  } finally {
+    await db.close();
+  }
+
+  if (!row?.thingspeak_channel_id) {
+    throw new ConflictError(`O tanque ${id} não tem canal ThingSpeak próprio para receber comandos`, { deviceId: id });
+  }
+
+  const transport = new ThingspeakTransport(THINGSPEAK_BASE_URL, {
+    channelId: row.thingspeak_channel_id,
+    readApiKey: row.thingspeak_read_api_key || '',
+    writeApiKey: row.thingspeak_write_api_key || '',
+    feedbackChannelId: row.thingspeak_feedback_channel_id || '',
+    feedbackReadApiKeys: row.thingspeak_feedback_read_api_key ? [row.thingspeak_feedback_read_api_key] : []
+  });
+  deviceTransports.set(id, transport);
+  return transport;
+}
@@ -63,8 +63,8 @@ export async function sendAlertEmail(
   senderEmail: string,
   parameter: string,
   value: number,
-  min: number,
-  max: number
+  min: number | null,
+  max: number | null
 ): Promise<boolean> {
   const parameterName = parameter.charAt(0).toUpperCase() + parameter.slice(1);
   const subject = `🚨 Alerta do Sistema Aquapônico - ${parameterName} fora dos limites`;
@@ -75,8 +75,8 @@ export async function sendAlertEmail(
     Seu sistema aquapônico detectou um valor de ${parameterName} fora dos limites aceitáveis.
 
     - ${parameterName} atual: ${value}
-    - Limite mínimo: ${min}
-    - Limite máximo: ${max}
+    - Limite mínimo: ${min ?? '-'}
+    - Limite máximo: ${max ?? '-'}
 
     Recomendamos verificar o seu sistema assim que possível.
 
@@ -91,8 +91,8 @@ export async function sendAlertEmail(
       
       <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin: 20px 0;">
         <p><strong>${parameterName} atual:</strong> <span style="color: #d9534f; font-weight: bold;">${value}</span></p>
-        <p><strong>Limite mínimo:</strong> ${min}</p>
-        <p><strong>Limite máximo:</strong> ${max}</p>
+        <p><strong>Limite mínimo:</strong> ${min ?? '-'}</p>
+        <p><strong>Limite máximo:</strong> ${max ?? '-'}</p>
       </div>
       
       <p>Recomendamos verificar o seu sistema assim que possível.</p>
@@ -113,6 +113,110 @@ export async function sendAlertEmail(
   });
 }
 
+/**
+ * Envia o alerta de uma regra de automação
+ * @param email E-mail do destinatário
+ * @param senderEmail E-mail do remetente
+ * @param ruleName Nome da regra acionada
+ * @param message Descrição do acionamento
+ * @returns Promise<boolean> Indica se o alerta foi enviado com sucesso
+ */
+export async function sendRuleAlertEmail(
+  email: string,
+  senderEmail: string,
+  ruleName: string,
+  message: string
+): Promise<boolean> {
+  const subject = `🚨 Alerta do Sistema Aquapônico - Regra "${ruleName}"`;
+
+  const text = `
+    Olá,
+
+    A regra de automação "${ruleName}" foi acionada no seu sistema aquapônico.
+
+    ${message}
+
+    Este é um e-mail automatizado, por favor não responda.
+    Sistema de Monitoramento Aquapônico
+  `;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #ddd; border-radius: 5px;">
+      <h2 style="color: #d9534f;">🚨 Alerta do Sistema Aquapônico</h2>
+      <p>A regra de automação <strong>${ruleName}</strong> foi acionada no seu sistema aquapônico.</p>
+      
+      <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin: 20px 0;">
+        <p>${message}</p>
+      </div>
+      
+      <p style="color: #777; font-size: 0.9em; margin-top: 30px; border-top: 1px solid #eee; padding-top: 15px;">
+        Este é um e-mail automatizado, por favor não responda.<br>
+        <em>Sistema de Monitoramento Aquapônico</em>
+      </p>
+    </div>
+  `;
+
+  return sendEmail({
+    to: email,
+    from: senderEmail,
+    subject,
+    text,
+    html
+  });
+}
+
+/**
+ * Envia um e-mail de alerta de intertravamento de segurança
+ * @param email E-mail do destinatário
+ * @param senderEmail E-mail do remetente
+ * @param title Intertravamento violado
+ * @param message Descrição da violação e da ação tomada
+ * @returns Promise<boolean> Indica se o alerta foi enviado com sucesso
+ */
+export async function sendInterlockAlertEmail(
+  email: string,
+  senderEmail: string,
+  title: string,
+  message: string
+): Promise<boolean> {
+  const subject = `🚨 Alerta do Sistema Aquapônico - Intertravamento: ${title}`;
+
+  const text = `
+    Olá,
+
+    Um intertravamento de segurança foi acionado no seu sistema aquapônico: ${title}.
+
+    ${message}
+
+    Este é um e-mail automatizado, por favor não responda.
+    Sistema de Monitoramento Aquapônico
+  `;
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px; border: 1px solid #ddd; border-radius: 5px;">
+      <h2 style="color: #d9534f;">🚨 Alerta do Sistema Aquapônico</h2>
+      <p>Um intertravamento de segurança foi acionado no seu sistema aquapônico: <strong>${title}</strong>.</p>
+      
+      <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin: 20px 0;">
+        <p>${message}</p>
+      </div>
+      
+      <p style="color: #777; font-size: 0.9em; margin-top: 30px; border-top: 1px solid #eee; padding-top: 15px;">
+        Este é um e-mail automatizado, por favor não responda.<br>
+        <em>Sistema de Monitoramento Aquapônico</em>
+      </p>
+    </div>
+  `;
+
+  return sendEmail({
+    to: email,
+    from: senderEmail,
+    subject,
+    text,
+    html
+  });
+}
+
 /**
  * Envia um relatório diário por e-mail com as médias de parâmetros do sistema
  * @param email E-mail do destinatário
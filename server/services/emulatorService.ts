@@ -1,7 +1,9 @@
-import { InsertReading } from "@shared/schema";
+import { DEFAULT_DEVICE_ID } from "@shared/schema";
+import { readingFromFeed } from "@shared/reading";
 import { updateDeviceStatus } from "./thingspeakService";
 import { ThingspeakResponse } from "./thingspeakConfig";
-import { storage } from "../storage";
+import { interlockService } from "./interlockService";
+import { saveLiveReading, recordLiveSensorValues } from "./liveReadingService";
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -26,7 +28,15 @@ export interface EmulatorConfig {
     heaterStatus: boolean;
     pumpFlow: number; // 0-100%
   };
-  mode: 'stable' | 'fluctuating' | 'random' | 'scenario';
+  // Modelo térmico da água usado no modo 'thermal' (resposta ao aquecedor)
+  thermalModel: {
+    heaterRatePerMin: number; // °C/min com o aquecedor ligado em regime
+    lossRatePerMin: number;   // fração da diferença para o ambiente perdida por minuto
+    lagSec: number;           // atraso até o calor do aquecedor chegar à água
+    noise: number;            // ruído do sensor (± °C)
+    timeScale: number;        // minutos simulados por minuto real (acelera os testes)
+  };
+  mode: 'stable' | 'fluctuating' | 'random' | 'scenario' | 'thermal';
   scenarioName?: string;
 }
 
@@ -54,9 +64,28 @@ const DEFAULT_CONFIG: EmulatorConfig = {
     heaterStatus: false,
     pumpFlow: 70 // 70% por padrão
   },
+  thermalModel: {
+    heaterRatePerMin: 0.5,
+    lossRatePerMin: 0.05,
+    lagSec: 60,
+    noise: 0.02,
+    timeScale: 1
+  },
   mode: 'stable'
 };
 
+/**
+ * Sensores do registro (tabela sensors) simulados pelo emulador, com a faixa correspondente
+ */
+const VIRTUAL_SENSOR_KEYS: Record<string, keyof EmulatorConfig['sensorRanges']> = {
+  ph: 'phLevel',
+  dissolved_oxygen: 'oxygenLevel',
+  air_temperature: 'airTemp',
+  humidity: 'humidity',
+  flow_rate: 'flowRate',
+  pump_pressure: 'pumpPressure'
+};
+
 /**
  * Cenários pré-definidos para simulação
  */
@@ -135,6 +164,19 @@ const SCENARIOS: Record<string, EmulatorConfig> = {
       pumpFlow: 80
     },
     mode: 'fluctuating'
+  },
+  'testeTermico': {
+    ...DEFAULT_CONFIG,
+    sensorRanges: {
+      ...DEFAULT_CONFIG.sensorRanges,
+      waterTemp: { min: 0, max: 45, current: 22, fluctuation: 0 },
+      airTemp: { min: 20, max: 20, current: 20, fluctuation: 0 }
+    },
+    thermalModel: {
+      ...DEFAULT_CONFIG.thermalModel,
+      timeScale: 10
+    },
+    mode: 'thermal'
   }
 };
 
@@ -145,6 +187,9 @@ export class EmulatorService {
   private config: EmulatorConfig = DEFAULT_CONFIG;
   private intervalId: NodeJS.Timeout | null = null;
   private lastReading: ThingspeakResponse | null = null;
+  // Estado do modelo térmico: fração do calor do aquecedor que já chega à água (0-1)
+  private heaterEffect = 0;
+  private lastThermalStepAt: number | null = null;
 
   constructor() {
     // Carregar configuração salva ou usar padrão
@@ -199,6 +244,7 @@ export class EmulatorService {
     }
 
     this.config.enabled = true;
+    this.lastThermalStepAt = null;
     
     console.log(`🔄 Iniciando emulador NodeMCU no modo ${this.config.mode}...`);
     
@@ -271,6 +317,17 @@ export class EmulatorService {
     return this.lastReading;
   }
 
+  /**
+   * Valores atuais dos sensores adicionais simulados, pela chave do registro de sensores
+   */
+  getVirtualSensorValues(): Record<string, number> {
+    const values: Record<string, number> = {};
+    for (const [key, range] of Object.entries(VIRTUAL_SENSOR_KEYS)) {
+      values[key] = this.config.sensorRanges[range].current;
+    }
+    return values;
+  }
+
   /**
    * Retorna a configuração atual do emulador
    */
@@ -358,8 +415,10 @@ export class EmulatorService {
 
   /**
    * Controles manuais para os dispositivos
+   * Lançam InterlockError se o comando violar um intertravamento de segurança
    */
   setPumpStatus(status: boolean): void {
+    interlockService.authorize('pump', status, DEFAULT_DEVICE_ID, 'emulator');
     this.config.controlStates.pumpStatus = status;
     // Salvar configuração ao alterar estado da bomba
     this.saveConfigToFile();
@@ -367,6 +426,7 @@ export class EmulatorService {
   }
 
   setHeaterStatus(status: boolean): void {
+    interlockService.authorize('heater', status, DEFAULT_DEVICE_ID, 'emulator');
     this.config.controlStates.heaterStatus = status;
     // Salvar configuração ao alterar estado do aquecedor
     this.saveConfigToFile();
@@ -496,10 +556,28 @@ export class EmulatorService {
           } else {
             // Valores normais com flutuação
             reading.field1 = this.applyFluctuation('waterTemp').toString();
-            reading.field2 = (this.applyFluctuation('waterLevel') / 100).toString();
+            reading.field2 = this.applyFluctuation('waterLevel').toString();
           }
           break;
 
+        case 'thermal': {
+          // Temperatura da água responde ao aquecedor e às perdas para o ambiente
+          const thermalTemp = this.stepThermalModel();
+          
+          reading = {
+            ...reading,
+            field1: thermalTemp.toString(),
+            field2: this.config.sensorRanges.waterLevel.current.toString(),
+            field3: this.config.controlStates.pumpStatus ? '1' : '0',
+            field4: this.config.controlStates.heaterStatus ? '1' : '0',
+            field5: this.config.controlStates.pumpFlow.toString(),
+            field6: this.config.sensorRanges.airTemp.current.toString(),
+            field7: this.config.sensorRanges.flowRate.current.toString(),
+            field8: this.config.sensorRanges.humidity.current.toString()
+          };
+          break;
+        }
+
         default:
           // Caso padrão usa modo estável
           break;
@@ -509,16 +587,6 @@ export class EmulatorService {
       this.lastReading = reading;
       console.log('📊 Leitura simulada do NodeMCU:', reading);
 
-      // Criar leitura para salvar no banco
-      const insertReading: InsertReading = {
-        temperature: parseFloat(String(reading.field1 || '0')),
-        level: parseFloat(String(reading.field2 || '0')), // Já está na escala 0-1
-        pump_status: reading.field3 === '1' ? 1 : 0,
-        heater_status: reading.field4 === '1' ? 1 : 0
-      };
-
-      // Salvar no banco de dados
-      
       // LOG DEBUG: Verificando os valores antes de salvar
       console.log('🔍 [DEBUG] Valores para inserção:', {
         raw_field3: reading.field3,
@@ -529,18 +597,51 @@ export class EmulatorService {
         config_heaterStatus: this.config.controlStates.heaterStatus,
       });
       
-      // CORREÇÃO: Forçar consistência com os valores corretos
-      insertReading.pump_status = this.config.controlStates.pumpStatus ? 1 : 0;
-      insertReading.heater_status = this.config.controlStates.heaterStatus ? 1 : 0;
+      // Criar leitura para salvar no banco (nível já em %), forçando os estados da configuração atual
+      const insertReading = readingFromFeed(reading, {
+        pumpStatus: this.config.controlStates.pumpStatus,
+        heaterStatus: this.config.controlStates.heaterStatus
+      });
       
       // Salvar no banco de dados com valores consistentes
-      await storage.saveReading(insertReading);
+      await saveLiveReading(insertReading);
+      
+      // Sensores adicionais simulados (pH, oxigênio, vazão...) no mesmo instante da leitura
+      await recordLiveSensorValues(DEFAULT_DEVICE_ID, this.getVirtualSensorValues(), insertReading.timestamp);
 
     } catch (error) {
       console.error('Erro ao gerar leitura simulada:', error);
     }
   }
 
+  /**
+   * Avança o modelo térmico da água desde o último passo e retorna a nova temperatura
+   * 
+   * Modelo de primeira ordem com atraso no aquecedor:
+   * dT/dt = taxa do aquecedor × efeito atual - perdas × (T - T ambiente)
+   * O atraso reproduz o sobressinal observado com o controle liga/desliga.
+   */
+  private stepThermalModel(): number {
+    const now = Date.now();
+    const model = this.config.thermalModel;
+    const water = this.config.sensorRanges.waterTemp;
+    const airTemp = this.config.sensorRanges.airTemp.current;
+    
+    const dtSec = this.lastThermalStepAt === null ? 0 : ((now - this.lastThermalStepAt) / 1000) * model.timeScale;
+    this.lastThermalStepAt = now;
+    
+    // O calor do aquecedor chega à água gradualmente
+    const heaterInput = this.config.controlStates.heaterStatus ? 1 : 0;
+    this.heaterEffect += (heaterInput - this.heaterEffect) * Math.min(1, dtSec / Math.max(1, model.lagSec));
+    
+    const dtMin = dtSec / 60;
+    const delta = (model.heaterRatePerMin * this.heaterEffect - model.lossRatePerMin * (water.current - airTemp)) * dtMin;
+    water.current = Math.max(0, Math.min(45, water.current + delta));
+    
+    const noise = (Math.random() * 2 - 1) * model.noise;
+    return parseFloat((water.current + noise).toFixed(2));
+  }
+
   /**
    * Aplica flutuação aleatória a um valor dentro dos limites configurados
    */
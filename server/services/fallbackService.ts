@@ -1,4 +1,5 @@
-import { Reading } from '@shared/sqlite-schema';
+import { DEFAULT_DEVICE_ID } from '@shared/sqlite-schema';
+import { Reading, readingFromFeed } from '@shared/reading';
 import { 
   fetchLatestReading, 
   getCurrentDeviceStatus,
@@ -10,6 +11,11 @@ import {
   updatePumpOffTimer
 } from './thingspeakService';
 import { emulatorService } from './emulatorService';
+import { getActiveSensors, SensorInfo } from './sensorService';
+import { storage } from '../storage';
+
+// Idade máxima da última leitura gravada de um sensor adicional para ser considerada atual
+const SENSOR_VALUE_MAX_AGE_MS = 10 * 60 * 1000;
 
 // Tipo das leituras do ThingSpeak
 interface ThingspeakReading {
@@ -66,6 +72,15 @@ export interface SensorSources {
   pumpOffTimer: SensorSource;
 }
 
+// Valor atual de um sensor adicional do registro e a fonte usada
+export interface SensorValue {
+  sensor: SensorInfo;
+  value: number | null;
+  timestamp: number | null;
+  source: SensorSource | null; // null: sem leitura gravada nem valor virtual
+  stale: boolean; // a última leitura gravada é mais antiga que SENSOR_VALUE_MAX_AGE_MS
+}
+
 // Tipo para monitoramento de saúde dos sensores
 export interface SensorHealth {
   status: 'online' | 'offline' | 'unknown';
@@ -221,26 +236,21 @@ class FallbackService {
   }
   
   async getReading(): Promise<Reading> {
-    // Inicializar com timestamp
-    const timestamp = new Date();
-    
-    // Obter dados do emulador para uso como valores virtuais
+    // Obter dados do emulador para uso como valores virtuais (nível já em %)
     const emulatorData = emulatorService.getLastReading();
-    
-    // Extrair valores do emulador (convertendo conforme necessário)
-    const virtualTemp = emulatorData ? parseFloat(String(emulatorData.field1 || '0')) : 24.5;
-    const virtualLevel = emulatorData ? parseFloat(String(emulatorData.field2 || '0')) * 100 : 85; // Converte 0-1 para 0-100%
-    const virtualPumpStatus = emulatorData ? (emulatorData.field3 === '1' ? 1 : 0) : (this.config.pumpState ? 1 : 0);
-    const virtualHeaterStatus = emulatorData ? (emulatorData.field4 === '1' ? 1 : 0) : (this.config.heaterState ? 1 : 0);
+    const virtual = emulatorData
+      ? readingFromFeed(emulatorData)
+      : { temperature: 24.5, level: 85, pumpStatus: this.config.pumpState, heaterStatus: this.config.heaterState };
     
     // Início com valores virtuais para todos os sensores
     let reading: Reading = {
       id: 0,
-      timestamp: timestamp.getTime(),
-      temperature: virtualTemp,
-      level: virtualLevel / 100, // Converter de novo para 0-1 para compatibilidade no banco
-      pump_status: virtualPumpStatus,
-      heater_status: virtualHeaterStatus
+      deviceId: DEFAULT_DEVICE_ID,
+      timestamp: Date.now(),
+      temperature: virtual.temperature,
+      level: virtual.level,
+      pumpStatus: virtual.pumpStatus,
+      heaterStatus: virtual.heaterStatus
     };
     
     // Verificar quais sensores estão configurados como hardware
@@ -252,31 +262,11 @@ class FallbackService {
         const thingspeakData = await fetchLatestReading();
         
         if (thingspeakData) {
-          // O ThingSpeak retorna um tipo diferente do Reading
-          // Precisamos converter para o formato do Reading
-          let pumpStatusValue = 0;
-          let heaterStatusValue = 0;
-          
-          // Converter valores para pump e heater status verificando propriedades
-          if ('pumpStatus' in thingspeakData) {
-            const pumpStatus = (thingspeakData as any).pumpStatus;
-            pumpStatusValue = typeof pumpStatus === 'boolean' ? (pumpStatus ? 1 : 0) : Number(pumpStatus || 0);
-          } else if ('pump_status' in thingspeakData) {
-            pumpStatusValue = Number(thingspeakData.pump_status || 0);
-          }
-          
-          if ('heaterStatus' in thingspeakData) {
-            const heaterStatus = (thingspeakData as any).heaterStatus;
-            heaterStatusValue = typeof heaterStatus === 'boolean' ? (heaterStatus ? 1 : 0) : Number(heaterStatus || 0);
-          } else if ('heater_status' in thingspeakData) {
-            heaterStatusValue = Number(thingspeakData.heater_status || 0);
-          }
-          
           // Atualizar valores de saúde para todos os sensores, independente da fonte selecionada
           this.updateSensorHealthWithValue('temperature', thingspeakData.temperature);
           this.updateSensorHealthWithValue('level', thingspeakData.level);
-          this.updateSensorHealthWithValue('pumpStatus', pumpStatusValue);
-          this.updateSensorHealthWithValue('heaterStatus', heaterStatusValue);
+          this.updateSensorHealthWithValue('pumpStatus', thingspeakData.pumpStatus ? 1 : 0);
+          this.updateSensorHealthWithValue('heaterStatus', thingspeakData.heaterStatus ? 1 : 0);
           
           // Substituir apenas os valores dos sensores configurados como hardware
           if (this.sources.temperature === 'hardware' && this.isValidValue(thingspeakData.temperature)) {
@@ -287,12 +277,12 @@ class FallbackService {
             reading.level = thingspeakData.level;
           }
           
-          if (this.sources.pumpStatus === 'hardware' && this.isValidValue(pumpStatusValue)) {
-            reading.pump_status = pumpStatusValue;
+          if (this.sources.pumpStatus === 'hardware' && this.isValidValue(thingspeakData.pumpStatus)) {
+            reading.pumpStatus = thingspeakData.pumpStatus;
           }
           
-          if (this.sources.heaterStatus === 'hardware' && this.isValidValue(heaterStatusValue)) {
-            reading.heater_status = heaterStatusValue;
+          if (this.sources.heaterStatus === 'hardware' && this.isValidValue(thingspeakData.heaterStatus)) {
+            reading.heaterStatus = thingspeakData.heaterStatus;
           }
         } else {
           console.log('⚠️ Nenhum dado recebido do ThingSpeak, usando valores virtuais para sensores');
@@ -304,54 +294,61 @@ class FallbackService {
       console.log('ℹ️ Todos os sensores configurados como virtuais, usando emulador');
     }
     
-    // Obter o estado atual em memória como backup para controles (bomba e aquecedor)
-    const memoryState = getCurrentDeviceStatus();
-    
-    // Usar o estado em memória como último recurso para controles se hardware falhou
-    if (this.sources.pumpStatus === 'hardware' && !this.isValidValue(reading.pump_status)) {
-      reading.pump_status = memoryState.pumpStatus ? 1 : 0;
-      console.log('ℹ️ Usando estado em memória para pump_status:', reading.pump_status);
-    }
-    
-    if (this.sources.heaterStatus === 'hardware' && !this.isValidValue(reading.heater_status)) {
-      reading.heater_status = memoryState.heaterStatus ? 1 : 0;
-      console.log('ℹ️ Usando estado em memória para heater_status:', reading.heater_status);
-    }
-    
-    // Forçar valores virtuais para sensores configurados explicitamente como virtuais
-    // Esta etapa garante que mesmo que a lógica acima tenha alterado os valores,
-    // respeitamos estritamente a configuração do usuário
-    if (this.sources.temperature === 'virtual') {
-      reading.temperature = virtualTemp;
-    }
-    
-    if (this.sources.level === 'virtual') {
-      reading.level = virtualLevel / 100; // Novamente, converter para 0-1
-    }
-    
-    if (this.sources.pumpStatus === 'virtual') {
-      reading.pump_status = virtualPumpStatus;
-    }
-    
-    if (this.sources.heaterStatus === 'virtual') {
-      reading.heater_status = virtualHeaterStatus;
-    }
-    
-    // Sincronizar estado do emulador 
-    if (this.sources.pumpStatus === 'virtual') {
-      emulatorService.setPumpStatus(reading.pump_status === 1);
-    }
-    
-    if (this.sources.heaterStatus === 'virtual') {
-      emulatorService.setHeaterStatus(reading.heater_status === 1);
+    // Sincronizar estado do emulador (os intertravamentos podem recusar ligar um atuador)
+    try {
+      if (this.sources.pumpStatus === 'virtual') {
+        emulatorService.setPumpStatus(reading.pumpStatus);
+      }
+      
+      if (this.sources.heaterStatus === 'virtual') {
+        emulatorService.setHeaterStatus(reading.heaterStatus);
+      }
+    } catch (error) {
+      console.warn('⚠️ Estado virtual não sincronizado com o emulador:', error instanceof Error ? error.message : error);
     }
     
     // Registrar detalhes para debug com mais informações
-    console.log(`📊 Leitura final: temp=${reading.temperature.toFixed(1)}°C (${this.sources.temperature}), level=${(reading.level * 100).toFixed(1)}% (${this.sources.level}), pump=${reading.pump_status ? 'ON' : 'OFF'} (${this.sources.pumpStatus}), heater=${reading.heater_status ? 'ON' : 'OFF'} (${this.sources.heaterStatus})`);
+    console.log(`📊 Leitura final: temp=${reading.temperature.toFixed(1)}°C (${this.sources.temperature}), level=${reading.level.toFixed(1)}% (${this.sources.level}), pump=${reading.pumpStatus ? 'ON' : 'OFF'} (${this.sources.pumpStatus}), heater=${reading.heaterStatus ? 'ON' : 'OFF'} (${this.sources.heaterStatus})`);
     
     return reading;
   }
   
+  /**
+   * Valores atuais dos sensores adicionais de um tanque
+   * Usa a última leitura gravada quando recente; senão, no tanque principal, o valor simulado
+   * pelo emulador; sem nenhum dos dois, repete a última leitura marcada como desatualizada.
+   */
+  async getSensorValues(deviceId = DEFAULT_DEVICE_ID): Promise<SensorValue[]> {
+    const [sensors, latest] = await Promise.all([
+      getActiveSensors(),
+      storage.getLatestSensorReadings(deviceId)
+    ]);
+    const virtualValues: Record<string, number> = deviceId === DEFAULT_DEVICE_ID
+      ? emulatorService.getVirtualSensorValues()
+      : {};
+    const now = Date.now();
+    
+    return sensors.map(sensor => {
+      const stored = latest.find(reading => reading.sensorKey === sensor.key);
+      if (stored && now - stored.timestamp <= SENSOR_VALUE_MAX_AGE_MS) {
+        return { sensor, value: stored.value, timestamp: stored.timestamp, source: 'hardware', stale: false };
+      }
+      
+      const virtual = virtualValues[sensor.key];
+      if (virtual !== undefined) {
+        return { sensor, value: virtual, timestamp: now, source: 'virtual', stale: false };
+      }
+      
+      return {
+        sensor,
+        value: stored ? stored.value : null,
+        timestamp: stored ? stored.timestamp : null,
+        source: stored ? 'hardware' : null,
+        stale: stored !== undefined
+      };
+    });
+  }
+  
   // Verifica saúde de todos os sensores
   async checkSensorsHealth(): Promise<void> {
     console.log('🔍 Verificando saúde dos sensores...');
@@ -365,24 +362,8 @@ class FallbackService {
         await this.checkSensorHealth('temperature', thingspeakData.temperature);
         await this.checkSensorHealth('level', thingspeakData.level);
         
-        // Converter valores para pump e heater status
-        // Verificar se as propriedades existem no objeto
-        let pumpValue = 0;
-        let heaterValue = 0;
-        
-        if ('pumpStatus' in thingspeakData) {
-          const pumpStatus = (thingspeakData as any).pumpStatus;
-          pumpValue = typeof pumpStatus === 'boolean' ? (pumpStatus ? 1 : 0) : Number(pumpStatus || 0);
-        } else if ('pump_status' in thingspeakData) {
-          pumpValue = Number(thingspeakData.pump_status || 0);
-        }
-        
-        if ('heaterStatus' in thingspeakData) {
-          const heaterStatus = (thingspeakData as any).heaterStatus;
-          heaterValue = typeof heaterStatus === 'boolean' ? (heaterStatus ? 1 : 0) : Number(heaterStatus || 0);
-        } else if ('heater_status' in thingspeakData) {
-          heaterValue = Number(thingspeakData.heater_status || 0);
-        }
+        const pumpValue = thingspeakData.pumpStatus ? 1 : 0;
+        const heaterValue = thingspeakData.heaterStatus ? 1 : 0;
         
         await this.checkSensorHealth('pumpStatus', pumpValue);
         await this.checkSensorHealth('heaterStatus', heaterValue);
@@ -425,14 +406,13 @@ class FallbackService {
   // Atualizar estado de um dispositivo
   async updateDeviceState(device: 'pump' | 'heater', state: boolean): Promise<boolean> {
     // Atualizar estado virtual em ambos os serviços (fallback e emulador)
+    // O emulador é atualizado primeiro: um intertravamento lança erro antes de alterar o estado
     if (device === 'pump') {
-      this.config.pumpState = state;
-      // Atualizar também o emulador para manter consistência
       emulatorService.setPumpStatus(state);
+      this.config.pumpState = state;
     } else {
-      this.config.heaterState = state;
-      // Atualizar também o emulador para manter consistência
       emulatorService.setHeaterStatus(state);
+      this.config.heaterState = state;
     }
     
     // Se estiver usando fonte virtual para este dispositivo, retornar sucesso
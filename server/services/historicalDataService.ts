@@ -6,7 +6,9 @@
 import path from 'path';
 import sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
-import fs from 'fs';
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
+import { migrateDatabase } from './migrationService';
+import { assertSqliteReadings } from '../utils/storageBackend';
 
 // Caminho para o banco de dados
 const DB_PATH = path.resolve('./aquaponia.db');
@@ -16,6 +18,7 @@ export type PeriodType = 'hourly' | 'daily' | 'weekly' | 'monthly';
 
 // Interface para registros agregados
 export interface AggregatedData {
+  device_id: number;
   date: number; // timestamp
   period_type: PeriodType;
   avg_temperature: number;
@@ -29,6 +32,34 @@ export interface AggregatedData {
   records_count: number;
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Domingo que inicia a semana da linha diária (em segundos)
+const WEEK_START_SQL = `CAST(strftime('%s', date/1000, 'unixepoch', 'start of day', '-6 days', 'weekday 0') AS INTEGER)`;
+
+// Colunas da agregação semanal e mensal feita sobre as linhas diárias: médias ponderadas pelo
+// número de leituras de cada dia. Os percentuais voltam à fração (0-1) usada pelas leituras,
+// pois a inserção multiplica por 100 como nas demais agregações.
+const DAILY_ROLLUP_COLUMNS = `
+        SUM(avg_temperature * records_count) / SUM(records_count) as avg_temperature,
+        MIN(min_temperature) as min_temperature,
+        MAX(max_temperature) as max_temperature,
+        SUM(avg_level * records_count) / SUM(records_count) as avg_level,
+        MIN(min_level) as min_level,
+        MAX(max_level) as max_level,
+        SUM(pump_on_percentage * records_count) / SUM(records_count) / 100 as pump_on_percentage,
+        SUM(heater_on_percentage * records_count) / SUM(records_count) / 100 as heater_on_percentage,
+        SUM(records_count) as records_count`;
+
+/**
+ * Filtro opcional por tanque das agregações; sem tanque, todos são agregados (cada um em suas linhas)
+ */
+function deviceFilter(deviceId?: number): { sql: string; params: number[] } {
+  return deviceId === undefined
+    ? { sql: '', params: [] }
+    : { sql: 'AND device_id = ?', params: [deviceId] };
+}
+
 // Tabelas necessárias para a funcionalidade
 const REQUIRED_TABLES = [
   'historical_data',
@@ -38,71 +69,14 @@ const REQUIRED_TABLES = [
 
 /**
  * Inicializa o banco de dados com as tabelas necessárias
+ * As tabelas do histórico são criadas pelas migrações do banco principal (ver server/migrations/mainDb.ts)
  */
 export async function initHistoricalDatabase(): Promise<void> {
   console.log('Inicializando banco de dados para dados históricos...');
   
   try {
-    // Verifica se o arquivo do banco existe
-    const dbExists = fs.existsSync(DB_PATH);
-    if (!dbExists) {
-      console.log('Arquivo de banco de dados não encontrado. Criando novo banco...');
-    }
-    
-    // Abre conexão com o banco
-    const db = await open({
-      filename: DB_PATH,
-      driver: sqlite3.Database
-    });
-    
-    // Cria as tabelas se não existirem
-    await db.exec(`
-      CREATE TABLE IF NOT EXISTS historical_data (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        date INTEGER NOT NULL,
-        period_type TEXT NOT NULL,
-        avg_temperature REAL,
-        min_temperature REAL,
-        max_temperature REAL,
-        avg_level REAL,
-        min_level REAL,
-        max_level REAL,
-        pump_on_percentage REAL,
-        heater_on_percentage REAL,
-        records_count INTEGER NOT NULL
-      );
-    `);
-    
-    await db.exec(`
-      CREATE TABLE IF NOT EXISTS sync_history (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        start_date INTEGER NOT NULL,
-        end_date INTEGER NOT NULL,
-        records_synced INTEGER NOT NULL,
-        status TEXT NOT NULL,
-        error_message TEXT,
-        created_at INTEGER DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-    
-    await db.exec(`
-      CREATE TABLE IF NOT EXISTS system_events (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        event_type TEXT NOT NULL,
-        message TEXT NOT NULL,
-        details TEXT,
-        timestamp INTEGER DEFAULT CURRENT_TIMESTAMP
-      );
-    `);
-    
-    // Cria índices para melhorar performance
-    await db.exec(`CREATE INDEX IF NOT EXISTS idx_historical_data_date ON historical_data(date);`);
-    await db.exec(`CREATE INDEX IF NOT EXISTS idx_historical_data_period ON historical_data(period_type);`);
-    await db.exec(`CREATE INDEX IF NOT EXISTS idx_sync_history_dates ON sync_history(start_date, end_date);`);
-    await db.exec(`CREATE INDEX IF NOT EXISTS idx_system_events_type ON system_events(event_type);`);
-    
+    await migrateDatabase('main');
     console.log('Banco de dados para histórico inicializado com sucesso.');
-    await db.close();
   } catch (error) {
     console.error('Erro ao inicializar banco de dados para histórico:', error);
     throw error;
@@ -137,9 +111,14 @@ export async function checkHistoricalTables(): Promise<boolean> {
  * Agrega dados por hora para a tabela de histórico
  * @param startDate Data inicial (timestamp)
  * @param endDate Data final (timestamp)
+ * @param deviceId Tanque a agregar (opcional, todos se omitido)
  * @returns Número de registros agregados
+ * @throws ConflictError com STORAGE_BACKEND=postgres (lê a tabela readings do SQLite)
  */
-export async function aggregateHourlyData(startDate: number, endDate: number): Promise<number> {
+export async function aggregateHourlyData(startDate: number, endDate: number, deviceId?: number): Promise<number> {
+  assertSqliteReadings('A agregação do histórico');
+  const filter = deviceFilter(deviceId);
+
   try {
     const db = await open({
       filename: DB_PATH,
@@ -149,8 +128,8 @@ export async function aggregateHourlyData(startDate: number, endDate: number): P
     // Verificar se já existem agregações para esse período
     const existingData = await db.all(`
       SELECT * FROM historical_data 
-      WHERE period_type = 'hourly' AND date >= ? AND date <= ?
-    `, [startDate, endDate]);
+      WHERE period_type = 'hourly' AND date >= ? AND date <= ? ${filter.sql}
+    `, [startDate, endDate, ...filter.params]);
     
     if (existingData.length > 0) {
       console.log(`Já existem ${existingData.length} agregações horárias para o período especificado.`);
@@ -159,6 +138,7 @@ export async function aggregateHourlyData(startDate: number, endDate: number): P
     // Agregação por hora dos dados de leitura
     const hourlyData = await db.all(`
       SELECT 
+        device_id,
         strftime('%Y-%m-%d %H:00:00', timestamp/1000, 'unixepoch') as hour_start,
         strftime('%s', strftime('%Y-%m-%d %H:00:00', timestamp/1000, 'unixepoch')) * 1000 as date_timestamp,
         AVG(temperature) as avg_temperature,
@@ -171,10 +151,10 @@ export async function aggregateHourlyData(startDate: number, endDate: number): P
         AVG(heater_status) as heater_on_percentage,
         COUNT(*) as records_count
       FROM readings
-      WHERE timestamp >= ? AND timestamp <= ? AND temperature > -50
-      GROUP BY hour_start
-      ORDER BY hour_start
-    `, [startDate, endDate]);
+      WHERE timestamp >= ? AND timestamp <= ? AND temperature > -50 ${filter.sql}
+      GROUP BY device_id, hour_start
+      ORDER BY device_id, hour_start
+    `, [startDate, endDate, ...filter.params]);
     
     console.log(`Agregados dados de ${hourlyData.length} horas.`);
     
@@ -183,11 +163,11 @@ export async function aggregateHourlyData(startDate: number, endDate: number): P
       // Preparar statement para inserção em lote
       const stmt = await db.prepare(`
         INSERT INTO historical_data (
-          date, period_type, avg_temperature, min_temperature, max_temperature,
+          device_id, date, period_type, avg_temperature, min_temperature, max_temperature,
           avg_level, min_level, max_level, pump_on_percentage, heater_on_percentage, 
           records_count
-        ) VALUES (?, 'hourly', ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        ON CONFLICT (date, period_type) DO UPDATE SET
+        ) VALUES (?, ?, 'hourly', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (device_id, date, period_type) DO UPDATE SET
           avg_temperature = excluded.avg_temperature,
           min_temperature = excluded.min_temperature,
           max_temperature = excluded.max_temperature,
@@ -202,6 +182,7 @@ export async function aggregateHourlyData(startDate: number, endDate: number): P
       // Inserir dados
       for (const data of hourlyData) {
         await stmt.run(
+          data.device_id,
           data.date_timestamp,
           data.avg_temperature,
           data.min_temperature,
@@ -239,9 +220,14 @@ export async function aggregateHourlyData(startDate: number, endDate: number): P
  * Agrega dados por dia para a tabela de histórico
  * @param startDate Data inicial (timestamp)
  * @param endDate Data final (timestamp)
+ * @param deviceId Tanque a agregar (opcional, todos se omitido)
  * @returns Número de registros agregados
+ * @throws ConflictError com STORAGE_BACKEND=postgres (lê a tabela readings do SQLite)
  */
-export async function aggregateDailyData(startDate: number, endDate: number): Promise<number> {
+export async function aggregateDailyData(startDate: number, endDate: number, deviceId?: number): Promise<number> {
+  assertSqliteReadings('A agregação do histórico');
+  const filter = deviceFilter(deviceId);
+
   try {
     const db = await open({
       filename: DB_PATH,
@@ -251,8 +237,8 @@ export async function aggregateDailyData(startDate: number, endDate: number): Pr
     // Verificar se já existem agregações para esse período
     const existingData = await db.all(`
       SELECT * FROM historical_data 
-      WHERE period_type = 'daily' AND date >= ? AND date <= ?
-    `, [startDate, endDate]);
+      WHERE period_type = 'daily' AND date >= ? AND date <= ? ${filter.sql}
+    `, [startDate, endDate, ...filter.params]);
     
     if (existingData.length > 0) {
       console.log(`Já existem ${existingData.length} agregações diárias para o período especificado.`);
@@ -261,6 +247,7 @@ export async function aggregateDailyData(startDate: number, endDate: number): Pr
     // Agregação por dia dos dados de leitura
     const dailyData = await db.all(`
       SELECT 
+        device_id,
         strftime('%Y-%m-%d 00:00:00', timestamp/1000, 'unixepoch') as day_start,
         strftime('%s', strftime('%Y-%m-%d 00:00:00', timestamp/1000, 'unixepoch')) * 1000 as date_timestamp,
         AVG(temperature) as avg_temperature,
@@ -273,10 +260,10 @@ export async function aggregateDailyData(startDate: number, endDate: number): Pr
         AVG(heater_status) as heater_on_percentage,
         COUNT(*) as records_count
       FROM readings
-      WHERE timestamp >= ? AND timestamp <= ? AND temperature > -50
-      GROUP BY day_start
-      ORDER BY day_start
-    `, [startDate, endDate]);
+      WHERE timestamp >= ? AND timestamp <= ? AND temperature > -50 ${filter.sql}
+      GROUP BY device_id, day_start
+      ORDER BY device_id, day_start
+    `, [startDate, endDate, ...filter.params]);
     
     console.log(`Agregados dados de ${dailyData.length} dias.`);
     
@@ -285,11 +272,11 @@ export async function aggregateDailyData(startDate: number, endDate: number): Pr
       // Preparar statement para inserção em lote
       const stmt = await db.prepare(`
         INSERT INTO historical_data (
-          date, period_type, avg_temperature, min_temperature, max_temperature,
+          device_id, date, period_type, avg_temperature, min_temperature, max_temperature,
           avg_level, min_level, max_level, pump_on_percentage, heater_on_percentage, 
           records_count
-        ) VALUES (?, 'daily', ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        ON CONFLICT (date, period_type) DO UPDATE SET
+        ) VALUES (?, ?, 'daily', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (device_id, date, period_type) DO UPDATE SET
           avg_temperature = excluded.avg_temperature,
           min_temperature = excluded.min_temperature,
           max_temperature = excluded.max_temperature,
@@ -304,6 +291,7 @@ export async function aggregateDailyData(startDate: number, endDate: number): Pr
       // Inserir dados
       for (const data of dailyData) {
         await stmt.run(
+          data.device_id,
           data.date_timestamp,
           data.avg_temperature,
           data.min_temperature,
@@ -339,11 +327,15 @@ export async function aggregateDailyData(startDate: number, endDate: number): Pr
 
 /**
  * Agrega dados por semana para a tabela de histórico
+ * Usa as linhas diárias já agregadas, por isso deve rodar depois de aggregateDailyData
  * @param startDate Data inicial (timestamp)
  * @param endDate Data final (timestamp)
+ * @param deviceId Tanque a agregar (opcional, todos se omitido)
  * @returns Número de registros agregados
  */
-export async function aggregateWeeklyData(startDate: number, endDate: number): Promise<number> {
+export async function aggregateWeeklyData(startDate: number, endDate: number, deviceId?: number): Promise<number> {
+  const filter = deviceFilter(deviceId);
+
   try {
     const db = await open({
       filename: DB_PATH,
@@ -353,33 +345,30 @@ export async function aggregateWeeklyData(startDate: number, endDate: number): P
     // Verificar se já existem agregações para esse período
     const existingData = await db.all(`
       SELECT * FROM historical_data 
-      WHERE period_type = 'weekly' AND date >= ? AND date <= ?
-    `, [startDate, endDate]);
+      WHERE period_type = 'weekly' AND date >= ? AND date <= ? ${filter.sql}
+    `, [startDate, endDate, ...filter.params]);
     
     if (existingData.length > 0) {
       console.log(`Já existem ${existingData.length} agregações semanais para o período especificado.`);
     }
     
-    // Agregação por semana dos dados de leitura
+    // Agregação por semana a partir das linhas diárias, e não das leituras brutas, para que a
+    // semana continue correta depois que a retenção apagar parte das leituras (ver retentionService).
+    // Todos os dias das semanas tocadas pelo período entram no cálculo.
     const weeklyData = await db.all(`
       SELECT 
-        strftime('%Y-%W', timestamp/1000, 'unixepoch') as week_number,
+        device_id,
         -- Primeiro dia da semana (domingo)
-        (strftime('%s', strftime('%Y-01-01', timestamp/1000, 'unixepoch'), 'weekday 0', '-7 day', '+' || (strftime('%W', timestamp/1000, 'unixepoch')) || ' weeks')) * 1000 as date_timestamp,
-        AVG(temperature) as avg_temperature,
-        MIN(temperature) as min_temperature,
-        MAX(temperature) as max_temperature,
-        AVG(level) as avg_level,
-        MIN(level) as min_level,
-        MAX(level) as max_level,
-        AVG(pump_status) as pump_on_percentage,
-        AVG(heater_status) as heater_on_percentage,
-        COUNT(*) as records_count
-      FROM readings
-      WHERE timestamp >= ? AND timestamp <= ? AND temperature > -50
-      GROUP BY week_number
-      ORDER BY week_number
-    `, [startDate, endDate]);
+        ${WEEK_START_SQL} * 1000 as date_timestamp,
+        ${DAILY_ROLLUP_COLUMNS}
+      FROM historical_data
+      WHERE period_type = 'daily' ${filter.sql} AND ${WEEK_START_SQL} IN (
+        SELECT DISTINCT ${WEEK_START_SQL} FROM historical_data
+        WHERE period_type = 'daily' AND date > ? - ${DAY_MS} AND date <= ? ${filter.sql}
+      )
+      GROUP BY device_id, date_timestamp
+      ORDER BY device_id, date_timestamp
+    `, [...filter.params, startDate, endDate, ...filter.params]);
     
     console.log(`Agregados dados de ${weeklyData.length} semanas.`);
     
@@ -388,11 +377,11 @@ export async function aggregateWeeklyData(startDate: number, endDate: number): P
       // Preparar statement para inserção em lote
       const stmt = await db.prepare(`
         INSERT INTO historical_data (
-          date, period_type, avg_temperature, min_temperature, max_temperature,
+          device_id, date, period_type, avg_temperature, min_temperature, max_temperature,
           avg_level, min_level, max_level, pump_on_percentage, heater_on_percentage, 
           records_count
-        ) VALUES (?, 'weekly', ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        ON CONFLICT (date, period_type) DO UPDATE SET
+        ) VALUES (?, ?, 'weekly', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (device_id, date, period_type) DO UPDATE SET
           avg_temperature = excluded.avg_temperature,
           min_temperature = excluded.min_temperature,
           max_temperature = excluded.max_temperature,
@@ -407,6 +396,7 @@ export async function aggregateWeeklyData(startDate: number, endDate: number): P
       // Inserir dados
       for (const data of weeklyData) {
         await stmt.run(
+          data.device_id,
           data.date_timestamp,
           data.avg_temperature,
           data.min_temperature,
@@ -442,11 +432,15 @@ export async function aggregateWeeklyData(startDate: number, endDate: number): P
 
 /**
  * Agrega dados por mês para a tabela de histórico
+ * Usa as linhas diárias já agregadas, por isso deve rodar depois de aggregateDailyData
  * @param startDate Data inicial (timestamp)
  * @param endDate Data final (timestamp)
+ * @param deviceId Tanque a agregar (opcional, todos se omitido)
  * @returns Número de registros agregados
  */
-export async function aggregateMonthlyData(startDate: number, endDate: number): Promise<number> {
+export async function aggregateMonthlyData(startDate: number, endDate: number, deviceId?: number): Promise<number> {
+  const filter = deviceFilter(deviceId);
+
   try {
     const db = await open({
       filename: DB_PATH,
@@ -456,32 +450,28 @@ export async function aggregateMonthlyData(startDate: number, endDate: number):
     // Verificar se já existem agregações para esse período
     const existingData = await db.all(`
       SELECT * FROM historical_data 
-      WHERE period_type = 'monthly' AND date >= ? AND date <= ?
-    `, [startDate, endDate]);
+      WHERE period_type = 'monthly' AND date >= ? AND date <= ? ${filter.sql}
+    `, [startDate, endDate, ...filter.params]);
     
     if (existingData.length > 0) {
       console.log(`Já existem ${existingData.length} agregações mensais para o período especificado.`);
     }
     
-    // Agregação por mês dos dados de leitura
+    // Agregação por mês a partir das linhas diárias, como a semanal
     const monthlyData = await db.all(`
       SELECT 
-        strftime('%Y-%m', timestamp/1000, 'unixepoch') as month_year,
-        strftime('%s', strftime('%Y-%m-01', timestamp/1000, 'unixepoch')) * 1000 as date_timestamp,
-        AVG(temperature) as avg_temperature,
-        MIN(temperature) as min_temperature,
-        MAX(temperature) as max_temperature,
-        AVG(level) as avg_level,
-        MIN(level) as min_level,
-        MAX(level) as max_level,
-        AVG(pump_status) as pump_on_percentage,
-        AVG(heater_status) as heater_on_percentage,
-        COUNT(*) as records_count
-      FROM readings
-      WHERE timestamp >= ? AND timestamp <= ? AND temperature > -50
-      GROUP BY month_year
-      ORDER BY month_year
-    `, [startDate, endDate]);
+        device_id,
+        strftime('%Y-%m', date/1000, 'unixepoch') as month_year,
+        strftime('%s', strftime('%Y-%m-01', date/1000, 'unixepoch')) * 1000 as date_timestamp,
+        ${DAILY_ROLLUP_COLUMNS}
+      FROM historical_data
+      WHERE period_type = 'daily' ${filter.sql} AND strftime('%Y-%m', date/1000, 'unixepoch') IN (
+        SELECT DISTINCT strftime('%Y-%m', date/1000, 'unixepoch') FROM historical_data
+        WHERE period_type = 'daily' AND date > ? - ${DAY_MS} AND date <= ? ${filter.sql}
+      )
+      GROUP BY device_id, month_year
+      ORDER BY device_id, month_year
+    `, [...filter.params, startDate, endDate, ...filter.params]);
     
     console.log(`Agregados dados de ${monthlyData.length} meses.`);
     
@@ -490,11 +480,11 @@ export async function aggregateMonthlyData(startDate: number, endDate: number):
       // Preparar statement para inserção em lote
       const stmt = await db.prepare(`
         INSERT INTO historical_data (
-          date, period_type, avg_temperature, min_temperature, max_temperature,
+          device_id, date, period_type, avg_temperature, min_temperature, max_temperature,
           avg_level, min_level, max_level, pump_on_percentage, heater_on_percentage, 
           records_count
-        ) VALUES (?, 'monthly', ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        ON CONFLICT (date, period_type) DO UPDATE SET
+        ) VALUES (?, ?, 'monthly', ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (device_id, date, period_type) DO UPDATE SET
           avg_temperature = excluded.avg_temperature,
           min_temperature = excluded.min_temperature,
           max_temperature = excluded.max_temperature,
@@ -509,6 +499,7 @@ export async function aggregateMonthlyData(startDate: number, endDate: number):
       // Inserir dados
       for (const data of monthlyData) {
         await stmt.run(
+          data.device_id,
           data.date_timestamp,
           data.avg_temperature,
           data.min_temperature,
@@ -547,12 +538,14 @@ export async function aggregateMonthlyData(startDate: number, endDate: number):
  * @param startDate Data inicial (timestamp)
  * @param endDate Data final (timestamp)
  * @param periodType Tipo de período ('hourly', 'daily', 'weekly', 'monthly')
+ * @param deviceId Tanque dos dados (padrão: tanque 1)
  * @returns Dados agregados para o período
  */
 export async function getHistoricalData(
   startDate: number,
   endDate: number,
-  periodType: PeriodType
+  periodType: PeriodType,
+  deviceId: number = DEFAULT_DEVICE_ID
 ): Promise<AggregatedData[]> {
   try {
     const db = await open({
@@ -562,9 +555,9 @@ export async function getHistoricalData(
     
     const data = await db.all(`
       SELECT * FROM historical_data
-      WHERE period_type = ? AND date >= ? AND date <= ?
+      WHERE period_type = ? AND date >= ? AND date <= ? AND device_id = ?
       ORDER BY date
-    `, [periodType, startDate, endDate]);
+    `, [periodType, startDate, endDate, deviceId]);
     
     await db.close();
     return data as AggregatedData[];
@@ -593,7 +586,7 @@ export async function processHistoricalData(
     await initHistoricalDatabase();
   }
   
-  // Executar agregações
+  // Executar agregações (a semanal e a mensal partem das linhas diárias)
   const hourlyCount = await aggregateHourlyData(startDate, endDate);
   const dailyCount = await aggregateDailyData(startDate, endDate);
   const weeklyCount = await aggregateWeeklyData(startDate, endDate);
@@ -612,11 +605,13 @@ export async function processHistoricalData(
  * @param type Tipo do evento ('error', 'warning', 'info')
  * @param message Mensagem do evento
  * @param details Detalhes adicionais (opcional)
+ * @param deviceId Tanque relacionado ao evento (opcional, nulo para eventos gerais)
  */
 export async function logSystemEvent(
   type: 'error' | 'warning' | 'info',
   message: string,
-  details?: string
+  details?: string,
+  deviceId?: number
 ): Promise<void> {
   try {
     const db = await open({
@@ -625,9 +620,9 @@ export async function logSystemEvent(
     });
     
     await db.run(`
-      INSERT INTO system_events (event_type, message, details, timestamp)
-      VALUES (?, ?, ?, ?)
-    `, [type, message, details || null, Date.now()]);
+      INSERT INTO system_events (event_type, message, details, device_id, timestamp)
+      VALUES (?, ?, ?, ?, ?)
+    `, [type, message, details || null, deviceId ?? null, Date.now()]);
     
     await db.close();
   } catch (error) {
@@ -640,12 +635,14 @@ export async function logSystemEvent(
  * @param limit Número máximo de eventos a retornar
  * @param offset Deslocamento para paginação
  * @param type Filtrar por tipo específico (opcional)
+ * @param deviceId Filtrar por tanque (opcional)
  * @returns Lista de eventos do sistema
  */
 export async function getSystemEvents(
   limit: number = 100,
   offset: number = 0,
-  type?: 'error' | 'warning' | 'info'
+  type?: 'error' | 'warning' | 'info',
+  deviceId?: number
 ): Promise<any[]> {
   try {
     const db = await open({
@@ -653,16 +650,24 @@ export async function getSystemEvents(
       driver: sqlite3.Database
     });
     
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (type) {
+      conditions.push('event_type = ?');
+      params.push(type);
+    }
+    if (deviceId !== undefined) {
+      conditions.push('device_id = ?');
+      params.push(deviceId);
+    }
+    
     let query = `
       SELECT * FROM system_events
-      ${type ? 'WHERE event_type = ?' : ''}
+      ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
       ORDER BY timestamp DESC
       LIMIT ? OFFSET ?
     `;
-    
-    const params = type 
-      ? [type, limit, offset] 
-      : [limit, offset];
+    params.push(limit, offset);
     
     const events = await db.all(query, params);
     
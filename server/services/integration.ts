@@ -1,7 +1,14 @@
 /**
- * Arquivo de integração para aplicar o sistema de fila ThingSpeak
+ * Arquivo de integração para aplicar a fila de comandos dos dispositivos
  * Este arquivo deve ser carregado no início da aplicação
  */
-import './simpleThingspeakQueue';
+import { commandQueue } from './commandQueueService';
+import { commandAckService } from './commandAckService';
 
-console.log('✅ Sistema de fila ThingSpeak inicializado com sucesso');
\ No newline at end of file
+commandQueue.initialize()
+  .then(() => {
+    // Acompanhar a confirmação dos comandos pelo canal de feedback
+    commandAckService.start();
+    console.log('✅ Fila de comandos integrada com sucesso');
+  })
+  .catch(error => console.error('❌ Falha ao integrar fila de comandos:', error));
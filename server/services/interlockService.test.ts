@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Reading } from '@shared/reading';
+
+const mocks = vi.hoisted(() => ({
+  requestHeaterStatus: vi.fn(),
+  requestPumpStatus: vi.fn(async () => 1)
+}));
+
+vi.mock('../storage', () => ({ storage: { getLatestReadings: vi.fn(async () => []) } }));
+vi.mock('./historicalDataService', () => ({ logSystemEvent: vi.fn(async () => undefined) }));
+vi.mock('./alertService', () => ({ sendInterlockAlert: vi.fn(async () => undefined) }));
+vi.mock('./deviceService', () => ({ listDevices: vi.fn(async () => []) }));
+vi.mock('./auditService', () => ({ recordAudit: vi.fn() }));
+vi.mock('./thingspeakService', () => ({
+  // Aquecedor ligado em todos os tanques
+  getCurrentDeviceStatus: () => ({ pumpStatus: false, heaterStatus: true }),
+  requestHeaterStatus: mocks.requestHeaterStatus,
+  requestPumpStatus: mocks.requestPumpStatus
+}));
+
+import { interlockService, InterlockError } from './interlockService';
+
+function reading(deviceId: number, level: number, timestamp: number): Reading {
+  return { id: 0, deviceId, temperature: 25, level, pumpStatus: false, heaterStatus: true, timestamp };
+}
+
+function deviceState(deviceId: number) {
+  return interlockService.getStatus().devices.find(device => device.deviceId === deviceId);
+}
+
+// Deixa as verificações disparadas por recordReading chegarem aos comandos
+function flush() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('interlockService', () => {
+  beforeEach(() => {
+    mocks.requestHeaterStatus.mockReset();
+  });
+
+  it('ignora leituras mais antigas que a última registrada do tanque', () => {
+    const now = Date.now();
+    interlockService.recordReading(reading(31, 80, now), false);
+
+    // Leitura atrasada de uma hora atrás, com o tanque quase vazio
+    interlockService.recordReading(reading(31, 10, now - 60 * 60 * 1000), false);
+
+    expect(deviceState(31)).toMatchObject({ lastReadingAt: now, lastLevel: 80 });
+  });
+
+  it('verifica um tanque enquanto o comando de outro ainda aguarda a fila', async () => {
+    let deliver!: () => void;
+    mocks.requestHeaterStatus.mockImplementationOnce(() => new Promise(resolve => {
+      deliver = () => resolve(1);
+    }));
+    mocks.requestHeaterStatus.mockResolvedValue(2);
+    const now = Date.now();
+
+    // Nível abaixo do mínimo com o aquecedor ligado nos dois tanques
+    interlockService.recordReading(reading(32, 10, now));
+    await flush();
+    interlockService.recordReading(reading(33, 10, now));
+    await flush();
+
+    expect(mocks.requestHeaterStatus).toHaveBeenCalledTimes(2);
+    expect(mocks.requestHeaterStatus).toHaveBeenCalledWith(false, 'interlock', 32);
+    expect(mocks.requestHeaterStatus).toHaveBeenCalledWith(false, 'interlock', 33);
+
+    deliver();
+  });
+
+  it('não liga a bomba abaixo do nível crítico, em qualquer modo', () => {
+    const now = Date.now();
+    interlockService.recordReading(reading(34, 10, now), false);
+    interlockService.recordReading(reading(35, 50, now), false);
+
+    // Comando manual, fora do modo automático
+    expect(() => interlockService.authorize('pump', true, 34, 'api')).toThrow(InterlockError);
+    expect(interlockService.check('pump', true, 34)).toMatchObject({ rule: 'pump_low_level' });
+    expect(() => interlockService.authorize('pump', true, 35, 'api')).not.toThrow();
+  });
+});
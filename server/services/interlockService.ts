@@ -0,0 +1,476 @@
+/**
+ * InterlockService - Intertravamentos de segurança e watchdog dos atuadores
+ *
+ * Todo comando de bomba e aquecedor passa por aqui antes de ser aplicado, venha ele das rotas,
+ * do automationService, das regras ou do emulador. Comandos para desligar são sempre aceitos;
+ * comandos para ligar são bloqueados quando violam uma das regras:
+ * 1. Aquecedor não funciona com o nível abaixo do mínimo (tanque vazio)
+ * 2. Aquecedor tem tempo máximo ligado sem interrupção, seguido de um descanso obrigatório
+ * 3. Bomba não funciona com o nível abaixo do nível crítico (proteção contra funcionamento a seco)
+ * 4. Bomba tem limite de partidas por hora
+ * 5. Sem leituras por N minutos, tudo é desligado e nada liga até uma nova leitura chegar
+ *
+ * O watchdog verifica periodicamente (e a cada leitura ao vivo) os atuadores já ligados e os
+ * desliga quando uma dessas condições surge. As violações viram eventos do sistema e alertas.
+ */
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
+import { Reading } from '@shared/reading';
+import { storage } from '../storage';
+import { logSystemEvent } from './historicalDataService';
+import { sendInterlockAlert } from './alertService';
+import { listDevices } from './deviceService';
+import { getCurrentDeviceStatus, requestHeaterStatus, requestPumpStatus } from './thingspeakService';
+import { recordAudit } from './auditService';
+import { ConflictError } from '../utils/errors';
+
+export type InterlockActuator = 'pump' | 'heater';
+
+export type InterlockRule = 'heater_low_level' | 'heater_max_runtime' | 'pump_low_level' | 'pump_max_starts' | 'stale_readings';
+
+export interface InterlockConfig {
+  enabled: boolean;
+  heaterMinLevel: number;         // % abaixo do qual o aquecedor não pode funcionar
+  heaterMaxRuntimeMin: number;    // tempo máximo ligado sem interrupção
+  heaterRestMin: number;          // descanso obrigatório após atingir o tempo máximo
+  pumpCriticalLevel: number;      // % abaixo do qual a bomba não pode funcionar (criticalLevel do automationService)
+  pumpMaxStartsPerHour: number;   // partidas da bomba permitidas na última hora (0 = sem limite)
+  readingTimeoutMin: number;      // sem leitura por esse tempo, bomba e aquecedor são desligados
+}
+
+export interface InterlockViolation {
+  deviceId: number;
+  rule: InterlockRule;
+  actuator: InterlockActuator;
+  message: string;
+  source: string;
+  forced: boolean;                // true quando o watchdog desligou o atuador
+  timestamp: number;
+}
+
+interface DeviceInterlockState {
+  lastReadingAt: number | null;
+  lastLevel: number | null;
+  heaterOnSince: number | null;
+  heaterRestUntil: number;
+  pumpStarts: number[];
+}
+
+/**
+ * Erro lançado quando um comando é bloqueado por um intertravamento
+ */
+export class InterlockError extends ConflictError {
+  constructor(
+    public readonly rule: InterlockRule,
+    public readonly actuator: InterlockActuator,
+    message: string
+  ) {
+    super(message, { rule, actuator }, 'INTERLOCKED');
+    this.name = 'InterlockError';
+  }
+}
+
+// Nomes exibidos nos eventos e alertas
+const RULE_LABELS: Record<InterlockRule, string> = {
+  heater_low_level: 'Aquecedor com nível baixo',
+  heater_max_runtime: 'Tempo máximo do aquecedor',
+  pump_low_level: 'Bomba com nível crítico',
+  pump_max_starts: 'Partidas da bomba por hora',
+  stale_readings: 'Sem leituras recentes'
+};
+
+const DEFAULT_INTERLOCK_CONFIG: InterlockConfig = {
+  enabled: process.env.INTERLOCKS_ENABLED !== 'false',
+  heaterMinLevel: parseFloat(process.env.INTERLOCK_HEATER_MIN_LEVEL || '30'),
+  heaterMaxRuntimeMin: parseInt(process.env.INTERLOCK_HEATER_MAX_RUNTIME || '120'),
+  heaterRestMin: parseInt(process.env.INTERLOCK_HEATER_REST || '15'),
+  pumpCriticalLevel: parseFloat(process.env.PUMP_CRITICAL_LEVEL || '20'),
+  pumpMaxStartsPerHour: parseInt(process.env.INTERLOCK_PUMP_MAX_STARTS || '60'),
+  readingTimeoutMin: parseInt(process.env.INTERLOCK_READING_TIMEOUT || '15')
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+class InterlockService {
+  private static instance: InterlockService;
+
+  private readonly WATCHDOG_INTERVAL_MS = 30000; // Verifica a cada 30 segundos
+  private readonly REPORT_INTERVAL_MS = 10 * 60 * 1000; // Mesma violação registrada no máximo a cada 10 minutos
+  private readonly MAX_VIOLATIONS = 50;
+
+  private config: InterlockConfig = { ...DEFAULT_INTERLOCK_CONFIG };
+  private states = new Map<number, DeviceInterlockState>();
+  private violations: InterlockViolation[] = [];
+  private lastReportedAt = new Map<string, number>();
+  private watchdogId: NodeJS.Timeout | null = null;
+  private startedAt = Date.now();
+  private checking = new Set<number>(); // tanques com verificação em andamento
+
+  private constructor() {
+    console.log('🛡️ Iniciando serviço de intertravamentos...');
+  }
+
+  /**
+   * Obtém a instância única do serviço
+   */
+  public static getInstance(): InterlockService {
+    if (!InterlockService.instance) {
+      InterlockService.instance = new InterlockService();
+    }
+    return InterlockService.instance;
+  }
+
+  /**
+   * Inicia o watchdog, carregando a última leitura de cada tanque
+   */
+  public async start(): Promise<void> {
+    if (this.watchdogId) {
+      return;
+    }
+    this.startedAt = Date.now();
+
+    try {
+      const devices = await listDevices();
+      const deviceIds = devices.length > 0 ? devices.map(device => device.id) : [DEFAULT_DEVICE_ID];
+
+      for (const deviceId of deviceIds) {
+        const [latest] = await storage.getLatestReadings(1, deviceId);
+        if (latest) {
+          this.recordReading(latest, false);
+        } else {
+          this.getState(deviceId);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Erro ao carregar as últimas leituras para os intertravamentos:', error);
+    }
+
+    this.watchdogId = setInterval(() => this.runWatchdog(), this.WATCHDOG_INTERVAL_MS);
+  }
+
+  /**
+   * Para o watchdog
+   */
+  public stop(): void {
+    if (this.watchdogId) {
+      clearInterval(this.watchdogId);
+      this.watchdogId = null;
+    }
+  }
+
+  private getState(deviceId: number): DeviceInterlockState {
+    let state = this.states.get(deviceId);
+    if (!state) {
+      state = {
+        lastReadingAt: null,
+        lastLevel: null,
+        heaterOnSince: null,
+        heaterRestUntil: 0,
+        pumpStarts: []
+      };
+      this.states.set(deviceId, state);
+    }
+    return state;
+  }
+
+  /**
+   * Registra uma leitura ao vivo (chamado por saveLiveReading)
+   * @param check Reavaliar os atuadores já ligados do tanque
+   */
+  public recordReading(reading: Reading, check: boolean = true): void {
+    const deviceId = reading.deviceId;
+    const state = this.getState(deviceId);
+
+    // Leituras fora de ordem não podem rejuvenescer o watchdog nem substituir o nível atual
+    if (state.lastReadingAt !== null && reading.timestamp < state.lastReadingAt) {
+      return;
+    }
+
+    state.lastReadingAt = reading.timestamp;
+    state.lastLevel = reading.level;
+
+    if (check) {
+      this.checkDevice(deviceId);
+    }
+  }
+
+  /**
+   * Verifica se um comando viola algum intertravamento, sem registrar nada
+   * Comandos que não mudam o estado atual e comandos para desligar nunca são bloqueados
+   */
+  public check(actuator: InterlockActuator, status: boolean, deviceId: number = DEFAULT_DEVICE_ID): { rule: InterlockRule; message: string } | null {
+    if (!this.config.enabled || !status) {
+      return null;
+    }
+
+    const current = getCurrentDeviceStatus(deviceId);
+    if ((actuator === 'pump' ? current.pumpStatus : current.heaterStatus) === status) {
+      return null;
+    }
+
+    const state = this.getState(deviceId);
+    const now = Date.now();
+
+    const staleMessage = this.getStaleMessage(state, now);
+    if (staleMessage) {
+      return { rule: 'stale_readings', message: staleMessage };
+    }
+
+    if (actuator === 'heater') {
+      if (state.lastLevel !== null && state.lastLevel < this.config.heaterMinLevel) {
+        return {
+          rule: 'heater_low_level',
+          message: `Nível ${state.lastLevel.toFixed(1)}% abaixo do mínimo de ${this.config.heaterMinLevel}% para o aquecedor`
+        };
+      }
+      if (state.heaterRestUntil > now) {
+        return {
+          rule: 'heater_max_runtime',
+          message: `Aquecedor em descanso após o tempo máximo ligado (libera em ${Math.ceil((state.heaterRestUntil - now) / 60000)} min)`
+        };
+      }
+    } else {
+      if (state.lastLevel !== null && state.lastLevel < this.config.pumpCriticalLevel) {
+        return {
+          rule: 'pump_low_level',
+          message: `Nível ${state.lastLevel.toFixed(1)}% abaixo do nível crítico de ${this.config.pumpCriticalLevel}% para a bomba`
+        };
+      }
+      if (this.config.pumpMaxStartsPerHour > 0) {
+        state.pumpStarts = state.pumpStarts.filter(startedAt => now - startedAt < HOUR_MS);
+        if (state.pumpStarts.length >= this.config.pumpMaxStartsPerHour) {
+          return {
+            rule: 'pump_max_starts',
+            message: `Limite de ${this.config.pumpMaxStartsPerHour} partidas da bomba por hora atingido`
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Avalia um comando e registra a violação, se houver
+   * @returns A violação encontrada, ou null se o comando é permitido
+   */
+  public evaluate(actuator: InterlockActuator, status: boolean, deviceId: number = DEFAULT_DEVICE_ID, source: string = 'api'): InterlockViolation | null {
+    const blocked = this.check(actuator, status, deviceId);
+    if (!blocked) {
+      return null;
+    }
+
+    const violation: InterlockViolation = {
+      deviceId,
+      actuator,
+      rule: blocked.rule,
+      message: blocked.message,
+      source,
+      forced: false,
+      timestamp: Date.now()
+    };
+    this.report(violation);
+    return violation;
+  }
+
+  /**
+   * Ponto de passagem obrigatório dos comandos de bomba e aquecedor
+   * Lança InterlockError se o comando for bloqueado; caso contrário registra a mudança de estado
+   */
+  public authorize(actuator: InterlockActuator, status: boolean, deviceId: number = DEFAULT_DEVICE_ID, source: string = 'api'): void {
+    const violation = this.evaluate(actuator, status, deviceId, source);
+    if (violation) {
+      throw new InterlockError(violation.rule, actuator, violation.message);
+    }
+
+    const current = getCurrentDeviceStatus(deviceId);
+    const state = this.getState(deviceId);
+
+    if (actuator === 'heater') {
+      if (!status) {
+        state.heaterOnSince = null;
+      } else if (!current.heaterStatus) {
+        state.heaterOnSince = Date.now();
+      }
+    } else if (status && !current.pumpStatus) {
+      state.pumpStarts.push(Date.now());
+    }
+  }
+
+  private getStaleMessage(state: DeviceInterlockState, now: number): string | null {
+    const timeoutMs = this.config.readingTimeoutMin * 60 * 1000;
+
+    if (state.lastReadingAt === null) {
+      return now - this.startedAt > timeoutMs
+        ? `Nenhuma leitura recebida em ${this.config.readingTimeoutMin} min`
+        : null;
+    }
+
+    return now - state.lastReadingAt > timeoutMs
+      ? `Sem leituras há ${Math.round((now - state.lastReadingAt) / 60000)} min`
+      : null;
+  }
+
+  /**
+   * Desliga os atuadores de todos os tanques conhecidos que estejam em condição insegura
+   */
+  private async runWatchdog(): Promise<void> {
+    for (const deviceId of Array.from(this.states.keys())) {
+      await this.checkDevice(deviceId);
+    }
+  }
+
+  private async checkDevice(deviceId: number): Promise<void> {
+    if (!this.config.enabled || this.checking.has(deviceId)) {
+      return;
+    }
+    this.checking.add(deviceId);
+
+    try {
+      const status = getCurrentDeviceStatus(deviceId);
+      const state = this.getState(deviceId);
+      const now = Date.now();
+
+      const staleMessage = this.getStaleMessage(state, now);
+      if (staleMessage) {
+        if (status.pumpStatus) {
+          await this.forceOff('pump', deviceId, 'stale_readings', staleMessage);
+        }
+        if (status.heaterStatus) {
+          await this.forceOff('heater', deviceId, 'stale_readings', staleMessage);
+        }
+        return;
+      }
+
+      if (status.pumpStatus && state.lastLevel !== null && state.lastLevel < this.config.pumpCriticalLevel) {
+        await this.forceOff(
+          'pump',
+          deviceId,
+          'pump_low_level',
+          `Nível ${state.lastLevel.toFixed(1)}% abaixo do nível crítico de ${this.config.pumpCriticalLevel}% com a bomba ligada`
+        );
+      }
+
+      if (!status.heaterStatus) {
+        state.heaterOnSince = null;
+        return;
+      }
+
+      // Aquecedor ligado antes do início do serviço (estado restaurado): contar a partir de agora
+      if (state.heaterOnSince === null) {
+        state.heaterOnSince = now;
+      }
+
+      if (state.lastLevel !== null && state.lastLevel < this.config.heaterMinLevel) {
+        await this.forceOff(
+          'heater',
+          deviceId,
+          'heater_low_level',
+          `Nível ${state.lastLevel.toFixed(1)}% abaixo do mínimo de ${this.config.heaterMinLevel}% com o aquecedor ligado`
+        );
+      } else if (now - state.heaterOnSince > this.config.heaterMaxRuntimeMin * 60 * 1000) {
+        state.heaterRestUntil = now + this.config.heaterRestMin * 60 * 1000;
+        await this.forceOff(
+          'heater',
+          deviceId,
+          'heater_max_runtime',
+          `Aquecedor ligado há mais de ${this.config.heaterMaxRuntimeMin} min; desligado por ${this.config.heaterRestMin} min`
+        );
+      }
+    } catch (error) {
+      console.error('❌ Erro na verificação dos intertravamentos:', error);
+    } finally {
+      this.checking.delete(deviceId);
+    }
+  }
+
+  private async forceOff(actuator: InterlockActuator, deviceId: number, rule: InterlockRule, message: string): Promise<void> {
+    this.report({
+      deviceId,
+      actuator,
+      rule,
+      message,
+      source: 'watchdog',
+      forced: true,
+      timestamp: Date.now()
+    });
+
+    if (actuator === 'pump') {
+      await requestPumpStatus(false, 'interlock', deviceId);
+    } else {
+      await requestHeaterStatus(false, 'interlock', deviceId);
+    }
+    recordAudit({
+      deviceId,
+      field: actuator,
+      oldValue: true,
+      newValue: false,
+      source: 'automation',
+      actor: `intertravamento: ${RULE_LABELS[rule]}`
+    });
+  }
+
+  /**
+   * Guarda a violação e a registra como evento do sistema e alerta
+   * A mesma violação (tanque/regra/atuador) só é registrada novamente após REPORT_INTERVAL_MS
+   */
+  private report(violation: InterlockViolation): void {
+    this.violations.unshift(violation);
+    this.violations.length = Math.min(this.violations.length, this.MAX_VIOLATIONS);
+
+    const key = `${violation.deviceId}:${violation.rule}:${violation.actuator}:${violation.forced}`;
+    const lastReportedAt = this.lastReportedAt.get(key) || 0;
+    if (violation.timestamp - lastReportedAt < this.REPORT_INTERVAL_MS) {
+      return;
+    }
+    this.lastReportedAt.set(key, violation.timestamp);
+
+    const actuatorLabel = violation.actuator === 'pump' ? 'bomba' : 'aquecedor';
+    const action = violation.forced ? `${actuatorLabel} desligado(a) pelo watchdog` : `comando para ligar ${actuatorLabel} bloqueado (origem: ${violation.source})`;
+    const message = `Tanque ${violation.deviceId}: ${action} - ${violation.message}`;
+
+    console.warn(`⚠️ Intertravamento "${RULE_LABELS[violation.rule]}": ${message}`);
+    logSystemEvent('warning', `Intertravamento: ${RULE_LABELS[violation.rule]}`, message, violation.deviceId);
+    sendInterlockAlert(RULE_LABELS[violation.rule], message);
+  }
+
+  /**
+   * Atualiza a configuração dos intertravamentos
+   */
+  public updateConfig(config: Partial<InterlockConfig>): InterlockConfig {
+    const wasEnabled = this.config.enabled;
+    this.config = { ...this.config, ...config };
+
+    if (this.config.enabled !== wasEnabled) {
+      console.log(`🛡️ Intertravamentos ${this.config.enabled ? 'ativados' : 'desativados'}`);
+    }
+
+    return { ...this.config };
+  }
+
+  /**
+   * Retorna a configuração, o estado por tanque e as violações recentes para o frontend
+   */
+  public getStatus(): {
+    success: boolean;
+    config: InterlockConfig;
+    devices: Array<{ deviceId: number; lastReadingAt: number | null; lastLevel: number | null; heaterOnSince: number | null; heaterRestUntil: number; pumpStartsLastHour: number }>;
+    violations: InterlockViolation[];
+  } {
+    const now = Date.now();
+    return {
+      success: true,
+      config: { ...this.config },
+      devices: Array.from(this.states.entries()).map(([deviceId, state]) => ({
+        deviceId,
+        lastReadingAt: state.lastReadingAt,
+        lastLevel: state.lastLevel,
+        heaterOnSince: state.heaterOnSince,
+        heaterRestUntil: state.heaterRestUntil,
+        pumpStartsLastHour: state.pumpStarts.filter(startedAt => now - startedAt < HOUR_MS).length
+      })),
+      violations: [...this.violations]
+    };
+  }
+}
+
+export const interlockService = InterlockService.getInstance();
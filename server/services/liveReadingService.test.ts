@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { NewReading } from '@shared/reading';
+
+const mocks = vi.hoisted(() => ({
+  evaluateRules: vi.fn(),
+  recordReading: vi.fn(),
+  recordReadingUsage: vi.fn(),
+  publish: vi.fn(),
+  recordSensorValues: vi.fn(),
+  checkSensorAlerts: vi.fn()
+}));
+
+vi.mock('../storage', () => ({
+  storage: {
+    saveReading: vi.fn(async (reading: NewReading) => ({ id: 7, deviceId: 1, timestamp: 1000, ...reading }))
+  }
+}));
+vi.mock('./ruleEngineService', () => ({ evaluateRules: mocks.evaluateRules }));
+vi.mock('./interlockService', () => ({ interlockService: { recordReading: mocks.recordReading } }));
+vi.mock('./actuatorUsageService', () => ({ recordReadingUsage: mocks.recordReadingUsage }));
+vi.mock('./realtimeService', () => ({ realtimeService: { publish: mocks.publish } }));
+vi.mock('./sensorService', () => ({
+  recordSensorValues: mocks.recordSensorValues,
+  checkSensorAlerts: mocks.checkSensorAlerts
+}));
+
+import { saveLiveReading, recordLiveSensorValues } from './liveReadingService';
+
+describe('liveReadingService', () => {
+  beforeEach(() => {
+    Object.values(mocks).forEach(mock => mock.mockReset());
+  });
+
+  it('grava a leitura e a repassa às regras, aos intertravamentos, ao uso e à interface', async () => {
+    const saved = await saveLiveReading({ temperature: 24, level: 80, pumpStatus: true, heaterStatus: false });
+
+    expect(saved.id).toBe(7);
+    expect(mocks.evaluateRules).toHaveBeenCalledWith(saved);
+    expect(mocks.recordReading).toHaveBeenCalledWith(saved);
+    expect(mocks.recordReadingUsage).toHaveBeenCalledWith(saved);
+    expect(mocks.publish).toHaveBeenCalledWith('reading', saved, 1);
+  });
+
+  it('verifica os alertas e publica apenas os sensores gravados', async () => {
+    const saved = [{ id: 1, deviceId: 2, sensorKey: 'ph', value: 7.1, timestamp: 1000 }];
+    mocks.recordSensorValues.mockResolvedValueOnce({ saved, ignored: ['unknown'] });
+    mocks.recordSensorValues.mockResolvedValueOnce({ saved: [], ignored: ['unknown'] });
+
+    await recordLiveSensorValues(2, { ph: 7.1, unknown: 1 }, 1000);
+    await recordLiveSensorValues(2, { unknown: 1 }, 2000);
+
+    expect(mocks.checkSensorAlerts).toHaveBeenCalledTimes(1);
+    expect(mocks.checkSensorAlerts).toHaveBeenCalledWith(saved);
+    expect(mocks.publish).toHaveBeenCalledTimes(1);
+    expect(mocks.publish).toHaveBeenCalledWith('sensors', saved, 2);
+  });
+});
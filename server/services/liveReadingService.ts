@@ -0,0 +1,60 @@
+/**
+ * LiveReadingService - Gravação das leituras ao vivo
+ *
+ * Leituras que acabaram de chegar (coleta periódica, MQTT, emulador, POST /api/ingest e mudanças
+ * de estado pela API) passam por aqui: são gravadas pelo armazenamento configurado e repassadas às
+ * regras de automação, aos intertravamentos, à contagem de uso dos atuadores, aos alertas dos
+ * sensores e à interface. Importações do histórico e lotes de ingestão gravam direto com
+ * storage.saveReading e não disparam nenhum desses efeitos.
+ */
+
+import { Reading, NewReading } from '@shared/reading';
+import { storage } from '../storage';
+import { realtimeService } from './realtimeService';
+import { recordSensorValues, checkSensorAlerts, RecordSensorValuesResult } from './sensorService';
+
+/**
+ * Repassa uma leitura ao vivo às regras, aos intertravamentos, à contagem de uso dos atuadores
+ * e à interface
+ */
+async function notifyLiveReading(reading: Reading): Promise<void> {
+  // Importações dinâmicas: esses serviços dependem do armazenamento e dos transportes
+  const { evaluateRules } = await import('./ruleEngineService');
+  evaluateRules(reading);
+
+  const { interlockService } = await import('./interlockService');
+  interlockService.recordReading(reading);
+
+  const { recordReadingUsage } = await import('./actuatorUsageService');
+  recordReadingUsage(reading);
+
+  realtimeService.publish('reading', reading, reading.deviceId);
+}
+
+/**
+ * Grava uma leitura ao vivo e dispara os efeitos da nova leitura
+ */
+export async function saveLiveReading(reading: NewReading): Promise<Reading> {
+  const saved = await storage.saveReading(reading);
+  await notifyLiveReading(saved);
+  return saved;
+}
+
+/**
+ * Grava os valores dos sensores adicionais recebidos ao vivo, verifica as faixas de alerta e
+ * envia as leituras à interface
+ */
+export async function recordLiveSensorValues(
+  deviceId: number,
+  values: Record<string, number>,
+  timestamp = Date.now()
+): Promise<RecordSensorValuesResult> {
+  const result = await recordSensorValues(deviceId, values, timestamp);
+
+  if (result.saved.length > 0) {
+    checkSensorAlerts(result.saved);
+    realtimeService.publish('sensors', result.saved, deviceId);
+  }
+
+  return result;
+}
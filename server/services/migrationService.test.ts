@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+
+// Tabelas que os serviços criavam ad hoc e agora vêm das migrações
+const SERVICE_TABLES = [
+  'device_commands',
+  'users',
+  'api_tokens',
+  'device_keys',
+  'automation_rules',
+  'schedules',
+  'automation_state',
+  'audit_log',
+  'actuator_usage'
+];
+
+let db: Database;
+
+/**
+ * Banco principal vazio em um diretório novo, com o serviço de migrações recarregado
+ * (cada processo executa as migrações uma única vez por banco)
+ */
+async function freshDatabase() {
+  process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'aquaponia-migrations-')));
+  vi.resetModules();
+  db = await open({ filename: path.resolve('aquaponia.db'), driver: sqlite3.Database });
+  return import('./migrationService');
+}
+
+async function tableNames(): Promise<string[]> {
+  const rows = await db.all(`SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name`);
+  return rows.map(row => row.name);
+}
+
+async function columnNames(table: string): Promise<string[]> {
+  const rows = await db.all(`PRAGMA table_info(${table})`);
+  return rows.map(row => row.name);
+}
+
+describe('migrationService - banco principal', () => {
+  beforeEach(async () => {
+    await db?.close();
+  });
+
+  it('cria as tabelas dos serviços pelas migrações', async () => {
+    const { migrateDatabase, getSchemaStatus } = await freshDatabase();
+
+    await migrateDatabase('main');
+
+    expect(await tableNames()).toEqual(expect.arrayContaining(SERVICE_TABLES));
+    const [main] = await getSchemaStatus();
+    expect(main).toMatchObject({ database: 'main', initialized: true, upToDate: true, currentVersion: main.latestVersion });
+  });
+
+  it('consulta o status sem alterar um banco ainda não migrado', async () => {
+    const { getSchemaStatus } = await freshDatabase();
+    await db.exec(`CREATE TABLE readings (id INTEGER PRIMARY KEY)`);
+
+    const [main, backup] = await getSchemaStatus();
+
+    expect(main).toMatchObject({ initialized: false, currentVersion: 0, upToDate: false, applied: [] });
+    expect(main.pending).toHaveLength(main.latestVersion);
+    expect(await tableNames()).toEqual(['readings']);
+    // O banco de backup ainda não existe e continua sem arquivo
+    expect(backup).toMatchObject({ initialized: false, currentVersion: 0 });
+    expect(fs.existsSync(path.resolve('aquaponia_backup.db'))).toBe(false);
+  });
+
+  it('completa as tabelas criadas por versões antigas sem perder dados', async () => {
+    const { migrateDatabase } = await freshDatabase();
+    await db.exec(`
+      CREATE TABLE device_commands (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        fields TEXT NOT NULL,
+        state TEXT NOT NULL DEFAULT 'queued',
+        retries INTEGER NOT NULL DEFAULT 0,
+        max_retries INTEGER NOT NULL DEFAULT 3,
+        coalesced_fields TEXT NOT NULL DEFAULT '[]',
+        source TEXT NOT NULL DEFAULT 'system',
+        transport TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        sent_at INTEGER,
+        acknowledged_at INTEGER,
+        next_attempt_at INTEGER,
+        last_error TEXT
+      );
+      INSERT INTO device_commands (fields, state, created_at, updated_at) VALUES ('{"field3":1}', 'acknowledged', 1, 1);
+
+      CREATE TABLE device_keys (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        key_prefix TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        revoked INTEGER DEFAULT 0
+      );
+      INSERT INTO device_keys (name, key_hash, key_prefix, created_at) VALUES ('nodemcu', 'hash', 'aq_1234', 1);
+    `);
+
+    await migrateDatabase('main');
+
+    expect(await columnNames('device_commands')).toEqual(expect.arrayContaining(['device_id', 'confirmation', 'confirmed_at', 'feedback']));
+    expect(await db.get(`SELECT device_id, fields FROM device_commands`)).toEqual({ device_id: 1, fields: '{"field3":1}' });
+    expect(await db.get(`SELECT device_id, name FROM device_keys`)).toEqual({ device_id: 1, name: 'nodemcu' });
+  });
+
+  it('converte para % apenas os níveis dos tanques gravados inteiramente como fração', async () => {
+    const { migrateDatabase } = await freshDatabase();
+    await db.exec(`
+      CREATE TABLE readings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        device_id INTEGER NOT NULL DEFAULT 1,
+        temperature REAL NOT NULL,
+        level REAL NOT NULL,
+        pump_status INTEGER DEFAULT 0,
+        heater_status INTEGER DEFAULT 0,
+        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
+      );
+      INSERT INTO readings (device_id, temperature, level, timestamp) VALUES
+        (1, 25, 0.5, 1700000000000), (1, 25, 0.72, 1700000060000),
+        (2, 25, 60, 1700000000000), (2, 25, 0.8, 1700000060000);
+    `);
+
+    await migrateDatabase('main');
+
+    const levels = await db.all(`SELECT device_id, level FROM readings ORDER BY id`);
+    expect(levels).toEqual([
+      { device_id: 1, level: 50 },
+      { device_id: 1, level: 72 },
+      { device_id: 2, level: 60 },
+      // Tanque quase vazio entre leituras em %: leitura real, não fração
+      { device_id: 2, level: 0.8 }
+    ]);
+  });
+
+  it('desfaz e reaplica todas as migrações', async () => {
+    const { migrateDatabase, rollbackDatabase, getSchemaStatus } = await freshDatabase();
+    await migrateDatabase('main');
+
+    const rolledBack = await rollbackDatabase('main', 0);
+
+    expect(rolledBack[0]).toBeGreaterThan(rolledBack[rolledBack.length - 1]);
+    expect(await tableNames()).toEqual(['schema_migrations']);
+
+    await migrateDatabase('main');
+    expect(await tableNames()).toEqual(expect.arrayContaining(SERVICE_TABLES));
+    const [main] = await getSchemaStatus();
+    expect(main.upToDate).toBe(true);
+  });
+});
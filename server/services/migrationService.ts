@@ -0,0 +1,261 @@
+/**
+ * Serviço de migrações do esquema dos bancos SQLite
+ *
+ * Cada banco tem uma lista ordenada de migrações versionadas (server/migrations) e uma tabela
+ * schema_migrations com as versões já aplicadas. Na inicialização as versões pendentes são
+ * aplicadas em ordem, cada uma em sua própria transação; se uma falhar, ela é desfeita e as
+ * seguintes não rodam. O status (GET /api/system/schema) mostra a versão de cada banco e
+ * versões aplicadas que o código não conhece (banco migrado por uma versão mais nova do sistema).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { Migration } from '../migrations/helpers';
+import { mainDbMigrations } from '../migrations/mainDb';
+import { backupDbMigrations } from '../migrations/backupDb';
+
+export type SchemaDatabaseName = 'main' | 'backup';
+
+export const SCHEMA_DATABASE_NAMES: SchemaDatabaseName[] = ['main', 'backup'];
+
+const SCHEMA_DATABASES: Record<SchemaDatabaseName, { file: string; migrations: Migration[] }> = {
+  main: { file: 'aquaponia.db', migrations: mainDbMigrations },
+  backup: { file: 'aquaponia_backup.db', migrations: backupDbMigrations }
+};
+
+// Espera por bloqueios de outras conexões (serviços gravando durante a inicialização)
+const BUSY_TIMEOUT_MS = 5000;
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: number;
+}
+
+export interface SchemaStatus {
+  database: SchemaDatabaseName;
+  file: string;
+  // false quando o banco ainda não tem schema_migrations (nenhuma migração foi executada)
+  initialized: boolean;
+  currentVersion: number;
+  latestVersion: number;
+  upToDate: boolean;
+  applied: AppliedMigration[];
+  pending: { version: number; name: string }[];
+  // Versões registradas no banco que não existem no código
+  unknown: AppliedMigration[];
+}
+
+// Migração em andamento (ou concluída) por banco, para que chamadas simultâneas não apliquem a mesma versão
+const migrationRuns = new Map<SchemaDatabaseName, Promise<number>>();
+
+function getDbPath(database: SchemaDatabaseName): string {
+  return path.resolve(process.cwd(), SCHEMA_DATABASES[database].file);
+}
+
+/**
+ * Garante que as versões são únicas e estão em ordem crescente
+ */
+function getMigrations(database: SchemaDatabaseName): Migration[] {
+  const migrations = SCHEMA_DATABASES[database].migrations;
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migrações do banco ${database} fora de ordem: versão ${migration.version} após ${migrations[index - 1].version}`);
+    }
+  });
+  return migrations;
+}
+
+async function openSchemaDb(database: SchemaDatabaseName): Promise<Database> {
+  const db = await open({
+    filename: getDbPath(database),
+    driver: sqlite3.Database
+  });
+  await db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+
+  await db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    );
+  `);
+
+  return db;
+}
+
+/**
+ * Abre o banco somente para leitura, sem criar o arquivo nem a tabela schema_migrations
+ */
+async function openSchemaDbReadOnly(database: SchemaDatabaseName): Promise<Database> {
+  const db = await open({
+    filename: getDbPath(database),
+    mode: sqlite3.OPEN_READONLY,
+    driver: sqlite3.Database
+  });
+  await db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+  return db;
+}
+
+async function hasMigrationsTable(db: Database): Promise<boolean> {
+  const row = await db.get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`);
+  return !!row;
+}
+
+async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+  const rows = await db.all('SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC');
+  return rows.map((row: any) => ({ version: row.version, name: row.name, appliedAt: row.applied_at }));
+}
+
+async function inTransaction(db: Database, action: () => Promise<void>) {
+  // IMMEDIATE reserva a escrita logo no início, evitando outro processo migrando ao mesmo tempo
+  await db.exec('BEGIN IMMEDIATE');
+  try {
+    await action();
+    await db.exec('COMMIT');
+  } catch (error) {
+    await db.exec('ROLLBACK');
+    throw error;
+  }
+}
+
+async function applyPendingMigrations(database: SchemaDatabaseName): Promise<number> {
+  const migrations = getMigrations(database);
+  const db = await openSchemaDb(database);
+
+  try {
+    const appliedVersions = new Set((await getAppliedMigrations(db)).map(migration => migration.version));
+    const pending = migrations.filter(migration => !appliedVersions.has(migration.version));
+
+    for (const migration of pending) {
+      console.log(`🗃️ [${database}] Aplicando migração ${migration.version} (${migration.name})`);
+      await inTransaction(db, async () => {
+        await migration.up(db);
+        await db.run(
+          'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          [migration.version, migration.name, Date.now()]
+        );
+      });
+    }
+
+    if (pending.length > 0) {
+      console.log(`✅ [${database}] Esquema na versão ${migrations[migrations.length - 1].version}`);
+    }
+    return pending.length;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Aplica as migrações pendentes do banco
+ * Executada uma vez por processo; chamadas seguintes aguardam a mesma execução
+ * @returns Número de migrações aplicadas
+ */
+export function migrateDatabase(database: SchemaDatabaseName): Promise<number> {
+  let run = migrationRuns.get(database);
+  if (!run) {
+    run = applyPendingMigrations(database);
+    migrationRuns.set(database, run);
+    // Em caso de falha, a próxima chamada tenta novamente
+    run.catch(() => migrationRuns.delete(database));
+  }
+  return run;
+}
+
+/**
+ * Aplica as migrações pendentes de todos os bancos (inicialização do servidor)
+ */
+export async function migrateAllDatabases(): Promise<void> {
+  for (const database of SCHEMA_DATABASE_NAMES) {
+    await migrateDatabase(database);
+  }
+}
+
+/**
+ * Desfaz migrações aplicadas, da mais recente para a mais antiga
+ * @param targetVersion Versão que deve permanecer aplicada (padrão: desfaz apenas a última)
+ * @returns Versões desfeitas
+ */
+export async function rollbackDatabase(database: SchemaDatabaseName, targetVersion?: number): Promise<number[]> {
+  const migrations = getMigrations(database);
+  const db = await openSchemaDb(database);
+
+  try {
+    const applied = await getAppliedMigrations(db);
+    if (applied.length === 0) return [];
+
+    const target = targetVersion ?? (applied.length > 1 ? applied[applied.length - 2].version : 0);
+    const toRollback = applied.filter(migration => migration.version > target).reverse();
+    const rolledBack: number[] = [];
+
+    for (const appliedMigration of toRollback) {
+      const migration = migrations.find(candidate => candidate.version === appliedMigration.version);
+      if (!migration) {
+        throw new Error(`Migração ${appliedMigration.version} do banco ${database} não existe nesta versão do sistema`);
+      }
+
+      console.log(`↩️ [${database}] Desfazendo migração ${migration.version} (${migration.name})`);
+      await inTransaction(db, async () => {
+        await migration.down(db);
+        await db.run('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      });
+      rolledBack.push(migration.version);
+    }
+
+    migrationRuns.delete(database);
+    return rolledBack;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Versão atual, migrações aplicadas e pendentes de cada banco
+ * Somente leitura: bancos ainda não criados ou sem schema_migrations aparecem como não inicializados,
+ * com todas as migrações pendentes, e nada é gravado
+ */
+export async function getSchemaStatus(): Promise<SchemaStatus[]> {
+  const statuses: SchemaStatus[] = [];
+
+  for (const database of SCHEMA_DATABASE_NAMES) {
+    const migrations = getMigrations(database);
+    let initialized = false;
+    let applied: AppliedMigration[] = [];
+
+    if (fs.existsSync(getDbPath(database))) {
+      const db = await openSchemaDbReadOnly(database);
+      try {
+        initialized = await hasMigrationsTable(db);
+        if (initialized) {
+          applied = await getAppliedMigrations(db);
+        }
+      } finally {
+        await db.close();
+      }
+    }
+
+    const knownVersions = new Set(migrations.map(migration => migration.version));
+    const appliedVersions = new Set(applied.map(migration => migration.version));
+    const pending = migrations
+      .filter(migration => !appliedVersions.has(migration.version))
+      .map(({ version, name }) => ({ version, name }));
+    const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+    statuses.push({
+      database,
+      file: SCHEMA_DATABASES[database].file,
+      initialized,
+      currentVersion: applied.length > 0 ? applied[applied.length - 1].version : 0,
+      latestVersion,
+      upToDate: pending.length === 0,
+      applied,
+      pending,
+      unknown: applied.filter(migration => !knownVersions.has(migration.version))
+    });
+  }
+
+  return statuses;
+}
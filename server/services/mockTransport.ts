@@ -0,0 +1,89 @@
+/**
+ * Transporte de telemetria em memória
+ *
+ * Simula os dois canais do dispositivo sem acesso à rede: as escritas são
+ * acrescentadas ao canal principal e os campos de comando (field3-field8) são
+ * refletidos no canal de feedback (field1-field6), como faria o firmware.
+ * Útil para desenvolvimento local e testes.
+ */
+import type { TelemetryTransport, TelemetryFeed, TelemetryFields } from './telemetryTransport';
+import { DEFAULT_READING } from './thingspeakConfig';
+
+// Número máximo de entradas mantidas em memória
+const MAX_FEEDS = 1000;
+
+export class MockTransport implements TelemetryTransport {
+  readonly name = 'mock';
+  readonly description = 'Simulado em memória (sem rede)';
+  readonly minWriteIntervalMs = 0;
+
+  private feeds: TelemetryFeed[] = [];
+  private feedback: TelemetryFeed | null = null;
+  private nextEntryId = 1;
+
+  constructor() {
+    // Entrada inicial com os valores padrão
+    this.feeds.push({
+      entry_id: this.nextEntryId++,
+      created_at: new Date().toISOString(),
+      field1: DEFAULT_READING.temperature,
+      field2: DEFAULT_READING.level,
+      field3: DEFAULT_READING.pumpStatus ? 1 : 0,
+      field4: DEFAULT_READING.heaterStatus ? 1 : 0,
+      field5: DEFAULT_READING.operationMode ? 1 : 0,
+      field6: DEFAULT_READING.targetTemp,
+      field7: DEFAULT_READING.pumpOnTimer,
+      field8: DEFAULT_READING.pumpOffTimer
+    });
+  }
+
+  async fetchLatestFeeds(results = 1): Promise<TelemetryFeed[]> {
+    return this.feeds.slice(-results).map(feed => ({ ...feed }));
+  }
+
+  async fetchFeedsInRange(start: Date, end: Date, maxResults = 1000): Promise<TelemetryFeed[]> {
+    return this.feeds
+      .filter(feed => {
+        const time = new Date(feed.created_at || 0).getTime();
+        return time >= start.getTime() && time <= end.getTime();
+      })
+      .slice(-maxResults)
+      .map(feed => ({ ...feed }));
+  }
+
+  async fetchFeedbackFeed(): Promise<TelemetryFeed | null> {
+    return this.feedback ? { ...this.feedback } : null;
+  }
+
+  async writeFields(fields: TelemetryFields): Promise<boolean> {
+    const last = this.feeds[this.feeds.length - 1];
+    const createdAt = new Date().toISOString();
+
+    // Campos não informados mantêm o último valor conhecido
+    const entry: TelemetryFeed = {
+      ...last,
+      ...fields,
+      entry_id: this.nextEntryId++,
+      created_at: createdAt
+    };
+
+    this.feeds.push(entry);
+    if (this.feeds.length > MAX_FEEDS) {
+      this.feeds.shift();
+    }
+
+    // Canal 2: o dispositivo confirma os valores de comando aplicados
+    this.feedback = {
+      entry_id: entry.entry_id,
+      created_at: createdAt,
+      field1: entry.field3,
+      field2: entry.field4,
+      field3: entry.field5,
+      field4: entry.field6,
+      field5: entry.field7,
+      field6: entry.field8
+    };
+
+    return true;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Broker MQTT embutido (aedes)
+ *
+ * Permite executar o servidor e os nós ESP8266/ESP32 (ou clientes de teste como
+ * mosquitto_pub) sem um broker externo. Ativado com MQTT_EMBEDDED_BROKER=true.
+ */
+import net from 'net';
+import { Aedes } from 'aedes';
+
+let broker: Aedes | null = null;
+let server: net.Server | null = null;
+
+/**
+ * Inicia o broker embutido na porta informada (idempotente)
+ */
+export async function startEmbeddedBroker(port: number): Promise<void> {
+  if (server) return;
+
+  broker = await Aedes.createBroker();
+  server = net.createServer(broker.handle);
+
+  await new Promise<void>((resolve, reject) => {
+    server!.once('error', reject);
+    server!.listen(port, () => {
+      server!.off('error', reject);
+      resolve();
+    });
+  });
+
+  broker.on('client', (client) => {
+    console.log(`🔌 [MQTT] Cliente conectado ao broker embutido: ${client.id}`);
+  });
+
+  console.log(`✅ [MQTT] Broker embutido escutando na porta ${port}`);
+}
+
+/**
+ * Encerra o broker embutido, se estiver ativo
+ */
+export async function stopEmbeddedBroker(): Promise<void> {
+  if (!server || !broker) return;
+
+  await new Promise<void>((resolve) => server!.close(() => resolve()));
+  await new Promise<void>((resolve) => broker!.close(() => resolve()));
+
+  server = null;
+  broker = null;
+  console.log('🛑 [MQTT] Broker embutido encerrado');
+}
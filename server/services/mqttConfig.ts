@@ -0,0 +1,39 @@
+// MQTT configuration and topics
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Conexão com o broker (local ou embutido)
+export const MQTT_URL = process.env.MQTT_URL || 'mqtt://localhost:1883';
+export const MQTT_USERNAME = process.env.MQTT_USERNAME || undefined;
+export const MQTT_PASSWORD = process.env.MQTT_PASSWORD || undefined;
+export const MQTT_CLIENT_ID = process.env.MQTT_CLIENT_ID || `aquaponia-server-${Math.random().toString(16).slice(2, 8)}`;
+
+// Broker embutido (aedes) para desenvolvimento e testes sem infraestrutura externa
+export const MQTT_EMBEDDED_BROKER = process.env.MQTT_EMBEDDED_BROKER === 'true';
+export const MQTT_EMBEDDED_BROKER_PORT = parseInt(process.env.MQTT_EMBEDDED_BROKER_PORT || '1883');
+
+// Prefixo comum de todos os tópicos
+export const MQTT_TOPIC_PREFIX = process.env.MQTT_TOPIC_PREFIX || 'aquaponia';
+
+// Tópicos publicados pelos nós ESP8266/ESP32
+export const MQTT_SENSOR_TOPICS = {
+  temperature: `${MQTT_TOPIC_PREFIX}/sensors/temperature`, // payload numérico em °C
+  level: `${MQTT_TOPIC_PREFIX}/sensors/level`,             // payload numérico em %
+  combined: `${MQTT_TOPIC_PREFIX}/sensors`,                // JSON { temperature, level } ou { field1, field2 }
+  status: `${MQTT_TOPIC_PREFIX}/status`                    // JSON com os valores aplicados (feedback)
+};
+
+// Tópicos de comando publicados pelo servidor (retained)
+// Mapeados a partir dos campos de escrita de THINGSPEAK_FIELD_MAPPINGS
+export const MQTT_COMMAND_TOPICS: Record<string, string> = {
+  field3: `${MQTT_TOPIC_PREFIX}/cmd/pump`,           // 0 | 1
+  field4: `${MQTT_TOPIC_PREFIX}/cmd/heater`,         // 0 | 1
+  field5: `${MQTT_TOPIC_PREFIX}/cmd/mode`,           // 0 = manual, 1 = automático
+  field6: `${MQTT_TOPIC_PREFIX}/cmd/target-temp`,    // °C
+  field7: `${MQTT_TOPIC_PREFIX}/cmd/pump-on-timer`,  // segundos
+  field8: `${MQTT_TOPIC_PREFIX}/cmd/pump-off-timer`  // segundos
+};
+
+// Janela para agrupar temperatura e nível recebidos em tópicos separados em uma única leitura
+export const MQTT_READING_DEBOUNCE_MS = parseInt(process.env.MQTT_READING_DEBOUNCE_MS || '500');
@@ -0,0 +1,269 @@
+/**
+ * Transporte de telemetria via MQTT
+ *
+ * Os nós ESP8266/ESP32 publicam temperatura e nível diretamente no broker e recebem
+ * comandos em tópicos retained, sem o limite de 15 segundos do ThingSpeak.
+ * As leituras recebidas são gravadas como leituras ao vivo (saveLiveReading) assim que chegam.
+ */
+import { connect, MqttClient } from 'mqtt';
+import type { TelemetryTransport, TelemetryFeed, TelemetryFields } from './telemetryTransport';
+import { DEFAULT_READING, parseThingspeakNumber } from './thingspeakConfig';
+import {
+  MQTT_URL,
+  MQTT_USERNAME,
+  MQTT_PASSWORD,
+  MQTT_CLIENT_ID,
+  MQTT_EMBEDDED_BROKER,
+  MQTT_EMBEDDED_BROKER_PORT,
+  MQTT_SENSOR_TOPICS,
+  MQTT_COMMAND_TOPICS,
+  MQTT_READING_DEBOUNCE_MS
+} from './mqttConfig';
+import { startEmbeddedBroker, stopEmbeddedBroker } from './mqttBroker';
+import { saveLiveReading } from './liveReadingService';
+import { readingFromFeed } from '@shared/reading';
+import { UpstreamUnavailableError } from '../utils/errors';
+
+// Número máximo de entradas mantidas em memória para consultas por período
+const MAX_FEEDS = 1000;
+// Tempo máximo de espera pela conexão com o broker antes de uma escrita
+const CONNECT_TIMEOUT_MS = 3000;
+
+export class MqttTransport implements TelemetryTransport {
+  readonly name = 'mqtt';
+  readonly description = 'MQTT (broker local)';
+  readonly minWriteIntervalMs = 0;
+
+  private client: MqttClient | null = null;
+  private ready: Promise<void>;
+  private feeds: TelemetryFeed[] = [];
+  private feedback: TelemetryFeed | null = null;
+  private nextEntryId = 1;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pendingSensors: { temperature?: number; level?: number } = {};
+
+  // Último estado conhecido do canal (sensores + comandos)
+  private current: TelemetryFeed = {
+    field1: DEFAULT_READING.temperature,
+    field2: DEFAULT_READING.level,
+    field3: DEFAULT_READING.pumpStatus ? 1 : 0,
+    field4: DEFAULT_READING.heaterStatus ? 1 : 0,
+    field5: DEFAULT_READING.operationMode ? 1 : 0,
+    field6: DEFAULT_READING.targetTemp,
+    field7: DEFAULT_READING.pumpOnTimer,
+    field8: DEFAULT_READING.pumpOffTimer
+  };
+
+  constructor() {
+    this.ready = this.connect().catch(error => {
+      console.error('❌ [MQTT] Falha ao inicializar transporte:', error);
+    });
+  }
+
+  private async connect(): Promise<void> {
+    if (MQTT_EMBEDDED_BROKER) {
+      await startEmbeddedBroker(MQTT_EMBEDDED_BROKER_PORT);
+    }
+
+    console.log(`📡 [MQTT] Conectando a ${MQTT_URL}...`);
+    this.client = connect(MQTT_URL, {
+      clientId: MQTT_CLIENT_ID,
+      username: MQTT_USERNAME,
+      password: MQTT_PASSWORD,
+      reconnectPeriod: 5000
+    });
+
+    this.client.on('connect', () => {
+      console.log('✅ [MQTT] Conectado ao broker');
+      this.client!.subscribe(Object.values(MQTT_SENSOR_TOPICS), { qos: 1 }, (error) => {
+        if (error) {
+          console.error('❌ [MQTT] Erro ao assinar tópicos de sensores:', error);
+        }
+      });
+    });
+
+    this.client.on('message', (topic, payload) => {
+      try {
+        this.handleMessage(topic, payload.toString());
+      } catch (error) {
+        console.error(`❌ [MQTT] Mensagem inválida em ${topic}:`, error);
+      }
+    });
+
+    this.client.on('error', (error) => {
+      console.error('❌ [MQTT] Erro no cliente:', error.message);
+    });
+
+    this.client.on('offline', () => {
+      console.warn('⚠️ [MQTT] Broker indisponível, tentando reconectar...');
+    });
+  }
+
+  /**
+   * Processa mensagens dos tópicos de sensores e de feedback
+   */
+  private handleMessage(topic: string, payload: string) {
+    switch (topic) {
+      case MQTT_SENSOR_TOPICS.temperature:
+        this.pendingSensors.temperature = parseThingspeakNumber(payload);
+        this.scheduleFlush();
+        break;
+
+      case MQTT_SENSOR_TOPICS.level:
+        this.pendingSensors.level = parseThingspeakNumber(payload);
+        this.scheduleFlush();
+        break;
+
+      case MQTT_SENSOR_TOPICS.combined: {
+        const data = JSON.parse(payload);
+        const temperature = data.temperature ?? data.field1;
+        const level = data.level ?? data.field2;
+        if (temperature !== undefined) this.pendingSensors.temperature = parseThingspeakNumber(temperature);
+        if (level !== undefined) this.pendingSensors.level = parseThingspeakNumber(level);
+        this.flushReading();
+        break;
+      }
+
+      case MQTT_SENSOR_TOPICS.status: {
+        // Mesma numeração do Canal 2 do ThingSpeak (field1-field6)
+        const data = JSON.parse(payload);
+        this.feedback = {
+          entry_id: this.nextEntryId,
+          created_at: new Date().toISOString(),
+          field1: data.pump ?? data.pumpStatus ?? data.field1,
+          field2: data.heater ?? data.heaterStatus ?? data.field2,
+          field3: data.mode ?? data.operationMode ?? data.field3,
+          field4: data.targetTemp ?? data.field4,
+          field5: data.pumpOnTimer ?? data.field5,
+          field6: data.pumpOffTimer ?? data.field6
+        };
+        break;
+      }
+    }
+  }
+
+  /**
+   * Aguarda um curto intervalo para agrupar temperatura e nível publicados separadamente
+   */
+  private scheduleFlush() {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => this.flushReading(), MQTT_READING_DEBOUNCE_MS);
+  }
+
+  /**
+   * Registra a leitura pendente no canal em memória e no banco de dados
+   */
+  private flushReading() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.pendingSensors.temperature === undefined && this.pendingSensors.level === undefined) {
+      return;
+    }
+
+    const timestamp = new Date();
+    const entry: TelemetryFeed = {
+      ...this.current,
+      field1: this.pendingSensors.temperature ?? this.current.field1,
+      field2: this.pendingSensors.level ?? this.current.field2,
+      entry_id: this.nextEntryId++,
+      created_at: timestamp.toISOString()
+    };
+    this.pendingSensors = {};
+    this.current = entry;
+
+    this.feeds.push(entry);
+    if (this.feeds.length > MAX_FEEDS) {
+      this.feeds.shift();
+    }
+
+    saveLiveReading(readingFromFeed(entry)).then(() => {
+      console.log(`📥 [MQTT] Leitura gravada: ${entry.field1}°C, ${entry.field2}%`);
+    }).catch(error => {
+      console.error('❌ [MQTT] Erro ao gravar leitura:', error);
+    });
+  }
+
+  /**
+   * Aguarda a conexão com o broker, lançando erro após o timeout
+   */
+  private async ensureConnected(): Promise<MqttClient> {
+    await this.ready;
+
+    const client = this.client;
+    if (!client) {
+      throw new UpstreamUnavailableError('Cliente MQTT não inicializado');
+    }
+
+    if (!client.connected) {
+      await new Promise<void>((resolve, reject) => {
+        const timeoutId = setTimeout(() => {
+          client.off('connect', onConnect);
+          reject(new Error(`Broker MQTT indisponível em ${MQTT_URL}`));
+        }, CONNECT_TIMEOUT_MS);
+        const onConnect = () => {
+          clearTimeout(timeoutId);
+          resolve();
+        };
+        client.once('connect', onConnect);
+      });
+    }
+
+    return client;
+  }
+
+  async fetchLatestFeeds(results = 1): Promise<TelemetryFeed[]> {
+    return this.feeds.slice(-results).map(feed => ({ ...feed }));
+  }
+
+  async fetchFeedsInRange(start: Date, end: Date, maxResults = 1000): Promise<TelemetryFeed[]> {
+    return this.feeds
+      .filter(feed => {
+        const time = new Date(feed.created_at || 0).getTime();
+        return time >= start.getTime() && time <= end.getTime();
+      })
+      .slice(-maxResults)
+      .map(feed => ({ ...feed }));
+  }
+
+  async fetchFeedbackFeed(): Promise<TelemetryFeed | null> {
+    return this.feedback ? { ...this.feedback } : null;
+  }
+
+  /**
+   * Publica os campos de comando (field3-field8) nos respectivos tópicos
+   * Campos de sensores (field1-field2) são somente leitura neste transporte
+   */
+  async writeFields(fields: TelemetryFields): Promise<boolean> {
+    const client = await this.ensureConnected();
+
+    for (const [field, value] of Object.entries(fields)) {
+      const topic = MQTT_COMMAND_TOPICS[field];
+      if (!topic || value === undefined) continue;
+
+      await client.publishAsync(topic, value.toString(), { qos: 1, retain: true });
+      this.current = { ...this.current, [field]: value };
+      console.log(`📤 [MQTT] ${topic} = ${value}`);
+    }
+
+    return true;
+  }
+
+  async close(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    if (this.client) {
+      await this.client.endAsync();
+      this.client = null;
+    }
+
+    if (MQTT_EMBEDDED_BROKER) {
+      await stopEmbeddedBroker();
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Serviço de eventos em tempo real
+ * Os serviços publicam aqui as novas leituras (inclusive dos sensores adicionais), mudanças de estado dos equipamentos, passos do ciclo
+ * automático, alertas e o andamento das sincronizações; a rota /api/events (routes-events) repassa
+ * esses eventos à interface por Server-Sent Events, substituindo as consultas periódicas.
+ *
+ * Este módulo não importa outros serviços para poder ser usado por qualquer um deles.
+ */
+
+import { EventEmitter } from 'events';
+
+export const REALTIME_EVENT_TYPES = ['reading', 'sensors', 'device-status', 'automation', 'alert', 'sync'] as const;
+
+export type RealtimeEventType = typeof REALTIME_EVENT_TYPES[number];
+
+export interface RealtimeEvent {
+  id: number;
+  type: RealtimeEventType;
+  // Tanque a que o evento se refere; eventos sem tanque são enviados a todos os clientes
+  deviceId: number | null;
+  data: unknown;
+  timestamp: number;
+}
+
+export type RealtimeListener = (event: RealtimeEvent) => void;
+
+class RealtimeService {
+  private static instance: RealtimeService;
+  private emitter = new EventEmitter();
+  private nextId = 1;
+
+  private constructor() {
+    // Cada aba aberta da interface é um assinante
+    this.emitter.setMaxListeners(0);
+  }
+
+  public static getInstance(): RealtimeService {
+    if (!RealtimeService.instance) {
+      RealtimeService.instance = new RealtimeService();
+    }
+    return RealtimeService.instance;
+  }
+
+  /**
+   * Publica um evento para os clientes conectados
+   * Erros dos assinantes não interrompem o serviço que publicou
+   */
+  public publish(type: RealtimeEventType, data: unknown, deviceId: number | null = null): void {
+    if (this.emitter.listenerCount('event') === 0) return;
+
+    const event: RealtimeEvent = {
+      id: this.nextId++,
+      type,
+      deviceId,
+      data,
+      timestamp: Date.now()
+    };
+
+    try {
+      this.emitter.emit('event', event);
+    } catch (error) {
+      console.error(`❌ Erro ao publicar evento em tempo real "${type}":`, error);
+    }
+  }
+
+  /**
+   * Assina os eventos publicados; retorna a função para cancelar a assinatura
+   */
+  public subscribe(listener: RealtimeListener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  /**
+   * Quantidade de clientes conectados
+   */
+  public getSubscriberCount(): number {
+    return this.emitter.listenerCount('event');
+  }
+}
+
+export const realtimeService = RealtimeService.getInstance();
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+
+vi.mock('../storage', () => ({ storage: { getSettings: vi.fn(async () => ({ dataRetention: 30 })) } }));
+vi.mock('./historicalDataService', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./historicalDataService')>();
+  return { ...actual, aggregateDailyData: vi.fn(actual.aggregateDailyData) };
+});
+
+import { retentionService } from './retentionService';
+import { aggregateDailyData } from './historicalDataService';
+import { migrateDatabase } from './migrationService';
+import { ConflictError } from '../utils/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 15, 12);
+// Dia inteiro anterior ao limite de 30 dias das configurações
+const OLD_DAY = Date.UTC(2024, 3, 1);
+
+function openDb() {
+  return open({ filename: path.resolve('aquaponia.db'), driver: sqlite3.Database });
+}
+
+async function insertReadings(deviceId: number, temperature: number, day: number) {
+  const db = await openDb();
+  for (let hour = 0; hour < 3; hour++) {
+    await db.run(
+      `INSERT INTO readings (device_id, temperature, level, pump_status, heater_status, timestamp) VALUES (?, ?, 70, 0, 0, ?)`,
+      [deviceId, temperature, day + hour * 60 * 60 * 1000]
+    );
+  }
+  await db.close();
+}
+
+async function query(sql: string) {
+  const db = await openDb();
+  const rows = await db.all(sql);
+  await db.close();
+  return rows;
+}
+
+describe('retentionService', () => {
+  beforeAll(async () => {
+    await migrateDatabase('main');
+  });
+
+  beforeEach(async () => {
+    const db = await openDb();
+    await db.exec(`DELETE FROM readings; DELETE FROM sensor_readings; DELETE FROM historical_data;`);
+    await db.close();
+  });
+
+  afterEach(() => {
+    delete process.env.STORAGE_BACKEND;
+    vi.mocked(aggregateDailyData).mockReset();
+  });
+
+  it('agrega cada tanque em suas próprias linhas antes de apagar as leituras', async () => {
+    const actual = await vi.importActual<typeof import('./historicalDataService')>('./historicalDataService');
+    vi.mocked(aggregateDailyData).mockImplementation(actual.aggregateDailyData);
+    await insertReadings(1, 20, OLD_DAY);
+    await insertReadings(2, 30, OLD_DAY);
+    await insertReadings(1, 25, NOW - DAY_MS);
+
+    const result = await retentionService.run(NOW);
+
+    expect(result).toMatchObject({ status: 'success', aggregated: { daily: 2 }, deleted: { readings: 6 } });
+    expect(await query(`SELECT device_id, date, avg_temperature FROM historical_data WHERE period_type = 'daily' ORDER BY device_id`)).toEqual([
+      { device_id: 1, date: OLD_DAY, avg_temperature: 20 },
+      { device_id: 2, date: OLD_DAY, avg_temperature: 30 }
+    ]);
+    expect(await query(`SELECT device_id, temperature FROM readings`)).toEqual([
+      { device_id: 1, temperature: 25 },
+      { device_id: 1, temperature: 25 },
+      { device_id: 1, temperature: 25 }
+    ]);
+  });
+
+  it('mantém as leituras do tanque cuja agregação falhou', async () => {
+    const actual = await vi.importActual<typeof import('./historicalDataService')>('./historicalDataService');
+    vi.mocked(aggregateDailyData).mockImplementation(async (startDate, endDate, deviceId) => {
+      if (deviceId === 2) throw new Error('database is locked');
+      return actual.aggregateDailyData(startDate, endDate, deviceId);
+    });
+    await insertReadings(1, 20, OLD_DAY);
+    await insertReadings(2, 30, OLD_DAY);
+
+    await expect(retentionService.run(NOW)).rejects.toThrow('database is locked');
+
+    expect(await query(`SELECT device_id, COUNT(*) as count FROM readings GROUP BY device_id`)).toEqual([
+      { device_id: 2, count: 3 }
+    ]);
+    expect(await query(`SELECT DISTINCT device_id FROM historical_data WHERE period_type = 'daily'`)).toEqual([
+      { device_id: 1 }
+    ]);
+  });
+
+  it('mantém o histórico dos sensores adicionais', async () => {
+    const actual = await vi.importActual<typeof import('./historicalDataService')>('./historicalDataService');
+    vi.mocked(aggregateDailyData).mockImplementation(actual.aggregateDailyData);
+    await insertReadings(1, 20, OLD_DAY);
+    const db = await openDb();
+    await db.run(`INSERT INTO sensor_readings (device_id, sensor_key, value, timestamp) VALUES (1, 'ph', 7.1, ?)`, [OLD_DAY]);
+    await db.close();
+
+    await retentionService.run(NOW);
+
+    expect(await query(`SELECT sensor_key, value FROM sensor_readings`)).toEqual([{ sensor_key: 'ph', value: 7.1 }]);
+  });
+
+  it('não roda com as leituras no PostgreSQL', async () => {
+    process.env.STORAGE_BACKEND = 'postgres';
+    await insertReadings(1, 20, OLD_DAY);
+
+    await expect(retentionService.run(NOW)).rejects.toBeInstanceOf(ConflictError);
+
+    expect(await query(`SELECT COUNT(*) as count FROM readings`)).toEqual([{ count: 3 }]);
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * RetentionService - Política de retenção e redução de resolução dos dados
+ *
+ * As configurações expõem dataRetention (dias de leituras brutas). Uma vez por dia o job:
+ * 1. Agrega, tanque a tanque, as leituras mais antigas que o limite nas linhas horárias e diárias de
+ *    historical_data (e recalcula as semanas e meses afetados a partir das linhas diárias)
+ * 2. Apaga as leituras brutas (readings) do tanque anteriores ao limite, só depois que as agregações
+ *    dele foram gravadas
+ * 3. Apaga as linhas horárias, diárias, semanais e mensais mais antigas que o horizonte de cada uma
+ * 4. Compacta o arquivo SQLite com VACUUM
+ *
+ * Cada execução fica registrada em sync_history e system_events. Os horizontes das agregações vêm
+ * das variáveis RETENTION_*_DAYS e nunca ficam abaixo do necessário para recalcular as semanas e
+ * meses em andamento (as linhas diárias sobrevivem pelo menos um mês às leituras brutas).
+ *
+ * As leituras dos sensores adicionais (sensor_readings) não são apagadas: não há agregação delas e o
+ * histórico de cada sensor é montado a partir das linhas brutas.
+ *
+ * Com STORAGE_BACKEND=postgres as leituras ficam no PostgreSQL e o job não roda: a retenção só é
+ * aplicada ao SQLite.
+ */
+import path from 'path';
+import cron from 'node-cron';
+import sqlite3 from 'sqlite3';
+import { open } from 'sqlite';
+import { storage } from '../storage';
+import {
+  PeriodType,
+  aggregateHourlyData,
+  aggregateDailyData,
+  aggregateWeeklyData,
+  aggregateMonthlyData,
+  logSystemEvent,
+  logSyncHistory
+} from './historicalDataService';
+import { ConflictError } from '../utils/errors';
+import { assertSqliteReadings, getStorageBackend } from '../utils/storageBackend';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Margem das linhas diárias além das leituras brutas, para recalcular o mês em andamento
+const DAILY_MIN_MARGIN_DAYS = 31;
+
+// Espera pelas gravações da coleta e da fila de comandos em vez de falhar com SQLITE_BUSY (VACUUM
+// precisa do banco inteiro livre)
+const BUSY_TIMEOUT_MS = 30000;
+
+export interface RetentionPolicy {
+  enabled: boolean;
+  schedule: string;               // expressão cron (horário de Brasília)
+  rawDays: number;                // leituras brutas (dataRetention das configurações)
+  hourlyDays: number;             // linhas horárias
+  dailyDays: number;              // linhas diárias
+  weeklyDays: number;             // linhas semanais
+  monthlyDays: number;            // linhas mensais (0 = sem limite)
+}
+
+export interface RetentionRunResult {
+  status: 'success' | 'failed';
+  startedAt: number;
+  finishedAt: number;
+  cutoff: number;                 // leituras brutas anteriores a este instante foram removidas
+  policy: RetentionPolicy;
+  aggregated: Record<PeriodType, number>;
+  deleted: {
+    readings: number;
+  } & Record<PeriodType, number>;
+  vacuumed: boolean;
+  error?: string;
+}
+
+// Horizontes configurados; rawDays vem das configurações a cada execução
+const DEFAULT_RETENTION_CONFIG = {
+  enabled: process.env.RETENTION_ENABLED !== 'false',
+  schedule: process.env.RETENTION_CRON || '0 30 3 * * *',
+  hourlyDays: parseInt(process.env.RETENTION_HOURLY_DAYS || '90'),
+  dailyDays: parseInt(process.env.RETENTION_DAILY_DAYS || '730'),
+  weeklyDays: parseInt(process.env.RETENTION_WEEKLY_DAYS || '1825'),
+  monthlyDays: parseInt(process.env.RETENTION_MONTHLY_DAYS || '0')
+};
+
+/**
+ * Início do dia (UTC) do instante informado; as agregações diárias usam dias em UTC
+ */
+function startOfUtcDay(timestamp: number): number {
+  return timestamp - (timestamp % DAY_MS);
+}
+
+class RetentionService {
+  private static instance: RetentionService;
+
+  private job: cron.ScheduledTask | null = null;
+  private running = false;
+  private lastRun: RetentionRunResult | null = null;
+
+  private constructor() {
+    console.log('🧹 Iniciando serviço de retenção de dados...');
+  }
+
+  /**
+   * Obtém a instância única do serviço
+   */
+  public static getInstance(): RetentionService {
+    if (!RetentionService.instance) {
+      RetentionService.instance = new RetentionService();
+    }
+    return RetentionService.instance;
+  }
+
+  /**
+   * Agenda a execução diária da retenção
+   */
+  public start(): void {
+    if (this.job) {
+      return;
+    }
+
+    const { enabled, schedule } = DEFAULT_RETENTION_CONFIG;
+    if (!enabled) {
+      console.log('⏸️ Retenção de dados desativada (RETENTION_ENABLED=false)');
+      return;
+    }
+    if (getStorageBackend() === 'postgres') {
+      console.log('⏸️ Retenção de dados não agendada: as leituras ficam no PostgreSQL (STORAGE_BACKEND=postgres)');
+      return;
+    }
+    if (!cron.validate(schedule)) {
+      throw new Error(`Expressão cron inválida para a retenção de dados: ${schedule}`);
+    }
+
+    this.job = cron.schedule(schedule, async () => {
+      try {
+        await this.run();
+      } catch (error) {
+        // A falha já foi registrada em sync_history e system_events
+        console.error('❌ Erro na retenção de dados agendada:', error);
+      }
+    }, {
+      scheduled: true,
+      timezone: 'America/Sao_Paulo'
+    });
+
+    console.log(`📅 Retenção de dados agendada (${schedule}, horário de Brasília)`);
+  }
+
+  /**
+   * Cancela o agendamento
+   */
+  public stop(): void {
+    if (this.job) {
+      this.job.stop();
+      this.job = null;
+    }
+  }
+
+  /**
+   * Política efetiva: dias de leituras brutas das configurações e horizontes das agregações,
+   * ajustados para que cada nível dure pelo menos tanto quanto o anterior
+   */
+  public async getPolicy(): Promise<RetentionPolicy> {
+    const settings = await storage.getSettings();
+    const rawDays = Math.min(Math.max(Math.round(settings.dataRetention || 30), 1), 365);
+
+    const hourlyDays = Math.max(DEFAULT_RETENTION_CONFIG.hourlyDays || 0, rawDays);
+    const dailyDays = Math.max(DEFAULT_RETENTION_CONFIG.dailyDays || 0, hourlyDays, rawDays + DAILY_MIN_MARGIN_DAYS);
+    const weeklyDays = Math.max(DEFAULT_RETENTION_CONFIG.weeklyDays || 0, dailyDays);
+    const monthlyDays = DEFAULT_RETENTION_CONFIG.monthlyDays > 0
+      ? Math.max(DEFAULT_RETENTION_CONFIG.monthlyDays, weeklyDays)
+      : 0;
+
+    return {
+      enabled: DEFAULT_RETENTION_CONFIG.enabled,
+      schedule: DEFAULT_RETENTION_CONFIG.schedule,
+      rawDays,
+      hourlyDays,
+      dailyDays,
+      weeklyDays,
+      monthlyDays
+    };
+  }
+
+  /**
+   * Executa a retenção imediatamente
+   * @throws ConflictError se já houver uma execução em andamento ou se as leituras estiverem no PostgreSQL
+   */
+  public async run(now: number = Date.now()): Promise<RetentionRunResult> {
+    assertSqliteReadings('A retenção de dados');
+    if (this.running) {
+      throw new ConflictError('A retenção de dados já está em execução');
+    }
+    this.running = true;
+
+    try {
+      return await this.execute(now);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async execute(now: number): Promise<RetentionRunResult> {
+    const policy = await this.getPolicy();
+
+    // Dias inteiros, para que nenhum dia fique com parte das leituras agregada e parte apagada
+    const cutoff = startOfUtcDay(now - policy.rawDays * DAY_MS);
+    const result: RetentionRunResult = {
+      status: 'success',
+      startedAt: Date.now(),
+      finishedAt: 0,
+      cutoff,
+      policy,
+      aggregated: { hourly: 0, daily: 0, weekly: 0, monthly: 0 },
+      deleted: { readings: 0, hourly: 0, daily: 0, weekly: 0, monthly: 0 },
+      vacuumed: false
+    };
+    let oldestReading: number | null = null;
+
+    console.log(`🧹 Iniciando retenção de dados (leituras brutas anteriores a ${new Date(cutoff).toISOString()})`);
+
+    try {
+      const db = await open({
+        filename: DB_PATH,
+        driver: sqlite3.Database
+      });
+
+      try {
+        await db.configure('busyTimeout', BUSY_TIMEOUT_MS);
+
+        const oldest = await db.get(`SELECT MIN(timestamp) as timestamp FROM readings WHERE timestamp < ?`, [cutoff]);
+        oldestReading = oldest?.timestamp ?? null;
+
+        const devices = await db.all(
+          `SELECT DISTINCT device_id FROM readings WHERE timestamp < ? ORDER BY device_id`,
+          [cutoff]
+        );
+
+        for (const { device_id: deviceId } of devices) {
+          // 1. Agregar antes de apagar; se a agregação do tanque falhar, as leituras dele e dos
+          // tanques seguintes não são removidas
+          const deviceOldest = await db.get(
+            `SELECT MIN(timestamp) as timestamp FROM readings WHERE device_id = ? AND timestamp < ?`,
+            [deviceId, cutoff]
+          );
+          result.aggregated.hourly += await aggregateHourlyData(deviceOldest.timestamp, cutoff - 1, deviceId);
+          result.aggregated.daily += await aggregateDailyData(deviceOldest.timestamp, cutoff - 1, deviceId);
+          result.aggregated.weekly += await aggregateWeeklyData(deviceOldest.timestamp, cutoff - 1, deviceId);
+          result.aggregated.monthly += await aggregateMonthlyData(deviceOldest.timestamp, cutoff - 1, deviceId);
+
+          // 2. Leituras brutas do tanque
+          const readings = await db.run(`DELETE FROM readings WHERE device_id = ? AND timestamp < ?`, [deviceId, cutoff]);
+          result.deleted.readings += readings.changes || 0;
+        }
+
+        // 3. Agregações além do horizonte de cada período
+        const horizons: Record<PeriodType, number> = {
+          hourly: policy.hourlyDays,
+          daily: policy.dailyDays,
+          weekly: policy.weeklyDays,
+          monthly: policy.monthlyDays
+        };
+        for (const [periodType, days] of Object.entries(horizons) as [PeriodType, number][]) {
+          if (days <= 0) continue;
+          const deleted = await db.run(
+            `DELETE FROM historical_data WHERE period_type = ? AND date < ?`,
+            [periodType, startOfUtcDay(now - days * DAY_MS)]
+          );
+          result.deleted[periodType] = deleted.changes || 0;
+        }
+
+        // 4. Devolver ao sistema o espaço das linhas removidas (VACUUM não roda dentro de transação)
+        const totalDeleted = Object.values(result.deleted).reduce((sum, count) => sum + count, 0);
+        if (totalDeleted > 0) {
+          await db.exec('VACUUM');
+          result.vacuumed = true;
+        }
+      } finally {
+        await db.close();
+      }
+    } catch (error) {
+      result.status = 'failed';
+      result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    result.finishedAt = Date.now();
+    this.lastRun = result;
+    await this.report(result, oldestReading ?? cutoff);
+
+    if (result.status === 'failed') {
+      throw new Error(result.error);
+    }
+    return result;
+  }
+
+  /**
+   * Registra o resultado da execução em sync_history e system_events
+   */
+  private async report(result: RetentionRunResult, startDate: number): Promise<void> {
+    const { aggregated, deleted, policy } = result;
+    const details =
+      `Leituras brutas mantidas por ${policy.rawDays} dias (até ${new Date(result.cutoff).toISOString()}). ` +
+      `Agregados ${aggregated.hourly} registros horários, ${aggregated.daily} diários, ${aggregated.weekly} semanais e ${aggregated.monthly} mensais. ` +
+      `Removidas ${deleted.readings} leituras e ` +
+      `${deleted.hourly} horárias, ${deleted.daily} diárias, ${deleted.weekly} semanais e ${deleted.monthly} mensais. ` +
+      (result.vacuumed ? 'Banco compactado.' : 'Nada a compactar.');
+
+    await logSyncHistory(
+      startDate,
+      result.cutoff,
+      deleted.readings,
+      result.status,
+      result.error
+    );
+
+    if (result.status === 'success') {
+      console.log(`✅ Retenção de dados concluída: ${details}`);
+      await logSystemEvent('info', 'Retenção de dados concluída', details);
+    } else {
+      console.error(`❌ Erro na retenção de dados: ${result.error}`);
+      await logSystemEvent('error', 'Erro na retenção de dados', `${result.error}. ${details}`);
+    }
+  }
+
+  /**
+   * Política efetiva, última execução e estado atual para o frontend
+   */
+  public async getStatus(): Promise<{
+    success: boolean;
+    policy: RetentionPolicy;
+    scheduled: boolean;
+    running: boolean;
+    lastRun: RetentionRunResult | null;
+  }> {
+    return {
+      success: true,
+      policy: await this.getPolicy(),
+      scheduled: this.job !== null,
+      running: this.running,
+      lastRun: this.lastRun
+    };
+  }
+}
+
+export const retentionService = RetentionService.getInstance();
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+import type { Reading } from '@shared/reading';
+
+const { heaterRequest } = vi.hoisted(() => ({ heaterRequest: vi.fn(async () => 1) }));
+
+vi.mock('./actuators', () => ({
+  ACTUATORS: {
+    heater: { request: heaterRequest },
+    pump: { request: vi.fn(async () => 1) }
+  }
+}));
+vi.mock('./alertService', () => ({ sendRuleAlert: vi.fn(async () => undefined) }));
+vi.mock('./historicalDataService', () => ({ logSystemEvent: vi.fn(async () => undefined) }));
+vi.mock('./auditService', () => ({
+  getAuditValue: () => false,
+  recordAudit: vi.fn()
+}));
+
+import { migrateDatabase } from './migrationService';
+import { createRule, evaluateRules } from './ruleEngineService';
+
+const MINUTE_MS = 60 * 1000;
+
+function reading(deviceId: number, temperature: number, timestamp: number): Reading {
+  return { id: 0, deviceId, temperature, level: 80, pumpStatus: false, heaterStatus: false, timestamp };
+}
+
+/**
+ * "SE temperatura < 22 por 10 min ENTÃO ligar o aquecedor" no tanque informado
+ */
+function createColdWaterRule(deviceId: number) {
+  return createRule({
+    name: `Água fria ${deviceId}`,
+    conditions: [{ field: 'temperature', operator: '<', value: 22, duration_sec: 600 }],
+    actions: [{ type: 'command', actuator: 'heater', value: true }],
+    cooldown_sec: 300
+  }, deviceId);
+}
+
+describe('ruleEngineService', () => {
+  beforeAll(async () => {
+    await migrateDatabase('main');
+  });
+
+  beforeEach(() => {
+    heaterRequest.mockClear();
+  });
+
+  it('mede a duração das condições pelo horário das leituras', async () => {
+    await createColdWaterRule(21);
+    const start = Date.now();
+
+    await evaluateRules(reading(21, 20, start));
+    await evaluateRules(reading(21, 20, start + 5 * MINUTE_MS));
+    expect(heaterRequest).not.toHaveBeenCalled();
+
+    await evaluateRules(reading(21, 20, start + 10 * MINUTE_MS));
+    expect(heaterRequest).toHaveBeenCalledTimes(1);
+    expect(heaterRequest).toHaveBeenCalledWith(true, 'rule', 21);
+  });
+
+  it('ignora leituras mais antigas que a última avaliada do tanque', async () => {
+    await createColdWaterRule(22);
+    const now = Date.now();
+    await evaluateRules(reading(22, 25, now));
+
+    // Uma semana de água fria reenviada depois da leitura atual não aciona a regra
+    const weekAgo = now - 7 * 24 * 60 * MINUTE_MS;
+    for (let minutes = 0; minutes <= 30; minutes += 5) {
+      await evaluateRules(reading(22, 20, weekAgo + minutes * MINUTE_MS));
+    }
+
+    expect(heaterRequest).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Motor de regras de automação
+ * Regras definidas pelo usuário no formato
+ * "SE temperatura < 22 por 10 min E aquecedor desligado ENTÃO ligar o aquecedor e enviar alerta".
+ *
+ * As regras são avaliadas a cada leitura ao vivo (ver liveReadingService), contra as leituras do
+ * mesmo tanque; importações do histórico e lotes de ingestão não passam por aqui, e leituras mais
+ * antigas que a última avaliada do tanque são ignoradas. Condições com duração precisam se manter
+ * verdadeiras pelo tempo informado, medido pelos horários das leituras, e o cooldown evita que uma
+ * regra seja acionada novamente logo em seguida.
+ */
+
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import {
+  DEFAULT_DEVICE_ID,
+  InsertAutomationRule,
+  RuleAction,
+  RuleCondition
+} from '@shared/schema';
+import { Reading } from '@shared/reading';
+import { ACTUATORS } from './actuators';
+import { sendRuleAlert } from './alertService';
+import { logSystemEvent } from './historicalDataService';
+import { getAuditValue, recordAudit } from './auditService';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+export interface RuleInfo {
+  id: number;
+  deviceId: number;
+  name: string;
+  description: string | null;
+  match: 'all' | 'any';
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+  cooldownSec: number;
+  enabled: boolean;
+  lastTriggeredAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Nomes exibidos nas mensagens de acionamento
+const FIELD_LABELS: Record<RuleCondition['field'], string> = {
+  temperature: 'temperatura',
+  level: 'nível',
+  pump_status: 'bomba',
+  heater_status: 'aquecedor'
+};
+
+// Regras em memória, recarregadas após qualquer alteração
+let cachedRules: RuleInfo[] | null = null;
+
+// Início do período em que cada condição está verdadeira (horário da leitura), por regra/condição
+const conditionSince = new Map<string, number>();
+
+// Horário da última leitura avaliada de cada tanque
+const lastEvaluatedAt = new Map<number, number>();
+
+// As leituras são avaliadas uma de cada vez para não acionar a mesma regra em paralelo
+let evaluationChain: Promise<void> = Promise.resolve();
+
+async function openDb(): Promise<Database> {
+  // Tabela automation_rules: migração 10 do banco principal
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function toRuleInfo(row: any): RuleInfo {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    name: row.name,
+    description: row.description,
+    match: row.match === 'any' ? 'any' : 'all',
+    conditions: JSON.parse(row.conditions || '[]'),
+    actions: JSON.parse(row.actions || '[]'),
+    cooldownSec: row.cooldown_sec,
+    enabled: row.enabled === 1,
+    lastTriggeredAt: row.last_triggered_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toRowValues(data: InsertAutomationRule) {
+  return [
+    data.name,
+    data.description || null,
+    data.match || 'all',
+    JSON.stringify(data.conditions),
+    JSON.stringify(data.actions),
+    data.cooldown_sec ?? 300,
+    data.enabled === false ? 0 : 1
+  ];
+}
+
+// Descarta o cache e o estado das condições da regra alterada
+function invalidateRule(id: number) {
+  cachedRules = null;
+  for (const key of Array.from(conditionSince.keys())) {
+    if (key.startsWith(`${id}:`)) conditionSince.delete(key);
+  }
+}
+
+/**
+ * Verifica se os valores das ações de comando são aceitos pelos atuadores
+ * Retorna a mensagem de erro ou null se todas forem válidas
+ */
+export function findInvalidCommandAction(actions: RuleAction[]): string | null {
+  for (const action of actions) {
+    if (action.type !== 'command') continue;
+    const validation = ACTUATORS[action.actuator].value.safeParse(action.value);
+    if (!validation.success) {
+      return `Valor inválido para o atuador "${action.actuator}": ${validation.error.issues[0]?.message}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Lista as regras cadastradas
+ * @param deviceId Restringe a um tanque (todas quando omitido)
+ */
+export async function listRules(deviceId?: number): Promise<RuleInfo[]> {
+  const db = await openDb();
+  try {
+    const rows = deviceId === undefined
+      ? await db.all(`SELECT * FROM automation_rules ORDER BY id ASC`)
+      : await db.all(`SELECT * FROM automation_rules WHERE device_id = ? ORDER BY id ASC`, [deviceId]);
+    return rows.map(toRuleInfo);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Busca uma regra pelo ID; retorna null se não existir
+ */
+export async function getRule(id: number): Promise<RuleInfo | null> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM automation_rules WHERE id = ?`, [id]);
+    return row ? toRuleInfo(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Cadastra uma nova regra
+ */
+export async function createRule(
+  data: InsertAutomationRule,
+  deviceId: number = DEFAULT_DEVICE_ID
+): Promise<RuleInfo> {
+  const db = await openDb();
+  try {
+    const now = Date.now();
+    const result = await db.run(
+      `INSERT INTO automation_rules (
+        name, description, match, conditions, actions, cooldown_sec, enabled,
+        device_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...toRowValues(data), deviceId, now, now]
+    );
+
+    invalidateRule(result.lastID!);
+    console.log(`⚙️ Regra de automação "${data.name}" cadastrada (ID ${result.lastID})`);
+
+    const row = await db.get(`SELECT * FROM automation_rules WHERE id = ?`, [result.lastID]);
+    return toRuleInfo(row);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Substitui os dados de uma regra; retorna null se não existir
+ */
+export async function updateRule(id: number, data: InsertAutomationRule): Promise<RuleInfo | null> {
+  const db = await openDb();
+  try {
+    const result = await db.run(
+      `UPDATE automation_rules SET
+        name = ?, description = ?, match = ?, conditions = ?, actions = ?, cooldown_sec = ?, enabled = ?,
+        updated_at = ?
+      WHERE id = ?`,
+      [...toRowValues(data), Date.now(), id]
+    );
+
+    if ((result.changes || 0) === 0) return null;
+    invalidateRule(id);
+
+    const row = await db.get(`SELECT * FROM automation_rules WHERE id = ?`, [id]);
+    return toRuleInfo(row);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Remove uma regra; retorna false se não existir
+ */
+export async function deleteRule(id: number): Promise<boolean> {
+  const db = await openDb();
+  try {
+    const result = await db.run(`DELETE FROM automation_rules WHERE id = ?`, [id]);
+    invalidateRule(id);
+    return (result.changes || 0) > 0;
+  } finally {
+    await db.close();
+  }
+}
+
+async function getActiveRules(): Promise<RuleInfo[]> {
+  if (!cachedRules) {
+    cachedRules = (await listRules()).filter(rule => rule.enabled);
+  }
+  return cachedRules;
+}
+
+// Valor do campo na leitura; estados de bomba/aquecedor viram 0/1
+function readField(reading: Reading, field: RuleCondition['field']): number {
+  switch (field) {
+    case 'temperature':
+      return reading.temperature;
+    case 'level':
+      return reading.level;
+    case 'pump_status':
+      return reading.pumpStatus ? 1 : 0;
+    case 'heater_status':
+      return reading.heaterStatus ? 1 : 0;
+  }
+}
+
+function compare(actual: number, operator: RuleCondition['operator'], expected: number): boolean {
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+  }
+}
+
+function describeCondition(condition: RuleCondition, actual: number): string {
+  const duration = condition.duration_sec >= 60
+    ? ` por ${Math.round(condition.duration_sec / 60)} min`
+    : condition.duration_sec > 0 ? ` por ${condition.duration_sec}s` : '';
+  return `${FIELD_LABELS[condition.field]} ${condition.operator} ${condition.value}${duration} (atual: ${actual})`;
+}
+
+/**
+ * Avalia as condições da regra, atualizando o início do período de cada condição
+ * As durações são medidas pelo horário das leituras, não pelo horário da avaliação
+ * Retorna a descrição das condições satisfeitas ou null se a regra não deve ser acionada
+ */
+function evaluateConditions(rule: RuleInfo, reading: Reading): string | null {
+  const readingAt = reading.timestamp;
+  const satisfied: string[] = [];
+
+  rule.conditions.forEach((condition, index) => {
+    const key = `${rule.id}:${index}`;
+    const actual = readField(reading, condition.field);
+
+    if (isNaN(actual) || !compare(actual, condition.operator, condition.value)) {
+      conditionSince.delete(key);
+      return;
+    }
+
+    if (!conditionSince.has(key)) {
+      conditionSince.set(key, readingAt);
+    }
+
+    if (readingAt - conditionSince.get(key)! >= condition.duration_sec * 1000) {
+      satisfied.push(describeCondition(condition, actual));
+    }
+  });
+
+  const triggered = rule.match === 'any'
+    ? satisfied.length > 0
+    : satisfied.length === rule.conditions.length;
+
+  return triggered ? satisfied.join(rule.match === 'any' ? ' OU ' : ' E ') : null;
+}
+
+async function runAction(rule: RuleInfo, action: RuleAction, summary: string): Promise<void> {
+  const message = `Regra "${rule.name}" acionada: ${summary}`;
+
+  switch (action.type) {
+    case 'command': {
+      const oldValue = getAuditValue(action.actuator, rule.deviceId);
+      const commandId = await ACTUATORS[action.actuator].request(action.value, 'rule', rule.deviceId);
+      recordAudit({
+        deviceId: rule.deviceId,
+        field: action.actuator,
+        oldValue,
+        newValue: action.value,
+        source: 'rule',
+        actor: `regra "${rule.name}"`
+      });
+      console.log(`⚙️ Regra "${rule.name}": comando ${action.actuator} = ${action.value} (comando ${commandId})`);
+      break;
+    }
+    case 'alert':
+      await sendRuleAlert(rule.name, action.message || message);
+      break;
+    case 'event':
+      await logSystemEvent(action.level, action.message || message, summary, rule.deviceId);
+      break;
+  }
+}
+
+async function triggerRule(rule: RuleInfo, summary: string, now: number): Promise<void> {
+  console.log(`⚙️ Regra "${rule.name}" acionada: ${summary}`);
+
+  for (const action of rule.actions) {
+    try {
+      await runAction(rule, action, summary);
+    } catch (error) {
+      console.error(`❌ Erro ao executar ação "${action.type}" da regra "${rule.name}":`, error);
+    }
+  }
+
+  rule.lastTriggeredAt = now;
+  const db = await openDb();
+  try {
+    await db.run(`UPDATE automation_rules SET last_triggered_at = ? WHERE id = ?`, [now, rule.id]);
+  } finally {
+    await db.close();
+  }
+}
+
+async function evaluateReading(reading: Reading): Promise<void> {
+  const deviceId = reading.deviceId;
+
+  // Leituras fora de ordem não podem reabrir nem encurtar os períodos das condições
+  if (reading.timestamp < (lastEvaluatedAt.get(deviceId) ?? 0)) {
+    return;
+  }
+  lastEvaluatedAt.set(deviceId, reading.timestamp);
+
+  const rules = (await getActiveRules()).filter(rule => rule.deviceId === deviceId);
+  const now = Date.now();
+
+  for (const rule of rules) {
+    const summary = evaluateConditions(rule, reading);
+    if (!summary) continue;
+
+    // Respeitar o intervalo mínimo entre acionamentos
+    if (rule.lastTriggeredAt && now - rule.lastTriggeredAt < rule.cooldownSec * 1000) {
+      continue;
+    }
+
+    await triggerRule(rule, summary, now);
+  }
+}
+
+/**
+ * Avalia as regras do tanque de uma leitura ao vivo recém-gravada
+ * Os erros são registrados sem interromper a gravação das leituras
+ */
+export function evaluateRules(reading: Reading): Promise<void> {
+  evaluationChain = evaluationChain
+    .then(() => evaluateReading(reading))
+    .catch(error => {
+      console.error('❌ Erro ao avaliar regras de automação:', error);
+    });
+  return evaluationChain;
+}
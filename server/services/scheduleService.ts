@@ -0,0 +1,269 @@
+/**
+ * Serviço de programações por horário
+ * Permite definir janelas nomeadas para a bomba e o aquecedor, por exemplo
+ * "Dia: 15 min ligada / 45 min desligada" ou "Aquecedor apenas 22:00-06:00".
+ *
+ * As programações são avaliadas pelo automationService no fuso de Brasília.
+ * Janelas com término antes do início atravessam a meia-noite e pertencem ao
+ * dia da semana em que começam; início igual ao término cobre o dia inteiro.
+ */
+
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { DEFAULT_DEVICE_ID, InsertSchedule } from '@shared/schema';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+// Fuso horário usado pelo painel e pelas programações
+const BRASILIA_TIME_ZONE = 'America/Sao_Paulo';
+
+export type ScheduleTarget = 'pump' | 'heater';
+export type ScheduleAction = 'cycle' | 'on' | 'off' | 'auto';
+
+export interface ScheduleInfo {
+  id: number;
+  deviceId: number;
+  name: string;
+  target: ScheduleTarget;
+  action: ScheduleAction;
+  daysOfWeek: number[]; // 0 = domingo
+  startTime: string; // 'HH:MM'
+  endTime: string; // 'HH:MM'
+  pumpOnSeconds: number | null;
+  pumpOffSeconds: number | null;
+  priority: number;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Dia da semana e minutos desde a meia-noite no horário de Brasília
+export interface BrasiliaClock {
+  dayOfWeek: number;
+  minutes: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const clockFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: BRASILIA_TIME_ZONE,
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+async function openDb(): Promise<Database> {
+  // Tabela schedules: migração 10 do banco principal
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function toScheduleInfo(row: any): ScheduleInfo {
+  return {
+    id: row.id,
+    deviceId: row.device_id,
+    name: row.name,
+    target: row.target,
+    action: row.action,
+    daysOfWeek: String(row.days_of_week || '')
+      .split(',')
+      .filter(day => day !== '')
+      .map(day => parseInt(day)),
+    startTime: row.start_time,
+    endTime: row.end_time,
+    pumpOnSeconds: row.pump_on_seconds,
+    pumpOffSeconds: row.pump_off_seconds,
+    priority: row.priority,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+// Normaliza a lista de dias (sem repetições, em ordem)
+function normalizeDays(days?: string): string {
+  if (!days) return '0,1,2,3,4,5,6';
+  return Array.from(new Set(days.split(',').map(day => parseInt(day))))
+    .sort((a, b) => a - b)
+    .join(',');
+}
+
+function toRowValues(data: InsertSchedule) {
+  const isCycle = data.action === 'cycle';
+  return [
+    data.name,
+    data.target,
+    data.action,
+    normalizeDays(data.days_of_week),
+    data.start_time,
+    data.end_time,
+    isCycle ? data.pump_on_seconds ?? null : null,
+    isCycle ? data.pump_off_seconds ?? null : null,
+    data.priority ?? 0,
+    data.enabled === false ? 0 : 1
+  ];
+}
+
+/**
+ * Lista as programações cadastradas
+ * @param deviceId Restringe a um tanque (todas quando omitido)
+ */
+export async function listSchedules(deviceId?: number): Promise<ScheduleInfo[]> {
+  const db = await openDb();
+  try {
+    const rows = deviceId === undefined
+      ? await db.all(`SELECT * FROM schedules ORDER BY target ASC, start_time ASC, id ASC`)
+      : await db.all(
+          `SELECT * FROM schedules WHERE device_id = ? ORDER BY target ASC, start_time ASC, id ASC`,
+          [deviceId]
+        );
+    return rows.map(toScheduleInfo);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Busca uma programação pelo ID; retorna null se não existir
+ */
+export async function getSchedule(id: number): Promise<ScheduleInfo | null> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM schedules WHERE id = ?`, [id]);
+    return row ? toScheduleInfo(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Cadastra uma nova programação
+ */
+export async function createSchedule(
+  data: InsertSchedule,
+  deviceId: number = DEFAULT_DEVICE_ID
+): Promise<ScheduleInfo> {
+  const db = await openDb();
+  try {
+    const now = Date.now();
+    const result = await db.run(
+      `INSERT INTO schedules (
+        name, target, action, days_of_week, start_time, end_time,
+        pump_on_seconds, pump_off_seconds, priority, enabled,
+        device_id, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [...toRowValues(data), deviceId, now, now]
+    );
+
+    console.log(`🗓️ Programação "${data.name}" cadastrada (${data.target} ${data.start_time}-${data.end_time})`);
+
+    const row = await db.get(`SELECT * FROM schedules WHERE id = ?`, [result.lastID]);
+    return toScheduleInfo(row);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Substitui os dados de uma programação; retorna null se não existir
+ */
+export async function updateSchedule(id: number, data: InsertSchedule): Promise<ScheduleInfo | null> {
+  const db = await openDb();
+  try {
+    const result = await db.run(
+      `UPDATE schedules SET
+        name = ?, target = ?, action = ?, days_of_week = ?, start_time = ?, end_time = ?,
+        pump_on_seconds = ?, pump_off_seconds = ?, priority = ?, enabled = ?, updated_at = ?
+      WHERE id = ?`,
+      [...toRowValues(data), Date.now(), id]
+    );
+
+    if ((result.changes || 0) === 0) return null;
+
+    const row = await db.get(`SELECT * FROM schedules WHERE id = ?`, [id]);
+    return toScheduleInfo(row);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Remove uma programação; retorna false se não existir
+ */
+export async function deleteSchedule(id: number): Promise<boolean> {
+  const db = await openDb();
+  try {
+    const result = await db.run(`DELETE FROM schedules WHERE id = ?`, [id]);
+    return (result.changes || 0) > 0;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Dia da semana e horário atuais em Brasília
+ */
+export function getBrasiliaClock(date: Date = new Date()): BrasiliaClock {
+  const parts = clockFormatter.formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '0';
+
+  return {
+    dayOfWeek: WEEKDAYS.indexOf(part('weekday')),
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute'))
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(value => parseInt(value));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Verifica se a janela da programação contém o horário informado
+ */
+export function isScheduleActive(schedule: ScheduleInfo, clock: BrasiliaClock): boolean {
+  if (!schedule.enabled) return false;
+
+  const start = toMinutes(schedule.startTime);
+  const end = toMinutes(schedule.endTime);
+
+  // Dia inteiro
+  if (start === end) {
+    return schedule.daysOfWeek.includes(clock.dayOfWeek);
+  }
+
+  if (start < end) {
+    return schedule.daysOfWeek.includes(clock.dayOfWeek) && clock.minutes >= start && clock.minutes < end;
+  }
+
+  // Atravessa a meia-noite: a parte da madrugada pertence ao dia anterior
+  if (clock.minutes >= start) {
+    return schedule.daysOfWeek.includes(clock.dayOfWeek);
+  }
+  const previousDay = (clock.dayOfWeek + 6) % 7;
+  return clock.minutes < end && schedule.daysOfWeek.includes(previousDay);
+}
+
+/**
+ * Programação em vigor para o equipamento no horário informado
+ * Em caso de sobreposição vence a maior prioridade e, depois, a mais recente
+ */
+export function findActiveSchedule(
+  schedules: ScheduleInfo[],
+  target: ScheduleTarget,
+  clock: BrasiliaClock = getBrasiliaClock()
+): ScheduleInfo | null {
+  const active = schedules
+    .filter(schedule => schedule.target === target && isScheduleActive(schedule, clock))
+    .sort((a, b) => b.priority - a.priority || b.id - a.id);
+
+  return active[0] || null;
+}
@@ -0,0 +1,326 @@
+/**
+ * Serviço de sensores adicionais (pH, oxigênio dissolvido, temperatura do ar, umidade, vazão, pressão...)
+ *
+ * Cada sensor é cadastrado no registro (tabela sensors) com tipo, unidade, faixa válida e faixa de
+ * alerta; as leituras ficam no formato longo (tabela sensor_readings), uma linha por sensor e
+ * instante. Um novo sensor só precisa ser cadastrado para ser aceito na ingestão, gravado,
+ * agregado, verificado pelos alertas e exibido no painel.
+ *
+ * A temperatura da água e o nível continuam na tabela readings (modelo Reading), por isso
+ * 'temperature' e 'level' são chaves reservadas.
+ */
+
+import path from 'path';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { InsertSensor } from '@shared/schema';
+import { SensorReading, NewSensorReading } from '@shared/reading';
+import { storage, IStorage } from '../storage';
+import { checkSensorAlert } from './alertService';
+import { aggregateSensorReadingsByDateRange } from '../utils/dataAggregation';
+import { ConflictError, ValidationError } from '../utils/errors';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+// Chaves gravadas na tabela readings, que não podem ser usadas por sensores adicionais
+const RESERVED_SENSOR_KEYS = ['temperature', 'level'];
+
+// Tempo que o registro fica em memória; alterações pela API limpam o cache na hora
+const REGISTRY_CACHE_TTL_MS = 60 * 1000;
+
+export interface SensorInfo {
+  id: number;
+  key: string;
+  name: string;
+  type: string;
+  unit: string;
+  minValue: number;
+  maxValue: number;
+  alertMin: number | null;
+  alertMax: number | null;
+  decimals: number;
+  active: boolean;
+  createdAt: number;
+}
+
+export interface RecordSensorValuesResult {
+  saved: SensorReading[];
+  // Chaves não cadastradas, desativadas ou com valor fora da faixa válida
+  ignored: string[];
+}
+
+export interface SensorHistory {
+  sensor: SensorInfo;
+  readings: SensorReading[];
+  stats: ReturnType<IStorage['getSensorStats']>;
+  count: number; // leituras brutas no período, antes da agregação
+}
+
+// Colunas que podem ser alteradas pela API (a chave identifica as leituras gravadas e não muda)
+const UPDATABLE_COLUMNS: (keyof InsertSensor)[] = [
+  'name',
+  'type',
+  'unit',
+  'min_value',
+  'max_value',
+  'alert_min',
+  'alert_max',
+  'decimals',
+  'active'
+];
+
+let activeSensorsCache: { sensors: SensorInfo[]; loadedAt: number } | null = null;
+
+async function openDb(): Promise<Database> {
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function toSensorInfo(row: any): SensorInfo {
+  return {
+    id: row.id,
+    key: row.key,
+    name: row.name,
+    type: row.type,
+    unit: row.unit,
+    minValue: row.min_value,
+    maxValue: row.max_value,
+    alertMin: row.alert_min ?? null,
+    alertMax: row.alert_max ?? null,
+    decimals: row.decimals,
+    active: row.active === 1,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Faixa válida não vazia e faixa de alerta coerente
+ */
+function validateRanges(sensor: Pick<SensorInfo, 'minValue' | 'maxValue' | 'alertMin' | 'alertMax'>) {
+  if (sensor.minValue >= sensor.maxValue) {
+    throw new ValidationError('A faixa válida do sensor é inválida: min_value deve ser menor que max_value');
+  }
+  if (sensor.alertMin !== null && sensor.alertMax !== null && sensor.alertMin >= sensor.alertMax) {
+    throw new ValidationError('A faixa de alerta do sensor é inválida: alert_min deve ser menor que alert_max');
+  }
+}
+
+/**
+ * Lista os sensores cadastrados
+ * @param includeInactive Incluir sensores desativados
+ */
+export async function listSensors(includeInactive = false): Promise<SensorInfo[]> {
+  const db = await openDb();
+  try {
+    const rows = await db.all(
+      `SELECT * FROM sensors ${includeInactive ? '' : 'WHERE active = 1'} ORDER BY id ASC`
+    );
+    return rows.map(toSensorInfo);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Sensores ativos, com cache em memória (usado a cada leitura recebida)
+ */
+export async function getActiveSensors(): Promise<SensorInfo[]> {
+  if (activeSensorsCache && Date.now() - activeSensorsCache.loadedAt < REGISTRY_CACHE_TTL_MS) {
+    return activeSensorsCache.sensors;
+  }
+
+  const sensors = await listSensors();
+  activeSensorsCache = { sensors, loadedAt: Date.now() };
+  return sensors;
+}
+
+/**
+ * Busca um sensor pela chave; retorna null se não existir
+ */
+export async function getSensor(key: string): Promise<SensorInfo | null> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM sensors WHERE key = ?`, [key]);
+    return row ? toSensorInfo(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Cadastra um novo sensor
+ */
+export async function createSensor(data: InsertSensor): Promise<SensorInfo> {
+  if (RESERVED_SENSOR_KEYS.includes(data.key)) {
+    throw new ConflictError(`A chave "${data.key}" é reservada para as leituras principais`);
+  }
+  validateRanges({
+    minValue: data.min_value,
+    maxValue: data.max_value,
+    alertMin: data.alert_min ?? null,
+    alertMax: data.alert_max ?? null
+  });
+
+  const db = await openDb();
+  try {
+    const existing = await db.get(`SELECT id FROM sensors WHERE key = ?`, [data.key]);
+    if (existing) {
+      throw new ConflictError(`Já existe um sensor com a chave "${data.key}"`);
+    }
+
+    await db.run(
+      `INSERT INTO sensors (key, name, type, unit, min_value, max_value, alert_min, alert_max, decimals, active, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        data.key,
+        data.name,
+        data.type,
+        data.unit || '',
+        data.min_value,
+        data.max_value,
+        data.alert_min ?? null,
+        data.alert_max ?? null,
+        data.decimals ?? 1,
+        data.active === false ? 0 : 1,
+        Date.now()
+      ]
+    );
+    activeSensorsCache = null;
+
+    console.log(`✅ Sensor "${data.name}" cadastrado (${data.key})`);
+
+    const row = await db.get(`SELECT * FROM sensors WHERE key = ?`, [data.key]);
+    return toSensorInfo(row);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Atualiza os dados de um sensor; retorna null se não existir
+ */
+export async function updateSensor(key: string, data: Partial<InsertSensor>): Promise<SensorInfo | null> {
+  const current = await getSensor(key);
+  if (!current) return null;
+
+  validateRanges({
+    minValue: data.min_value ?? current.minValue,
+    maxValue: data.max_value ?? current.maxValue,
+    alertMin: data.alert_min !== undefined ? data.alert_min : current.alertMin,
+    alertMax: data.alert_max !== undefined ? data.alert_max : current.alertMax
+  });
+
+  const columns = UPDATABLE_COLUMNS.filter(column => data[column] !== undefined);
+
+  const db = await openDb();
+  try {
+    if (columns.length > 0) {
+      const values = columns.map(column => {
+        const value = data[column];
+        return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+      });
+      await db.run(
+        `UPDATE sensors SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE key = ?`,
+        [...values, key]
+      );
+      activeSensorsCache = null;
+    }
+
+    const row = await db.get(`SELECT * FROM sensors WHERE key = ?`, [key]);
+    return row ? toSensorInfo(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Desativa um sensor (as leituras gravadas são preservadas)
+ */
+export async function deactivateSensor(key: string): Promise<boolean> {
+  const db = await openDb();
+  try {
+    const result = await db.run(`UPDATE sensors SET active = 0 WHERE key = ?`, [key]);
+    activeSensorsCache = null;
+    return (result.changes || 0) > 0;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Grava os valores dos sensores adicionais de um tanque
+ * Chaves não cadastradas ou desativadas são ignoradas; valores fora da faixa válida são
+ * descartados como falha do sensor.
+ * @param values Valores por chave do sensor (ex: { ph: 7.1, dissolved_oxygen: 6.4 })
+ */
+export async function recordSensorValues(
+  deviceId: number,
+  values: Record<string, number>,
+  timestamp = Date.now()
+): Promise<RecordSensorValuesResult> {
+  const sensors = await getActiveSensors();
+  const readings: NewSensorReading[] = [];
+  const ignored: string[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const sensor = sensors.find(candidate => candidate.key === key);
+    if (!sensor || !Number.isFinite(value)) {
+      ignored.push(key);
+      continue;
+    }
+
+    if (value < sensor.minValue || value > sensor.maxValue) {
+      console.warn(`⚠️ Valor fora da faixa do sensor ${key}: ${value} (${sensor.minValue} a ${sensor.maxValue}), descartado`);
+      ignored.push(key);
+      continue;
+    }
+
+    readings.push({ deviceId, sensorKey: key, value, timestamp });
+  }
+
+  const saved = await storage.saveSensorReadings(readings);
+  return { saved, ignored };
+}
+
+/**
+ * Verifica as faixas de alerta das leituras recém-gravadas (chamado por recordLiveSensorValues)
+ */
+export async function checkSensorAlerts(readings: SensorReading[]): Promise<void> {
+  try {
+    const sensors = await getActiveSensors();
+    for (const reading of readings) {
+      const sensor = sensors.find(candidate => candidate.key === reading.sensorKey);
+      if (sensor) {
+        await checkSensorAlert(sensor, reading.value, reading.deviceId);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Erro ao verificar alertas dos sensores:', error);
+  }
+}
+
+/**
+ * Histórico de um sensor no período, agregado como os gráficos das leituras principais
+ * @returns null se o sensor não existir
+ */
+export async function getSensorHistory(
+  key: string,
+  startDate: string,
+  endDate: string,
+  deviceId?: number
+): Promise<SensorHistory | null> {
+  const sensor = await getSensor(key);
+  if (!sensor) return null;
+
+  const readings = await storage.getSensorReadingsByDateRange(key, startDate, endDate, 10000, deviceId);
+
+  return {
+    sensor,
+    readings: aggregateSensorReadingsByDateRange(readings, new Date(startDate), new Date(endDate)),
+    stats: storage.getSensorStats(readings),
+    count: readings.length
+  };
+}
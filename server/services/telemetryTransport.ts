@@ -0,0 +1,150 @@
+/**
+ * Camada de transporte de telemetria
+ *
+ * Todo acesso de leitura/escrita aos canais do dispositivo passa por esta interface.
+ * O ThingSpeak é apenas uma das implementações; o transporte ativo é escolhido
+ * pelas configurações (config/sensor_settings.json -> telemetry.transport) ou pela
+ * variável de ambiente TELEMETRY_TRANSPORT (thingspeak | mqtt | mock), e pode ser
+ * trocado em tempo de execução.
+ *
+ * Os feeds seguem a semântica field1..field8 de THINGSPEAK_FIELD_MAPPINGS.
+ */
+import fs from 'fs';
+import path from 'path';
+import { ThingspeakResponse } from './thingspeakConfig';
+import { ThingspeakTransport } from './thingspeakTransport';
+import { MockTransport } from './mockTransport';
+import { MqttTransport } from './mqttTransport';
+
+// Campos suportados pelos canais (mesma numeração do ThingSpeak)
+export type TelemetryField =
+  | 'field1' | 'field2' | 'field3' | 'field4'
+  | 'field5' | 'field6' | 'field7' | 'field8';
+
+export type TelemetryFields = Partial<Record<TelemetryField, string | number>>;
+
+// Entrada de um canal (formato de feed do ThingSpeak)
+export type TelemetryFeed = ThingspeakResponse;
+
+export interface TelemetryTransport {
+  /** Identificador usado nas configurações */
+  readonly name: string;
+  /** Descrição legível exibida na interface */
+  readonly description: string;
+  /** Intervalo mínimo entre escritas aceito pelo destino (respeitado pela fila de comandos) */
+  readonly minWriteIntervalMs: number;
+
+  /**
+   * Busca as entradas mais recentes do canal principal (sensores + comandos)
+   * Lança erro em caso de falha de comunicação
+   */
+  fetchLatestFeeds(results?: number, timeoutMs?: number): Promise<TelemetryFeed[]>;
+
+  /**
+   * Busca entradas do canal principal em um intervalo de datas
+   * Lança erro em caso de falha de comunicação
+   */
+  fetchFeedsInRange(start: Date, end: Date, maxResults?: number, timeoutMs?: number): Promise<TelemetryFeed[]>;
+
+  /**
+   * Busca a última entrada do canal de feedback (valores aplicados pelo dispositivo)
+   * Retorna null quando o canal não está disponível
+   */
+  fetchFeedbackFeed(): Promise<TelemetryFeed | null>;
+
+  /**
+   * Escreve um ou mais campos no canal principal
+   * Retorna false quando o destino recusa a escrita (ex: limite de taxa)
+   * e lança erro em caso de falha de comunicação
+   */
+  writeFields(fields: TelemetryFields, timeoutMs?: number): Promise<boolean>;
+
+  /**
+   * Libera conexões abertas quando o transporte deixa de ser o ativo
+   */
+  close?(): Promise<void>;
+}
+
+type TransportFactory = () => TelemetryTransport;
+
+const CONFIG_FILE = path.resolve(process.cwd(), 'config', 'sensor_settings.json');
+const DEFAULT_TRANSPORT = 'thingspeak';
+
+// Registro de transportes disponíveis
+const factories: Record<string, TransportFactory> = {
+  thingspeak: () => new ThingspeakTransport(),
+  mock: () => new MockTransport(),
+  mqtt: () => new MqttTransport()
+};
+
+let activeTransport: TelemetryTransport | null = null;
+
+/**
+ * Lê o transporte configurado no arquivo de configurações, se houver
+ */
+function readConfiguredTransport(): string | null {
+  try {
+    if (!fs.existsSync(CONFIG_FILE)) return null;
+    const settings = JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8'));
+    return settings?.telemetry?.transport || null;
+  } catch (error) {
+    console.warn('⚠️ Não foi possível ler o transporte de telemetria das configurações:', error);
+    return null;
+  }
+}
+
+/**
+ * Registra uma nova implementação de transporte
+ */
+export function registerTelemetryTransport(name: string, factory: TransportFactory): void {
+  factories[name] = factory;
+}
+
+/**
+ * Lista os transportes registrados
+ */
+export function listTelemetryTransports(): string[] {
+  return Object.keys(factories);
+}
+
+/**
+ * Retorna o transporte ativo, criando-o na primeira chamada
+ */
+export function getTelemetryTransport(): TelemetryTransport {
+  if (!activeTransport) {
+    const configured = readConfiguredTransport() || process.env.TELEMETRY_TRANSPORT || DEFAULT_TRANSPORT;
+    const name = factories[configured] ? configured : DEFAULT_TRANSPORT;
+
+    if (name !== configured) {
+      console.warn(`⚠️ Transporte de telemetria desconhecido "${configured}", usando "${DEFAULT_TRANSPORT}"`);
+    }
+
+    activeTransport = factories[name]();
+    console.log(`📡 Transporte de telemetria ativo: ${activeTransport.name}`);
+  }
+
+  return activeTransport;
+}
+
+/**
+ * Troca o transporte ativo em tempo de execução
+ * Lança erro quando o nome não está registrado
+ */
+export function setTelemetryTransport(name: string): TelemetryTransport {
+  const factory = factories[name];
+  if (!factory) {
+    throw new Error(`Transporte de telemetria desconhecido: ${name}`);
+  }
+
+  if (activeTransport?.name !== name) {
+    const previous = activeTransport;
+    activeTransport = factory();
+    
+    previous?.close?.().catch(error => {
+      console.error(`⚠️ Erro ao encerrar transporte ${previous.name}:`, error);
+    });
+    console.log(`🔄 Transporte de telemetria alterado para: ${activeTransport.name}`);
+  }
+
+  return activeTransport;
+}
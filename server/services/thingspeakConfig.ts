@@ -15,7 +15,31 @@ export const THINGSPEAK_CHANNEL2_READ_API_KEY = process.env.THINGSPEAK_CHANNEL2_
 export const THINGSPEAK_CHANNEL2_READ_API_KEY2 = process.env.THINGSPEAK_CHANNEL2_READ_API_KEY2 || 'NP6140GVLTDE32EU';
 export const THINGSPEAK_CHANNEL2_READ_API_KEY3 = process.env.THINGSPEAK_CHANNEL2_READ_API_KEY3 || 'MQHVTWV9OGC023EK';
 
-export const THINGSPEAK_BASE_URL = 'https://api.thingspeak.com';
+// Pode apontar para um servidor local compatível com a API do ThingSpeak
+export const THINGSPEAK_BASE_URL = process.env.THINGSPEAK_BASE_URL || 'https://api.thingspeak.com';
+
+// Par de canais de um tanque: Canal 1 (sensores e comandos) e Canal 2 (feedback)
+export interface ThingspeakChannelConfig {
+  channelId: string;
+  readApiKey: string;
+  writeApiKey: string;
+  feedbackChannelId: string;
+  // Chaves tentadas em ordem ao consultar o canal de feedback
+  feedbackReadApiKeys: string[];
+}
+
+// Canais do tanque principal, configurados no .env
+export const DEFAULT_THINGSPEAK_CHANNEL: ThingspeakChannelConfig = {
+  channelId: THINGSPEAK_CHANNEL_ID,
+  readApiKey: THINGSPEAK_READ_API_KEY,
+  writeApiKey: THINGSPEAK_WRITE_API_KEY,
+  feedbackChannelId: THINGSPEAK_CHANNEL2_ID,
+  feedbackReadApiKeys: [
+    THINGSPEAK_CHANNEL2_READ_API_KEY,
+    THINGSPEAK_CHANNEL2_READ_API_KEY2,
+    THINGSPEAK_CHANNEL2_READ_API_KEY3
+  ]
+};
 
 // Field mappings for ThingSpeak fields
 export const THINGSPEAK_FIELD_MAPPINGS = {
@@ -1,30 +1,22 @@
 // ThingSpeak Service for fetching and updating data
-import fetch from 'node-fetch';
-import { InsertReading } from '@shared/schema';
+// Toda a comunicação com o dispositivo passa pelo transporte de telemetria ativo
+import { DEFAULT_DEVICE_ID } from '@shared/schema';
+import { NewReading, readingFromFeed } from '@shared/reading';
 import { automationService } from './automationService';
 import { emulatorService } from './emulatorService';
 import { 
-  THINGSPEAK_BASE_URL,
-  THINGSPEAK_CHANNEL_ID, 
-  THINGSPEAK_READ_API_KEY,
-  THINGSPEAK_WRITE_API_KEY,
-  THINGSPEAK_CHANNEL2_ID,
-  THINGSPEAK_CHANNEL2_READ_API_KEY,
-  THINGSPEAK_CHANNEL2_READ_API_KEY2,
-  THINGSPEAK_CHANNEL2_READ_API_KEY3,
   DEFAULT_READING,
   parseThingspeakNumber,
   parseThingspeakBoolean,
-  ThingspeakResponse,
-  ThingspeakFeedsResponse
+  ThingspeakResponse
 } from './thingspeakConfig';
-import { updateAllFields } from './ThingspeakBatchManager';
-
-// Sistema para controlar intervalos de atualização do ThingSpeak
-// Para cada campo (field1-field8), registra a última vez que foi atualizado
-const lastFieldUpdateTime: Record<string, number> = {};
-// Intervalo mínimo entre escritas ao ThingSpeak (5 segundos)
-const MIN_UPDATE_INTERVAL_MS = 5000;
+import { getTelemetryTransport } from './telemetryTransport';
+import { commandQueue } from './commandQueueService';
+import { getTransportForDevice } from './deviceService';
+import { loadAutomationStates, saveDeviceStatus } from './automationStateService';
+import { interlockService } from './interlockService';
+import { recordActuatorState } from './actuatorUsageService';
+import { realtimeService } from './realtimeService';
 
 // Interface para os valores de feedback do ThingSpeak
 interface FeedbackValues {
@@ -50,16 +42,113 @@ export const REFRESH_INTERVAL = parseInt(process.env.REFRESH_INTERVAL || '300000
  * Este estado é usado para fornecer feedback imediato na interface enquanto aguardamos
  * a confirmação do ThingSpeak.
  */
-let currentDeviceStatus = {
-  pumpStatus: false,
-  heaterStatus: false,
-  operationMode: false,  // false = manual, true = automático
-  targetTemp: 26.0,      // temperatura alvo padrão
-  pumpOnTimer: 60,       // 60 segundos ligada por padrão
-  pumpOffTimer: 30,      // 30 segundos desligada por padrão
-  pumpFlow: 50,          // 50% de vazão padrão da bomba
-  lastUpdate: new Date()
-};
+type DeviceStatus = Omit<FeedbackValues, 'lastUpdate'> & { lastUpdate: Date };
+
+function createDefaultDeviceStatus(): DeviceStatus {
+  return {
+    pumpStatus: false,
+    heaterStatus: false,
+    operationMode: false,  // false = manual, true = automático
+    targetTemp: 26.0,      // temperatura alvo padrão
+    pumpOnTimer: 60,       // 60 segundos ligada por padrão
+    pumpOffTimer: 30,      // 30 segundos desligada por padrão
+    pumpFlow: 50,          // 50% de vazão padrão da bomba
+    lastUpdate: new Date()
+  };
+}
+
+// Estado do tanque principal, usado pela sincronização com o canal de feedback e pelo emulador
+const currentDeviceStatus = createDefaultDeviceStatus();
+
+// Estado em memória de cada tanque (o tanque principal compartilha o objeto acima)
+const deviceStatuses = new Map<number, DeviceStatus>([[DEFAULT_DEVICE_ID, currentDeviceStatus]]);
+
+function getDeviceState(deviceId: number): DeviceStatus {
+  let state = deviceStatuses.get(deviceId);
+  if (!state) {
+    state = createDefaultDeviceStatus();
+    deviceStatuses.set(deviceId, state);
+  }
+  return state;
+}
+
+/**
+ * Grava o estado em memória do tanque para ser restaurado após um reinício
+ * e envia o novo estado à interface
+ */
+function persistDeviceStatus(deviceId: number = DEFAULT_DEVICE_ID) {
+  const state = getDeviceState(deviceId);
+  saveDeviceStatus(deviceId, {
+    pumpStatus: state.pumpStatus,
+    heaterStatus: state.heaterStatus,
+    operationMode: state.operationMode,
+    targetTemp: state.targetTemp,
+    pumpOnTimer: state.pumpOnTimer,
+    pumpOffTimer: state.pumpOffTimer,
+    pumpFlow: state.pumpFlow,
+    updatedAt: state.lastUpdate.getTime()
+  });
+  realtimeService.publish('device-status', getCurrentDeviceStatus(deviceId), deviceId);
+}
+
+// Restauração feita uma única vez, antes da primeira sincronização com o dispositivo
+let restorePromise: Promise<void> | null = null;
+
+/**
+ * Restaura o último estado gravado de cada tanque e o reconcilia com o canal de feedback
+ * 
+ * Sem isso, um reinício enviaria ao dispositivo os valores padrão (bomba desligada, modo manual).
+ * O canal de feedback prevalece quando é mais recente que o estado gravado, pois reflete o que
+ * o dispositivo aplicou enquanto o servidor estava fora do ar.
+ */
+export function restoreDeviceStatuses(): Promise<void> {
+  if (!restorePromise) {
+    restorePromise = (async () => {
+      const persisted = await loadAutomationStates();
+      
+      for (const { deviceId, status } of persisted) {
+        if (!status) continue;
+        const state = getDeviceState(deviceId);
+        state.pumpStatus = status.pumpStatus;
+        state.heaterStatus = status.heaterStatus;
+        state.operationMode = status.operationMode;
+        state.targetTemp = status.targetTemp ?? state.targetTemp;
+        state.pumpOnTimer = status.pumpOnTimer ?? state.pumpOnTimer;
+        state.pumpOffTimer = status.pumpOffTimer ?? state.pumpOffTimer;
+        state.pumpFlow = status.pumpFlow ?? state.pumpFlow;
+        state.lastUpdate = new Date(status.updatedAt);
+        console.log(`🔄 Estado do tanque ${deviceId} restaurado: bomba ${state.pumpStatus ? 'LIGADA' : 'DESLIGADA'}, aquecedor ${state.heaterStatus ? 'LIGADO' : 'DESLIGADO'}, modo ${state.operationMode ? 'AUTOMÁTICO' : 'MANUAL'}`);
+      }
+      
+      const hasPersistedState = persisted.some(entry => entry.deviceId === DEFAULT_DEVICE_ID && entry.status);
+      const feedbackValues = await getThingspeakFeedbackChannel();
+      
+      if (feedbackValues && (!hasPersistedState || new Date(feedbackValues.lastUpdate) > currentDeviceStatus.lastUpdate)) {
+        console.log('📡 Canal de feedback mais recente que o estado gravado, usando os valores do dispositivo');
+        currentDeviceStatus.pumpStatus = feedbackValues.pumpStatus;
+        currentDeviceStatus.heaterStatus = feedbackValues.heaterStatus;
+        currentDeviceStatus.operationMode = feedbackValues.operationMode;
+        if (feedbackValues.targetTemp > 0) currentDeviceStatus.targetTemp = feedbackValues.targetTemp;
+        if (feedbackValues.pumpOnTimer > 0) currentDeviceStatus.pumpOnTimer = feedbackValues.pumpOnTimer;
+        if (feedbackValues.pumpOffTimer > 0) currentDeviceStatus.pumpOffTimer = feedbackValues.pumpOffTimer;
+        currentDeviceStatus.lastUpdate = new Date(feedbackValues.lastUpdate);
+        persistDeviceStatus(DEFAULT_DEVICE_ID);
+      }
+      
+      // O emulador simula o tanque principal e precisa refletir o estado restaurado
+      if (emulatorService) {
+        emulatorService.updateControlState(
+          currentDeviceStatus.pumpStatus,
+          currentDeviceStatus.heaterStatus,
+          currentDeviceStatus.pumpFlow
+        );
+      }
+    })().catch(error => {
+      console.error('❌ Erro ao restaurar o estado dos tanques:', error);
+    });
+  }
+  return restorePromise;
+}
 
 /**
  * Função para obter informações do Canal 2 do ThingSpeak
@@ -67,72 +156,40 @@ let currentDeviceStatus = {
  * Tenta múltiplas chaves de API em caso de falha
  */
 async function getThingspeakFeedbackChannel(): Promise<FeedbackValues | null> {
-  console.log("📡 Consultando canal de feedback (Canal 2) do ThingSpeak...");
-  const timestamp = new Date().getTime();
+  const transport = getTelemetryTransport();
+  console.log(`📡 Consultando canal de feedback (Canal 2) via ${transport.name}...`);
   
-  // Lista de chaves de API para tentar sequencialmente
-  const apiKeys = [
-    THINGSPEAK_CHANNEL2_READ_API_KEY,
-    THINGSPEAK_CHANNEL2_READ_API_KEY2,
-    THINGSPEAK_CHANNEL2_READ_API_KEY3
-  ];
-  
-  // Tentativa com cada chave de API
-  for (let i = 0; i < apiKeys.length; i++) {
-    try {
-      const currentKey = apiKeys[i];
-      
-      const response = await fetch(
-        `${THINGSPEAK_BASE_URL}/channels/${THINGSPEAK_CHANNEL2_ID}/feeds.json?api_key=${currentKey}&results=1&t=${timestamp}`,
-        { 
-          headers: {
-            'Cache-Control': 'no-cache, no-store, must-revalidate',
-            'Pragma': 'no-cache'
-          }
-        }
-      );
-      
-      if (!response.ok) {
-        console.warn(`⚠️ Falha com a chave de API #${i+1}. Status: ${response.status}`);
-        continue; // Tenta a próxima chave
-      }
-      
-      const data = await response.json() as ThingspeakFeedsResponse;
-      
-      if (!data.feeds || data.feeds.length === 0) {
-        console.warn(`⚠️ Nenhum dado encontrado no Canal 2 com a chave #${i+1}.`);
-        continue; // Tenta a próxima chave
-      }
-      
-      const latestFeed = data.feeds[0];
-      console.log("📊 Dados do Canal 2 (feedback):", latestFeed);
-      
-      // Mapear os valores do Canal 2 de acordo com a documentação:
-      // Field 1 = Bomba Ligado=1 Desligado=0 (valor de field3 do Canal 1)
-      // Field 2 = Aquecedor Ligado=1 Desligado=0 (valor de field4 do Canal 1)
-      // Field 3 = Modo Funcionamento: Automatico=1 Manual=0 (valor de field5 do Canal 1)
-      // Field 4 = valor de field6 do Canal 1 (temperatura alvo)
-      // Field 5 = valor de field7 do Canal 1 (bomba on timer)
-      // Field 6 = valor de field8 do Canal 1 (bomba off timer)
-      return {
-        pumpStatus: parseThingspeakBoolean(latestFeed.field1),
-        heaterStatus: parseThingspeakBoolean(latestFeed.field2),
-        operationMode: parseThingspeakBoolean(latestFeed.field3),
-        targetTemp: parseThingspeakNumber(latestFeed.field4),
-        pumpOnTimer: parseThingspeakNumber(latestFeed.field5),
-        pumpOffTimer: parseThingspeakNumber(latestFeed.field6),
-        pumpFlow: 50, // Valor padrão, já que não temos esse campo específico no feedback
-        lastUpdate: latestFeed.created_at ? new Date(latestFeed.created_at).toISOString() : new Date().toISOString()
-      };
-    } catch (error) {
-      console.error(`❌ Erro ao consultar canal de feedback com a chave #${i+1}:`, error);
-      // Continue para a próxima chave
+  try {
+    const latestFeed = await transport.fetchFeedbackFeed();
+    
+    if (!latestFeed) {
+      console.error("❌ Todas as tentativas de consulta ao Canal 2 falharam");
+      return null;
     }
+    
+    console.log("📊 Dados do Canal 2 (feedback):", latestFeed);
+    
+    // Mapear os valores do Canal 2 de acordo com a documentação:
+    // Field 1 = Bomba Ligado=1 Desligado=0 (valor de field3 do Canal 1)
+    // Field 2 = Aquecedor Ligado=1 Desligado=0 (valor de field4 do Canal 1)
+    // Field 3 = Modo Funcionamento: Automatico=1 Manual=0 (valor de field5 do Canal 1)
+    // Field 4 = valor de field6 do Canal 1 (temperatura alvo)
+    // Field 5 = valor de field7 do Canal 1 (bomba on timer)
+    // Field 6 = valor de field8 do Canal 1 (bomba off timer)
+    return {
+      pumpStatus: parseThingspeakBoolean(latestFeed.field1),
+      heaterStatus: parseThingspeakBoolean(latestFeed.field2),
+      operationMode: parseThingspeakBoolean(latestFeed.field3),
+      targetTemp: parseThingspeakNumber(latestFeed.field4),
+      pumpOnTimer: parseThingspeakNumber(latestFeed.field5),
+      pumpOffTimer: parseThingspeakNumber(latestFeed.field6),
+      pumpFlow: 50, // Valor padrão, já que não temos esse campo específico no feedback
+      lastUpdate: latestFeed.created_at ? new Date(latestFeed.created_at).toISOString() : new Date().toISOString()
+    };
+  } catch (error) {
+    console.error("❌ Erro ao consultar canal de feedback:", error);
+    return null;
   }
-  
-  // Se todas as tentativas falharem
-  console.error("❌ Todas as tentativas de consulta ao Canal 2 falharam");
-  return null;
 }
 
 /**
@@ -141,20 +198,23 @@ async function getThingspeakFeedbackChannel(): Promise<FeedbackValues | null> {
  */
 async function ensureConsistentDeviceState() {
   try {
+    // Nunca enviar ao dispositivo os valores padrão de antes da restauração
+    await restoreDeviceStatuses();
+    
     console.log("🔄 Verificando consistência dos valores no ThingSpeak...");
     
     // Atualizar todos os campos do ThingSpeak com os valores atuais
     // Isso garante que todos os campos (1-8) sejam atualizados regularmente
-    const updateResult = await updateAllFields(
-      emulatorService.getLastReading().temperature,  // field1: temperatura
-      emulatorService.getLastReading().level,        // field2: nível
-      currentDeviceStatus.pumpStatus,                // field3: status bomba
-      currentDeviceStatus.heaterStatus,              // field4: status aquecedor
-      currentDeviceStatus.operationMode,             // field5: modo operação
-      currentDeviceStatus.targetTemp,                // field6: temperatura alvo
-      currentDeviceStatus.pumpOnTimer,               // field7: timer bomba ligada
-      currentDeviceStatus.pumpOffTimer               // field8: timer bomba desligada
-    );
+    const updateResult = await commandQueue.send({
+      field1: emulatorService.getLastReading()?.field1 ?? DEFAULT_READING.temperature, // temperatura
+      field2: emulatorService.getLastReading()?.field2 ?? DEFAULT_READING.level,       // nível
+      field3: currentDeviceStatus.pumpStatus ? '1' : '0',      // status bomba
+      field4: currentDeviceStatus.heaterStatus ? '1' : '0',    // status aquecedor
+      field5: currentDeviceStatus.operationMode ? '1' : '0',   // modo operação
+      field6: currentDeviceStatus.targetTemp,                  // temperatura alvo
+      field7: currentDeviceStatus.pumpOnTimer,                 // timer bomba ligada
+      field8: currentDeviceStatus.pumpOffTimer                 // timer bomba desligada
+    }, { source: 'consistency' });
     
     if (updateResult) {
       console.log("✅ Todos os campos atualizados com sucesso no ThingSpeak");
@@ -169,30 +229,15 @@ async function ensureConsistentDeviceState() {
     // Se não conseguimos dados do canal de feedback, usamos o Canal 1
     if (!feedbackValues) {
       console.log("⚠️ Usando Canal 1 para verificação de consistência (fallback)");
-      const timestamp = new Date().getTime();
-      
-      const response = await fetch(
-        `${THINGSPEAK_BASE_URL}/channels/${THINGSPEAK_CHANNEL_ID}/feeds.json?api_key=${THINGSPEAK_READ_API_KEY}&results=1&t=${timestamp}`,
-        { 
-          headers: {
-            'Cache-Control': 'no-cache, no-store, must-revalidate',
-            'Pragma': 'no-cache'
-          }
-        }
-      );
-      
-      if (!response.ok) {
-        throw new Error(`HTTP Error! Status: ${response.status}`);
-      }
       
-      const data = await response.json() as ThingspeakFeedsResponse;
+      const feeds = await getTelemetryTransport().fetchLatestFeeds(1, 5000);
       
-      if (!data.feeds || data.feeds.length === 0) {
+      if (feeds.length === 0) {
         console.log("⚠️ Nenhum dado encontrado no ThingSpeak (Canal 1).");
         return;
       }
       
-      const latestFeed = data.feeds[0];
+      const latestFeed = feeds[0];
       
       // Usar os valores do Canal 1 (menos confiáveis que o Canal 2)
       // Verificar se há discrepância entre o valor em memória e o valor do ThingSpeak
@@ -325,6 +370,7 @@ function updateStatusWithChanges(newValues: FeedbackValues) {
   
   if (changed) {
     currentDeviceStatus.lastUpdate = new Date();
+    persistDeviceStatus(DEFAULT_DEVICE_ID);
     console.log(`⚠️ Discrepâncias detectadas:`);
     changesLog.forEach(log => console.log(`  - ${log}`));
     console.log(`✅ Estado em memória atualizado com sucesso.`);
@@ -338,6 +384,8 @@ function updateStatusWithChanges(newValues: FeedbackValues) {
  */
 async function updateAllThingspeakFields() {
   try {
+    await restoreDeviceStatuses();
+    
     console.log("🔄 Atualizando todos os campos do ThingSpeak...");
     
     // Obter valores de temperatura e nível do emulador, se disponíveis
@@ -358,59 +406,19 @@ async function updateAllThingspeakFields() {
       // Continuar com os valores padrão
     }
     
-    // Construir URL com todos os campos
-    const url = new URL(`${THINGSPEAK_BASE_URL}/update`);
-    url.searchParams.append('api_key', THINGSPEAK_WRITE_API_KEY);
-    
-    // Adicionar cada campo ao lote - garantindo que todos os 8 campos sejam atualizados
-    url.searchParams.append('field1', temperature.toString());
-    url.searchParams.append('field2', level.toString());
-    url.searchParams.append('field3', currentDeviceStatus.pumpStatus ? '1' : '0');
-    url.searchParams.append('field4', currentDeviceStatus.heaterStatus ? '1' : '0');
-    url.searchParams.append('field5', currentDeviceStatus.operationMode ? '1' : '0');
-    url.searchParams.append('field6', currentDeviceStatus.targetTemp.toString());
-    url.searchParams.append('field7', currentDeviceStatus.pumpOnTimer.toString());
-    url.searchParams.append('field8', currentDeviceStatus.pumpOffTimer.toString());
-    
-    // Adicionar timestamp para evitar cache
-    url.searchParams.append('t', Date.now().toString());
-    
     console.log(`🔄 Enviando atualização completa ao ThingSpeak...`);
     
-    // Timeout para garantir resposta
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000);
-    
-    const response = await fetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Cache-Control': 'no-cache'
-      },
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP error! Status: ${response.status}`);
-    }
-    
-    const updateResult = await response.text();
-    console.log(`✅ ThingSpeak update result: ${updateResult}`);
-    
-    // Registrar o momento da atualização para todos os campos
-    const now = Date.now();
-    lastFieldUpdateTime['field1'] = now;
-    lastFieldUpdateTime['field2'] = now;
-    lastFieldUpdateTime['field3'] = now;
-    lastFieldUpdateTime['field4'] = now;
-    lastFieldUpdateTime['field5'] = now;
-    lastFieldUpdateTime['field6'] = now;
-    lastFieldUpdateTime['field7'] = now;
-    lastFieldUpdateTime['field8'] = now;
-    lastFieldUpdateTime['update_all'] = now;
-    
-    return updateResult !== '0';
+    // Garantir que todos os 8 campos sejam atualizados
+    return await commandQueue.send({
+      field1: temperature,
+      field2: level,
+      field3: currentDeviceStatus.pumpStatus ? '1' : '0',
+      field4: currentDeviceStatus.heaterStatus ? '1' : '0',
+      field5: currentDeviceStatus.operationMode ? '1' : '0',
+      field6: currentDeviceStatus.targetTemp,
+      field7: currentDeviceStatus.pumpOnTimer,
+      field8: currentDeviceStatus.pumpOffTimer
+    }, { source: 'sync' });
   } catch (error) {
     console.error('❌ Erro ao atualizar todos os campos no ThingSpeak:', error);
     return false;
@@ -435,16 +443,17 @@ setTimeout(updateAllThingspeakFields, 15000);
  * IMPORTANTE: Este estado reflete a última ação solicitada pelo usuário e é mais recente
  * que o estado no banco ou no ThingSpeak. Use-o para feedback imediato na interface.
  */
-export function getCurrentDeviceStatus() {
+export function getCurrentDeviceStatus(deviceId: number = DEFAULT_DEVICE_ID) {
+  const state = getDeviceState(deviceId);
   return { 
-    pumpStatus: currentDeviceStatus.pumpStatus,
-    heaterStatus: currentDeviceStatus.heaterStatus,
-    operationMode: currentDeviceStatus.operationMode,
-    targetTemp: currentDeviceStatus.targetTemp,
-    pumpOnTimer: currentDeviceStatus.pumpOnTimer,
-    pumpOffTimer: currentDeviceStatus.pumpOffTimer,
-    pumpFlow: currentDeviceStatus.pumpFlow,
-    lastUpdate: new Date(currentDeviceStatus.lastUpdate.getTime())
+    pumpStatus: state.pumpStatus,
+    heaterStatus: state.heaterStatus,
+    operationMode: state.operationMode,
+    targetTemp: state.targetTemp,
+    pumpOnTimer: state.pumpOnTimer,
+    pumpOffTimer: state.pumpOffTimer,
+    pumpFlow: state.pumpFlow,
+    lastUpdate: new Date(state.lastUpdate.getTime())
   };
 }
 
@@ -504,49 +513,19 @@ function parseNumber(value: any): number {
 /**
  * Fetches the latest reading from ThingSpeak
  */
-export async function fetchLatestReading(retries = 3): Promise<InsertReading | null> {
+export async function fetchLatestReading(retries = 3): Promise<NewReading | null> {
   const timeout = 2000; // 2 seconds timeout para resposta mais rápida
   
   // Primeiro tenta buscar o último dado
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
-      console.log(`📡 Fetching data from ThingSpeak (attempt ${attempt}/${retries})...`);
-      
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+      const transport = getTelemetryTransport();
+      console.log(`📡 Fetching data from ${transport.name} (attempt ${attempt}/${retries})...`);
       
       // Busca os dados mais recentes com o parâmetro results=1 para melhor desempenho
-      // Adiciona timestamp para evitar cache do navegador/proxy
-      const timestamp = new Date().getTime();
-      const response = await fetch(
-        `${THINGSPEAK_BASE_URL}/channels/${THINGSPEAK_CHANNEL_ID}/feeds.json?api_key=${THINGSPEAK_READ_API_KEY}&results=1&t=${timestamp}`,
-        { 
-          signal: controller.signal,
-          headers: {
-            'Cache-Control': 'no-cache, no-store, must-revalidate',
-            'Pragma': 'no-cache'
-          }
-        }
-      );
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP Error! Status: ${response.status}`);
-      }
-      
-      const text = await response.text();
-      console.log('📩 Raw ThingSpeak response:', text.substring(0, 200) + '...');
+      const feeds = await transport.fetchLatestFeeds(1, timeout);
       
-      let feedsData: ThingspeakFeedsResponse;
-      try {
-        feedsData = JSON.parse(text);
-      } catch (e) {
-        console.error('❌ Error parsing JSON:', e);
-        throw new Error('Invalid ThingSpeak response');
-      }
-      
-      if (!feedsData || !feedsData.feeds || feedsData.feeds.length === 0) {
+      if (feeds.length === 0) {
         console.log('⚠️ No data received from ThingSpeak');
         return getDefaultReading();
       }
@@ -555,7 +534,7 @@ export async function fetchLatestReading(retries = 3): Promise<InsertReading | n
       let data: ThingspeakResponse | null = null;
       
       // Primeiro tenta encontrar um registro com campo1 (temperatura) não nulo
-      for (const feed of feedsData.feeds) {
+      for (const feed of feeds) {
         if (feed.field1 !== null && feed.field1 !== undefined) {
           data = feed;
           break;
@@ -564,7 +543,7 @@ export async function fetchLatestReading(retries = 3): Promise<InsertReading | n
       
       // Se não encontrou com temperatura, usa o último registro
       if (!data) {
-        data = feedsData.feeds[feedsData.feeds.length - 1];
+        data = feeds[feeds.length - 1];
       }
       
       console.log('📊 Original ThingSpeak data:', data);
@@ -573,18 +552,12 @@ export async function fetchLatestReading(retries = 3): Promise<InsertReading | n
       // para garantir dados que pareçam estar em tempo real
       
       // Campos 1 e 2 são apenas para leitura - sempre trazer esses dados
-      const temperature = parseThingspeakNumber(data.field1);
-      const level = parseThingspeakNumber(data.field2);
-      
       // Campos 3-8 são apenas para escrita - utilizamos valores em memória
-      // Usamos o valor do ThingSpeak apenas se estiver disponível
-      const reading: InsertReading = {
-        temperature: temperature,
-        level: level,
-        pump_status: currentDeviceStatus.pumpStatus ? 1 : 0,
-        heater_status: currentDeviceStatus.heaterStatus ? 1 : 0,
-        timestamp: new Date() // Sempre usar a data atual para simular dados em tempo real
-      };
+      const reading = readingFromFeed(data, {
+        pumpStatus: currentDeviceStatus.pumpStatus,
+        heaterStatus: currentDeviceStatus.heaterStatus,
+        timestamp: Date.now() // Sempre usar a data atual para simular dados em tempo real
+      });
       
       console.log('✅ Formatted reading:', reading);
       
@@ -630,160 +603,204 @@ export async function fetchLatestReading(retries = 3): Promise<InsertReading | n
 }
 
 /**
- * Updates a single field on ThingSpeak
- * Versão mais robusta com múltiplas tentativas
+ * Recusa comandos para tanques sem transporte próprio antes de alterar o estado em memória
+ * @throws ConflictError (ver getTransportForDevice)
  */
-export async function updateField(field: string, value: string | number, retries: number = 3): Promise<boolean> {
-  // Implementação com retry
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      // Adicionar timestamp para evitar cache
-      const timestamp = new Date().getTime();
-      
-      const url = new URL(`${THINGSPEAK_BASE_URL}/update`);
-      url.searchParams.append('api_key', THINGSPEAK_WRITE_API_KEY);
-      url.searchParams.append(field, value.toString());
-      url.searchParams.append('t', timestamp.toString());
-      
-      console.log(`Enviando requisição para ThingSpeak: ${field}=${value} (tentativa ${attempt}/${retries})`);
-      
-      // Usar um timeout mais longo para garantir resposta
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 3000); // 3 segundos
-      
-      const response = await fetch(url.toString(), {
-        method: 'POST',
-        headers: {
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache'
-        },
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! Status: ${response.status}`);
-      }
-      
-      const updateResult = await response.text();
-      console.log(`✅ ThingSpeak update result for ${field}: ${updateResult}`);
-      
-      // ThingSpeak retorna o ID da atualização quando bem-sucedido ou 0 em caso de erro
-      if (updateResult !== '0') {
-        return true; // Operação bem-sucedida
-      } else {
-        console.warn(`⚠️ ThingSpeak retornou 0 para ${field}. Pode indicar limite de taxa ou erro.`);
-        // Se não for a última tentativa, espere um tempo antes de tentar novamente
-        if (attempt < retries) {
-          console.log(`⏳ Aguardando ${attempt * 2} segundos antes da próxima tentativa...`);
-          await new Promise(resolve => setTimeout(resolve, attempt * 2000)); // Espera progressiva
-        }
-      }
-    } catch (error) {
-      console.error(`❌ Error updating ${field} (attempt ${attempt}/${retries}):`, error);
-      // Se não for a última tentativa, espere um tempo antes de tentar novamente
-      if (attempt < retries) {
-        console.log(`⏳ Aguardando ${attempt} segundos antes da próxima tentativa...`);
-        await new Promise(resolve => setTimeout(resolve, attempt * 1000)); // Espera progressiva
-      }
+async function assertDeviceTransport(deviceId: number): Promise<void> {
+  await getTransportForDevice(deviceId);
+}
+
+/**
+ * Enfileira a atualização de um único campo e retorna o ID do comando
+ * O comando é gravado na fila persistente e enviado respeitando o intervalo do transporte
+ * @param retries Número máximo de tentativas de envio
+ * @param source Origem do comando (registrada na fila)
+ * @param deviceId Tanque de destino
+ */
+export async function queueField(
+  field: string,
+  value: string | number,
+  retries: number = 3,
+  source: string = 'api',
+  deviceId: number = DEFAULT_DEVICE_ID
+): Promise<number> {
+  console.log(`Enfileirando comando: ${field}=${value}`);
+  return commandQueue.enqueue({ [field]: value }, { source, maxRetries: retries, deviceId });
+}
+
+/**
+ * Aguarda o envio de um comando enfileirado (true = aceito pelo transporte)
+ */
+async function awaitCommand(request: Promise<number>, field: string): Promise<boolean> {
+  try {
+    const commandId = await request;
+    const accepted = await commandQueue.waitFor(commandId);
+    
+    if (!accepted) {
+      console.error(`❌ Command #${commandId} to update ${field} failed`);
     }
+    return accepted;
+  } catch (error) {
+    console.error(`❌ Error updating ${field}:`, error);
+    return false;
   }
-  
-  // Se chegou aqui, todas as tentativas falharam
-  console.error(`❌ All ${retries} attempts to update ${field} failed`);
-  return false;
 }
 
 /**
- * Updates pump status on ThingSpeak (field3)
+ * Updates a single field on ThingSpeak
+ * @param retries Número máximo de tentativas de envio
+ * @param source Origem do comando (registrada na fila)
+ */
+export async function updateField(
+  field: string,
+  value: string | number,
+  retries: number = 3,
+  source: string = 'api'
+): Promise<boolean> {
+  return awaitCommand(queueField(field, value, retries, source), field);
+}
+
+/**
+ * Queues a pump status update (field3) and returns the command ID
  * Também atualiza o emulador para garantir consistência quando no modo virtual
  */
-export async function updatePumpStatus(status: boolean): Promise<boolean> {
+export async function requestPumpStatus(status: boolean, source: string = 'api', deviceId: number = DEFAULT_DEVICE_ID): Promise<number> {
+  // Lança InterlockError se o comando violar um intertravamento de segurança
+  interlockService.authorize('pump', status, deviceId, source);
+  await assertDeviceTransport(deviceId);
+  
+  const state = getDeviceState(deviceId);
   // Atualizar variável em memória com o status atual
-  currentDeviceStatus.pumpStatus = status;
-  currentDeviceStatus.lastUpdate = new Date();
+  state.pumpStatus = status;
+  state.lastUpdate = new Date();
+  persistDeviceStatus(deviceId);
+  recordActuatorState(deviceId, 'pump', status, 'command');
   
-  // Atualizar também o emulador para garantir consistência
-  if (emulatorService) {
+  // Atualizar também o emulador (que simula apenas o tanque principal)
+  if (deviceId === DEFAULT_DEVICE_ID && emulatorService) {
     // Usar o método específico para atualizar o emulador
     emulatorService.updateControlState(status, undefined);
     console.log(`🔄 Status da bomba também atualizado no emulador: ${status ? 'LIGADA' : 'DESLIGADA'}`);
   }
   
   // Usar o método de atualização de campo com intervalo controlado
-  return updateField('field3', status ? '1' : '0');
+  return queueField('field3', status ? '1' : '0', 3, source, deviceId);
 }
 
 /**
- * Updates heater status on ThingSpeak (field4)
+ * Updates pump status on ThingSpeak (field3) and waits for the transport to accept it
+ * @param source Origem do comando (registrada na fila e nos intertravamentos)
+ */
+export async function updatePumpStatus(status: boolean, source: string = 'api'): Promise<boolean> {
+  return awaitCommand(requestPumpStatus(status, source), 'field3');
+}
+
+/**
+ * Queues a heater status update (field4) and returns the command ID
  * Também atualiza o emulador para garantir consistência quando no modo virtual
  */
-export async function updateHeaterStatus(status: boolean): Promise<boolean> {
+export async function requestHeaterStatus(status: boolean, source: string = 'api', deviceId: number = DEFAULT_DEVICE_ID): Promise<number> {
+  // Lança InterlockError se o comando violar um intertravamento de segurança
+  interlockService.authorize('heater', status, deviceId, source);
+  await assertDeviceTransport(deviceId);
+  
+  const state = getDeviceState(deviceId);
   // O aquecedor pode ser controlado independentemente do modo de operação
   // Atualizar variável em memória com o status atual
-  currentDeviceStatus.heaterStatus = status;
-  currentDeviceStatus.lastUpdate = new Date();
+  state.heaterStatus = status;
+  state.lastUpdate = new Date();
+  persistDeviceStatus(deviceId);
+  recordActuatorState(deviceId, 'heater', status, 'command');
   
-  // Atualizar também o emulador para garantir consistência
-  if (emulatorService) {
+  // Atualizar também o emulador (que simula apenas o tanque principal)
+  if (deviceId === DEFAULT_DEVICE_ID && emulatorService) {
     // Usar o método específico para atualizar o emulador
     emulatorService.updateControlState(undefined, status);
     console.log(`🔄 Status do aquecedor também atualizado no emulador: ${status ? 'LIGADO' : 'DESLIGADO'}`);
   }
   
   // Usar o método de atualização de campo com intervalo controlado
-  return updateField('field4', status ? '1' : '0');
+  return queueField('field4', status ? '1' : '0', 3, source, deviceId);
 }
 
 /**
- * Updates operation mode on ThingSpeak (field5)
+ * Updates heater status on ThingSpeak (field4) and waits for the transport to accept it
+ */
+export async function updateHeaterStatus(status: boolean): Promise<boolean> {
+  return awaitCommand(requestHeaterStatus(status), 'field4');
+}
+
+/**
+ * Queues an operation mode update (field5) and returns the command ID
  * Manual = 0, Automático = 1
  */
-export async function updateOperationMode(isAutomatic: boolean): Promise<boolean> {
+export async function requestOperationMode(isAutomatic: boolean, source: string = 'api', deviceId: number = DEFAULT_DEVICE_ID): Promise<number> {
+  await assertDeviceTransport(deviceId);
+  const state = getDeviceState(deviceId);
   // Atualizar variável em memória com o status atual
-  currentDeviceStatus.operationMode = isAutomatic;
-  currentDeviceStatus.lastUpdate = new Date();
+  state.operationMode = isAutomatic;
+  state.lastUpdate = new Date();
+  persistDeviceStatus(deviceId);
   
   // Preservar a targetTemp atual - não resetar para valor padrão ao mudar modos
   // Este é o ponto chave para manter a temperatura alvo ao alternar modos
   
   // Usar o método de atualização de campo com intervalo controlado
-  return updateField('field5', isAutomatic ? '1' : '0');
+  return queueField('field5', isAutomatic ? '1' : '0', 3, source, deviceId);
 }
 
 /**
- * Updates target temperature on ThingSpeak (field6)
+ * Updates operation mode on ThingSpeak (field5) and waits for the transport to accept it
  */
-export async function updateTargetTemperature(temperature: number): Promise<boolean> {
+export async function updateOperationMode(isAutomatic: boolean): Promise<boolean> {
+  return awaitCommand(requestOperationMode(isAutomatic), 'field5');
+}
+
+/**
+ * Queues a target temperature update (field6) and returns the command ID
+ */
+export async function requestTargetTemperature(temperature: number, source: string = 'api', deviceId: number = DEFAULT_DEVICE_ID): Promise<number> {
+  await assertDeviceTransport(deviceId);
+  const state = getDeviceState(deviceId);
   // Garantir que a temperatura está em um range razoável
   const safeTemp = Math.max(18, Math.min(32, temperature));
   
   // Atualizar variável em memória
-  currentDeviceStatus.targetTemp = safeTemp;
-  currentDeviceStatus.lastUpdate = new Date();
+  state.targetTemp = safeTemp;
+  state.lastUpdate = new Date();
+  persistDeviceStatus(deviceId);
   
   // Usar o método de atualização de campo com intervalo controlado
-  return updateField('field6', safeTemp.toString());
+  return queueField('field6', safeTemp.toString(), 3, source, deviceId);
 }
 
 /**
- * Updates pump ON timer on ThingSpeak (field7)
+ * Updates target temperature on ThingSpeak (field6) and waits for the transport to accept it
+ */
+export async function updateTargetTemperature(temperature: number): Promise<boolean> {
+  return awaitCommand(requestTargetTemperature(temperature), 'field6');
+}
+
+/**
+ * Queues a pump ON timer update (field7) and returns the command ID
  * Tempo em segundos para manter a bomba ligada
  */
-export async function updatePumpOnTimer(seconds: number): Promise<boolean> {
+export async function requestPumpOnTimer(seconds: number, source: string = 'api', deviceId: number = DEFAULT_DEVICE_ID): Promise<number> {
+  await assertDeviceTransport(deviceId);
+  const state = getDeviceState(deviceId);
   // Garantir que o valor é positivo e razoável
   const safeSeconds = Math.max(0, Math.min(3600, seconds)); // máximo 1 hora
   
   // Atualizar variável em memória
-  currentDeviceStatus.pumpOnTimer = safeSeconds;
-  currentDeviceStatus.lastUpdate = new Date();
+  state.pumpOnTimer = safeSeconds;
+  state.lastUpdate = new Date();
+  persistDeviceStatus(deviceId);
   
-  // Atualizar também o temporizador no serviço de automação
+  // Atualizar também o temporizador no serviço de automação (tanque principal)
   try {
     // Acessar serviço de automação diretamente
-    if (automationService) {
-      automationService.updateTimers(safeSeconds, currentDeviceStatus.pumpOffTimer || 30);
+    if (deviceId === DEFAULT_DEVICE_ID && automationService) {
+      automationService.updateTimers(safeSeconds, state.pumpOffTimer || 30);
       console.log(`✅ Timer de bomba ligada também atualizado no serviço de automação: ${safeSeconds}s`);
     }
   } catch (error) {
@@ -791,56 +808,83 @@ export async function updatePumpOnTimer(seconds: number): Promise<boolean> {
   }
   
   // Usar o método de atualização de campo com intervalo controlado
-  return updateField('field7', safeSeconds.toString());
+  return queueField('field7', safeSeconds.toString(), 3, source, deviceId);
 }
 
 /**
- * Updates pump OFF timer on ThingSpeak (field8)
+ * Updates pump ON timer on ThingSpeak (field7) and waits for the transport to accept it
+ */
+export async function updatePumpOnTimer(seconds: number): Promise<boolean> {
+  return awaitCommand(requestPumpOnTimer(seconds), 'field7');
+}
+
+/**
+ * Queues a pump OFF timer update (field8) and returns the command ID
  * Tempo em segundos para manter a bomba desligada
  */
-export async function updatePumpOffTimer(seconds: number): Promise<boolean> {
+export async function requestPumpOffTimer(seconds: number, source: string = 'api', deviceId: number = DEFAULT_DEVICE_ID): Promise<number> {
+  await assertDeviceTransport(deviceId);
+  const state = getDeviceState(deviceId);
   // Garantir que o valor é positivo e razoável
   const safeSeconds = Math.max(0, Math.min(3600, seconds)); // máximo 1 hora
   
   // Atualizar variável em memória
-  currentDeviceStatus.pumpOffTimer = safeSeconds;
-  currentDeviceStatus.lastUpdate = new Date();
+  state.pumpOffTimer = safeSeconds;
+  state.lastUpdate = new Date();
+  persistDeviceStatus(deviceId);
   
-  // Atualizar também o temporizador no serviço de automação
+  // Atualizar também o temporizador no serviço de automação (tanque principal)
   try {
     // Acessar serviço de automação diretamente
-    if (typeof automationService !== 'undefined' && automationService) {
-      automationService.updateTimers(currentDeviceStatus.pumpOnTimer || 30, safeSeconds);
+    if (deviceId === DEFAULT_DEVICE_ID && typeof automationService !== 'undefined' && automationService) {
+      automationService.updateTimers(state.pumpOnTimer || 30, safeSeconds);
       console.log(`✅ Timer de bomba desligada também atualizado no serviço de automação: ${safeSeconds}s`);
     }
   } catch (error) {
     console.error('⚠️ Erro ao atualizar timer no serviço de automação:', error);
   }
   
-  return updateField('field8', safeSeconds.toString());
+  return queueField('field8', safeSeconds.toString(), 3, source, deviceId);
 }
 
 /**
- * Updates pump flow on ThingSpeak (field5)
+ * Updates pump OFF timer on ThingSpeak (field8) and waits for the transport to accept it
+ */
+export async function updatePumpOffTimer(seconds: number): Promise<boolean> {
+  return awaitCommand(requestPumpOffTimer(seconds), 'field8');
+}
+
+/**
+ * Queues a pump flow update (field5) and returns the command ID
  * Também atualiza o emulador para garantir consistência quando no modo virtual
  * Valor de 0-100% para a vazão da bomba
  */
-export async function updatePumpFlow(flowPercent: number): Promise<boolean> {
+export async function requestPumpFlow(flowPercent: number, source: string = 'api', deviceId: number = DEFAULT_DEVICE_ID): Promise<number> {
+  await assertDeviceTransport(deviceId);
+  const state = getDeviceState(deviceId);
   // Garantir que o valor está no range 0-100
   const safeFlow = Math.max(0, Math.min(100, flowPercent));
   
   // Atualizar variável em memória
-  currentDeviceStatus.pumpFlow = safeFlow;
-  currentDeviceStatus.lastUpdate = new Date();
+  state.pumpFlow = safeFlow;
+  state.lastUpdate = new Date();
+  persistDeviceStatus(deviceId);
   
-  // Atualizar também o emulador para garantir consistência
-  if (emulatorService) {
+  // Atualizar também o emulador (que simula apenas o tanque principal)
+  if (deviceId === DEFAULT_DEVICE_ID && emulatorService) {
     // Usar o método específico para atualizar o emulador com a vazão da bomba
     emulatorService.updateControlState(undefined, undefined, safeFlow);
     console.log(`🔄 Vazão da bomba também atualizada no emulador: ${safeFlow}%`);
   }
   
-  return updateField('field5', safeFlow.toString());
+  return queueField('field5', safeFlow.toString(), 3, source, deviceId);
+}
+
+/**
+ * Updates pump flow on ThingSpeak (field5) and waits for the transport to accept it
+ */
+export async function updatePumpFlow(flowPercent: number): Promise<boolean> {
+  return awaitCommand(requestPumpFlow(flowPercent), 'field5');
 }
 
 /**
@@ -849,6 +893,7 @@ export async function updatePumpFlow(flowPercent: number): Promise<boolean> {
  * IMPORTANTE: Este método também atualiza a variável em memória como as funções
  * individuais updatePumpStatus e updateHeaterStatus fazem, garantindo feedback imediato
  * na interface do usuário enquanto aguardamos a confirmação do ThingSpeak.
+ * Usado pelo emulador, cujos controles já passam pelos intertravamentos de segurança.
  */
 export async function updateDeviceStatus(pumpStatus: boolean, heaterStatus: boolean): Promise<boolean> {
   try {
@@ -856,6 +901,9 @@ export async function updateDeviceStatus(pumpStatus: boolean, heaterStatus: bool
     currentDeviceStatus.pumpStatus = pumpStatus;
     currentDeviceStatus.heaterStatus = heaterStatus;
     currentDeviceStatus.lastUpdate = new Date();
+    persistDeviceStatus(DEFAULT_DEVICE_ID);
+    recordActuatorState(DEFAULT_DEVICE_ID, 'pump', pumpStatus, 'command');
+    recordActuatorState(DEFAULT_DEVICE_ID, 'heater', heaterStatus, 'command');
     
     // Obter dados do emulador para enviar junto
     let temperature = 0;
@@ -873,73 +921,26 @@ export async function updateDeviceStatus(pumpStatus: boolean, heaterStatus: bool
       // Capturar os valores atuais do emulador para campos 1 e 2
       const config = emulatorService.getConfig();
       temperature = config.sensorRanges.waterTemp.current;
-      level = config.sensorRanges.waterLevel.current / 100; // Converter para percentual 0-1
+      level = config.sensorRanges.waterLevel.current; // Nível em % (0-100)
       
       console.log(`🔄 Status dos dispositivos também atualizado no emulador:
         Bomba: ${pumpStatus ? 'LIGADA' : 'DESLIGADA'}
         Aquecedor: ${heaterStatus ? 'LIGADO' : 'DESLIGADO'}`);
     }
     
-    // Verificar o tempo desde a última atualização
-    const now = Date.now();
-    const lastUpdate = lastFieldUpdateTime['update_all'] || 0;
-    const elapsed = now - lastUpdate;
-    
-    // Se a última atualização foi muito recente, aguardar
-    if (lastUpdate > 0 && elapsed < MIN_UPDATE_INTERVAL_MS) {
-      const waitTime = MIN_UPDATE_INTERVAL_MS - elapsed;
-      console.log(`⏱️ Aguardando ${Math.ceil(waitTime/1000)}s antes de enviar atualização múltipla ao ThingSpeak...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-    
-    // Adicionar timestamp para evitar cache
-    const timestamp = Date.now();
-    
-    const url = new URL(`${THINGSPEAK_BASE_URL}/update`);
-    url.searchParams.append('api_key', THINGSPEAK_WRITE_API_KEY);
-    
-    // Enviar todos os campos de uma vez para o ThingSpeak
-    url.searchParams.append('field1', temperature.toString());
-    // Converter o nível de água para percentual (0-100) ao invés de decimal (0-1)
-    url.searchParams.append('field2', (level * 100).toString());
-    url.searchParams.append('field3', pumpStatus ? '1' : '0');
-    url.searchParams.append('field4', heaterStatus ? '1' : '0');
-    url.searchParams.append('field5', operationMode ? '1' : '0');
-    url.searchParams.append('field6', targetTemp.toString());
-    url.searchParams.append('field7', pumpOnTimer.toString());
-    url.searchParams.append('field8', pumpOffTimer.toString());
-    url.searchParams.append('t', timestamp.toString());
-    
     console.log(`🔄 Enviando atualização completa para ThingSpeak com todos os campos`);
     
-    // Usar um timeout mais longo para atualizações múltiplas
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 3000);
-    
-    const response = await fetch(url.toString(), {
-      method: 'POST',
-      headers: {
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'Pragma': 'no-cache'
-      },
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP Error! Status: ${response.status}`);
-    }
-    
-    const updateResult = await response.text();
-    console.log(`✅ ThingSpeak update result: ${updateResult}`);
-    
-    // Se a atualização foi bem-sucedida, registrar o momento atual
-    if (updateResult !== '0') {
-      lastFieldUpdateTime['update_all'] = Date.now();
-    }
-    
-    return updateResult !== '0';
+    // Enviar todos os campos de uma vez (a fila respeita o intervalo mínimo do transporte)
+    return await commandQueue.send({
+      field1: temperature,
+      field2: level,
+      field3: pumpStatus ? '1' : '0',
+      field4: heaterStatus ? '1' : '0',
+      field5: operationMode ? '1' : '0',
+      field6: targetTemp,
+      field7: pumpOnTimer,
+      field8: pumpOffTimer
+    }, { source: 'api' });
     
   } catch (error) {
     console.error('❌ Error updating device status on ThingSpeak:', error);
@@ -951,63 +952,29 @@ export async function updateDeviceStatus(pumpStatus: boolean, heaterStatus: bool
  * Fetches historical readings from ThingSpeak
  * @param days Number of days to fetch (default: 7)
  */
-export async function fetchHistoricalReadings(days = 7): Promise<InsertReading[]> {
+export async function fetchHistoricalReadings(days = 7): Promise<NewReading[]> {
   try {
     // Calcular período de datas
     const endDate = new Date();
     const startDate = new Date();
     startDate.setDate(startDate.getDate() - days);
     
-    const startDateStr = startDate.toISOString();
-    const endDateStr = endDate.toISOString();
-    
-    // Adicionar timestamp para evitar cache
-    const timestamp = new Date().getTime();
+    const transport = getTelemetryTransport();
+    console.log(`Fetching ${days} days of data directly from ${transport.name} with timeout...`);
     
-    const url = new URL(`${THINGSPEAK_BASE_URL}/channels/${THINGSPEAK_CHANNEL_ID}/feeds.json`);
-    url.searchParams.append('api_key', THINGSPEAK_READ_API_KEY);
-    url.searchParams.append('start', startDateStr);
-    url.searchParams.append('end', endDateStr);
-    url.searchParams.append('results', '1000'); // Limitado para evitar sobrecarga (máximo permitido é 8000)
-    url.searchParams.append('t', timestamp.toString());
+    // Limitado a 1000 registros e com timeout mais longo (10 segundos) para dados históricos
+    const feeds = await transport.fetchFeedsInRange(startDate, endDate, 1000, 10000);
     
-    // Usar timeout mais longo para dados históricos
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 segundos
-    
-    console.log(`Fetching ${days} days of data directly from ThingSpeak with timeout...`);
-    
-    const response = await fetch(url.toString(), {
-      headers: {
-        'Cache-Control': 'no-cache, no-store, must-revalidate',
-        'Pragma': 'no-cache'
-      },
-      signal: controller.signal
-    });
-    
-    clearTimeout(timeoutId);
-    
-    if (!response.ok) {
-      throw new Error(`HTTP Error! Status: ${response.status}`);
-    }
-    
-    const data = await response.json() as ThingspeakFeedsResponse;
-    
-    if (!data.feeds || data.feeds.length === 0) {
+    if (feeds.length === 0) {
       return [];
     }
     
     // Para dados históricos, mantemos os timestamps originais
-    return data.feeds.map(feed => {
-      // Apenas os campos 1 e 2 são para leitura, os demais usamos os valores em memória
-      return {
-        temperature: parseThingspeakNumber(feed.field1),
-        level: parseThingspeakNumber(feed.field2),
-        pumpStatus: currentDeviceStatus.pumpStatus,  // Valor atual em memória
-        heaterStatus: currentDeviceStatus.heaterStatus, // Valor atual em memória
-        timestamp: feed.created_at ? new Date(feed.created_at) : new Date()
-      };
-    });
+    // Apenas os campos 1 e 2 são para leitura, os demais usamos os valores em memória
+    return feeds.map(feed => readingFromFeed(feed, {
+      pumpStatus: currentDeviceStatus.pumpStatus,
+      heaterStatus: currentDeviceStatus.heaterStatus
+    }));
     
   } catch (error) {
     console.error('Error fetching historical data from ThingSpeak:', error);
@@ -1018,12 +985,13 @@ export async function fetchHistoricalReadings(days = 7): Promise<InsertReading[]
 /**
  * Get default reading when ThingSpeak fails
  */
-function getDefaultReading(): InsertReading {
+function getDefaultReading(): NewReading {
   return {
-    ...DEFAULT_READING,
+    temperature: DEFAULT_READING.temperature,
+    level: DEFAULT_READING.level,
     // Usar valores atuais em memória para status de dispositivos
-    pump_status: currentDeviceStatus.pumpStatus ? 1 : 0,
-    heater_status: currentDeviceStatus.heaterStatus ? 1 : 0,
-    timestamp: new Date()
+    pumpStatus: currentDeviceStatus.pumpStatus,
+    heaterStatus: currentDeviceStatus.heaterStatus,
+    timestamp: Date.now()
   };
 }
\ No newline at end of file
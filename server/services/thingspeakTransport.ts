@@ -0,0 +1,164 @@
+// Implementação do transporte de telemetria sobre a API HTTP do ThingSpeak
+import fetch from 'node-fetch';
+import type { TelemetryTransport, TelemetryFeed, TelemetryFields } from './telemetryTransport';
+import {
+  THINGSPEAK_BASE_URL,
+  DEFAULT_THINGSPEAK_CHANNEL,
+  ThingspeakChannelConfig,
+  ThingspeakFeedsResponse
+} from './thingspeakConfig';
+import { RateLimitedError, UpstreamUnavailableError } from '../utils/errors';
+
+// Espera sugerida quando o ThingSpeak recusa por excesso de requisições sem informar Retry-After
+const DEFAULT_RETRY_AFTER_SECONDS = 15;
+
+/**
+ * Erro correspondente a uma resposta HTTP de falha do ThingSpeak
+ */
+function toUpstreamError(status: number, retryAfter: string | null) {
+  if (status === 429) {
+    return new RateLimitedError(parseInt(retryAfter || '') || DEFAULT_RETRY_AFTER_SECONDS, 'Limite de requisições do ThingSpeak atingido');
+  }
+  return new UpstreamUnavailableError(`ThingSpeak respondeu HTTP ${status}`);
+}
+
+// Cabeçalhos para evitar cache em proxies
+const NO_CACHE_HEADERS = {
+  'Cache-Control': 'no-cache, no-store, must-revalidate',
+  'Pragma': 'no-cache'
+};
+
+export class ThingspeakTransport implements TelemetryTransport {
+  readonly name = 'thingspeak';
+  readonly description = 'ThingSpeak (HTTP)';
+  // 17 segundos (maior que o limite de 15s da API gratuita)
+  readonly minWriteIntervalMs = 17000;
+
+  constructor(
+    private baseUrl: string = THINGSPEAK_BASE_URL,
+    private channel: ThingspeakChannelConfig = DEFAULT_THINGSPEAK_CHANNEL
+  ) {}
+
+  /**
+   * Executa um GET em um endpoint de feeds e devolve a lista de entradas
+   */
+  private async getFeeds(url: URL, timeoutMs: number): Promise<TelemetryFeed[]> {
+    // Adicionar timestamp para evitar cache
+    url.searchParams.append('t', Date.now().toString());
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url.toString(), {
+        headers: NO_CACHE_HEADERS,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw toUpstreamError(response.status, response.headers.get('retry-after'));
+      }
+
+      const text = await response.text();
+      console.log('📩 Raw ThingSpeak response:', text.substring(0, 200) + '...');
+
+      let data: ThingspeakFeedsResponse;
+      try {
+        data = JSON.parse(text);
+      } catch (e) {
+        console.error('❌ Error parsing JSON:', e);
+        throw new UpstreamUnavailableError('Resposta inválida do ThingSpeak');
+      }
+
+      return data?.feeds || [];
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  async fetchLatestFeeds(results = 1, timeoutMs = 2000): Promise<TelemetryFeed[]> {
+    const url = new URL(`${this.baseUrl}/channels/${this.channel.channelId}/feeds.json`);
+    url.searchParams.append('api_key', this.channel.readApiKey);
+    url.searchParams.append('results', results.toString());
+    return this.getFeeds(url, timeoutMs);
+  }
+
+  async fetchFeedsInRange(start: Date, end: Date, maxResults = 1000, timeoutMs = 10000): Promise<TelemetryFeed[]> {
+    const url = new URL(`${this.baseUrl}/channels/${this.channel.channelId}/feeds.json`);
+    url.searchParams.append('api_key', this.channel.readApiKey);
+    url.searchParams.append('start', start.toISOString());
+    url.searchParams.append('end', end.toISOString());
+    // Limitado para evitar sobrecarga (máximo permitido é 8000)
+    url.searchParams.append('results', maxResults.toString());
+    return this.getFeeds(url, timeoutMs);
+  }
+
+  /**
+   * Consulta o Canal 2 (feedback), tentando múltiplas chaves de API em caso de falha
+   */
+  async fetchFeedbackFeed(): Promise<TelemetryFeed | null> {
+    const apiKeys = this.channel.feedbackReadApiKeys;
+    if (!this.channel.feedbackChannelId) {
+      return null;
+    }
+
+    for (let i = 0; i < apiKeys.length; i++) {
+      try {
+        const url = new URL(`${this.baseUrl}/channels/${this.channel.feedbackChannelId}/feeds.json`);
+        url.searchParams.append('api_key', apiKeys[i]);
+        url.searchParams.append('results', '1');
+
+        const feeds = await this.getFeeds(url, 5000);
+
+        if (feeds.length === 0) {
+          console.warn(`⚠️ Nenhum dado encontrado no Canal 2 com a chave #${i+1}.`);
+          continue; // Tenta a próxima chave
+        }
+
+        return feeds[0];
+      } catch (error) {
+        console.warn(`⚠️ Falha com a chave de API #${i+1}:`, error);
+        // Continue para a próxima chave
+      }
+    }
+
+    return null;
+  }
+
+  async writeFields(fields: TelemetryFields, timeoutMs = 3000): Promise<boolean> {
+    const url = new URL(`${this.baseUrl}/update`);
+    url.searchParams.append('api_key', this.channel.writeApiKey);
+
+    for (const [field, value] of Object.entries(fields)) {
+      if (value !== undefined) {
+        url.searchParams.append(field, value.toString());
+      }
+    }
+
+    // Adicionar timestamp para evitar cache
+    url.searchParams.append('t', Date.now().toString());
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(url.toString(), {
+        method: 'POST',
+        headers: NO_CACHE_HEADERS,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw toUpstreamError(response.status, response.headers.get('retry-after'));
+      }
+
+      const updateResult = await response.text();
+      console.log(`✅ ThingSpeak update result: ${updateResult}`);
+
+      // ThingSpeak retorna o ID da atualização quando bem-sucedido ou 0 em caso de erro
+      return updateResult !== '0';
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Serviço de usuários
+ * Contas locais de acesso à interface e à API, com três papéis:
+ * - viewer: apenas consulta leituras, gráficos e históricos
+ * - operator: também comanda os equipamentos, a automação, as programações e as regras
+ * - admin: também altera configurações, backup, tanques, alertas e usuários
+ *
+ * As senhas são guardadas com scrypt (scrypt:salt:hash); a senha em texto puro nunca é armazenada.
+ */
+
+import path from 'path';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { USER_ROLES, UserRole, InsertUser } from '@shared/schema';
+import { ConflictError } from '../utils/errors';
+import { migrateDatabase } from './migrationService';
+
+// Caminho para o banco de dados
+const DB_PATH = path.resolve('./aquaponia.db');
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const HASH_LENGTH = 64;
+
+export interface UserInfo {
+  id: number;
+  username: string;
+  role: UserRole;
+  active: boolean;
+  createdAt: number;
+  lastLoginAt: number | null;
+}
+
+export type UserUpdate = Partial<Pick<InsertUser, 'role' | 'active' | 'password'>>;
+
+async function openDb(): Promise<Database> {
+  // Tabela users: migração 9 do banco principal
+  await migrateDatabase('main');
+
+  return open({
+    filename: DB_PATH,
+    driver: sqlite3.Database
+  });
+}
+
+function toUserInfo(row: any): UserInfo {
+  return {
+    id: row.id,
+    username: row.username,
+    role: row.role,
+    active: row.active === 1,
+    createdAt: row.created_at,
+    lastLoginAt: row.last_login_at
+  };
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = await scrypt(password, salt, HASH_LENGTH);
+  return `scrypt:${salt}:${hash.toString('hex')}`;
+}
+
+async function checkPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(password, salt, expected.length);
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * Indica se o papel informado tem pelo menos o acesso do papel exigido
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+/**
+ * Lista os usuários cadastrados (sem os hashes das senhas)
+ */
+export async function listUsers(): Promise<UserInfo[]> {
+  const db = await openDb();
+  try {
+    const rows = await db.all(`SELECT * FROM users ORDER BY username ASC`);
+    return rows.map(toUserInfo);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Busca um usuário pelo ID; retorna null se não existir
+ */
+export async function getUser(id: number): Promise<UserInfo | null> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM users WHERE id = ?`, [id]);
+    return row ? toUserInfo(row) : null;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Cadastra um novo usuário
+ * Lança erro se o nome de usuário já estiver em uso
+ */
+export async function createUser(data: InsertUser): Promise<UserInfo> {
+  const passwordHash = await hashPassword(data.password);
+
+  const db = await openDb();
+  try {
+    const existing = await db.get(`SELECT id FROM users WHERE username = ? COLLATE NOCASE`, [data.username]);
+    if (existing) {
+      throw new ConflictError(`O usuário "${data.username}" já existe`);
+    }
+
+    const result = await db.run(
+      `INSERT INTO users (username, password_hash, role, active, created_at) VALUES (?, ?, ?, ?, ?)`,
+      [data.username, passwordHash, data.role || 'viewer', data.active === false ? 0 : 1, Date.now()]
+    );
+
+    console.log(`✅ Usuário "${data.username}" cadastrado (${data.role || 'viewer'})`);
+
+    const row = await db.get(`SELECT * FROM users WHERE id = ?`, [result.lastID]);
+    return toUserInfo(row);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Conta os administradores ativos, sem considerar o usuário informado
+ */
+async function countOtherAdmins(db: Database, id: number): Promise<number> {
+  const row = await db.get(
+    `SELECT COUNT(*) as total FROM users WHERE role = 'admin' AND active = 1 AND id != ?`,
+    [id]
+  );
+  return row?.total || 0;
+}
+
+/**
+ * Altera o papel, a situação ou a senha de um usuário; retorna null se não existir
+ * O último administrador ativo não pode perder o papel nem ser desativado
+ */
+export async function updateUser(id: number, data: UserUpdate): Promise<UserInfo | null> {
+  const passwordHash = data.password ? await hashPassword(data.password) : undefined;
+
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM users WHERE id = ?`, [id]);
+    if (!row) return null;
+
+    const demoting = (data.role !== undefined && data.role !== 'admin') || data.active === false;
+    if (row.role === 'admin' && demoting && await countOtherAdmins(db, id) === 0) {
+      throw new ConflictError('É necessário manter pelo menos um administrador ativo');
+    }
+
+    const columns: string[] = [];
+    const values: any[] = [];
+    if (data.role !== undefined) {
+      columns.push('role = ?');
+      values.push(data.role);
+    }
+    if (data.active !== undefined) {
+      columns.push('active = ?');
+      values.push(data.active ? 1 : 0);
+    }
+    if (passwordHash) {
+      columns.push('password_hash = ?');
+      values.push(passwordHash);
+    }
+
+    if (columns.length > 0) {
+      await db.run(`UPDATE users SET ${columns.join(', ')} WHERE id = ?`, [...values, id]);
+    }
+
+    const updated = await db.get(`SELECT * FROM users WHERE id = ?`, [id]);
+    return toUserInfo(updated);
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Remove um usuário; retorna false se não existir
+ * O último administrador ativo não pode ser removido
+ */
+export async function deleteUser(id: number): Promise<boolean> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM users WHERE id = ?`, [id]);
+    if (!row) return false;
+
+    if (row.role === 'admin' && row.active === 1 && await countOtherAdmins(db, id) === 0) {
+      throw new ConflictError('É necessário manter pelo menos um administrador ativo');
+    }
+
+    await db.run(`DELETE FROM users WHERE id = ?`, [id]);
+    console.log(`🗑️ Usuário "${row.username}" removido`);
+    return true;
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Confere usuário e senha; retorna o usuário se forem válidos e a conta estiver ativa
+ * O horário do último acesso é atualizado a cada login bem-sucedido
+ */
+export async function verifyCredentials(username: string, password: string): Promise<UserInfo | null> {
+  const db = await openDb();
+  try {
+    const row = await db.get(`SELECT * FROM users WHERE username = ? COLLATE NOCASE`, [username]);
+
+    // Calcular um hash mesmo sem usuário para não revelar quais nomes existem pelo tempo de resposta
+    const valid = await checkPassword(password, row?.password_hash || `scrypt:${'0'.repeat(32)}:${'0'.repeat(HASH_LENGTH * 2)}`);
+    if (!row || !valid || row.active !== 1) return null;
+
+    const lastLoginAt = Date.now();
+    await db.run(`UPDATE users SET last_login_at = ? WHERE id = ?`, [lastLoginAt, row.id]);
+    return toUserInfo({ ...row, last_login_at: lastLoginAt });
+  } finally {
+    await db.close();
+  }
+}
+
+/**
+ * Cria o administrador inicial quando ainda não há usuários cadastrados
+ * Usa ADMIN_USERNAME/ADMIN_PASSWORD do .env; sem senha definida, gera uma e a exibe uma única vez no log
+ */
+export async function ensureInitialAdmin(): Promise<void> {
+  const db = await openDb();
+  let total = 0;
+  try {
+    const row = await db.get(`SELECT COUNT(*) as total FROM users`);
+    total = row?.total || 0;
+  } finally {
+    await db.close();
+  }
+
+  if (total > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || 'admin';
+  const password = process.env.ADMIN_PASSWORD || crypto.randomBytes(9).toString('base64url');
+
+  await createUser({ username, password, role: 'admin' });
+
+  if (!process.env.ADMIN_PASSWORD) {
+    console.warn(`⚠️ Administrador inicial criado: usuário "${username}", senha "${password}". Altere a senha após o primeiro acesso.`);
+  }
+}
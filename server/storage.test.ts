@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { newDb, DataType } from 'pg-mem';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import * as schema from '@shared/schema';
+import type { PostgresDb } from './db';
+import { PostgresStorage } from './storage';
+
+// Tabelas de shared/schema.ts usadas pelo PostgresStorage (as mesmas criadas por npm run db:push)
+const SCHEMA_SQL = `
+  CREATE TABLE readings (
+    id SERIAL PRIMARY KEY,
+    device_id INTEGER NOT NULL DEFAULT 1,
+    temperature REAL NOT NULL,
+    level REAL NOT NULL,
+    pump_status INTEGER DEFAULT 0,
+    heater_status INTEGER DEFAULT 0,
+    timestamp TIMESTAMP DEFAULT NOW()
+  );
+  CREATE TABLE sensor_readings (
+    id SERIAL PRIMARY KEY,
+    device_id INTEGER NOT NULL DEFAULT 1,
+    sensor_key TEXT NOT NULL,
+    value REAL NOT NULL,
+    timestamp TIMESTAMP DEFAULT NOW()
+  );
+  CREATE TABLE setpoints (
+    id SERIAL PRIMARY KEY,
+    device_id INTEGER NOT NULL DEFAULT 1,
+    temp_min REAL,
+    temp_max REAL,
+    level_min REAL,
+    level_max REAL,
+    timestamp TIMESTAMP DEFAULT NOW()
+  );
+  CREATE TABLE settings (
+    id SERIAL PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    value TEXT NOT NULL,
+    description TEXT,
+    updated_at TIMESTAMP DEFAULT NOW()
+  );
+`;
+
+// Timestamp sem fuso no formato de texto do driver pg, que o drizzle converte de volta em Date
+function toDriverTimestamp(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString().replace('T', ' ').replace('Z', '') : value;
+}
+
+/**
+ * Banco em memória com a interface do pg.Pool
+ * O adaptador do pg-mem não aceita as opções rowMode e types que o drizzle envia; as linhas são
+ * convertidas aqui para o formato em lista, na ordem das colunas selecionadas.
+ */
+function createPostgresStorage(): PostgresStorage {
+  const memoryDb = newDb();
+  memoryDb.public.none(SCHEMA_SQL);
+  // Usada pela verificação de leituras duplicadas; o pg-mem implementa poucas funções nativas
+  memoryDb.public.registerFunction({
+    name: 'abs',
+    args: [DataType.float],
+    returns: DataType.float,
+    implementation: Math.abs
+  });
+  const { Pool } = memoryDb.adapters.createPg();
+  const pool = new Pool();
+
+  const client = {
+    query: async (config: { text: string; rowMode?: string }, values: unknown[] = []) => {
+      const result = await pool.query(config.text, values);
+      if (config.rowMode !== 'array') return result;
+      return {
+        ...result,
+        rows: result.rows.map((row: Record<string, unknown>) => Object.values(row).map(toDriverTimestamp))
+      };
+    }
+  };
+
+  return new PostgresStorage(drizzle({ client: client as any, schema }) as unknown as PostgresDb);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('PostgresStorage', () => {
+  let storage: PostgresStorage;
+
+  beforeEach(() => {
+    storage = createPostgresStorage();
+  });
+
+  it('grava leituras no modelo Reading, separadas por tanque', async () => {
+    const timestamp = Date.UTC(2024, 4, 10, 12);
+    const saved = await storage.saveReading({ temperature: 25.5, level: 72, pumpStatus: true, heaterStatus: false, timestamp });
+    await storage.saveReading({ temperature: 21, level: 50, pumpStatus: false, heaterStatus: true, deviceId: 2, timestamp });
+
+    expect(saved).toMatchObject({ deviceId: 1, temperature: 25.5, level: 72, pumpStatus: true, heaterStatus: false, timestamp });
+    expect(await storage.getLatestReadings(10)).toEqual([saved]);
+    expect(await storage.getLatestReadings(10, 2)).toHaveLength(1);
+  });
+
+  it('não duplica leituras iguais com poucos segundos de diferença', async () => {
+    const timestamp = Date.UTC(2024, 4, 10, 12);
+    const first = await storage.saveReading({ temperature: 25, level: 70, pumpStatus: false, heaterStatus: false, timestamp });
+    const repeated = await storage.saveReading({ temperature: 25.05, level: 70, pumpStatus: false, heaterStatus: false, timestamp: timestamp + 3000 });
+
+    expect(repeated.id).toBe(first.id);
+    expect(await storage.getLatestReadings(10)).toHaveLength(1);
+  });
+
+  it('consulta leituras por período, da mais antiga para a mais nova', async () => {
+    const start = Date.UTC(2024, 4, 10, 12);
+    for (let day = 0; day < 5; day++) {
+      await storage.saveReading({ temperature: 20 + day, level: 70, pumpStatus: false, heaterStatus: false, timestamp: start + day * DAY_MS });
+    }
+
+    // Como no SQLite, a data final inclui o dia seguinte inteiro
+    const readings = await storage.getReadingsByDateRange('2024-05-11', '2024-05-12');
+
+    expect(readings.map(reading => reading.temperature)).toEqual([21, 22, 23]);
+  });
+
+  it('grava e consulta leituras de sensores adicionais', async () => {
+    const timestamp = Date.UTC(2024, 4, 10, 12);
+    await storage.saveSensorReadings([
+      { deviceId: 1, sensorKey: 'ph', value: 7.1, timestamp },
+      { deviceId: 1, sensorKey: 'ph', value: 7.3, timestamp: timestamp + 60000 }
+    ]);
+
+    const readings = await storage.getSensorReadingsByDateRange('ph', '2024-05-10', '2024-05-10');
+
+    expect(readings.map(reading => reading.value)).toEqual([7.1, 7.3]);
+    expect(readings[0]).toMatchObject({ deviceId: 1, sensorKey: 'ph', timestamp });
+  });
+
+  it('cria setpoints padrão e guarda as alterações por tanque', async () => {
+    expect(await storage.getSetpoints()).toMatchObject({ tempMin: 20, tempMax: 30, levelMin: 60, levelMax: 90 });
+
+    await storage.updateSetpoints({ tempMin: 22, tempMax: 28, levelMin: 65, levelMax: 85 }, 2);
+
+    expect(await storage.getSetpoints(2)).toMatchObject({ tempMin: 22, tempMax: 28, levelMin: 65, levelMax: 85 });
+    expect(await storage.getSetpoints()).toMatchObject({ tempMin: 20, tempMax: 30 });
+  });
+
+  it('guarda as configurações no formato chave/valor', async () => {
+    const defaults = await storage.getSettings();
+
+    const updated = await storage.updateSettings({ ...defaults, systemName: 'Estufa', dataRetention: 90 });
+
+    expect(updated).toMatchObject({ systemName: 'Estufa', dataRetention: 90, updateInterval: defaults.updateInterval });
+    expect(await storage.getSettings()).toMatchObject({ systemName: 'Estufa', dataRetention: 90 });
+  });
+});
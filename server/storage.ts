@@ -1,21 +1,40 @@
 import { 
-  Reading, InsertReading, 
   Setpoint, InsertSetpoint,
   Setting, InsertSetting,
-  ReadingStats
+  ReadingStats,
+  DEFAULT_DEVICE_ID
 } from "@shared/schema";
+import {
+  Reading, NewReading, readingFromRow, readingToRow,
+  SensorReading, NewSensorReading, sensorReadingFromRow, sensorReadingToRow
+} from "@shared/reading";
+import {
+  readings as readingsTable,
+  sensorReadings as sensorReadingsTable,
+  setpoints as setpointsTable,
+  settings as settingsTable
+} from "@shared/schema";
+import { and, asc, between, desc, eq, gte, lte, sql } from "drizzle-orm";
 import { createDb } from "./services/databaseService";
+import { getPostgresDb, PostgresDb } from "./db";
 
+// Leituras e setpoints são separados por tanque (deviceId); sem deviceId, usa o tanque principal
 export interface IStorage {
   // Readings
-  getLatestReadings(limit: number): Promise<Reading[]>;
-  getReadingsByDateRange(startDate: string, endDate: string, maxResults?: number): Promise<Reading[]>;
-  saveReading(reading: InsertReading): Promise<Reading>;
+  getLatestReadings(limit: number, deviceId?: number): Promise<Reading[]>;
+  getReadingsByDateRange(startDate: string, endDate: string, maxResults?: number, deviceId?: number): Promise<Reading[]>;
+  saveReading(reading: NewReading): Promise<Reading>;
   getFirstReading(): Promise<Reading | null>; // Para cálculo de uptime
   
+  // Sensores adicionais (pH, oxigênio dissolvido...), no formato longo
+  saveSensorReadings(readings: NewSensorReading[]): Promise<SensorReading[]>;
+  getLatestSensorReadings(deviceId?: number): Promise<SensorReading[]>; // última leitura de cada sensor
+  // Em ordem cronológica; se o período tiver mais que maxResults leituras, ficam as mais recentes
+  getSensorReadingsByDateRange(sensorKey: string, startDate: string, endDate: string, maxResults?: number, deviceId?: number): Promise<SensorReading[]>;
+  
   // Setpoints
-  getSetpoints(): Promise<Setpoint>;
-  updateSetpoints(setpoints: InsertSetpoint): Promise<Setpoint>;
+  getSetpoints(deviceId?: number): Promise<Setpoint>;
+  updateSetpoints(setpoints: InsertSetpoint, deviceId?: number): Promise<Setpoint>;
   
   // Settings
   getSettings(): Promise<Setting>;
@@ -24,13 +43,17 @@ export interface IStorage {
   // Statistics
   getTemperatureStats(readings: Reading[]): ReadingStats;
   getLevelStats(readings: Reading[]): ReadingStats;
+  getSensorStats(readings: SensorReading[]): ReadingStats;
 }
 
 export class MemStorage implements IStorage {
   private readings: Reading[] = [];
+  private sensorReadings: SensorReading[] = [];
   private setpoints: Setpoint;
+  private deviceSetpoints = new Map<number, Setpoint>();
   private settings: Setting;
   private readingId = 1;
+  private sensorReadingId = 1;
   
   constructor() {
     // Initialize with default values
@@ -63,33 +86,34 @@ export class MemStorage implements IStorage {
     };
   }
   
-  async getLatestReadings(limit: number): Promise<Reading[]> {
+  async getLatestReadings(limit: number, deviceId = DEFAULT_DEVICE_ID): Promise<Reading[]> {
     return this.readings
-      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .filter(reading => reading.deviceId === deviceId)
+      .sort((a, b) => b.timestamp - a.timestamp)
       .slice(0, limit);
   }
   
-  async getReadingsByDateRange(startDate: string, endDate: string): Promise<Reading[]> {
-    const start = new Date(startDate);
-    const end = new Date(endDate);
+  async getReadingsByDateRange(
+    startDate: string,
+    endDate: string,
+    maxResults?: number,
+    deviceId = DEFAULT_DEVICE_ID
+  ): Promise<Reading[]> {
+    const start = new Date(startDate).getTime();
+    const end = new Date(endDate).getTime();
     
-    return this.readings.filter(reading => {
-      const readingDate = new Date(reading.timestamp);
-      return readingDate >= start && readingDate <= end;
-    }).sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    return this.readings
+      .filter(reading => reading.deviceId === deviceId && reading.timestamp >= start && reading.timestamp <= end)
+      .sort((a, b) => a.timestamp - b.timestamp);
   }
   
-  async saveReading(reading: InsertReading): Promise<Reading> {
+  async saveReading(reading: NewReading): Promise<Reading> {
     // Verificar se a leitura é válida (não permitir leituras com temperatura e nível em zero)
     const isValidReading = !(reading.temperature === 0 && reading.level === 0);
     
     // Processar apenas leituras válidas
     if (isValidReading) {
-      const newReading: Reading = {
-        id: this.readingId++,
-        ...reading,
-        timestamp: reading.timestamp || new Date()
-      };
+      const newReading = readingFromRow({ id: this.readingId++, ...readingToRow(reading) });
       
       this.readings.push(newReading);
       
@@ -98,54 +122,83 @@ export class MemStorage implements IStorage {
       // com valor fixo de 30 dias (ou conforme configurado no banco de dados)
       if (this.readings.length > this.settings.dataRetention * 1440) {
         this.readings = this.readings
-          .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+          .sort((a, b) => b.timestamp - a.timestamp)
           .slice(0, this.settings.dataRetention * 1440);
       }
       
-      // Log apenas para leituras válidas
-      const pumpStatusToLog = typeof newReading.pump_status === 'boolean' ? 
-                              newReading.pump_status : 
-                              newReading.pump_status === 1;
-      
-      const heaterStatusToLog = typeof newReading.heater_status === 'boolean' ? 
-                               newReading.heater_status : 
-                               newReading.heater_status === 1;
-      
-      console.log(`✅ [${new Date().toLocaleTimeString()}] Inserindo nova leitura: Temp=${newReading.temperature.toFixed(1)}°C, Nível=${(newReading.level * 100).toFixed(2)}%, Bomba=${pumpStatusToLog ? 'ON' : 'OFF'}, Aquecedor=${heaterStatusToLog ? 'ON' : 'OFF'}`);
+      console.log(`✅ [${new Date().toLocaleTimeString()}] Inserindo nova leitura: Temp=${newReading.temperature.toFixed(1)}°C, Nível=${newReading.level.toFixed(1)}%, Bomba=${newReading.pumpStatus ? 'ON' : 'OFF'}, Aquecedor=${newReading.heaterStatus ? 'ON' : 'OFF'}`);
       
       return newReading;
     } else {
       // Criar um objeto de leitura para retornar, mas sem adicioná-lo à lista de leituras
-      return {
-        id: -1, // ID inválido para indicar que não foi armazenado
-        ...reading,
-        timestamp: reading.timestamp || new Date()
-      };
+      // (id -1 indica que não foi armazenado)
+      return readingFromRow({ id: -1, ...readingToRow(reading) });
     }
   }
   
   async getFirstReading(): Promise<Reading | null> {
     // Ordenar leituras por timestamp (a mais antiga primeiro)
-    const sortedReadings = [...this.readings].sort(
-      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
-    );
+    const sortedReadings = [...this.readings].sort((a, b) => a.timestamp - b.timestamp);
     
     // Retornar a leitura mais antiga se houver alguma
     return sortedReadings.length > 0 ? sortedReadings[0] : null;
   }
   
-  async getSetpoints(): Promise<Setpoint> {
-    return this.setpoints;
+  async saveSensorReadings(readings: NewSensorReading[]): Promise<SensorReading[]> {
+    const saved = readings.map(reading => sensorReadingFromRow({ id: this.sensorReadingId++, ...sensorReadingToRow(reading) }));
+    this.sensorReadings.push(...saved);
+    
+    // Mesma retenção das leituras principais, contada em dias
+    const cutoff = Date.now() - this.settings.dataRetention * 24 * 60 * 60 * 1000;
+    this.sensorReadings = this.sensorReadings.filter(reading => reading.timestamp >= cutoff);
+
+    return saved;
   }
   
-  async updateSetpoints(setpoints: InsertSetpoint): Promise<Setpoint> {
-    this.setpoints = {
-      ...this.setpoints,
+  async getLatestSensorReadings(deviceId = DEFAULT_DEVICE_ID): Promise<SensorReading[]> {
+    const latest = new Map<string, SensorReading>();
+    for (const reading of this.sensorReadings) {
+      if (reading.deviceId !== deviceId) continue;
+      const current = latest.get(reading.sensorKey);
+      if (!current || reading.timestamp >= current.timestamp) latest.set(reading.sensorKey, reading);
+    }
+    return Array.from(latest.values());
+  }
+  
+  async getSensorReadingsByDateRange(
+    sensorKey: string,
+    startDate: string,
+    endDate: string,
+    maxResults = 1000,
+    deviceId = DEFAULT_DEVICE_ID
+  ): Promise<SensorReading[]> {
+    const { start, end } = getSensorRangeBounds(startDate, endDate);
+    
+    return this.sensorReadings
+      .filter(reading => reading.deviceId === deviceId && reading.sensorKey === sensorKey &&
+        reading.timestamp >= start && reading.timestamp <= end)
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-maxResults);
+  }
+  
+  async getSetpoints(deviceId = DEFAULT_DEVICE_ID): Promise<Setpoint> {
+    return this.deviceSetpoints.get(deviceId) || this.setpoints;
+  }
+  
+  async updateSetpoints(setpoints: InsertSetpoint, deviceId = DEFAULT_DEVICE_ID): Promise<Setpoint> {
+    const updated = {
+      ...(await this.getSetpoints(deviceId)),
       ...setpoints,
       updatedAt: new Date()
     };
     
-    return this.setpoints;
+    if (deviceId === DEFAULT_DEVICE_ID) {
+      this.setpoints = updated;
+    } else {
+      this.deviceSetpoints.set(deviceId, updated);
+    }
+    
+    return updated;
   }
   
   async getSettings(): Promise<Setting> {
@@ -197,6 +250,20 @@ export class MemStorage implements IStorage {
     
     return { avg, min, max, stdDev };
   }
+  
+  getSensorStats(readings: SensorReading[]): ReadingStats {
+    return calculateStats(readings.map(r => r.value));
+  }
+}
+
+/**
+ * Intervalo das consultas de sensores: do início de startDate ao fim de endDate (UTC)
+ */
+function getSensorRangeBounds(startDate: string, endDate: string): { start: number; end: number } {
+  return {
+    start: new Date(startDate.split('T')[0] + 'T00:00:00.000Z').getTime(),
+    end: new Date(endDate.split('T')[0] + 'T23:59:59.999Z').getTime()
+  };
 }
 
 // For real storage implementation using SQLite
@@ -226,14 +293,16 @@ export class SqliteStorage implements IStorage {
     }
   }
 
-  async getLatestReadings(limit: number): Promise<Reading[]> {
+  async getLatestReadings(limit: number, deviceId = DEFAULT_DEVICE_ID): Promise<Reading[]> {
     await this.ensureInitialized();
-    return this.db.all(
+    const rows = await this.db.all(
       `SELECT * FROM readings 
+       WHERE device_id = ?
        ORDER BY timestamp DESC 
        LIMIT ?`, 
-      [limit]
+      [deviceId, limit]
     );
+    return rows.map(readingFromRow);
   }
   
   async getFirstReading(): Promise<Reading | null> {
@@ -241,34 +310,27 @@ export class SqliteStorage implements IStorage {
     
     try {
       // Buscar a leitura mais antiga ordenando pelo timestamp
-      const reading = await this.db.get(
+      const row = await this.db.get(
         `SELECT * FROM readings 
          ORDER BY timestamp ASC 
          LIMIT 1`
       );
       
-      if (!reading) {
-        return null;
-      }
-      
-      // Converter para o formato da interface
-      return {
-        id: reading.id,
-        temperature: reading.temperature,
-        level: reading.level,
-        pumpStatus: reading.pump_status === 1,
-        heaterStatus: reading.heater_status === 1,
-        timestamp: new Date(reading.timestamp)
-      };
+      return row ? readingFromRow(row) : null;
     } catch (error) {
       console.error('Erro ao buscar primeira leitura:', error);
       return null;
     }
   }
 
-  async getReadingsByDateRange(startDate: string, endDate: string, maxResults = 1000): Promise<Reading[]> {
+  async getReadingsByDateRange(
+    startDate: string,
+    endDate: string,
+    maxResults = 1000,
+    deviceId = DEFAULT_DEVICE_ID
+  ): Promise<Reading[]> {
     await this.ensureInitialized();
-    console.log(`SQL Query: Buscando leituras entre ${startDate} e ${endDate} (max: ${maxResults})`);
+    console.log(`SQL Query: Buscando leituras do tanque ${deviceId} entre ${startDate} e ${endDate} (max: ${maxResults})`);
     
     // Adicionar um dia à data final para incluir todas as leituras do último dia
     const adjustedEndDate = new Date(endDate);
@@ -278,140 +340,156 @@ export class SqliteStorage implements IStorage {
     console.log(`Data inicial: ${startDate}, Data final ajustada: ${adjustedEndDateString}`);
     
     try {
-      // Verificar se podemos acessar a tabela de leituras
-      const tableCheck = await this.db.get(
-        `SELECT name FROM sqlite_master WHERE type='table' AND name='readings'`
-      );
-      
-      if (!tableCheck) {
-        console.log("Tabela 'readings' não encontrada, recriando esquema...");
-        // Recreate schema if needed
-        await this.db.exec(`
-          CREATE TABLE IF NOT EXISTS readings (
-            id INTEGER PRIMARY KEY AUTOINCREMENT,
-            temperature REAL NOT NULL,
-            level REAL NOT NULL,
-            pump_status INTEGER DEFAULT 0,
-            heater_status INTEGER DEFAULT 0,
-            timestamp DATETIME DEFAULT CURRENT_TIMESTAMP
-          );
-          CREATE INDEX IF NOT EXISTS idx_readings_timestamp ON readings(timestamp);
-        `);
-        return [];
-      }
-      
-      // Contagem de leituras no banco
-      const countResult = await this.db.get('SELECT COUNT(*) as count FROM readings');
-      console.log(`Total de leituras no banco: ${countResult ? countResult.count : 0}`);
-      
-      // Buscar leituras no intervalo de datas com limite
-      const readings = await this.db.all(
+      // O timestamp das leituras é gravado em milissegundos (ver readingToRow)
+      const rows = await this.db.all(
         `SELECT * FROM readings 
-         WHERE datetime(timestamp) >= datetime(?) AND datetime(timestamp) <= datetime(?) 
+         WHERE device_id = ?
+         AND timestamp BETWEEN ? AND ?
          ORDER BY timestamp ASC
          LIMIT ?`,
-        [startDate + 'T00:00:00.000Z', adjustedEndDateString + 'T23:59:59.999Z', maxResults]
+        [
+          deviceId,
+          new Date(startDate + 'T00:00:00.000Z').getTime(),
+          new Date(adjustedEndDateString + 'T23:59:59.999Z').getTime(),
+          maxResults
+        ]
       );
       
-      console.log(`Encontradas ${readings.length} leituras no banco de dados para o período especificado.`);
+      console.log(`Encontradas ${rows.length} leituras no banco de dados para o período especificado.`);
       
-      // Converter os booleanos corretamente
-      const formattedReadings = readings.map(reading => ({
-        ...reading,
-        pumpStatus: reading.pump_status === 1,
-        heaterStatus: reading.heater_status === 1,
-        timestamp: new Date(reading.timestamp)
-      }));
-      
-      return formattedReadings;
+      return rows.map(readingFromRow);
     } catch (error) {
       console.error("Erro ao buscar leituras do banco:", error);
       return [];
     }
   }
 
-  async saveReading(reading: InsertReading): Promise<Reading> {
+  async saveReading(reading: NewReading): Promise<Reading> {
     await this.ensureInitialized();
     
     try {
+      const row = readingToRow(reading);
+      
       // Verificar se já existe leitura com mesmo timestamp dentro de uma faixa de 5 segundos
       // e com os mesmos valores para evitar duplicação de dados no banco
-      const timestamp = reading.timestamp || new Date();
-      const timestampMs = timestamp.getTime();
-      const minTime = new Date(timestampMs - 5000); // 5 segundos antes
-      const maxTime = new Date(timestampMs + 5000); // 5 segundos depois
-      
-      const existingRecord = await this.db.get(
-        `SELECT id FROM readings 
-         WHERE datetime(timestamp) BETWEEN datetime(?) AND datetime(?)
+      const existingRow = await this.db.get(
+        `SELECT * FROM readings 
+         WHERE device_id = ?
+         AND timestamp BETWEEN ? AND ?
          AND pump_status = ? AND heater_status = ?
          AND ABS(temperature - ?) < 0.1
          AND ABS(level - ?) < 0.1
          ORDER BY id DESC LIMIT 1`,
         [
-          minTime.toISOString(), 
-          maxTime.toISOString(), 
-          reading.pumpStatus ? 1 : 0, 
-          reading.heaterStatus ? 1 : 0,
-          reading.temperature,
-          reading.level
+          row.device_id,
+          row.timestamp - 5000,
+          row.timestamp + 5000,
+          row.pump_status,
+          row.heater_status,
+          row.temperature,
+          row.level
         ]
       );
       
       // Se encontrar registro similar recente com mesmos valores, não insere novamente
-      if (existingRecord) {
-        console.log(`⚠️ [${new Date().toLocaleTimeString()}] Detectada leitura similar recente (ID: ${existingRecord.id}), evitando duplicação`);
+      if (existingRow) {
+        console.log(`⚠️ [${new Date().toLocaleTimeString()}] Detectada leitura similar recente (ID: ${existingRow.id}), evitando duplicação`);
         // Retornar o registro existente em vez de criar novo
-        const existingReading = await this.db.get(
-          `SELECT * FROM readings WHERE id = ?`, 
-          [existingRecord.id]
-        );
-        return {
-          ...existingReading,
-          pumpStatus: existingReading.pump_status === 1,
-          heaterStatus: existingReading.heater_status === 1,
-          timestamp: new Date(existingReading.timestamp)
-        };
+        return readingFromRow(existingRow);
       }
       
-      // Verificar o estado atual dos dispositivos em memória (mais recente que o banco)
-      const { getCurrentDeviceStatus } = await import('./services/thingspeakService');
-      const memoryState = getCurrentDeviceStatus();
-      
-      // Forçar consistência entre o log e o banco de dados
-      const pumpStatusToLog = memoryState ? memoryState.pumpStatus : reading.pumpStatus;
-      const heaterStatusToLog = memoryState ? memoryState.heaterStatus : reading.heaterStatus;
-      
       // Inserir nova leitura se não existir similar
-      console.log(`✅ [${new Date().toLocaleTimeString()}] Inserindo nova leitura: Temp=${reading.temperature.toFixed(1)}°C, Nível=${reading.level}%, Bomba=${pumpStatusToLog ? 'ON' : 'OFF'}, Aquecedor=${heaterStatusToLog ? 'ON' : 'OFF'}`);
+      console.log(`✅ [${new Date().toLocaleTimeString()}] Inserindo nova leitura: Temp=${row.temperature.toFixed(1)}°C, Nível=${row.level.toFixed(1)}%, Bomba=${row.pump_status ? 'ON' : 'OFF'}, Aquecedor=${row.heater_status ? 'ON' : 'OFF'}`);
       
       const result = await this.db.run(
-        `INSERT INTO readings (temperature, level, pump_status, heater_status, timestamp) 
-         VALUES (?, ?, ?, ?, ?)`,
-        [
-          reading.temperature,
-          reading.level,
-          reading.pumpStatus ? 1 : 0,
-          reading.heaterStatus ? 1 : 0,
-          timestamp
-        ]
+        `INSERT INTO readings (device_id, temperature, level, pump_status, heater_status, timestamp) 
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [row.device_id, row.temperature, row.level, row.pump_status, row.heater_status, row.timestamp]
       );
-    
-    return {
-      id: result.lastID,
-      ...reading,
-      timestamp: reading.timestamp || new Date()
-    };
+      
+      return readingFromRow({ id: result.lastID, ...row });
     } catch (error) {
       console.error('❌ Erro ao salvar leitura no banco:', error);
       throw error;
     }
   }
 
-  async getSetpoints(): Promise<Setpoint> {
+  async saveSensorReadings(readings: NewSensorReading[]): Promise<SensorReading[]> {
+    if (readings.length === 0) return [];
+    await this.ensureInitialized();
+    
+    try {
+      const rows = readings.map(sensorReadingToRow);
+      
+      // Uma única instrução para todas as leituras do mesmo instante; os ids são consecutivos
+      const result = await this.db.run(
+        `INSERT INTO sensor_readings (device_id, sensor_key, value, timestamp)
+         VALUES ${rows.map(() => '(?, ?, ?, ?)').join(', ')}`,
+        rows.flatMap(row => [row.device_id, row.sensor_key, row.value, row.timestamp])
+      );
+      
+      const firstId = result.lastID - rows.length + 1;
+      return rows.map((row, index) => sensorReadingFromRow({ id: firstId + index, ...row }));
+    } catch (error) {
+      console.error('❌ Erro ao salvar leituras de sensores no banco:', error);
+      throw error;
+    }
+  }
+
+  async getLatestSensorReadings(deviceId = DEFAULT_DEVICE_ID): Promise<SensorReading[]> {
     await this.ensureInitialized();
     
-    const setpointsData = await this.db.get('SELECT * FROM setpoints WHERE id = 1');
+    try {
+      const rows = await this.db.all(
+        `SELECT sr.* FROM sensor_readings sr
+         JOIN (
+           SELECT sensor_key, MAX(timestamp) AS latest FROM sensor_readings
+           WHERE device_id = ? GROUP BY sensor_key
+         ) l ON l.sensor_key = sr.sensor_key AND l.latest = sr.timestamp
+         WHERE sr.device_id = ?
+         GROUP BY sr.sensor_key`,
+        [deviceId, deviceId]
+      );
+      return rows.map(sensorReadingFromRow);
+    } catch (error) {
+      console.error('Erro ao buscar últimas leituras de sensores:', error);
+      return [];
+    }
+  }
+
+  async getSensorReadingsByDateRange(
+    sensorKey: string,
+    startDate: string,
+    endDate: string,
+    maxResults = 1000,
+    deviceId = DEFAULT_DEVICE_ID
+  ): Promise<SensorReading[]> {
+    await this.ensureInitialized();
+    const { start, end } = getSensorRangeBounds(startDate, endDate);
+    
+    try {
+      const rows = await this.db.all(
+        `SELECT * FROM sensor_readings
+         WHERE device_id = ? AND sensor_key = ?
+         AND timestamp BETWEEN ? AND ?
+         ORDER BY timestamp DESC
+         LIMIT ?`,
+        [deviceId, sensorKey, start, end, maxResults]
+      );
+      return rows.map(sensorReadingFromRow).reverse();
+    } catch (error) {
+      console.error(`Erro ao buscar leituras do sensor ${sensorKey}:`, error);
+      return [];
+    }
+  }
+
+  async getSetpoints(deviceId = DEFAULT_DEVICE_ID): Promise<Setpoint> {
+    await this.ensureInitialized();
+    
+    const setpointsData = await this.db.get(
+      'SELECT * FROM setpoints WHERE device_id = ? ORDER BY id ASC LIMIT 1',
+      [deviceId]
+    );
     
     if (setpointsData) {
       // Converter os nomes das colunas snake_case para camelCase
@@ -434,30 +512,33 @@ export class SqliteStorage implements IStorage {
     };
     
     // Inserir valores padrão
-    await this.db.run(`
-      INSERT INTO setpoints (temp_min, temp_max, level_min, level_max)
-      VALUES (?, ?, ?, ?)
-    `, [defaultSetpoints.tempMin, defaultSetpoints.tempMax, defaultSetpoints.levelMin, defaultSetpoints.levelMax]);
+    const result = await this.db.run(`
+      INSERT INTO setpoints (device_id, temp_min, temp_max, level_min, level_max)
+      VALUES (?, ?, ?, ?, ?)
+    `, [deviceId, defaultSetpoints.tempMin, defaultSetpoints.tempMax, defaultSetpoints.levelMin, defaultSetpoints.levelMax]);
     
-    // Retornar valores padrão com ID 1
+    // Retornar valores padrão com o ID criado
     return {
-      id: 1,
+      id: result.lastID,
       ...defaultSetpoints,
       updatedAt: new Date()
     };
   }
 
-  async updateSetpoints(setpoints: InsertSetpoint): Promise<Setpoint> {
+  async updateSetpoints(setpoints: InsertSetpoint, deviceId = DEFAULT_DEVICE_ID): Promise<Setpoint> {
     await this.ensureInitialized();
     
+    // Garante que o tanque tenha uma linha de setpoints
+    const current = await this.getSetpoints(deviceId);
+    
     await this.db.run(
       `UPDATE setpoints 
        SET temp_min = ?, temp_max = ?, level_min = ?, level_max = ?, updated_at = CURRENT_TIMESTAMP 
-       WHERE id = 1`,
-      [setpoints.tempMin, setpoints.tempMax, setpoints.levelMin, setpoints.levelMax]
+       WHERE id = ?`,
+      [setpoints.tempMin, setpoints.tempMax, setpoints.levelMin, setpoints.levelMax, current.id]
     );
     
-    return this.getSetpoints();
+    return this.getSetpoints(deviceId);
   }
 
   async getSettings(): Promise<Setting> {
@@ -659,7 +740,341 @@ export class SqliteStorage implements IStorage {
     
     return { avg, min, max, stdDev };
   }
+  
+  getSensorStats(readings: SensorReading[]): ReadingStats {
+    return calculateStats(readings.map(r => r.value));
+  }
+}
+
+// Valores das configurações ausentes no banco (mesmos padrões da tabela settings do SQLite)
+const DEFAULT_SETTINGS = {
+  systemName: 'Aquaponia',
+  updateInterval: 1,
+  dataRetention: 30,
+  emailAlerts: true,
+  pushAlerts: true,
+  alertEmail: null as string | null,
+  tempCriticalMin: 18.0,
+  tempWarningMin: 20.0,
+  tempWarningMax: 28.0,
+  tempCriticalMax: 30.0,
+  levelCriticalMin: 50,
+  levelWarningMin: 60,
+  levelWarningMax: 85,
+  levelCriticalMax: 90,
+  chartType: 'classic',
+  darkMode: false,
+  use24HourTime: true
+};
+
+// Converte o texto gravado em settings.value para o tipo do valor padrão
+function parseSettingValue(raw: string, defaultValue: unknown): unknown {
+  if (raw === 'null') return null;
+  if (typeof defaultValue === 'number') {
+    const value = Number(raw);
+    return Number.isFinite(value) ? value : defaultValue;
+  }
+  if (typeof defaultValue === 'boolean') return raw === 'true' || raw === '1';
+  return raw;
+}
+
+function toSnakeCase(str: string): string {
+  return str.replace(/([A-Z])/g, '_$1').toLowerCase();
+}
+
+function calculateStats(values: number[]): ReadingStats {
+  if (values.length === 0) {
+    return { avg: 0, min: 0, max: 0, stdDev: 0 };
+  }
+  
+  const avg = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const avgSquareDiff = values.reduce((sum, v) => sum + Math.pow(v - avg, 2), 0) / values.length;
+  
+  return { avg, min, max, stdDev: Math.sqrt(avgSquareDiff) };
+}
+
+/**
+ * Armazenamento no PostgreSQL via drizzle (tabelas de shared/schema.ts)
+ *
+ * Mesmo comportamento do SqliteStorage: leituras e setpoints por tanque, leituras repetidas em
+ * uma janela de 5 segundos são ignoradas. As configurações ficam na tabela settings no formato
+ * chave/valor (chaves em snake_case, ex: system_name).
+ */
+export class PostgresStorage implements IStorage {
+  constructor(private db: PostgresDb) {}
+
+  async getLatestReadings(limit: number, deviceId = DEFAULT_DEVICE_ID): Promise<Reading[]> {
+    const rows = await this.db
+      .select()
+      .from(readingsTable)
+      .where(eq(readingsTable.device_id, deviceId))
+      .orderBy(desc(readingsTable.timestamp))
+      .limit(limit);
+    return rows.map(readingFromRow);
+  }
+
+  async getFirstReading(): Promise<Reading | null> {
+    try {
+      const [row] = await this.db
+        .select()
+        .from(readingsTable)
+        .orderBy(asc(readingsTable.timestamp))
+        .limit(1);
+      return row ? readingFromRow(row) : null;
+    } catch (error) {
+      console.error('Erro ao buscar primeira leitura:', error);
+      return null;
+    }
+  }
+
+  async getReadingsByDateRange(
+    startDate: string,
+    endDate: string,
+    maxResults = 1000,
+    deviceId = DEFAULT_DEVICE_ID
+  ): Promise<Reading[]> {
+    // Assim como no SQLite, a data final inclui o dia seguinte inteiro
+    const adjustedEndDate = new Date(endDate);
+    adjustedEndDate.setDate(adjustedEndDate.getDate() + 1);
+    const adjustedEndDateString = adjustedEndDate.toISOString().split('T')[0];
+    
+    try {
+      const rows = await this.db
+        .select()
+        .from(readingsTable)
+        .where(and(
+          eq(readingsTable.device_id, deviceId),
+          gte(readingsTable.timestamp, new Date(startDate + 'T00:00:00.000Z')),
+          lte(readingsTable.timestamp, new Date(adjustedEndDateString + 'T23:59:59.999Z'))
+        ))
+        .orderBy(asc(readingsTable.timestamp))
+        .limit(maxResults);
+      
+      console.log(`Encontradas ${rows.length} leituras no PostgreSQL para o tanque ${deviceId} entre ${startDate} e ${endDate}.`);
+      return rows.map(readingFromRow);
+    } catch (error) {
+      console.error("Erro ao buscar leituras do banco:", error);
+      return [];
+    }
+  }
+
+  async saveReading(reading: NewReading): Promise<Reading> {
+    const row = readingToRow(reading);
+    
+    try {
+      // Leitura com os mesmos valores nos 5 segundos anteriores ou posteriores: não duplicar
+      const [existing] = await this.db
+        .select()
+        .from(readingsTable)
+        .where(and(
+          eq(readingsTable.device_id, row.device_id),
+          between(readingsTable.timestamp, new Date(row.timestamp - 5000), new Date(row.timestamp + 5000)),
+          eq(readingsTable.pump_status, row.pump_status),
+          eq(readingsTable.heater_status, row.heater_status),
+          sql`abs(${readingsTable.temperature} - ${row.temperature}) < 0.1`,
+          sql`abs(${readingsTable.level} - ${row.level}) < 0.1`
+        ))
+        .orderBy(desc(readingsTable.id))
+        .limit(1);
+      
+      if (existing) {
+        console.log(`⚠️ [${new Date().toLocaleTimeString()}] Detectada leitura similar recente (ID: ${existing.id}), evitando duplicação`);
+        return readingFromRow(existing);
+      }
+      
+      console.log(`✅ [${new Date().toLocaleTimeString()}] Inserindo nova leitura: Temp=${row.temperature.toFixed(1)}°C, Nível=${row.level.toFixed(1)}%, Bomba=${row.pump_status ? 'ON' : 'OFF'}, Aquecedor=${row.heater_status ? 'ON' : 'OFF'}`);
+      
+      const [inserted] = await this.db
+        .insert(readingsTable)
+        .values({ ...row, timestamp: new Date(row.timestamp) })
+        .returning();
+      
+      return readingFromRow(inserted);
+    } catch (error) {
+      console.error('❌ Erro ao salvar leitura no PostgreSQL:', error);
+      throw error;
+    }
+  }
+
+  async saveSensorReadings(readings: NewSensorReading[]): Promise<SensorReading[]> {
+    if (readings.length === 0) return [];
+    
+    try {
+      const inserted = await this.db
+        .insert(sensorReadingsTable)
+        .values(readings.map(reading => {
+          const row = sensorReadingToRow(reading);
+          return { ...row, timestamp: new Date(row.timestamp) };
+        }))
+        .returning();
+      
+      return inserted.map(sensorReadingFromRow);
+    } catch (error) {
+      console.error('❌ Erro ao salvar leituras de sensores no PostgreSQL:', error);
+      throw error;
+    }
+  }
+
+  async getLatestSensorReadings(deviceId = DEFAULT_DEVICE_ID): Promise<SensorReading[]> {
+    try {
+      const rows = await this.db
+        .selectDistinctOn([sensorReadingsTable.sensor_key])
+        .from(sensorReadingsTable)
+        .where(eq(sensorReadingsTable.device_id, deviceId))
+        .orderBy(sensorReadingsTable.sensor_key, desc(sensorReadingsTable.timestamp));
+      return rows.map(sensorReadingFromRow);
+    } catch (error) {
+      console.error('Erro ao buscar últimas leituras de sensores:', error);
+      return [];
+    }
+  }
+
+  async getSensorReadingsByDateRange(
+    sensorKey: string,
+    startDate: string,
+    endDate: string,
+    maxResults = 1000,
+    deviceId = DEFAULT_DEVICE_ID
+  ): Promise<SensorReading[]> {
+    const { start, end } = getSensorRangeBounds(startDate, endDate);
+    
+    try {
+      const rows = await this.db
+        .select()
+        .from(sensorReadingsTable)
+        .where(and(
+          eq(sensorReadingsTable.device_id, deviceId),
+          eq(sensorReadingsTable.sensor_key, sensorKey),
+          between(sensorReadingsTable.timestamp, new Date(start), new Date(end))
+        ))
+        .orderBy(desc(sensorReadingsTable.timestamp))
+        .limit(maxResults);
+      return rows.map(sensorReadingFromRow).reverse();
+    } catch (error) {
+      console.error(`Erro ao buscar leituras do sensor ${sensorKey}:`, error);
+      return [];
+    }
+  }
+
+  async getSetpoints(deviceId = DEFAULT_DEVICE_ID): Promise<Setpoint> {
+    let [row] = await this.db
+      .select()
+      .from(setpointsTable)
+      .where(eq(setpointsTable.device_id, deviceId))
+      .orderBy(asc(setpointsTable.id))
+      .limit(1);
+    
+    // Criar valores padrão se não existirem no banco
+    if (!row) {
+      [row] = await this.db
+        .insert(setpointsTable)
+        .values({ device_id: deviceId, temp_min: 20.0, temp_max: 30.0, level_min: 60, level_max: 90 })
+        .returning();
+    }
+    
+    return {
+      id: row.id,
+      tempMin: row.temp_min,
+      tempMax: row.temp_max,
+      levelMin: row.level_min,
+      levelMax: row.level_max,
+      updatedAt: row.timestamp
+    };
+  }
+
+  async updateSetpoints(setpoints: InsertSetpoint, deviceId = DEFAULT_DEVICE_ID): Promise<Setpoint> {
+    // Garante que o tanque tenha uma linha de setpoints
+    const current = await this.getSetpoints(deviceId);
+    
+    await this.db
+      .update(setpointsTable)
+      .set({
+        temp_min: setpoints.tempMin,
+        temp_max: setpoints.tempMax,
+        level_min: setpoints.levelMin,
+        level_max: setpoints.levelMax,
+        timestamp: new Date()
+      })
+      .where(eq(setpointsTable.id, current.id));
+    
+    return this.getSetpoints(deviceId);
+  }
+
+  async getSettings(): Promise<Setting> {
+    const rows = await this.db.select().from(settingsTable);
+    const values = new Map(rows.map(row => [row.key, row.value]));
+    
+    const result: Record<string, unknown> = { id: 1 };
+    for (const [field, defaultValue] of Object.entries(DEFAULT_SETTINGS)) {
+      const raw = values.get(toSnakeCase(field));
+      result[field] = raw === undefined ? defaultValue : parseSettingValue(raw, defaultValue);
+    }
+    
+    const updatedTimes = rows.map(row => row.updated_at?.getTime() ?? 0);
+    result.updatedAt = updatedTimes.length > 0 ? new Date(Math.max(...updatedTimes)) : new Date();
+    
+    return result as Setting;
+  }
+
+  async updateSettings(settings: InsertSetting): Promise<Setting> {
+    try {
+      for (const [field, value] of Object.entries(settings as Record<string, unknown>)) {
+        if (value === undefined || field === 'id' || field === 'updatedAt') continue;
+        
+        const key = toSnakeCase(field);
+        const text = value === null ? 'null' : String(value);
+        await this.db
+          .insert(settingsTable)
+          .values({ key, value: text, description: `Configuração ${field}` })
+          .onConflictDoUpdate({
+            target: settingsTable.key,
+            set: { value: text, updated_at: new Date() }
+          });
+      }
+      
+      console.log('✅ [PostgresStorage] Configurações atualizadas com sucesso');
+      return this.getSettings();
+    } catch (error) {
+      console.error('❌ [PostgresStorage] Erro ao atualizar configurações:', error);
+      throw error;
+    }
+  }
+
+  getTemperatureStats(readings: Reading[]): ReadingStats {
+    return calculateStats(readings.map(r => r.temperature));
+  }
+
+  getLevelStats(readings: Reading[]): ReadingStats {
+    return calculateStats(readings.map(r => r.level));
+  }
+
+  getSensorStats(readings: SensorReading[]): ReadingStats {
+    return calculateStats(readings.map(r => r.value));
+  }
+}
+
+/**
+ * Escolhe o banco pela variável STORAGE_BACKEND: sqlite (padrão, arquivo aquaponia.db) ou
+ * postgres (banco de DATABASE_URL)
+ * Só as leituras, os setpoints e as configurações mudam de banco; os demais serviços (tanques,
+ * regras, usuários, fila de comandos, auditoria, histórico agregado...) usam sempre o aquaponia.db.
+ * Agregação do histórico, backup e retenção leem as leituras do SQLite e ficam indisponíveis com o
+ * PostgreSQL (ver utils/storageBackend.ts).
+ */
+function createStorage(): IStorage {
+  const backend = (process.env.STORAGE_BACKEND || 'sqlite').toLowerCase();
+  
+  if (backend === 'postgres') {
+    console.log('🐘 Usando armazenamento PostgreSQL (DATABASE_URL) para leituras, setpoints e configurações; os demais dados continuam no SQLite (aquaponia.db)');
+    return new PostgresStorage(getPostgresDb());
+  }
+  
+  if (backend !== 'sqlite') {
+    console.warn(`⚠️ STORAGE_BACKEND "${backend}" desconhecido, usando SQLite`);
+  }
+  return new SqliteStorage();
 }
 
-// Use SQLite storage by default
-export const storage = new SqliteStorage();
+export const storage = createStorage();
@@ -6,9 +6,14 @@
  * com o sistema de sincronização automática e backup diário
  */
 import { fetchHistoricalReadings } from './services/thingspeakService';
+import { getTelemetryTransport } from './services/telemetryTransport';
 import { storage } from './storage';
-import { InsertReading } from '@shared/schema';
+import { NewReading } from '@shared/reading';
 import { log } from './vite';
+import { realtimeService } from './services/realtimeService';
+
+// Intervalo (em registros) entre os avisos de andamento enviados à interface
+const SYNC_PROGRESS_STEP = 25;
 
 // Variáveis globais para controle do estado de sincronização
 (global as any).__lastSyncTime = null; // Armazena a última vez que a sincronização foi concluída
@@ -25,8 +30,9 @@ export async function syncThingspeakToDatabase(days: number = 7): Promise<number
     // Marcar início da sincronização
     (global as any).__syncInProgress = true;
     
-    log(`🔄 Iniciando importação de ${days} dias de dados do ThingSpeak para o banco local...`, 'sync');
-    console.log(`Fetching ${days} days of data directly from ThingSpeak...`);
+    const transportName = getTelemetryTransport().name;
+    log(`🔄 Iniciando importação de ${days} dias de dados (${transportName}) para o banco local...`, 'sync');
+    realtimeService.publish('sync', { status: 'started', days, transport: transportName });
     
     // Verificar se o banco de dados está pronto
     try {
@@ -52,6 +58,7 @@ export async function syncThingspeakToDatabase(days: number = 7): Promise<number
     
     if (readings.length === 0) {
       log('⚠️ Nenhum dado encontrado no ThingSpeak para o período solicitado', 'sync');
+      realtimeService.publish('sync', { status: 'completed', imported: 0, skipped: 0, errors: 0, total: 0 });
       return 0;
     }
     
@@ -72,12 +79,12 @@ export async function syncThingspeakToDatabase(days: number = 7): Promise<number
     for (const reading of readings) {
       try {
         // Garantir que a leitura está completa com todos os campos necessários
-        const readingToSave: InsertReading = {
+        const readingToSave: NewReading = {
           temperature: reading.temperature,
           level: reading.level,
-          pumpStatus: typeof reading.pumpStatus === 'boolean' ? reading.pumpStatus : false,
-          heaterStatus: typeof reading.heaterStatus === 'boolean' ? reading.heaterStatus : false,
-          timestamp: reading.timestamp instanceof Date ? reading.timestamp : new Date()
+          pumpStatus: reading.pumpStatus,
+          heaterStatus: reading.heaterStatus,
+          timestamp: reading.timestamp ?? Date.now()
         };
         
         // Salvar no banco de dados local
@@ -88,6 +95,9 @@ export async function syncThingspeakToDatabase(days: number = 7): Promise<number
         if (importedCount % 100 === 0) {
           log(`📥 Importados ${importedCount}/${readings.length} registros...`, 'sync');
         }
+        if (importedCount % SYNC_PROGRESS_STEP === 0) {
+          realtimeService.publish('sync', { status: 'progress', imported: importedCount, total: readings.length });
+        }
       } catch (error) {
         // Registro já pode existir no banco de dados, é normal falhar alguns
         if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
@@ -112,11 +122,19 @@ export async function syncThingspeakToDatabase(days: number = 7): Promise<number
     
     // Registrar timestamp da última sincronização bem-sucedida
     (global as any).__lastSyncTime = new Date();
+    realtimeService.publish('sync', {
+      status: 'completed',
+      imported: importedCount,
+      skipped: skipCount,
+      errors: errorCount,
+      total: readings.length
+    });
     
     return importedCount;
   } catch (error) {
     console.error('❌ Erro durante a sincronização com ThingSpeak:', error);
     log(`❌ Falha na importação: ${error instanceof Error ? error.message : String(error)}`, 'sync');
+    realtimeService.publish('sync', { status: 'failed', error: error instanceof Error ? error.message : String(error) });
     throw error;
   } finally {
     // Sempre liberar o bloqueio de sincronização, mesmo em caso de erro
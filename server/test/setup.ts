@@ -0,0 +1,13 @@
+/**
+ * Preparação dos testes do servidor
+ *
+ * Os serviços abrem ./aquaponia.db (e gravam arquivos de configuração) no diretório atual; cada
+ * arquivo de teste roda em um diretório temporário próprio para nunca tocar nos dados do projeto.
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+process.env.TELEMETRY_TRANSPORT = 'mock';
+
+process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), 'aquaponia-test-')));
@@ -1,4 +1,4 @@
-import { Reading } from '../../shared/schema';
+import { Reading, SensorReading } from '../../shared/reading';
 
 // Constante para o valor de erro do sensor (deve corresponder ao mesmo valor usado no cliente)
 const SENSOR_ERROR_VALUE = -127;
@@ -71,13 +71,14 @@ export function aggregateByMinute(readings: Reading[]): Reading[] {
   const aggregatedReadings: Reading[] = Object.values(minuteGroups)
     .map(group => ({
       id: 0, // Será ignorado na exibição
+      deviceId: readings[0].deviceId, // As leituras agregadas são sempre de um mesmo tanque
       temperature: group.temperatureCount > 0 ? group.temperature / group.temperatureCount : 0,
       level: group.levelCount > 0 ? group.level / group.levelCount : 0,
       pumpStatus: group.pumpStatus,
       heaterStatus: group.heaterStatus,
-      timestamp: group.timestamp
+      timestamp: group.timestamp.getTime()
     }))
-    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    .sort((a, b) => a.timestamp - b.timestamp);
   
   console.log(`Agregados ${readings.length} registros em ${aggregatedReadings.length} médias por minuto`);
   
@@ -138,13 +139,14 @@ export function aggregateByHour(readings: Reading[]): Reading[] {
   const aggregatedReadings: Reading[] = Object.values(hourlyGroups)
     .map(group => ({
       id: 0, // Será ignorado na exibição
+      deviceId: readings[0].deviceId, // As leituras agregadas são sempre de um mesmo tanque
       temperature: group.temperatureCount > 0 ? group.temperature / group.temperatureCount : 0,
       level: group.levelCount > 0 ? group.level / group.levelCount : 0,
       pumpStatus: group.pumpStatus,
       heaterStatus: group.heaterStatus,
-      timestamp: group.timestamp
+      timestamp: group.timestamp.getTime()
     }))
-    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    .sort((a, b) => a.timestamp - b.timestamp);
   
   console.log(`Agregados ${readings.length} registros em ${aggregatedReadings.length} médias horárias`);
   
@@ -210,28 +212,26 @@ export function aggregateByWeek(readings: Reading[]): Reading[] {
   const aggregatedReadings: Reading[] = Object.values(weeklyGroups)
     .map(group => ({
       id: 0, // Será ignorado na exibição
+      deviceId: readings[0].deviceId, // As leituras agregadas são sempre de um mesmo tanque
       temperature: group.temperatureCount > 0 ? group.temperature / group.temperatureCount : 0,
       level: group.levelCount > 0 ? group.level / group.levelCount : 0,
       pumpStatus: group.pumpStatus,
       heaterStatus: group.heaterStatus,
-      timestamp: group.timestamp
+      timestamp: group.timestamp.getTime()
     }))
-    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    .sort((a, b) => a.timestamp - b.timestamp);
   
   console.log(`Agregados ${readings.length} registros em ${aggregatedReadings.length} médias semanais`);
   
   return aggregatedReadings;
 }
 
+type AggregationPeriod = 'minute' | 'hour' | 'week';
+
 /**
- * Agrega leituras com base no período especificado
- * @param readings Array de leituras
- * @param startDate Data de início do período
- * @param endDate Data de fim do período
+ * Escolhe o intervalo de agregação pelo tamanho do período consultado
  */
-export function aggregateReadingsByDateRange(readings: Reading[], startDate: Date, endDate: Date): Reading[] {
-  if (!readings || readings.length === 0) return [];
-  
+function getAggregationPeriod(startDate: Date, endDate: Date): AggregationPeriod {
   // Calcular a diferença em dias
   const diffTime = Math.abs(endDate.getTime() - startDate.getTime());
   const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
@@ -239,15 +239,87 @@ export function aggregateReadingsByDateRange(readings: Reading[], startDate: Dat
   
   console.log(`Período de consulta: ${diffDays} dias (${diffHours} horas)`);
   
-  // Aplicar a estratégia de agregação com base no período
   if (diffDays <= 1) {
     // Exatamente 24 horas: media por minuto
-    return aggregateByMinute(readings);
+    return 'minute';
   } else if (diffDays < 7) {
     // Para períodos curtos (1-7 dias): média por hora
-    return aggregateByHour(readings);
+    return 'hour';
+  }
+  // Para períodos longos (7+ dias): média por semana
+  return 'week';
+}
+
+/**
+ * Agrega leituras com base no período especificado
+ * @param readings Array de leituras
+ * @param startDate Data de início do período
+ * @param endDate Data de fim do período
+ */
+export function aggregateReadingsByDateRange(readings: Reading[], startDate: Date, endDate: Date): Reading[] {
+  if (!readings || readings.length === 0) return [];
+  
+  // Aplicar a estratégia de agregação com base no período
+  switch (getAggregationPeriod(startDate, endDate)) {
+    case 'minute':
+      return aggregateByMinute(readings);
+    case 'hour':
+      return aggregateByHour(readings);
+    default:
+      return aggregateByWeek(readings);
+  }
+}
+
+/**
+ * Início do minuto, da hora ou da semana (domingo) de um timestamp, no horário local
+ */
+function getPeriodStart(timestamp: number, period: AggregationPeriod): number {
+  const date = new Date(timestamp);
+  
+  if (period === 'minute') {
+    date.setSeconds(0, 0);
+  } else if (period === 'hour') {
+    date.setMinutes(0, 0, 0);
   } else {
-    // Para períodos longos (7+ dias): média por semana
-    return aggregateByWeek(readings);
+    date.setDate(date.getDate() - date.getDay());
+    date.setHours(0, 0, 0, 0);
   }
-}
\ No newline at end of file
+  
+  return date.getTime();
+}
+
+/**
+ * Agrega as leituras de um sensor adicional (pH, oxigênio...) com a mesma estratégia das
+ * leituras principais: média por minuto, por hora ou por semana conforme o período
+ * @param readings Leituras de um único sensor e tanque
+ * @param startDate Data de início do período
+ * @param endDate Data de fim do período
+ */
+export function aggregateSensorReadingsByDateRange(readings: SensorReading[], startDate: Date, endDate: Date): SensorReading[] {
+  if (!readings || readings.length === 0) return [];
+  
+  const period = getAggregationPeriod(startDate, endDate);
+  const groups = new Map<number, { sum: number; count: number }>();
+  
+  readings.forEach(reading => {
+    const periodStart = getPeriodStart(reading.timestamp, period);
+    const group = groups.get(periodStart) || { sum: 0, count: 0 };
+    group.sum += reading.value;
+    group.count++;
+    groups.set(periodStart, group);
+  });
+  
+  const aggregatedReadings: SensorReading[] = Array.from(groups.entries())
+    .map(([timestamp, group]) => ({
+      id: 0, // Será ignorado na exibição
+      deviceId: readings[0].deviceId,
+      sensorKey: readings[0].sensorKey,
+      value: group.sum / group.count,
+      timestamp
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+  
+  console.log(`Agregados ${readings.length} registros do sensor ${readings[0].sensorKey} em ${aggregatedReadings.length} médias (${period})`);
+  
+  return aggregatedReadings;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Response } from 'express';
+import { NotFoundError, UpstreamUnavailableError, sendError, toAppError } from './errors';
+
+function mockResponse() {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    setHeader: vi.fn()
+  };
+  return res;
+}
+
+describe('errors', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('não expõe a mensagem de erros inesperados na resposta', () => {
+    const error = toAppError(new Error('SQLITE_ERROR: no such table: users'), 'Erro ao listar usuários');
+
+    expect(error.status).toBe(500);
+    expect(error.message).toBe('Erro ao listar usuários');
+    expect(error.details).toBeUndefined();
+  });
+
+  it('registra a mensagem original no console e responde sem details', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const res = mockResponse();
+    const error = new Error('connect ECONNREFUSED postgres://admin:secret@db:5432');
+
+    sendError(res as unknown as Response, error, 'Erro ao salvar leitura');
+
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ success: false, error: 'Erro ao salvar leitura', code: 'INTERNAL_ERROR' });
+    expect(consoleError).toHaveBeenCalledWith('❌ Erro ao salvar leitura:', error);
+  });
+
+  it('mantém os details dos erros da API', () => {
+    const res = mockResponse();
+
+    sendError(res as unknown as Response, new NotFoundError('Tanque não encontrado', { deviceId: 9 }));
+    expect(res.body).toMatchObject({ code: 'NOT_FOUND', details: { deviceId: 9 } });
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    sendError(res as unknown as Response, new UpstreamUnavailableError('ThingSpeak indisponível', { retryInSeconds: 30 }));
+    expect(res.statusCode).toBe(503);
+    expect(res.body).toMatchObject({ code: 'UPSTREAM_UNAVAILABLE', details: { retryInSeconds: 30 } });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Modelo de erros da API
+ *
+ * As rotas lançam (ou repassam a sendError) subclasses de AppError; a resposta sempre segue
+ * ApiErrorBody ({ success: false, error, code, details? }) com um code estável de ERROR_CODES.
+ * Erros desconhecidos viram INTERNAL_ERROR (500), sem details: a mensagem original (que pode expor
+ * SQL, caminhos ou credenciais) fica apenas no console do servidor.
+ *
+ * validateRequest valida parâmetros, query e body com zod antes do handler e substitui os valores
+ * da requisição pelos dados convertidos (números, valores padrão...).
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z } from 'zod';
+import { ApiErrorBody, ErrorCode } from '@shared/errors';
+
+export class AppError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorCode,
+    message: string,
+    public readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message = 'Parâmetros inválidos', details?: unknown) {
+    super(400, 'VALIDATION_FAILED', message, details);
+    this.name = 'ValidationError';
+  }
+
+  static fromZod(error: z.ZodError): ValidationError {
+    return new ValidationError('Parâmetros inválidos', error.format());
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(message = 'Autenticação necessária', details?: unknown) {
+    super(401, 'UNAUTHORIZED', message, details);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message = 'Permissão insuficiente', details?: unknown) {
+    super(403, 'FORBIDDEN', message, details);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message = 'Recurso não encontrado', details?: unknown) {
+    super(404, 'NOT_FOUND', message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, details?: unknown, code: ErrorCode = 'CONFLICT') {
+    super(409, code, message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitedError extends AppError {
+  constructor(public readonly retryAfterSeconds: number, message = 'Muitas tentativas, aguarde antes de tentar novamente') {
+    super(429, 'RATE_LIMITED', message, { retryAfterSeconds });
+    this.name = 'RateLimitedError';
+  }
+}
+
+export class UpstreamUnavailableError extends AppError {
+  constructor(message = 'Serviço externo indisponível', details?: unknown) {
+    super(503, 'UPSTREAM_UNAVAILABLE', message, details);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+// Code usado para erros com status HTTP definido por bibliotecas (ex: JSON inválido no body-parser)
+function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 400: return 'VALIDATION_FAILED';
+    case 401: return 'UNAUTHORIZED';
+    case 403: return 'FORBIDDEN';
+    case 404: return 'NOT_FOUND';
+    case 409: return 'CONFLICT';
+    case 429: return 'RATE_LIMITED';
+    case 502:
+    case 503:
+    case 504: return 'UPSTREAM_UNAVAILABLE';
+    default: return 'INTERNAL_ERROR';
+  }
+}
+
+/**
+ * Converte qualquer erro em AppError
+ * @param fallbackMessage Mensagem dos erros inesperados (ex: 'Erro ao listar tanques')
+ */
+export function toAppError(error: unknown, fallbackMessage = 'Erro interno'): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof z.ZodError) return ValidationError.fromZod(error);
+
+  const status = (error as any)?.status ?? (error as any)?.statusCode;
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    return new AppError(status, codeForStatus(status), (error as Error).message || fallbackMessage);
+  }
+
+  // A mensagem original só vai para o console (sendError); a resposta leva apenas a mensagem genérica
+  return new AppError(500, 'INTERNAL_ERROR', fallbackMessage);
+}
+
+/**
+ * Responde com o erro no formato padrão
+ * Erros internos (5xx) são registrados no console com a mensagem informada
+ */
+export function sendError(res: Response, error: unknown, fallbackMessage = 'Erro interno') {
+  const appError = toAppError(error, fallbackMessage);
+
+  if (appError.status >= 500) {
+    console.error(`❌ ${fallbackMessage}:`, error);
+  }
+
+  if (appError instanceof RateLimitedError) {
+    res.setHeader('Retry-After', String(appError.retryAfterSeconds));
+  }
+
+  const body: ApiErrorBody = {
+    success: false,
+    error: appError.message,
+    code: appError.code,
+    ...(appError.details !== undefined ? { details: appError.details } : {})
+  };
+
+  return res.status(appError.status).json(body);
+}
+
+interface RequestSchemas {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+}
+
+/**
+ * Middleware de validação da requisição com zod
+ * Responde 400 VALIDATION_FAILED com os detalhes do primeiro trecho inválido (params, query ou body)
+ */
+export function validateRequest(schemas: RequestSchemas): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    for (const key of ['params', 'query', 'body'] as const) {
+      const schema = schemas[key];
+      if (!schema) continue;
+
+      const validation = schema.safeParse(req[key] ?? {});
+      if (!validation.success) {
+        return sendError(res, ValidationError.fromZod(validation.error));
+      }
+      (req as any)[key] = validation.data;
+    }
+    next();
+  };
+}
+
+/**
+ * Handler final de erros do Express (erros repassados com next(error) ou lançados em handlers síncronos)
+ */
+export function errorHandler(error: unknown, req: Request, res: Response, next: NextFunction) {
+  // Resposta já iniciada (ex: fluxo de eventos): o Express encerra a conexão
+  if (res.headersSent) return next(error);
+
+  sendError(res, error, `Erro em ${req.method} ${req.path}`);
+}
@@ -0,0 +1,259 @@
+/**
+ * Geração do documento OpenAPI a partir dos schemas zod das rotas
+ * Cada rota da API versionada (routes-v1) descreve seus parâmetros, query, body e resposta com zod;
+ * os mesmos schemas validam as requisições e são convertidos aqui para JSON Schema.
+ *
+ * A conversão cobre os tipos usados nas rotas (objetos, arrays, enums, uniões, números, textos,
+ * booleanos, opcionais, nulos e valores padrão); tipos não reconhecidos viram um schema livre.
+ */
+
+import { z } from 'zod';
+import { ERROR_CODES } from '@shared/errors';
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'delete';
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Descrição de uma operação da API
+ * path usa a sintaxe do Express (/devices/:deviceId); no documento vira /devices/{deviceId}
+ */
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  // Schema do campo data da resposta de sucesso
+  response: z.ZodTypeAny;
+  successStatus?: number;
+  // Status de erro específicos da operação, além de 400, 401, 403 e 500
+  errors?: Record<number, string>;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+/**
+ * Converte um schema zod para JSON Schema (dialeto do OpenAPI 3.1)
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const result = convert(schema);
+  if (schema.description && !result.description) {
+    result.description = schema.description;
+  }
+  return result;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodPipeline) {
+    return zodToJsonSchema(schema._def.in);
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const [key, value] of Object.entries(schema.shape as z.ZodRawShape)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) required.push(key);
+    }
+
+    return {
+      type: 'object',
+      properties,
+      ...(required.length > 0 ? { required } : {})
+    };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    return result;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(option => zodToJsonSchema(option)) };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result.minLength = check.value;
+      if (check.kind === 'max') result.maxLength = check.value;
+      if (check.kind === 'regex') result.pattern = check.regex.source;
+      if (check.kind === 'datetime') result.format = 'date-time';
+      if (check.kind === 'email') result.format = 'email';
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'int') result.type = 'integer';
+      if (check.kind === 'min') result[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+      if (check.kind === 'max') result[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { type: 'null' };
+  }
+
+  // ZodUnknown, ZodAny e demais tipos: qualquer valor
+  return {};
+}
+
+/**
+ * Parâmetros de caminho ou de query de uma operação
+ */
+function toParameters(schema: z.AnyZodObject | undefined, location: 'path' | 'query') {
+  if (!schema) return [];
+
+  return Object.entries(schema.shape as z.ZodRawShape).map(([name, value]) => ({
+    name,
+    in: location,
+    required: location === 'path' || !value.isOptional(),
+    ...(value.description ? { description: value.description } : {}),
+    schema: zodToJsonSchema(value)
+  }));
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: {
+      'application/json': {
+        schema: { $ref: '#/components/schemas/Error' }
+      }
+    }
+  };
+}
+
+/**
+ * Monta o documento OpenAPI 3.1 das operações informadas
+ * @param basePath Prefixo das rotas (ex: /api/v1)
+ */
+export function buildOpenApiDocument(info: OpenApiInfo, basePath: string, operations: ApiOperation[]) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of operations) {
+    const path = basePath + operation.path.replace(/:(\w+)/g, '{$1}');
+    const successStatus = operation.successStatus ?? 200;
+
+    const responses: Record<string, unknown> = {
+      [successStatus]: {
+        description: 'Sucesso',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: {
+                success: { const: true },
+                data: zodToJsonSchema(operation.response)
+              },
+              required: ['success', 'data']
+            }
+          }
+        }
+      },
+      400: errorResponse('Parâmetros inválidos'),
+      401: errorResponse('Sem sessão ou token de API inválido'),
+      403: errorResponse('Papel ou escopo insuficiente')
+    };
+
+    for (const [status, description] of Object.entries(operation.errors || {})) {
+      responses[status] = errorResponse(description);
+    }
+    responses[500] = errorResponse('Erro interno');
+
+    paths[path] = paths[path] || {};
+    paths[path][operation.method] = {
+      summary: operation.summary,
+      ...(operation.description ? { description: operation.description } : {}),
+      tags: operation.tags,
+      operationId: `${operation.method}${operation.path.replace(/[/:-](\w)/g, (_, c: string) => c.toUpperCase())}`,
+      parameters: [...toParameters(operation.params, 'path'), ...toParameters(operation.query, 'query')],
+      ...(operation.body
+        ? {
+            requestBody: {
+              required: true,
+              content: { 'application/json': { schema: zodToJsonSchema(operation.body) } }
+            }
+          }
+        : {}),
+      responses
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    servers: [{ url: '/' }],
+    paths,
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            success: { const: false },
+            error: { type: 'string', description: 'Mensagem legível (pode mudar entre versões)' },
+            code: { type: 'string', enum: [...ERROR_CODES] },
+            details: {}
+          },
+          required: ['success', 'error', 'code']
+        }
+      },
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: 'connect.sid' },
+        apiToken: { type: 'http', scheme: 'bearer', description: 'Token de API (aqt_...)' }
+      }
+    },
+    security: [{ session: [] }, { apiToken: [] }]
+  };
+}
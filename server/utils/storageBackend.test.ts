@@ -0,0 +1,31 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { assertSqliteReadings, getStorageBackend } from './storageBackend';
+import { ConflictError } from './errors';
+import { aggregateDailyData, aggregateHourlyData } from '../services/historicalDataService';
+import { backupService } from '../services/backupService';
+
+describe('storageBackend', () => {
+  afterEach(() => {
+    delete process.env.STORAGE_BACKEND;
+  });
+
+  it('usa o SQLite por padrão e para valores desconhecidos', () => {
+    expect(getStorageBackend()).toBe('sqlite');
+    process.env.STORAGE_BACKEND = 'mysql';
+    expect(getStorageBackend()).toBe('sqlite');
+    process.env.STORAGE_BACKEND = 'Postgres';
+    expect(getStorageBackend()).toBe('postgres');
+  });
+
+  it('recusa os recursos que leem as leituras do SQLite com o PostgreSQL', async () => {
+    expect(() => assertSqliteReadings('O backup')).not.toThrow();
+
+    process.env.STORAGE_BACKEND = 'postgres';
+
+    expect(() => assertSqliteReadings('O backup')).toThrow(ConflictError);
+    await expect(aggregateHourlyData(0, Date.now())).rejects.toBeInstanceOf(ConflictError);
+    await expect(aggregateDailyData(0, Date.now())).rejects.toBeInstanceOf(ConflictError);
+    await expect(backupService.syncData()).rejects.toBeInstanceOf(ConflictError);
+    await expect(backupService.getBackupStats()).rejects.toBeInstanceOf(ConflictError);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Banco das leituras, escolhido pela variável STORAGE_BACKEND (ver createStorage em storage.ts)
+ *
+ * Com o PostgreSQL, as leituras novas não chegam à tabela readings do aquaponia.db. Os recursos que
+ * leem essa tabela diretamente (agregação do histórico, backup, retenção) chamam
+ * assertSqliteReadings e falham com 409 em vez de trabalhar com dados parados.
+ */
+
+import { ConflictError } from './errors';
+
+export type StorageBackend = 'sqlite' | 'postgres';
+
+export function getStorageBackend(): StorageBackend {
+  return (process.env.STORAGE_BACKEND || 'sqlite').toLowerCase() === 'postgres' ? 'postgres' : 'sqlite';
+}
+
+/**
+ * @param feature Recurso que depende das leituras do SQLite (usado na mensagem de erro)
+ * @throws ConflictError se as leituras estiverem no PostgreSQL
+ */
+export function assertSqliteReadings(feature: string): void {
+  if (getStorageBackend() === 'postgres') {
+    throw new ConflictError(
+      `${feature} usa as leituras do SQLite e não está disponível com STORAGE_BACKEND=postgres`,
+      { storageBackend: 'postgres' }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Códigos de erro da API, compartilhados entre servidor e interface
+ * Toda resposta de erro segue ApiErrorBody; os clientes devem decidir pelo code, não pela mensagem.
+ */
+
+export const ERROR_CODES = [
+  'VALIDATION_FAILED',     // 400 - parâmetros, query ou body inválidos
+  'UNAUTHORIZED',          // 401 - sem sessão, credenciais ou token inválidos
+  'FORBIDDEN',             // 403 - papel ou escopo insuficiente
+  'NOT_FOUND',             // 404 - recurso ou rota inexistente
+  'CONFLICT',              // 409 - conflito com o estado atual (ex: nome duplicado)
+  'INTERLOCKED',           // 409 - comando bloqueado por intertravamento de segurança
+  'RATE_LIMITED',          // 429 - tentativas demais, aguarde antes de repetir
+  'UPSTREAM_UNAVAILABLE',  // 503 - ThingSpeak, broker ou outro serviço externo indisponível
+  'INTERNAL_ERROR'         // 500 - erro inesperado no servidor
+] as const;
+
+export type ErrorCode = typeof ERROR_CODES[number];
+
+export interface ApiErrorBody {
+  success: false;
+  // Mensagem legível (pode mudar entre versões)
+  error: string;
+  code: ErrorCode;
+  details?: unknown;
+}
@@ -0,0 +1,203 @@
+/**
+ * Modelo canônico das leituras, compartilhado entre servidor e interface
+ *
+ * Unidades:
+ * - temperature: °C
+ * - level: nível do tanque em % (0-100), nunca fração 0-1
+ * - pumpStatus / heaterStatus: estado dos atuadores (true = ligado)
+ * - timestamp: milissegundos desde 1970 (UTC)
+ *
+ * Linhas do banco (snake_case, estados 0/1, datas em número ou texto) e entradas do ThingSpeak
+ * (field1..field4) só viram Reading pelos codecs deste módulo, nas bordas do armazenamento e do
+ * transporte. O restante do código (regras, gráficos, APIs) trabalha apenas com Reading.
+ */
+
+import { z } from 'zod';
+
+// Dispositivo padrão (tanque principal), o mesmo de DEFAULT_DEVICE_ID em schema.ts
+const MAIN_DEVICE_ID = 1;
+
+export const readingSchema = z.object({
+  id: z.number().int(),
+  deviceId: z.number().int(),
+  temperature: z.number().describe('Temperatura da água (°C)'),
+  level: z.number().describe('Nível do tanque (%, 0-100)'),
+  pumpStatus: z.boolean().describe('Bomba ligada'),
+  heaterStatus: z.boolean().describe('Aquecedor ligado'),
+  timestamp: z.number().int().describe('Milissegundos desde 1970 (UTC)')
+});
+
+export type Reading = z.infer<typeof readingSchema>;
+
+/**
+ * Leitura ainda não gravada: sem id; tanque principal e horário atual quando omitidos
+ */
+export type NewReading = Omit<Reading, 'id' | 'deviceId' | 'timestamp'> & {
+  deviceId?: number;
+  timestamp?: number;
+};
+
+/**
+ * Linha da tabela readings como vem do SQLite ou do PostgreSQL
+ */
+export interface ReadingRowLike {
+  id?: number | null;
+  device_id?: number | null;
+  temperature: number;
+  level: number;
+  pump_status?: number | boolean | null;
+  heater_status?: number | boolean | null;
+  timestamp?: unknown;
+}
+
+/**
+ * Campos de uma entrada do ThingSpeak (ou do emulador, que usa o mesmo formato)
+ */
+export interface ReadingFeedLike {
+  created_at?: string;
+  field1?: string | number | null;
+  field2?: string | number | null;
+  field3?: string | number | null;
+  field4?: string | number | null;
+}
+
+/**
+ * Converte os formatos de data encontrados nas leituras para milissegundos
+ * Aceita Date, milissegundos (número ou texto), ISO 8601 e 'AAAA-MM-DD HH:MM:SS' (CURRENT_TIMESTAMP
+ * do SQLite, em UTC). Valores inválidos ou ausentes viram o fallback.
+ */
+export function toReadingTimestamp(value: unknown, fallback = Date.now()): number {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? fallback : value.getTime();
+  }
+
+  if (typeof value === 'number') {
+    return isFinite(value) ? Math.round(value) : fallback;
+  }
+
+  if (typeof value === 'string' && value.trim() !== '') {
+    const text = value.trim();
+    if (/^\d+(\.\d+)?$/.test(text)) return Math.round(Number(text));
+
+    const sqliteFormat = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/.test(text);
+    const parsed = Date.parse(sqliteFormat ? text.replace(' ', 'T') + 'Z' : text);
+    return isNaN(parsed) ? fallback : parsed;
+  }
+
+  return fallback;
+}
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'string' ? parseFloat(value.replace(',', '.')) : Number(value);
+  return isFinite(parsed) ? parsed : 0;
+}
+
+// 0/1, true/false ou '0'/'1'/'true'/'false'
+function toFlag(value: unknown): boolean {
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    return normalized === '1' || normalized === 'true';
+  }
+  if (typeof value === 'number') return value !== 0;
+  return value === true;
+}
+
+/**
+ * Linha do banco → Reading
+ */
+export function readingFromRow(row: ReadingRowLike): Reading {
+  return {
+    id: row.id ?? 0,
+    deviceId: row.device_id ?? MAIN_DEVICE_ID,
+    temperature: toNumber(row.temperature),
+    level: toNumber(row.level),
+    pumpStatus: toFlag(row.pump_status),
+    heaterStatus: toFlag(row.heater_status),
+    timestamp: toReadingTimestamp(row.timestamp)
+  };
+}
+
+/**
+ * Reading → colunas da tabela readings (estados 0/1, timestamp em milissegundos)
+ */
+export function readingToRow(reading: NewReading) {
+  return {
+    device_id: reading.deviceId ?? MAIN_DEVICE_ID,
+    temperature: reading.temperature,
+    level: reading.level,
+    pump_status: reading.pumpStatus ? 1 : 0,
+    heater_status: reading.heaterStatus ? 1 : 0,
+    timestamp: reading.timestamp ?? Date.now()
+  };
+}
+
+/**
+ * Entrada do ThingSpeak → NewReading
+ * field1 é a temperatura (°C), field2 o nível (%), field3/field4 os estados da bomba e do aquecedor.
+ * @param overrides Valores que prevalecem sobre a entrada (ex: estados dos atuadores em memória)
+ */
+export function readingFromFeed(feed: ReadingFeedLike, overrides: Partial<NewReading> = {}): NewReading {
+  return {
+    temperature: toNumber(feed.field1),
+    level: toNumber(feed.field2),
+    pumpStatus: toFlag(feed.field3),
+    heaterStatus: toFlag(feed.field4),
+    timestamp: toReadingTimestamp(feed.created_at),
+    ...overrides
+  };
+}
+
+/**
+ * Leitura de um sensor adicional (pH, oxigênio dissolvido...), no formato longo
+ * A unidade e as faixas válida e de alerta ficam no registro de sensores (tabela sensors).
+ */
+export const sensorReadingSchema = z.object({
+  id: z.number().int(),
+  deviceId: z.number().int(),
+  sensorKey: z.string().describe('Chave do sensor no registro (ex: ph)'),
+  value: z.number().describe('Valor na unidade do sensor'),
+  timestamp: z.number().int().describe('Milissegundos desde 1970 (UTC)')
+});
+
+export type SensorReading = z.infer<typeof sensorReadingSchema>;
+
+export type NewSensorReading = Omit<SensorReading, 'id' | 'deviceId' | 'timestamp'> & {
+  deviceId?: number;
+  timestamp?: number;
+};
+
+/**
+ * Linha da tabela sensor_readings como vem do SQLite ou do PostgreSQL
+ */
+export interface SensorReadingRowLike {
+  id?: number | null;
+  device_id?: number | null;
+  sensor_key: string;
+  value: number;
+  timestamp?: unknown;
+}
+
+/**
+ * Linha do banco → SensorReading
+ */
+export function sensorReadingFromRow(row: SensorReadingRowLike): SensorReading {
+  return {
+    id: row.id ?? 0,
+    deviceId: row.device_id ?? MAIN_DEVICE_ID,
+    sensorKey: row.sensor_key,
+    value: toNumber(row.value),
+    timestamp: toReadingTimestamp(row.timestamp)
+  };
+}
+
+/**
+ * SensorReading → colunas da tabela sensor_readings (timestamp em milissegundos)
+ */
+export function sensorReadingToRow(reading: NewSensorReading) {
+  return {
+    device_id: reading.deviceId ?? MAIN_DEVICE_ID,
+    sensor_key: reading.sensorKey,
+    value: reading.value,
+    timestamp: reading.timestamp ?? Date.now()
+  };
+}
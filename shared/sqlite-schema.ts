@@ -4,14 +4,39 @@ import {
   integer, 
   real,
   text,
-  primaryKey
+  primaryKey,
+  index,
+  uniqueIndex
 } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Dispositivo padrão (tanque principal), usado quando nenhum dispositivo é informado
+export const DEFAULT_DEVICE_ID = 1;
+
+// Tanques/dispositivos monitorados por esta instalação (ex: grow bed, tanque de peixes, sump)
+export const devices = sqliteTable("devices", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  kind: text("kind").notNull().default('tank'), // 'grow_bed', 'fish_tank', 'sump', 'tank'
+  description: text("description"),
+  // Canais ThingSpeak próprios (vazio = usa o canal configurado no .env)
+  thingspeak_channel_id: text("thingspeak_channel_id"),
+  thingspeak_read_api_key: text("thingspeak_read_api_key"),
+  thingspeak_write_api_key: text("thingspeak_write_api_key"),
+  thingspeak_feedback_channel_id: text("thingspeak_feedback_channel_id"),
+  thingspeak_feedback_read_api_key: text("thingspeak_feedback_read_api_key"),
+  // Potência nominal dos atuadores, usada na estimativa de consumo de energia
+  pump_watts: real("pump_watts").notNull().default(35),
+  heater_watts: real("heater_watts").notNull().default(300),
+  active: integer("active").default(1),
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+});
+
 // Tabela de leituras principal (já existente no sistema)
 export const readings = sqliteTable("readings", {
   id: integer("id").primaryKey({ autoIncrement: true }),
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID),
   temperature: real("temperature").notNull(),
   level: real("level").notNull(),
   pump_status: integer("pump_status").default(0),
@@ -19,9 +44,42 @@ export const readings = sqliteTable("readings", {
   timestamp: integer("timestamp").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Tipos de sensores adicionais; temperatura da água e nível continuam na tabela readings
+export const SENSOR_TYPES = ['ph', 'dissolved_oxygen', 'temperature', 'humidity', 'flow', 'pressure', 'level', 'other'] as const;
+
+// Registro dos sensores adicionais: tipo, unidade, faixa válida e faixa de alerta
+export const sensors = sqliteTable("sensors", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  key: text("key").notNull().unique(), // identificador usado na ingestão e na API (ex: 'ph')
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  unit: text("unit").notNull().default(''),
+  // Valores fora da faixa válida são descartados como falha do sensor
+  min_value: real("min_value").notNull(),
+  max_value: real("max_value").notNull(),
+  // Faixa de alerta (vazio = sem limite)
+  alert_min: real("alert_min"),
+  alert_max: real("alert_max"),
+  decimals: integer("decimals").notNull().default(1),
+  active: integer("active").default(1),
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+});
+
+// Leituras dos sensores adicionais no formato longo (uma linha por sensor e instante)
+export const sensorReadings = sqliteTable("sensor_readings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID),
+  sensor_key: text("sensor_key").notNull(),
+  value: real("value").notNull(),
+  timestamp: integer("timestamp").notNull(), // timestamp em milissegundos
+}, (table) => ({
+  deviceKeyTimestampIdx: index("idx_sensor_readings_device_key_timestamp").on(table.device_id, table.sensor_key, table.timestamp),
+}));
+
 // Nova tabela para agregações de dados históricos
 export const historicalData = sqliteTable("historical_data", {
   id: integer("id").primaryKey({ autoIncrement: true }),
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID),
   date: integer("date").notNull(), // timestamp em milissegundos
   period_type: text("period_type").notNull(), // 'hourly', 'daily', 'weekly', 'monthly'
   avg_temperature: real("avg_temperature"),
@@ -33,11 +91,14 @@ export const historicalData = sqliteTable("historical_data", {
   pump_on_percentage: real("pump_on_percentage"), // % de tempo que a bomba ficou ligada
   heater_on_percentage: real("heater_on_percentage"), // % de tempo que o aquecedor ficou ligado
   records_count: integer("records_count"), // quantidade de registros na agregação
-});
+}, (table) => ({
+  deviceDatePeriodIdx: uniqueIndex("idx_historical_data_device_date_period").on(table.device_id, table.date, table.period_type),
+}));
 
 // Tabela para os setpoints de configuração
 export const setpoints = sqliteTable("setpoints", {
   id: integer("id").primaryKey({ autoIncrement: true }),
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID),
   temp_min: real("temp_min"),
   temp_max: real("temp_max"),
   level_min: real("level_min"),
@@ -71,10 +132,141 @@ export const systemEvents = sqliteTable("system_events", {
   event_type: text("event_type").notNull(), // 'error', 'warning', 'info'
   message: text("message").notNull(),
   details: text("details"),
+  device_id: integer("device_id"), // nulo para eventos gerais do sistema
   timestamp: integer("timestamp").default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Chaves de API por dispositivo para ingestão direta (POST /api/ingest)
+export const deviceKeys = sqliteTable("device_keys", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(), // identificação do nó (ex: 'nodemcu-tanque')
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID), // tanque ao qual as leituras pertencem
+  key_hash: text("key_hash").notNull().unique(), // SHA-256 da chave, a chave em si nunca é armazenada
+  key_prefix: text("key_prefix").notNull(), // primeiros caracteres para identificação na interface
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+  last_used_at: integer("last_used_at"), // timestamp em milissegundos
+  revoked: integer("revoked").default(0),
+});
+
+// Programações por horário (fuso de Brasília) para a bomba e o aquecedor
+export const schedules = sqliteTable("schedules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID),
+  name: text("name").notNull(), // ex: 'Dia', 'Noite', 'Aquecimento noturno'
+  target: text("target").notNull(), // 'pump', 'heater'
+  action: text("action").notNull(), // 'cycle' (bomba), 'on', 'off', 'auto' (aquecedor pelo termostato)
+  days_of_week: text("days_of_week").notNull().default('0,1,2,3,4,5,6'), // 0 = domingo
+  start_time: text("start_time").notNull(), // 'HH:MM'
+  end_time: text("end_time").notNull(), // 'HH:MM'; antes do início = atravessa a meia-noite
+  pump_on_seconds: integer("pump_on_seconds"), // apenas action = 'cycle'
+  pump_off_seconds: integer("pump_off_seconds"),
+  priority: integer("priority").notNull().default(0), // maior prioridade vence quando há sobreposição
+  enabled: integer("enabled").default(1),
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+  updated_at: integer("updated_at").notNull(), // timestamp em milissegundos
+});
+
+// Regras de automação condicionais ("SE temperatura < 22 por 10 min E aquecedor desligado ENTÃO ...")
+export const automationRules = sqliteTable("automation_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID),
+  name: text("name").notNull(),
+  description: text("description"),
+  match: text("match").notNull().default('all'), // 'all' (E) ou 'any' (OU) entre as condições
+  conditions: text("conditions").notNull(), // JSON: [{ field, operator, value, duration_sec }]
+  actions: text("actions").notNull(), // JSON: [{ type: 'command' | 'alert' | 'event', ... }]
+  cooldown_sec: integer("cooldown_sec").notNull().default(300), // intervalo mínimo entre acionamentos
+  enabled: integer("enabled").default(1),
+  last_triggered_at: integer("last_triggered_at"), // timestamp em milissegundos
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+  updated_at: integer("updated_at").notNull(), // timestamp em milissegundos
+});
+
+// Último estado conhecido dos atuadores e do ciclo automático de cada tanque (restaurado ao reiniciar)
+export const automationState = sqliteTable("automation_state", {
+  device_id: integer("device_id").primaryKey(),
+  pump_status: integer("pump_status").notNull().default(0),
+  heater_status: integer("heater_status").notNull().default(0),
+  operation_mode: integer("operation_mode").notNull().default(0), // 1 = automático, 0 = manual
+  target_temp: real("target_temp"),
+  pump_on_timer: integer("pump_on_timer"), // segundos
+  pump_off_timer: integer("pump_off_timer"), // segundos
+  pump_flow: integer("pump_flow"), // 0-100%
+  status_updated_at: integer("status_updated_at"), // timestamp em milissegundos
+  cycle_active: integer("cycle_active").notNull().default(0),
+  cycle_pump_status: integer("cycle_pump_status").notNull().default(0), // estado da bomba na fase atual
+  cycle_started_at: integer("cycle_started_at"), // início da fase atual (timestamp em milissegundos)
+  cycle_timer_total: integer("cycle_timer_total"), // duração da fase atual em segundos
+  cycle_updated_at: integer("cycle_updated_at"), // timestamp em milissegundos
+});
+
+// Tempo ligado, partidas e energia estimada de cada atuador, por tanque e por hora
+export const actuatorUsage = sqliteTable("actuator_usage", {
+  device_id: integer("device_id").notNull(),
+  actuator: text("actuator").notNull(), // 'pump' | 'heater'
+  period_start: integer("period_start").notNull(), // início da hora (timestamp em milissegundos)
+  on_seconds: real("on_seconds").notNull().default(0),
+  starts: integer("starts").notNull().default(0),
+  energy_wh: real("energy_wh").notNull().default(0),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.device_id, table.actuator, table.period_start] }),
+}));
+
+// Registro de auditoria dos comandos enviados aos atuadores
+export const auditLog = sqliteTable("audit_log", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  device_id: integer("device_id").notNull().default(DEFAULT_DEVICE_ID),
+  field: text("field").notNull(), // mesmos nomes de /api/devices/:deviceId/control/:actuator
+  old_value: text("old_value"), // JSON
+  new_value: text("new_value"), // JSON
+  source: text("source").notNull(), // 'ui' | 'api' | 'automation' | 'rule'
+  actor: text("actor"), // usuário da sessão ou responsável automático (ex: ciclo da bomba, nome da regra)
+  ip: text("ip"),
+  route: text("route"), // método e caminho da requisição
+  status_code: integer("status_code"),
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+});
+
+// Papéis dos usuários, do menor para o maior acesso
+export const USER_ROLES = ['viewer', 'operator', 'admin'] as const;
+
+// Contas locais de acesso à interface e à API
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  password_hash: text("password_hash").notNull(), // scrypt:salt:hash
+  role: text("role").notNull().default('viewer'), // 'viewer' | 'operator' | 'admin'
+  active: integer("active").default(1),
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+  last_login_at: integer("last_login_at"), // timestamp em milissegundos
+});
+
+// Escopos dos tokens de API
+export const API_TOKEN_SCOPES = ['readings:read', 'export:read', 'devices:control', 'settings:write'] as const;
+
+// Tokens de API para scripts e integrações (ex: Home Assistant), emitidos por administradores
+export const apiTokens = sqliteTable("api_tokens", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull(),
+  token_hash: text("token_hash").notNull().unique(), // SHA-256 do token
+  token_prefix: text("token_prefix").notNull(),
+  scopes: text("scopes").notNull(), // escopos separados por vírgula
+  created_by: integer("created_by"), // usuário que emitiu o token
+  created_at: integer("created_at").notNull(), // timestamp em milissegundos
+  expires_at: integer("expires_at").notNull(), // timestamp em milissegundos
+  last_used_at: integer("last_used_at"), // timestamp em milissegundos
+  revoked: integer("revoked").default(0),
+});
+
 // Esquemas Zod para validação e inferência
+export const insertDeviceSchema = createInsertSchema(devices, {
+  name: z.string().min(1).max(64),
+  kind: z.enum(['grow_bed', 'fish_tank', 'sump', 'tank']).optional(),
+  description: z.string().max(255).optional(),
+  pump_watts: z.number().min(0).max(10000).optional(),
+  heater_watts: z.number().min(0).max(10000).optional(),
+}).omit({ id: true, created_at: true });
+
 export const insertReadingSchema = createInsertSchema(readings, {
   temperature: z.number(),
   level: z.number(),
@@ -82,6 +274,19 @@ export const insertReadingSchema = createInsertSchema(readings, {
   heater_status: z.number().optional(),
 }).omit({ id: true });
 
+export const insertSensorSchema = createInsertSchema(sensors, {
+  key: z.string().regex(/^[a-z][a-z0-9_]{0,31}$/, 'Use letras minúsculas, números e sublinhado, começando por uma letra'),
+  name: z.string().min(1).max(64),
+  type: z.enum(SENSOR_TYPES),
+  unit: z.string().max(16).optional(),
+  min_value: z.number(),
+  max_value: z.number(),
+  alert_min: z.number().nullable().optional(),
+  alert_max: z.number().nullable().optional(),
+  decimals: z.number().int().min(0).max(4).optional(),
+  active: z.boolean().optional(),
+}).omit({ id: true, created_at: true });
+
 export const insertHistoricalDataSchema = createInsertSchema(historicalData, {
   date: z.number(), // timestamp em milissegundos
   period_type: z.enum(['hourly', 'daily', 'weekly', 'monthly']),
@@ -120,21 +325,139 @@ export const insertSyncHistorySchema = createInsertSchema(syncHistory, {
 export const insertSystemEventSchema = createInsertSchema(systemEvents, {
   event_type: z.enum(['error', 'warning', 'info']),
   message: z.string(),
-  details: z.string().optional()
+  details: z.string().optional(),
+  device_id: z.number().int().positive().optional()
 }).omit({ id: true, timestamp: true });
 
+export const insertDeviceKeySchema = createInsertSchema(deviceKeys, {
+  name: z.string().min(1).max(64),
+}).omit({ id: true, last_used_at: true, revoked: true });
+
+const scheduleTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Horário deve estar no formato HH:MM');
+
+export const insertScheduleSchema = createInsertSchema(schedules, {
+  name: z.string().min(1).max(64),
+  target: z.enum(['pump', 'heater']),
+  action: z.enum(['cycle', 'on', 'off', 'auto']),
+  days_of_week: z.string().regex(/^[0-6](,[0-6])*$/, 'Dias da semana devem ser números de 0 (domingo) a 6 separados por vírgula').optional(),
+  start_time: scheduleTimeSchema,
+  end_time: scheduleTimeSchema,
+  pump_on_seconds: z.number().int().min(1).max(86400).optional(),
+  pump_off_seconds: z.number().int().min(1).max(86400).optional(),
+  priority: z.number().int().min(0).max(100).optional(),
+  enabled: z.boolean().optional(),
+}).omit({ id: true, created_at: true, updated_at: true }).superRefine((schedule, ctx) => {
+  if (schedule.target === 'pump' && schedule.action === 'auto') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['action'], message: "A bomba aceita 'cycle', 'on' ou 'off'" });
+  }
+  if (schedule.target === 'heater' && schedule.action === 'cycle') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['action'], message: "O aquecedor aceita 'on', 'off' ou 'auto'" });
+  }
+  if (schedule.action === 'cycle' && (!schedule.pump_on_seconds || !schedule.pump_off_seconds)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pump_on_seconds'], message: 'Ciclos exigem pump_on_seconds e pump_off_seconds' });
+  }
+});
+
+// Campos das leituras que podem ser usados nas condições das regras
+export const RULE_READING_FIELDS = ['temperature', 'level', 'pump_status', 'heater_status'] as const;
+
+// Atuadores que as regras podem comandar (mesmos de /api/devices/:deviceId/control/:actuator)
+export const RULE_ACTUATORS = ['pump', 'heater', 'mode', 'target-temperature', 'pump-on-timer', 'pump-off-timer', 'pump-flow'] as const;
+
+export const ruleConditionSchema = z.object({
+  field: z.enum(RULE_READING_FIELDS),
+  operator: z.enum(['<', '<=', '>', '>=', '==', '!=']),
+  value: z.number(),
+  duration_sec: z.number().int().min(0).max(86400).default(0), // tempo mínimo em que a condição deve se manter
+});
+
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('command'),
+    actuator: z.enum(RULE_ACTUATORS),
+    value: z.union([z.boolean(), z.number()]),
+  }),
+  z.object({
+    type: z.literal('alert'),
+    message: z.string().max(500).optional(),
+  }),
+  z.object({
+    type: z.literal('event'),
+    level: z.enum(['info', 'warning', 'error']).default('info'),
+    message: z.string().max(500).optional(),
+  }),
+]);
+
+export const insertAutomationRuleSchema = createInsertSchema(automationRules, {
+  name: z.string().min(1).max(64),
+  description: z.string().max(255).optional(),
+  match: z.enum(['all', 'any']).optional(),
+  cooldown_sec: z.number().int().min(0).max(7 * 86400).optional(),
+  enabled: z.boolean().optional(),
+}).omit({
+  id: true,
+  device_id: true,
+  conditions: true,
+  actions: true,
+  last_triggered_at: true,
+  created_at: true,
+  updated_at: true
+}).extend({
+  conditions: z.array(ruleConditionSchema).min(1).max(10),
+  actions: z.array(ruleActionSchema).min(1).max(10),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: z.string().min(3).max(32).regex(/^[a-zA-Z0-9._-]+$/, 'Use apenas letras, números, ponto, hífen ou sublinhado'),
+  role: z.enum(USER_ROLES).optional(),
+  active: z.boolean().optional(),
+}).omit({ id: true, password_hash: true, created_at: true, last_login_at: true }).extend({
+  password: z.string().min(8).max(128),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  name: z.string().min(1).max(64),
+}).pick({ name: true }).extend({
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  expires_in_days: z.number().int().min(1).max(3650).default(90),
+});
+
 // Tipos de inserção
+export type InsertDevice = z.infer<typeof insertDeviceSchema>;
 export type InsertReading = z.infer<typeof insertReadingSchema>;
+export type InsertSensor = z.infer<typeof insertSensorSchema>;
+export type SensorType = typeof SENSOR_TYPES[number];
 export type InsertHistoricalData = z.infer<typeof insertHistoricalDataSchema>;
 export type InsertSetpoints = z.infer<typeof insertSetpointsSchema>;
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type InsertSyncHistory = z.infer<typeof insertSyncHistorySchema>;
 export type InsertSystemEvent = z.infer<typeof insertSystemEventSchema>;
+export type InsertDeviceKey = z.infer<typeof insertDeviceKeySchema>;
+export type InsertSchedule = z.infer<typeof insertScheduleSchema>;
+export type InsertAutomationRule = z.infer<typeof insertAutomationRuleSchema>;
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type RuleAction = z.infer<typeof ruleActionSchema>;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserRole = typeof USER_ROLES[number];
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
 
 // Tipos de seleção
-export type Reading = typeof readings.$inferSelect;
+export type Device = typeof devices.$inferSelect;
+// Linha da tabela readings; o restante do sistema usa o modelo Reading de shared/reading.ts
+export type ReadingRow = typeof readings.$inferSelect;
+export type Sensor = typeof sensors.$inferSelect;
+export type SensorReadingRow = typeof sensorReadings.$inferSelect;
 export type HistoricalData = typeof historicalData.$inferSelect;
 export type Setpoints = typeof setpoints.$inferSelect;
 export type Settings = typeof settings.$inferSelect;
 export type SyncHistory = typeof syncHistory.$inferSelect;
-export type SystemEvent = typeof systemEvents.$inferSelect;
\ No newline at end of file
+export type SystemEvent = typeof systemEvents.$inferSelect;
+export type DeviceKey = typeof deviceKeys.$inferSelect;
+export type Schedule = typeof schedules.$inferSelect;
+export type AutomationRule = typeof automationRules.$inferSelect;
+export type AutomationState = typeof automationState.$inferSelect;
+export type ActuatorUsage = typeof actuatorUsage.$inferSelect;
+export type AuditLog = typeof auditLog.$inferSelect;
+export type User = typeof users.$inferSelect;
+export type ApiToken = typeof apiTokens.$inferSelect;
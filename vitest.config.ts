@@ -0,0 +1,24 @@
+import { defineConfig } from "vitest/config";
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "client", "src"),
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts"],
+    // Os serviços abrem ./aquaponia.db relativo ao diretório atual: cada arquivo de teste roda
+    // em um processo próprio, dentro de um diretório temporário (ver server/test/setup.ts)
+    pool: "forks",
+    setupFiles: ["server/test/setup.ts"],
+    testTimeout: 20000,
+  },
+});